@@ -0,0 +1,145 @@
+/**
+ * Snapshot Command
+ *
+ * Downloads everything the search tools read — the docs llms.txt and every
+ * docs page it lists (the .md version where available, else the HTML page),
+ * the SDK mapping llms.txt, each per-SDK llms.txt and every source file they
+ * reference — into an offline snapshot archive.
+ */
+
+import { readFile } from "fs/promises";
+import { MCP_SERVER_VERSION } from "../constants.js";
+import { ApiError } from "../errors.js";
+import { KO_LLMS_URL, markdownPageUrl, parseLlmsTxt, resolveDocUrl } from "../tools/search-docs.js";
+import {
+  MAPPING_LLMS_URL,
+  parseMappingLlmsUrls,
+  parseSdkLlmsTxt,
+  pickLocalSdkLlmsPath,
+} from "../tools/search-sdk.js";
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_FORMAT_VERSION,
+  writeSnapshot,
+  type SnapshotArchive,
+} from "../utils/snapshot.js";
+import { httpFetch } from "../utils/http-client.js";
+
+export interface SnapshotOptions {
+  /** Where to write the archive */
+  outPath: string;
+  /** Number of parallel downloads (default: 4) */
+  concurrency?: number;
+  /** Progress logger (stderr in the CLI) */
+  log?: (message: string) => void;
+}
+
+export interface SnapshotResult {
+  outPath: string;
+  entryCount: number;
+  failures: Array<{ url: string; reason: string }>;
+}
+
+async function download(url: string): Promise<string> {
+  const response = await httpFetch(url, { accept: "text/plain, text/html, */*" });
+  return await response.text();
+}
+
+/**
+ * Run `task` over `items` with at most `limit` in flight
+ */
+async function forEachWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++] as T;
+      await task(item);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Crawl docs and SDK indexes and write a snapshot archive
+ */
+export async function createSnapshot(options: SnapshotOptions): Promise<SnapshotResult> {
+  const concurrency = options.concurrency ?? 4;
+  const log = options.log ?? (() => undefined);
+  const entries: Record<string, string> = {};
+  const failures: SnapshotResult["failures"] = [];
+
+  /** Download into the archive; optional downloads are not reported as failures */
+  const capture = async (url: string, optional = false): Promise<string | undefined> => {
+    if (entries[url] !== undefined) return entries[url];
+    try {
+      const body = await download(url);
+      entries[url] = body;
+      return body;
+    } catch (error) {
+      if (optional) return undefined;
+      const reason = error instanceof Error ? error.message : String(error);
+      failures.push({ url, reason });
+      log(`  ! ${url}: ${reason}`);
+      return undefined;
+    }
+  };
+
+  // Documentation: llms.txt index plus every page it lists
+  log(`Fetching docs index ${KO_LLMS_URL}`);
+  const docsIndex = await capture(KO_LLMS_URL);
+  if (docsIndex) {
+    const pageUrls = Array.from(new Set(parseLlmsTxt(docsIndex).map((l) => resolveDocUrl(l.url))));
+    log(`Fetching ${pageUrls.length} docs pages`);
+    await forEachWithConcurrency(pageUrls, concurrency, async (url) => {
+      if ((await capture(markdownPageUrl(url), true)) === undefined) {
+        await capture(url);
+      }
+    });
+  }
+
+  // SDKs: mapping llms.txt (local fallback), per-SDK indexes, then sources
+  log(`Fetching SDK mapping ${MAPPING_LLMS_URL}`);
+  let mapping = await capture(MAPPING_LLMS_URL);
+  if (!mapping) {
+    mapping = await readFile(pickLocalSdkLlmsPath(), "utf8");
+    entries[MAPPING_LLMS_URL] = mapping;
+    log(`  Using bundled mapping llms.txt`);
+  }
+
+  const sourceUrls = new Set<string>();
+  for (const indexUrl of parseMappingLlmsUrls(mapping)) {
+    log(`Fetching SDK index ${indexUrl}`);
+    const index = await capture(indexUrl);
+    if (!index) continue;
+    for (const entry of parseSdkLlmsTxt(index)) {
+      if (entry.file.startsWith("https://raw.githubusercontent.com/")) {
+        sourceUrls.add(entry.file);
+      }
+    }
+  }
+  log(`Fetching ${sourceUrls.size} SDK source files`);
+  await forEachWithConcurrency(Array.from(sourceUrls), concurrency, async (url) => {
+    await capture(url);
+  });
+
+  if (!docsIndex && Object.keys(entries).length <= 1) {
+    throw new ApiError(
+      `Snapshot failed: neither the docs index nor any SDK index could be downloaded.`
+    );
+  }
+
+  const archive: SnapshotArchive = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    serverVersion: MCP_SERVER_VERSION,
+    entries,
+  };
+  await writeSnapshot(options.outPath, archive);
+
+  return { outPath: options.outPath, entryCount: Object.keys(entries).length, failures };
+}
@@ -2,6 +2,8 @@
  * Constants and configuration values for Notifly MCP Server
  */
 
+import os from "os";
+import path from "path";
 import pkg from "../package.json" with { type: "json" };
 
 /** MCP Server name */
@@ -16,6 +18,56 @@ export const MCP_USER_AGENT = `Notifly-MCP-Server/${MCP_SERVER_VERSION}`;
 /** Default Notifly API base URL */
 export const DEFAULT_API_BASE_URL = "https://api.notifly.tech";
 
+/** Notifly API base URL used by the workspace tools */
+export const NOTIFLY_API_URL = process.env.NOTIFLY_API_URL || DEFAULT_API_BASE_URL;
+
+/** Notifly API credentials; workspace tools are unavailable without them */
+export const NOTIFLY_API_KEY = process.env.NOTIFLY_API_KEY || "";
+export const NOTIFLY_API_SECRET = process.env.NOTIFLY_API_SECRET || "";
+
+/** Project used by workspace tools called without projectId */
+export const NOTIFLY_PROJECT_ID = process.env.NOTIFLY_PROJECT_ID || "";
+
+/** Allow send_test_message to send real messages (dry runs are always allowed) */
+export const NOTIFLY_ALLOW_SEND = process.env.NOTIFLY_ALLOW_SEND === "true";
+
+/** Comma-separated recipients that may receive real test sends */
+export const NOTIFLY_SEND_ALLOWLIST = (process.env.NOTIFLY_SEND_ALLOWLIST || "")
+  .split(",")
+  .map((recipient) => recipient.trim())
+  .filter(Boolean);
+
+/** Allow set_user_properties and track_event to write to the workspace */
+export const NOTIFLY_ALLOW_WRITE = process.env.NOTIFLY_ALLOW_WRITE === "true";
+
+/** Comma-separated user IDs set_user_properties and track_event may write to */
+export const NOTIFLY_WRITE_ALLOWLIST = (process.env.NOTIFLY_WRITE_ALLOWLIST || "")
+  .split(",")
+  .map((userId) => userId.trim())
+  .filter(Boolean);
+
+/** Directory audit_integration may read projects from; required for it over HTTP */
+export const NOTIFLY_PROJECTS_DIR = process.env.NOTIFLY_PROJECTS_DIR || "";
+
+/** Directory tools may read fixture files from (connectedContentFile, containerPath); file inputs are refused when unset */
+export const NOTIFLY_FIXTURES_DIR = process.env.NOTIFLY_FIXTURES_DIR || "";
+
+/** Requests per second the workspace tools send to the Notifly API (0 disables the limit) */
+export const NOTIFLY_API_RATE_LIMIT = parseInt(process.env.NOTIFLY_API_RATE_LIMIT || "10", 10);
+
+/** Headers carrying a Notifly webhook's signature and the Unix time it was signed at */
+export const WEBHOOK_SIGNATURE_HEADER = "x-notifly-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-notifly-timestamp";
+
+/** Oldest webhook delivery (seconds) whose signature is accepted, against replays */
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/** Largest APNs payload (bytes) Apple accepts for a remote notification */
+export const APNS_PAYLOAD_MAX_BYTES = 4096;
+
+/** Largest FCM `data` payload (bytes) Firebase accepts */
+export const FCM_DATA_MAX_BYTES = 4000;
+
 /** Default timeout for API requests (ms) */
 export const DEFAULT_API_TIMEOUT = parseInt(
   process.env.DEFAULT_API_TIMEOUT || process.env.API_TIMEOUT || "30000",
@@ -28,8 +80,92 @@ export const MAX_API_RETRIES = parseInt(
   10
 );
 
+/** Base delay for exponential backoff between API retries (ms) */
+export const API_RETRY_BASE_DELAY_MS = parseInt(process.env.API_RETRY_BASE_DELAY_MS || "500", 10);
+
+/** Upper bound for a single retry delay, including Retry-After (ms) */
+export const API_RETRY_MAX_DELAY_MS = parseInt(process.env.API_RETRY_MAX_DELAY_MS || "30000", 10);
+
 /** Docs search default max results */
 export const DOCS_SEARCH_MAX_RESULTS = parseInt(process.env.DOCS_SEARCH_MAX_RESULTS || "3", 10);
 
+/** Sections shown per page in docs search results */
+export const DOCS_SECTIONS_PER_PAGE = parseInt(process.env.DOCS_SECTIONS_PER_PAGE || "2", 10);
+
+/** Content returned per call by get_doc_page, in characters (at least one section per call) */
+export const DOCS_PAGE_MAX_LENGTH = parseInt(process.env.DOCS_PAGE_MAX_LENGTH || "12000", 10);
+
 /** SDK search default max results */
 export const SDK_SEARCH_MAX_RESULTS = parseInt(process.env.SDK_SEARCH_MAX_RESULTS || "3", 10);
+
+/** Symbol chunks shown per file in SDK search results */
+export const SDK_CHUNKS_PER_FILE = parseInt(process.env.SDK_CHUNKS_PER_FILE || "2", 10);
+
+/** Lines returned per call by get_sdk_file */
+export const SDK_FILE_PAGE_LINES = parseInt(process.env.SDK_FILE_PAGE_LINES || "300", 10);
+
+/** Total length of the unified diffs returned by compare_sdk_versions, in characters */
+export const SDK_DIFF_MAX_LENGTH = parseInt(process.env.SDK_DIFF_MAX_LENGTH || "20000", 10);
+
+/** Files listed per project by audit_integration before the scan stops */
+export const AUDIT_MAX_FILES = parseInt(process.env.AUDIT_MAX_FILES || "20000", 10);
+
+/** Default bind address for the Streamable HTTP transport */
+export const DEFAULT_HTTP_HOST = process.env.NOTIFLY_HTTP_HOST || "127.0.0.1";
+
+/** Default port for the Streamable HTTP transport */
+export const DEFAULT_HTTP_PORT = parseInt(process.env.NOTIFLY_HTTP_PORT || "3000", 10);
+
+/** Path of the MCP endpoint served by the Streamable HTTP transport */
+export const HTTP_MCP_PATH = "/mcp";
+
+/** Maximum accepted JSON-RPC request body size for the HTTP transport (bytes) */
+export const HTTP_MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Extra Host header values the HTTP transport accepts, comma-separated (e.g. a gateway's host:port) */
+export const HTTP_ALLOWED_HOSTS = (process.env.NOTIFLY_HTTP_ALLOWED_HOSTS || "")
+  .split(",")
+  .map((host) => host.trim())
+  .filter(Boolean);
+
+/** Extra Origin header values the HTTP transport accepts, comma-separated (e.g. a web client) */
+export const HTTP_ALLOWED_ORIGINS = (process.env.NOTIFLY_HTTP_ALLOWED_ORIGINS || "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+/** Idle time after which the HTTP transport closes a session (ms, default 30 minutes) */
+export const HTTP_SESSION_IDLE_TIMEOUT = parseInt(
+  process.env.NOTIFLY_HTTP_SESSION_IDLE_TIMEOUT || "1800000",
+  10
+);
+
+/** Whether the persistent response cache is enabled (set NOTIFLY_CACHE=false to disable) */
+export const CACHE_ENABLED = process.env.NOTIFLY_CACHE !== "false";
+
+/** Directory for the persistent response cache */
+export const DEFAULT_CACHE_DIR =
+  process.env.NOTIFLY_CACHE_DIR ||
+  path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache"), "notifly-mcp");
+
+/** How long cached indexes and pages are served without revalidation (ms) */
+export const CACHE_TTL_MS = parseInt(process.env.NOTIFLY_CACHE_TTL_MS || "3600000", 10);
+
+/** How long past the TTL a cached copy may be served while revalidating in the background (ms) */
+export const CACHE_STALE_TTL_MS = parseInt(
+  process.env.NOTIFLY_CACHE_STALE_TTL_MS || String(7 * 24 * 3600000),
+  10
+);
+
+/** Total size of cached bodies kept in memory; older entries are read back from disk (bytes) */
+export const CACHE_MEMORY_MAX_BYTES = parseInt(
+  process.env.NOTIFLY_CACHE_MEMORY_MAX_BYTES || String(32 * 1024 * 1024),
+  10
+);
+
+/** Serve all tool fetches from the offline snapshot instead of the network */
+export const OFFLINE_MODE = process.env.NOTIFLY_OFFLINE === "true";
+
+/** Location of the offline snapshot archive */
+export const DEFAULT_SNAPSHOT_PATH =
+  process.env.NOTIFLY_SNAPSHOT_PATH || path.join(DEFAULT_CACHE_DIR, "snapshot.json.gz");
@@ -51,6 +51,21 @@ export class ValidationError extends NotiflyMcpError {
   }
 }
 
+/**
+ * Error thrown when a message template cannot be parsed or rendered
+ */
+export class TemplateError extends ValidationError {
+  /** 1-based template line the error was found on */
+  public readonly line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = "TemplateError";
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.line = line;
+  }
+}
+
 /**
  * Error thrown when configuration is invalid
  */
@@ -89,6 +104,10 @@ export function formatErrorForUser(error: unknown): string {
     }
     return message;
   }
+  if (error instanceof AuthenticationError) {
+    return `[Authentication Error]\n\n${error.message}`;
+  }
+
   if (error instanceof ValidationError) {
     return `[Validation Error]\n\n${error.message}`;
   }
@@ -3,38 +3,96 @@
 /**
  * Notifly MCP Server - Main Entry Point
  *
- * Standalone MCP Server using StdioServerTransport for AI-powered
- * Notifly SDK and API integration assistance.
+ * Standalone MCP Server for AI-powered Notifly SDK and API integration
+ * assistance. Runs over stdio by default, or over Streamable HTTP with --http.
  */
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import { zodToJsonSchema } from "zod-to-json-schema";
-import { z } from "zod";
-import { MCP_TOOLS } from "./tools/index.js";
-import { MCP_SERVER_NAME, MCP_SERVER_VERSION } from "./constants.js";
-import { formatErrorForUser, ConfigurationError, ValidationError } from "./errors.js";
+import { createMcpServer } from "./server.js";
+import { startHttpServer } from "./transports/http.js";
+import { ResponseCache } from "./utils/cache.js";
+import { loadSnapshot } from "./utils/snapshot.js";
+import { NotiflyApiClient } from "./utils/api-client.js";
+import { createSnapshot } from "./commands/snapshot.js";
+import {
+  MCP_SERVER_NAME,
+  MCP_SERVER_VERSION,
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  HTTP_MCP_PATH,
+  CACHE_ENABLED,
+  DEFAULT_CACHE_DIR,
+  CACHE_TTL_MS,
+  CACHE_STALE_TTL_MS,
+  OFFLINE_MODE,
+  DEFAULT_SNAPSHOT_PATH,
+  NOTIFLY_ALLOW_SEND,
+  NOTIFLY_SEND_ALLOWLIST,
+  NOTIFLY_ALLOW_WRITE,
+  NOTIFLY_WRITE_ALLOWLIST,
+  NOTIFLY_FIXTURES_DIR,
+  NOTIFLY_PROJECTS_DIR,
+} from "./constants.js";
+import { ConfigurationError } from "./errors.js";
 import type { ServerContext } from "./types.js";
-// HTTP transport archived - see docs/archive/ for implementation
+
+interface CliArgs {
+  command?: "serve" | "snapshot";
+  help?: boolean;
+  version?: boolean;
+  http?: boolean;
+  host?: string;
+  port?: number;
+  cacheDir?: string;
+  noCache?: boolean;
+  offline?: boolean;
+  snapshotPath?: string;
+}
 
 /**
  * Parse command-line arguments
  */
-function parseArgs(): {
-  help?: boolean;
-  version?: boolean;
-} {
+function parseArgs(): CliArgs {
   const args = process.argv.slice(2);
-  const parsed: { help?: boolean; version?: boolean } = {};
+  const parsed: CliArgs = {};
 
   for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
+    const arg = args[i] ?? "";
+    // Support both "--port 3000" and "--port=3000"
+    const [flag, inlineValue] = arg.startsWith("--") ? arg.split(/=(.*)/s, 2) : [arg, undefined];
+    const takeValue = (): string => {
+      const value = inlineValue ?? args[++i];
+      if (value === undefined || value === "") {
+        throw new ConfigurationError(`Missing value for ${flag}`);
+      }
+      return value;
+    };
 
-    if (arg === "--help" || arg === "-h") {
+    if (flag === "--help" || flag === "-h") {
       parsed.help = true;
-    } else if (arg === "--version" || arg === "-v") {
+    } else if (flag === "--version" || flag === "-v") {
       parsed.version = true;
+    } else if (flag === "--http") {
+      parsed.http = true;
+    } else if (flag === "--host") {
+      parsed.host = takeValue();
+    } else if (flag === "--port") {
+      const raw = takeValue();
+      const port = Number(raw);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new ConfigurationError(`Invalid port: ${raw}`);
+      }
+      parsed.port = port;
+    } else if (flag === "--cache-dir") {
+      parsed.cacheDir = takeValue();
+    } else if (flag === "--no-cache") {
+      parsed.noCache = true;
+    } else if (flag === "--offline") {
+      parsed.offline = true;
+    } else if (flag === "--snapshot" || flag === "--out") {
+      parsed.snapshotPath = takeValue();
+    } else if (flag === "snapshot" && i === 0) {
+      parsed.command = "snapshot";
     }
   }
 
@@ -53,15 +111,49 @@ ${MCP_SERVER_NAME} v${MCP_SERVER_VERSION}
 Usage:
   notifly-mcp-server [options]
   npx notifly-mcp-server [options]
+  notifly-mcp-server snapshot [--out <path>]
 
 Options:
   --version, -v            Show version number
   --help, -h               Show this help message
-
-Note: HTTP transport has been archived. Only stdio transport is available.
+  --http                   Serve over Streamable HTTP instead of stdio
+                           (or set NOTIFLY_USE_HTTP=true)
+  --host <host>            HTTP bind address (default: ${DEFAULT_HTTP_HOST}, env NOTIFLY_HTTP_HOST)
+  --port <port>            HTTP port (default: ${DEFAULT_HTTP_PORT}, env NOTIFLY_HTTP_PORT)
+  --cache-dir <dir>        Response cache directory (default: ${DEFAULT_CACHE_DIR}, env NOTIFLY_CACHE_DIR)
+  --no-cache               Disable the response cache (or set NOTIFLY_CACHE=false)
+  --offline                Serve docs and SDK sources only from the offline snapshot
+                           (or set NOTIFLY_OFFLINE=true)
+  --snapshot <path>        Offline snapshot archive (default: ${DEFAULT_SNAPSHOT_PATH},
+                           env NOTIFLY_SNAPSHOT_PATH)
+
+Environment:
+  NOTIFLY_API_KEY, NOTIFLY_API_SECRET
+                           Notifly API credentials for the workspace tools
+                           (projects, campaigns, users, events and test sends)
+  NOTIFLY_PROJECT_ID       Default project for the workspace tools
+  NOTIFLY_ALLOW_SEND=true  Let send_test_message send real messages
+  NOTIFLY_SEND_ALLOWLIST   Comma-separated recipients allowed for real test sends
+  NOTIFLY_ALLOW_WRITE=true Let set_user_properties and track_event write to the workspace
+  NOTIFLY_WRITE_ALLOWLIST  Comma-separated user IDs they may write to
+  NOTIFLY_FIXTURES_DIR     Directory render_message_template and validate_gtm_container
+                           may read fixture files (connectedContentFile, containerPath) from
+  NOTIFLY_PROJECTS_DIR     Directory audit_integration may read projects from
+                           (required for it over HTTP)
+  NOTIFLY_HTTP_ALLOWED_HOSTS, NOTIFLY_HTTP_ALLOWED_ORIGINS
+                           Comma-separated Host and Origin values the HTTP transport
+                           accepts besides its own address (DNS rebinding protection)
+  NOTIFLY_HTTP_SESSION_IDLE_TIMEOUT
+                           Idle ms before an HTTP session is closed (default: 1800000)
+
+Commands:
+  snapshot                 Download docs pages, SDK indexes and SDK sources into an
+                           offline snapshot archive (--out <path> to override location)
 
 Examples:
   notifly-mcp-server
+  notifly-mcp-server --http --host 0.0.0.0 --port 8080
+  notifly-mcp-server snapshot && notifly-mcp-server --offline
 
 MCP Client Configuration:
   Add this to your MCP client configuration file:
@@ -75,12 +167,56 @@ MCP Client Configuration:
     }
   }
 
+  For a shared HTTP instance, point the client at http://<host>:<port>${HTTP_MCP_PATH}
+
 Documentation:
   https://docs.notifly.tech/mcp-server
   https://github.com/notifly-tech/notifly-mcp-server
 `);
 }
 
+/**
+ * Serve over Streamable HTTP until SIGINT/SIGTERM
+ */
+async function runHttp(args: CliArgs, context: ServerContext): Promise<void> {
+  const handle = await startHttpServer({
+    host: args.host ?? DEFAULT_HTTP_HOST,
+    port: args.port ?? DEFAULT_HTTP_PORT,
+    context: { ...context, remote: true },
+  });
+
+  console.error(`${MCP_SERVER_NAME} v${MCP_SERVER_VERSION} listening on ${handle.url} (http)`);
+
+  // Graceful shutdown: close open sessions, then stop accepting connections
+  let shuttingDown = false;
+  const shutdown = (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.error(`Received ${signal}, shutting down (${handle.sessionCount()} open sessions)`);
+    handle
+      .close()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        console.error("[Error] Failed to shut down cleanly:", error);
+        process.exit(1);
+      });
+  };
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+/**
+ * Download an offline snapshot and exit
+ */
+async function runSnapshot(args: CliArgs): Promise<void> {
+  const outPath = args.snapshotPath ?? DEFAULT_SNAPSHOT_PATH;
+  console.error(`Creating offline snapshot at ${outPath}`);
+  const result = await createSnapshot({ outPath, log: (message) => console.error(message) });
+  console.error(
+    `Snapshot written to ${result.outPath}: ${result.entryCount} entries, ${result.failures.length} failed`
+  );
+}
+
 /**
  * Main server function
  */
@@ -102,102 +238,38 @@ async function main() {
     process.exit(0);
   }
 
-  // Create server context
-  const context: ServerContext = {};
-
-  // Create MCP server instance
-  const server = new Server(
-    {
-      name: MCP_SERVER_NAME,
-      version: MCP_SERVER_VERSION,
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    }
-  );
-
-  // Register tools/list handler
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    const tools = Object.entries(MCP_TOOLS).map(([name, tool]) => {
-      // Convert Zod schema to JSON Schema for MCP compliance
-      const zodObject = z.object(tool.inputSchema);
-      const jsonSchema = zodToJsonSchema(zodObject, {
-        target: "jsonSchema7",
-        $refStrategy: "none",
-      });
+  if (args.command === "snapshot") {
+    await runSnapshot(args);
+    return;
+  }
 
-      return {
-        name,
-        description: tool.description || `Tool: ${name}`,
-        inputSchema: jsonSchema as any,
-      };
+  // Create server context
+  const context: ServerContext = {
+    api: NotiflyApiClient.fromEnv(),
+    sendPolicy: { enabled: NOTIFLY_ALLOW_SEND, allowlist: NOTIFLY_SEND_ALLOWLIST },
+    writePolicy: { enabled: NOTIFLY_ALLOW_WRITE, allowlist: NOTIFLY_WRITE_ALLOWLIST },
+    ...(NOTIFLY_FIXTURES_DIR ? { fixturesDir: NOTIFLY_FIXTURES_DIR } : {}),
+    ...(NOTIFLY_PROJECTS_DIR ? { projectsDir: NOTIFLY_PROJECTS_DIR } : {}),
+  };
+
+  if (args.offline || OFFLINE_MODE) {
+    const snapshotPath = args.snapshotPath ?? DEFAULT_SNAPSHOT_PATH;
+    context.snapshot = await loadSnapshot(snapshotPath);
+    console.error(
+      `Offline mode: serving ${context.snapshot.size} entries from ${snapshotPath} (created ${context.snapshot.createdAt})`
+    );
+  } else if (CACHE_ENABLED && !args.noCache) {
+    context.cache = new ResponseCache({
+      dir: args.cacheDir ?? DEFAULT_CACHE_DIR,
+      ttlMs: CACHE_TTL_MS,
+      staleTtlMs: CACHE_STALE_TTL_MS,
     });
+  }
 
-    return { tools };
-  });
-
-  // Register tools/call handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: rawArgs } = request.params;
-
-    const tool = MCP_TOOLS[name as keyof typeof MCP_TOOLS];
-    if (!tool) {
-      throw new ConfigurationError(
-        `Tool not found: ${name}. Available tools: ${Object.keys(MCP_TOOLS).join(", ")}`
-      );
-    }
-
-    try {
-      // Validate arguments using Zod schema before invoking the tool
-      const zodObject = z.object(tool.inputSchema);
-      const parseResult = zodObject.safeParse(rawArgs || {});
-
-      if (!parseResult.success) {
-        const errorDetails = parseResult.error.errors
-          .map((err) => `${err.path.join(".")}: ${err.message}`)
-          .join(", ");
-        throw new ValidationError(`Invalid arguments: ${errorDetails}`);
-      }
-
-      // Execute tool with validated arguments
-      const result = await tool.handler(parseResult.data as any, context);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: typeof result === "string" ? result : JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      // Format error for user-friendly display
-      const errorMessage = formatErrorForUser(error);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: errorMessage,
-          },
-        ],
-        isError: true,
-      };
-    }
-  });
-
-  // HTTP transport has been archived - only stdio transport is available
-  // Check if user tried to use HTTP transport
-  const useHttp = process.argv.includes("--http") || process.env.NOTIFLY_USE_HTTP === "true";
-
+  const useHttp = args.http || process.env.NOTIFLY_USE_HTTP === "true";
   if (useHttp) {
-    console.error("[Error] HTTP transport has been archived and is not available in this build.");
-    console.error(
-      "Please use stdio transport (default) or check docs/archive/ for HTTP implementation."
-    );
-    process.exit(1);
+    await runHttp(args, context);
+    return;
   }
 
   // Use stdio transport (default)
@@ -207,6 +279,7 @@ async function main() {
   // - stdin: ONLY valid MCP messages (JSON-RPC)
   // - Messages delimited by newlines
   // - StdioServerTransport from SDK handles this automatically
+  const server = createMcpServer(context);
   const transport = new StdioServerTransport();
 
   // Connect server to transport
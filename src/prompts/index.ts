@@ -0,0 +1,216 @@
+/**
+ * MCP Prompts
+ *
+ * Parameterized prompts for common Notifly integration workflows. Each prompt
+ * runs the search_docs / search_sdk logic up front and embeds the results, so
+ * the conversation starts from the same grounded context every time.
+ */
+
+import type { ServerContext } from "../types.js";
+import { NotFoundError, ValidationError } from "../errors.js";
+import {
+  docsSearchInputSchema,
+  docsSearchTool,
+  type DocsSearchInput,
+} from "../tools/search-docs.js";
+import { sdkSearchInputSchema, sdkSearchTool, type SdkSearchInput } from "../tools/search-sdk.js";
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  /** Build the user message for the given arguments */
+  build: (args: Record<string, string>, context: ServerContext) => Promise<string>;
+}
+
+const PUSH_PLATFORMS = ["ios", "android", "flutter", "react-native", "javascript"];
+
+/**
+ * Run search_docs and embed its Markdown output; failures become a note so the
+ * prompt is still usable without network access
+ */
+async function docsContext(query: string, context: ServerContext): Promise<string> {
+  try {
+    const args: DocsSearchInput = docsSearchInputSchema.parse({ query, maxResults: 3 });
+    return (await docsSearchTool.handler(args, context)).text;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return `(Documentation search for "${query}" failed: ${reason}. Use the search_docs tool.)`;
+  }
+}
+
+/**
+ * Run search_sdk and embed its Markdown output (see docsContext)
+ */
+async function sdkContext(
+  query: string,
+  platform: string,
+  context: ServerContext
+): Promise<string> {
+  try {
+    const args: SdkSearchInput = sdkSearchInputSchema.parse({ query, platform, maxResults: 3 });
+    return (await sdkSearchTool.handler(args, context)).text;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return `(SDK search for "${query}" failed: ${reason}. Use the search_sdk tool.)`;
+  }
+}
+
+function requirePlatform(args: Record<string, string>): string {
+  const platform = (args.platform ?? "").trim().toLowerCase().replace(/\s+/g, "-");
+  if (!PUSH_PLATFORMS.includes(platform)) {
+    throw new ValidationError(
+      `Invalid arguments: platform must be one of ${PUSH_PLATFORMS.join(", ")}`
+    );
+  }
+  return platform;
+}
+
+function section(title: string, body: string): string {
+  return `## ${title}\n\n${body.trim()}\n`;
+}
+
+const integratePushPrompt: PromptDefinition = {
+  name: "integrate_push",
+  title: "Integrate Notifly push notifications",
+  description: "Integrate Notifly push notifications into an app on the given platform",
+  arguments: [
+    {
+      name: "platform",
+      description: `Target platform (${PUSH_PLATFORMS.join(", ")})`,
+      required: true,
+    },
+  ],
+  async build(args, context) {
+    const platform = requirePlatform(args);
+    const [docs, sdk] = await Promise.all([
+      docsContext(`${platform} SDK push notification setup`, context),
+      sdkContext("initialize push notification token", platform, context),
+    ]);
+
+    return [
+      `Integrate Notifly push notifications into my ${platform} app.`,
+      "",
+      "Work through these steps, citing the documentation and SDK sources below:",
+      "1. Install the Notifly SDK and initialize it with the project ID and credentials.",
+      "2. Configure the platform's push service (APNs / FCM / Web Push) and register the device token.",
+      "3. Request notification permission and set the user ID after login.",
+      "4. Verify delivery with a test push from the Notifly console.",
+      "",
+      "If something is missing below, call search_docs or search_sdk instead of guessing API names.",
+      "",
+      section("Documentation", docs),
+      section(`SDK sources (${platform})`, sdk),
+    ].join("\n");
+  },
+};
+
+const kakaoAlimtalkPrompt: PromptDefinition = {
+  name: "setup_kakao_alimtalk",
+  title: "Set up Kakao AlimTalk sending",
+  description: "Set up Kakao AlimTalk messages with Notifly, from channel setup to sending",
+  arguments: [
+    {
+      name: "useCase",
+      description: "What the messages are for (e.g. order confirmation)",
+      required: false,
+    },
+  ],
+  async build(args, context) {
+    const useCase = args.useCase?.trim();
+    const docs = await docsContext("카카오 알림톡 발송 설정", context);
+
+    return [
+      `Help me set up Kakao AlimTalk sending with Notifly${useCase ? ` for ${useCase}` : ""}.`,
+      "",
+      "Cover, citing the documentation below:",
+      "1. Connecting the Kakao business channel and sender profile.",
+      "2. Registering and getting AlimTalk templates approved, including variables.",
+      "3. Sending AlimTalk from a campaign or the API, and the SMS fallback when delivery fails.",
+      "4. How to verify delivery and common rejection reasons.",
+      "",
+      "If something is missing below, call search_docs instead of guessing.",
+      "",
+      section("Documentation", docs),
+    ].join("\n");
+  },
+};
+
+const debugPushClicksPrompt: PromptDefinition = {
+  name: "debug_push_click_tracking",
+  title: "Debug push click tracking",
+  description: "Find out why push notification clicks aren't tracked on the given platform",
+  arguments: [
+    {
+      name: "platform",
+      description: `Platform where clicks are missing (${PUSH_PLATFORMS.join(", ")})`,
+      required: true,
+    },
+    {
+      name: "symptom",
+      description: "What you observe (e.g. deliveries counted but zero clicks)",
+      required: false,
+    },
+  ],
+  async build(args, context) {
+    const platform = requirePlatform(args);
+    const symptom = args.symptom?.trim();
+    const [docs, sdk] = await Promise.all([
+      docsContext(`${platform} push notification click event tracking`, context),
+      sdkContext("push notification click opened handler", platform, context),
+    ]);
+
+    return [
+      `Push notification clicks aren't being tracked in my ${platform} app.`,
+      ...(symptom ? ["", `Symptom: ${symptom}`] : []),
+      "",
+      "Diagnose this step by step using the documentation and SDK sources below:",
+      "1. Check that the SDK is initialized before the notification is opened (including cold starts).",
+      "2. Check that the SDK's notification click handler is reached and not swallowed by another handler.",
+      "3. Check that the user ID and device token match the recipient of the campaign.",
+      "4. Suggest how to confirm the fix with a test push.",
+      "",
+      "If something is missing below, call search_docs or search_sdk instead of guessing API names.",
+      "",
+      section("Documentation", docs),
+      section(`SDK sources (${platform})`, sdk),
+    ].join("\n");
+  },
+};
+
+/**
+ * All prompts mapped by name
+ */
+export const MCP_PROMPTS: Record<string, PromptDefinition> = {
+  [integratePushPrompt.name]: integratePushPrompt,
+  [kakaoAlimtalkPrompt.name]: kakaoAlimtalkPrompt,
+  [debugPushClicksPrompt.name]: debugPushClicksPrompt,
+};
+
+/**
+ * Build a prompt by name, validating required arguments
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string>,
+  context: ServerContext
+): Promise<{ description: string; text: string }> {
+  const prompt = MCP_PROMPTS[name];
+  if (!prompt) throw new NotFoundError(`Prompt ${name}`);
+
+  const missing = prompt.arguments.filter((a) => a.required && !args[a.name]?.trim());
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `Invalid arguments: missing required argument(s) ${missing.map((a) => a.name).join(", ")}`
+    );
+  }
+
+  return { description: prompt.description, text: await prompt.build(args, context) };
+}
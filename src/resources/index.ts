@@ -0,0 +1,133 @@
+/**
+ * MCP Resources
+ *
+ * Exposes Notifly docs pages and SDK files as browsable MCP resources,
+ * backed by the same llms.txt indexes the search tools use.
+ */
+
+import type { ServerContext } from "../types.js";
+import { NotFoundError } from "../errors.js";
+import { loadDocsIndex, fetchDocPage, resolveDocUrl } from "../tools/search-docs.js";
+import { loadSdkEntries, fetchSdkSource } from "../tools/search-sdk.js";
+import { DOCS_URI_PREFIX, SDK_URI_SCHEME, docsPageUri, sdkFileUri } from "./uris.js";
+
+export interface NotiflyResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface NotiflyResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Resource templates advertised via resources/templates/list
+ */
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${DOCS_URI_PREFIX}{path}`,
+    name: "notifly-docs-page",
+    title: "Notifly documentation page",
+    description:
+      "A page from the Notifly documentation (docs.notifly.tech/ko), e.g. notifly-docs://ko/client-sdk/ios-sdk",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: `${SDK_URI_SCHEME}{platform}/{path}`,
+    name: "notifly-sdk-file",
+    title: "Notifly SDK source file",
+    description:
+      "A source file from a Notifly SDK repository; path is '<repository>/<file path>', e.g. notifly-sdk://ios/notifly-ios-sdk/Sources/...",
+    mimeType: "text/plain",
+  },
+] as const;
+
+async function listDocsResources(context: ServerContext): Promise<NotiflyResource[]> {
+  const links = await loadDocsIndex(context);
+  const resources: NotiflyResource[] = [];
+  const seen = new Set<string>();
+  for (const link of links) {
+    const uri = docsPageUri(resolveDocUrl(link.url));
+    if (!uri || seen.has(uri)) continue;
+    seen.add(uri);
+    resources.push({
+      uri,
+      name: link.title,
+      description: link.description,
+      mimeType: "text/markdown",
+    });
+  }
+  return resources;
+}
+
+async function listSdkResources(context: ServerContext): Promise<NotiflyResource[]> {
+  const entries = await loadSdkEntries(context);
+  const resources: NotiflyResource[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const uri = sdkFileUri(entry.platform, entry.file);
+    if (!uri || seen.has(uri)) continue;
+    seen.add(uri);
+    resources.push({
+      uri,
+      name: `${entry.title} (${entry.platform})`,
+      description: entry.description,
+      mimeType: "text/plain",
+    });
+  }
+  return resources;
+}
+
+/**
+ * List all docs pages and SDK files. If one index is unavailable the other
+ * is still listed; fails only when both are.
+ */
+export async function listResources(context: ServerContext): Promise<NotiflyResource[]> {
+  const [docs, sdk] = await Promise.allSettled([
+    listDocsResources(context),
+    listSdkResources(context),
+  ]);
+  if (docs.status === "rejected" && sdk.status === "rejected") {
+    throw docs.reason;
+  }
+  return [
+    ...(docs.status === "fulfilled" ? docs.value : []),
+    ...(sdk.status === "fulfilled" ? sdk.value : []),
+  ];
+}
+
+/**
+ * Read a docs page or SDK file by resource URI
+ */
+export async function readResource(
+  uri: string,
+  context: ServerContext
+): Promise<NotiflyResourceContents> {
+  if (uri.startsWith(DOCS_URI_PREFIX)) {
+    const links = await loadDocsIndex(context);
+    const link = links.find((l) => docsPageUri(resolveDocUrl(l.url)) === uri);
+    if (!link) throw new NotFoundError(`Resource ${uri}`);
+
+    const url = resolveDocUrl(link.url);
+    const content = await fetchDocPage(url, context);
+    return {
+      uri,
+      mimeType: "text/markdown",
+      text: `Source: ${url}\n\n${content}`,
+    };
+  }
+
+  if (uri.startsWith(SDK_URI_SCHEME)) {
+    const entries = await loadSdkEntries(context);
+    const entry = entries.find((e) => sdkFileUri(e.platform, e.file) === uri);
+    if (!entry) throw new NotFoundError(`Resource ${uri}`);
+
+    return { uri, mimeType: "text/plain", text: await fetchSdkSource(entry.file, context) };
+  }
+
+  throw new NotFoundError(`Resource ${uri}`);
+}
@@ -0,0 +1,95 @@
+/**
+ * Resource URI scheme for Notifly docs pages and SDK files
+ *
+ * - notifly-docs://ko/{path}         -> https://docs.notifly.tech/ko/{path}
+ * - notifly-sdk://{platform}/{path}  -> SDK file from a per-SDK llms.txt,
+ *                                       where path is "{repo}/{file path}"
+ */
+
+export const DOCS_URI_PREFIX = "notifly-docs://ko/";
+export const SDK_URI_SCHEME = "notifly-sdk://";
+
+const DOCS_ORIGIN = "https://docs.notifly.tech";
+const RAW_GITHUB_PREFIX = "https://raw.githubusercontent.com/";
+const GITHUB_ORIGIN = "https://github.com";
+const GITHUB_API_ORIGIN = "https://api.github.com";
+
+/**
+ * Resource URI for a docs page URL (undefined for pages outside docs.notifly.tech)
+ */
+export function docsPageUri(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, DOCS_ORIGIN);
+  } catch {
+    return undefined;
+  }
+  if (parsed.origin !== DOCS_ORIGIN) return undefined;
+  const pagePath = parsed.pathname.replace(/^\/(ko\/)?/, "");
+  return pagePath ? `${DOCS_URI_PREFIX}${pagePath}` : undefined;
+}
+
+/**
+ * Split a raw GitHub URL into repository and in-repo file path.
+ * Handles refs/heads/<branch>, refs/tags/<tag> and bare <ref> segments.
+ */
+export function parseRawGithubUrl(
+  url: string
+): { owner: string; repo: string; ref: string; filePath: string } | undefined {
+  if (!url.startsWith(RAW_GITHUB_PREFIX)) return undefined;
+  const segments = url.slice(RAW_GITHUB_PREFIX.length).split("/");
+  const [owner, repo, first, second, third] = segments;
+  if (!owner || !repo || !first) return undefined;
+  if (first === "refs" && (second === "heads" || second === "tags") && third) {
+    return { owner, repo, ref: `refs/${second}/${third}`, filePath: segments.slice(5).join("/") };
+  }
+  return { owner, repo, ref: first, filePath: segments.slice(3).join("/") };
+}
+
+/**
+ * The same raw GitHub file at another ref (tag, branch or commit SHA);
+ * undefined for non-GitHub sources
+ */
+export function rawGithubUrlAtRef(url: string, ref: string): string | undefined {
+  const parsed = parseRawGithubUrl(url);
+  if (!parsed || !parsed.filePath) return undefined;
+  return `${RAW_GITHUB_PREFIX}${parsed.owner}/${parsed.repo}/${ref}/${parsed.filePath}`;
+}
+
+/**
+ * Resource URI for an SDK file (undefined for non-GitHub sources)
+ */
+export function sdkFileUri(platform: string, fileUrl: string): string | undefined {
+  const parsed = parseRawGithubUrl(fileUrl);
+  if (!parsed || !parsed.filePath) return undefined;
+  return `${SDK_URI_SCHEME}${platform}/${parsed.repo}/${parsed.filePath}`;
+}
+
+/**
+ * GitHub API URL that resolves the ref of a raw GitHub file to a commit SHA
+ * (undefined for non-GitHub sources)
+ */
+export function githubCommitApiUrl(fileUrl: string): string | undefined {
+  const parsed = parseRawGithubUrl(fileUrl);
+  if (!parsed || !parsed.filePath) return undefined;
+  const ref = parsed.ref.replace(/^refs\/(heads|tags)\//, "");
+  return `${GITHUB_API_ORIGIN}/repos/${parsed.owner}/${parsed.repo}/commits/${ref}`;
+}
+
+/**
+ * GitHub page for a line range of a raw GitHub file. With the commit SHA the
+ * file was read at this is a permalink; otherwise it points at the file's
+ * branch or tag, where the lines can move (undefined for non-GitHub sources).
+ */
+export function githubLinesUrl(
+  fileUrl: string,
+  startLine: number,
+  endLine: number,
+  commitSha?: string
+): string | undefined {
+  const parsed = parseRawGithubUrl(fileUrl);
+  if (!parsed || !parsed.filePath) return undefined;
+  const ref = commitSha ?? parsed.ref.replace(/^refs\/(heads|tags)\//, "");
+  const lines = startLine === endLine ? `L${startLine}` : `L${startLine}-L${endLine}`;
+  return `${GITHUB_ORIGIN}/${parsed.owner}/${parsed.repo}/blob/${ref}/${parsed.filePath}#${lines}`;
+}
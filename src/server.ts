@@ -0,0 +1,223 @@
+/**
+ * MCP Server Factory
+ *
+ * Builds a Notifly MCP server instance with all tools, resources and prompts
+ * registered.
+ * Shared by the stdio and Streamable HTTP transports so both expose
+ * exactly the same capabilities.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { z } from "zod";
+import { MCP_TOOLS } from "./tools/index.js";
+import { MCP_SERVER_NAME, MCP_SERVER_VERSION } from "./constants.js";
+import {
+  formatErrorForUser,
+  ConfigurationError,
+  ValidationError,
+  NotFoundError,
+} from "./errors.js";
+import { RESOURCE_TEMPLATES, listResources, readResource } from "./resources/index.js";
+import { MCP_PROMPTS, getPrompt } from "./prompts/index.js";
+import type { ServerContext, ToolResult } from "./types.js";
+
+/** Resources returned per resources/list page */
+const RESOURCES_PAGE_SIZE = 100;
+
+/** JSON-RPC error code for unknown resource URIs (MCP spec) */
+const RESOURCE_NOT_FOUND = -32002;
+
+function isToolResult(result: unknown): result is ToolResult {
+  return (
+    typeof result === "object" && result !== null && typeof (result as ToolResult).text === "string"
+  );
+}
+
+/**
+ * Convert a tool handler result into MCP content blocks
+ */
+function toToolContent(result: unknown) {
+  if (typeof result === "string") {
+    return [{ type: "text" as const, text: result }];
+  }
+  if (isToolResult(result)) {
+    return [
+      { type: "text" as const, text: result.text },
+      ...(result.resourceLinks ?? []).map((link) => ({
+        type: "resource_link" as const,
+        ...link,
+      })),
+    ];
+  }
+  return [{ type: "text" as const, text: JSON.stringify(result, null, 2) }];
+}
+
+/**
+ * Create a new MCP server with tool, resource and prompt handlers registered
+ */
+export function createMcpServer(context: ServerContext): Server {
+  // Create MCP server instance
+  const server = new Server(
+    {
+      name: MCP_SERVER_NAME,
+      version: MCP_SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  // Register tools/list handler
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const tools = Object.entries(MCP_TOOLS).map(([name, tool]) => {
+      // Convert Zod schema to JSON Schema for MCP compliance
+      const zodObject = z.object(tool.inputSchema);
+      const jsonSchema = zodToJsonSchema(zodObject, {
+        target: "jsonSchema7",
+        $refStrategy: "none",
+      });
+
+      return {
+        name,
+        description: tool.description || `Tool: ${name}`,
+        inputSchema: jsonSchema as any,
+        ...(tool.outputSchema
+          ? {
+              outputSchema: zodToJsonSchema(z.object(tool.outputSchema), {
+                target: "jsonSchema7",
+                $refStrategy: "none",
+              }) as Tool["outputSchema"],
+            }
+          : {}),
+      };
+    });
+
+    return { tools };
+  });
+
+  // Register tools/call handler
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: rawArgs } = request.params;
+
+    const tool = MCP_TOOLS[name as keyof typeof MCP_TOOLS];
+    if (!tool) {
+      throw new ConfigurationError(
+        `Tool not found: ${name}. Available tools: ${Object.keys(MCP_TOOLS).join(", ")}`
+      );
+    }
+
+    try {
+      // Validate arguments using Zod schema before invoking the tool
+      const zodObject = z.object(tool.inputSchema);
+      const parseResult = zodObject.safeParse(rawArgs || {});
+
+      if (!parseResult.success) {
+        const errorDetails = parseResult.error.errors
+          .map((err) => `${err.path.join(".")}: ${err.message}`)
+          .join(", ");
+        throw new ValidationError(`Invalid arguments: ${errorDetails}`);
+      }
+
+      // Execute tool with validated arguments
+      const result = await tool.handler(parseResult.data as any, context);
+
+      return {
+        content: toToolContent(result),
+        ...(isToolResult(result) && result.structuredContent
+          ? { structuredContent: result.structuredContent }
+          : {}),
+      };
+    } catch (error) {
+      // Format error for user-friendly display
+      const errorMessage = formatErrorForUser(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: errorMessage,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  // Register resources/list handler (cursor is the offset of the next page)
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const resources = await listResources(context);
+    const offset = Math.max(0, parseInt(request.params?.cursor ?? "0", 10) || 0);
+    const end = offset + RESOURCES_PAGE_SIZE;
+
+    return {
+      resources: resources.slice(offset, end),
+      ...(end < resources.length ? { nextCursor: String(end) } : {}),
+    };
+  });
+
+  // Register resources/templates/list handler
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES.map((template) => ({ ...template })),
+  }));
+
+  // Register resources/read handler
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    try {
+      const contents = await readResource(request.params.uri, context);
+      return { contents: [contents] };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new McpError(RESOURCE_NOT_FOUND, error.message, { uri: request.params.uri });
+      }
+      throw error;
+    }
+  });
+
+  // Register prompts/list handler
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: Object.values(MCP_PROMPTS).map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    })),
+  }));
+
+  // Register prompts/get handler
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    try {
+      const prompt = await getPrompt(name, args ?? {}, context);
+      return {
+        description: prompt.description,
+        messages: [
+          { role: "user" as const, content: { type: "text" as const, text: prompt.text } },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,663 @@
+/**
+ * Integration Audit Tool
+ *
+ * Scan a local app project, detect its platforms, find Notifly SDK calls
+ * and push configuration, and report missing or misordered integration
+ * steps with links to the relevant docs pages.
+ */
+
+import { z } from "zod";
+import { stat } from "fs/promises";
+import path from "path";
+import type { ToolDefinition, ServerContext, ToolResult } from "../types.js";
+import { AUDIT_MAX_FILES } from "../constants.js";
+import { ApiError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { AUDIT_INTEGRATION_DESCRIPTION } from "./descriptions.js";
+import { normalizeSdkPlatform } from "./search-sdk.js";
+import { loadDocsIndex, resolveDocUrl, searchDocs } from "./search-docs.js";
+import { readProjectFile, scanProject, type ProjectFiles } from "../utils/project-scan.js";
+import { resolveInside } from "../utils/fixtures.js";
+
+const auditIntegrationInputSchema = z.object({
+  projectPath: z
+    .string()
+    .min(1)
+    .describe(
+      "Path of the app project directory on this machine (absolute, or relative to NOTIFLY_PROJECTS_DIR when set, else to the server's working directory)"
+    ),
+  platform: z
+    .string()
+    .optional()
+    .transform(normalizeSdkPlatform)
+    .describe(
+      "Audit only this platform (ios, android, flutter, react native, javascript); default: detect"
+    ),
+});
+
+type AuditIntegrationInput = z.infer<typeof auditIntegrationInputSchema>;
+
+const findingSchema = z.object({
+  id: z.string().describe("Check identifier, e.g. 'initialize-order'"),
+  severity: z.enum(["error", "warning"]),
+  platform: z.string(),
+  title: z.string(),
+  detail: z.string(),
+  file: z.string().optional().describe("File path relative to the project"),
+  line: z.number().int().optional(),
+  docs: z.object({ title: z.string(), url: z.string() }).optional(),
+});
+
+const auditIntegrationOutputSchema = {
+  projectPath: z.string(),
+  platforms: z
+    .array(
+      z.object({
+        platform: z.string(),
+        root: z.string().describe("Directory of the platform project, relative to the project"),
+        embedded: z
+          .boolean()
+          .describe("Native project of a Flutter or React Native app (configuration checks only)"),
+      })
+    )
+    .describe("Detected platform projects"),
+  calls: z
+    .array(
+      z.object({
+        platform: z.string(),
+        method: z.string(),
+        file: z.string(),
+        line: z.number().int(),
+      })
+    )
+    .describe("Notifly SDK calls found in the sources"),
+  findings: z.array(findingSchema).describe("Problems found, errors first"),
+  truncated: z.boolean().describe("Whether the file limit stopped the project scan early"),
+};
+
+type Finding = z.infer<typeof findingSchema>;
+
+interface DetectedPlatform {
+  platform: string;
+  root: string;
+  embedded: boolean;
+}
+
+interface SdkCall {
+  platform: string;
+  method: string;
+  file: string;
+  line: number;
+}
+
+const PLATFORM_LABELS: Record<string, string> = {
+  ios: "iOS",
+  android: "Android",
+  flutter: "Flutter",
+  "react-native": "React Native",
+  javascript: "JavaScript",
+};
+
+const SOURCE_EXTENSIONS: Record<string, RegExp> = {
+  ios: /\.(swift|m|mm)$/,
+  android: /\.(kt|java)$/,
+  flutter: /\.dart$/,
+  "react-native": /\.(js|jsx|ts|tsx)$/,
+  javascript: /\.(js|jsx|ts|tsx|mjs|vue|svelte|html)$/,
+};
+
+const SDK_METHODS = [
+  "initialize",
+  "setUserId",
+  "setUserProperties",
+  "trackEvent",
+  "requestPermission",
+  "addNotificationClickListener",
+];
+
+/** Calls on a receiver named like Notifly (Notifly, NotiflyPlugin, notifly...) */
+const SDK_CALL = new RegExp(
+  `\\b\\w*notifly\\w*\\s*[?!]?\\s*\\.\\s*(${SDK_METHODS.join("|")})\\s*\\(`,
+  "gi"
+);
+
+/** Docs search query per check, for linking findings to docs pages */
+function docsQuery(id: string, platform: string): string {
+  const label = PLATFORM_LABELS[platform] ?? platform;
+  if (id === "sdk-dependency-missing") return `${label} SDK 설치`;
+  if (id.startsWith("initialize")) return `${label} SDK 초기화`;
+  if (id.startsWith("ios-nse")) return "iOS Notification Service Extension 푸시 이미지";
+  if (id.startsWith("ios")) return "iOS 푸시 알림 설정 APNs";
+  if (id.startsWith("android")) return "Android 푸시 알림 FCM 설정";
+  return "웹 푸시 서비스 워커";
+}
+
+function dirOf(file: string): string {
+  const index = file.lastIndexOf("/");
+  return index === -1 ? "" : file.slice(0, index);
+}
+
+function baseName(file: string): string {
+  return file.slice(file.lastIndexOf("/") + 1);
+}
+
+function isWithin(file: string, root: string): boolean {
+  return root === "" || file === root || file.startsWith(`${root}/`);
+}
+
+/**
+ * Roots without an ancestor in the list (the outermost project of each kind)
+ */
+function outermost(roots: string[]): string[] {
+  const unique = [...new Set(roots)].sort((a, b) => a.length - b.length);
+  return unique.filter((root, i) => !unique.slice(0, i).some((other) => isWithin(root, other)));
+}
+
+/**
+ * Audit state for one project: file list, cached reads and findings
+ */
+class ProjectAudit {
+  readonly findings: Finding[] = [];
+  readonly calls: SdkCall[] = [];
+  private contents = new Map<string, Promise<string | undefined>>();
+
+  constructor(readonly project: ProjectFiles) {}
+
+  read(file: string): Promise<string> {
+    let content = this.contents.get(file);
+    if (!content) {
+      content = readProjectFile(this.project.root, file);
+      this.contents.set(file, content);
+    }
+    return content.then((text) => text ?? "");
+  }
+
+  filesIn(root: string, pattern: RegExp): string[] {
+    return this.project.files.filter((f) => isWithin(f, root) && pattern.test(f));
+  }
+
+  async anyContains(files: string[], pattern: RegExp): Promise<boolean> {
+    for (const file of files) {
+      if (pattern.test(await this.read(file))) return true;
+    }
+    return false;
+  }
+
+  report(finding: Finding): void {
+    this.findings.push(finding);
+  }
+}
+
+async function detectPlatforms(audit: ProjectAudit): Promise<DetectedPlatform[]> {
+  const files = audit.project.files;
+  const flutter: string[] = [];
+  const reactNative: string[] = [];
+  const javascript: string[] = [];
+
+  for (const file of files.filter((f) => baseName(f) === "pubspec.yaml")) {
+    if (/^\s*flutter:/m.test(await audit.read(file))) flutter.push(dirOf(file));
+  }
+  for (const file of files.filter((f) => baseName(f) === "package.json")) {
+    let manifest: { dependencies?: object; devDependencies?: object };
+    try {
+      manifest = JSON.parse(await audit.read(file));
+    } catch {
+      continue;
+    }
+    const dependencies = { ...manifest.dependencies, ...manifest.devDependencies };
+    ("react-native" in dependencies ? reactNative : javascript).push(dirOf(file));
+  }
+
+  const ios = files.flatMap((f) => {
+    if (/^(Podfile|Package\.swift)$/.test(baseName(f))) return [dirOf(f)];
+    const xcodeproj = f.match(/^(?:(.*)\/)?[^/]+\.xcodeproj\/project\.pbxproj$/);
+    return xcodeproj ? [xcodeproj[1] ?? ""] : [];
+  });
+  const settings = files.filter((f) => /^settings\.gradle(\.kts)?$/.test(baseName(f)));
+  const android = (
+    settings.length > 0
+      ? settings
+      : files.filter((f) => /^build\.gradle(\.kts)?$/.test(baseName(f)))
+  ).map(dirOf);
+
+  const crossPlatform = [...outermost(flutter), ...outermost(reactNative)];
+  const embedded = (root: string) => crossPlatform.some((other) => isWithin(root, other));
+  const detected: DetectedPlatform[] = [
+    ...outermost(flutter).map((root) => ({ platform: "flutter", root, embedded: false })),
+    ...outermost(reactNative).map((root) => ({ platform: "react-native", root, embedded: false })),
+    ...outermost(ios).map((root) => ({ platform: "ios", root, embedded: embedded(root) })),
+    ...outermost(android).map((root) => ({ platform: "android", root, embedded: embedded(root) })),
+  ];
+  // Web apps: package.json projects that are not part of another platform project
+  for (const root of outermost(javascript)) {
+    if (!detected.some((d) => isWithin(root, d.root) || isWithin(d.root, root))) {
+      detected.push({ platform: "javascript", root, embedded: false });
+    }
+  }
+  return detected;
+}
+
+async function findSdkCalls(audit: ProjectAudit, target: DetectedPlatform): Promise<SdkCall[]> {
+  const pattern = SOURCE_EXTENSIONS[target.platform]!;
+  const calls: SdkCall[] = [];
+  for (const file of audit.filesIn(target.root, pattern)) {
+    const lines = (await audit.read(file)).split("\n");
+    lines.forEach((text, index) => {
+      if (/^\s*(\/\/|\*|\/\*|#)/.test(text)) return;
+      for (const match of text.matchAll(SDK_CALL)) {
+        const method = SDK_METHODS.find((m) => m.toLowerCase() === match[1]!.toLowerCase())!;
+        calls.push({ platform: target.platform, method, file, line: index + 1 });
+      }
+    });
+  }
+  return calls;
+}
+
+async function hasSdkDependency(audit: ProjectAudit, target: DetectedPlatform): Promise<boolean> {
+  const manifests: Record<string, RegExp> = {
+    ios: /(^|\/)(Podfile|Package\.swift|project\.pbxproj|Package\.resolved)$/,
+    android: /(^|\/)build\.gradle(\.kts)?$|libs\.versions\.toml$/,
+    flutter: /(^|\/)pubspec\.yaml$/,
+    "react-native": /(^|\/)package\.json$/,
+    javascript: /(^|\/)package\.json$|\.html$/,
+  };
+  return audit.anyContains(audit.filesIn(target.root, manifests[target.platform]!), /notifly/i);
+}
+
+/** Files where initialize belongs, per platform */
+const INITIALIZE_PLACES: Record<string, { pattern: RegExp; where: string }> = {
+  ios: {
+    pattern: /didFinishLaunchingWithOptions|@main|:\s*App\b/,
+    where: "AppDelegate.application(_:didFinishLaunchingWithOptions:)",
+  },
+  android: {
+    pattern: /:\s*Application\(\)|extends\s+Application\b/,
+    where: "your Application subclass's onCreate()",
+  },
+  flutter: { pattern: /\bvoid\s+main\s*\(|\bmain\s*\(\s*\)\s*async/, where: "main()" },
+};
+
+async function checkCalls(
+  audit: ProjectAudit,
+  target: DetectedPlatform,
+  calls: SdkCall[]
+): Promise<void> {
+  const { platform } = target;
+  const label = PLATFORM_LABELS[platform];
+  const hasDependency = await hasSdkDependency(audit, target);
+  if (!hasDependency) {
+    audit.report({
+      id: "sdk-dependency-missing",
+      severity: "error",
+      platform,
+      title: "Notifly SDK is not a dependency",
+      detail: `No ${label} project manifest under "${target.root || "."}" references the Notifly SDK.`,
+    });
+  }
+
+  const initializeCalls = calls.filter((c) => c.method === "initialize");
+  const otherCalls = calls.filter((c) => c.method !== "initialize");
+  if (initializeCalls.length === 0) {
+    if (hasDependency || otherCalls.length > 0) {
+      const [first] = otherCalls;
+      audit.report({
+        id: "initialize-missing",
+        severity: "error",
+        platform,
+        title: "initialize is never called",
+        detail: first
+          ? `${first.method} is called, but the SDK is never initialized, so calls are dropped.`
+          : "The Notifly SDK is installed but never initialized.",
+        ...(first ? { file: first.file, line: first.line } : {}),
+      });
+    }
+    return;
+  }
+
+  // Within a file, calls before initialize run before the SDK is ready
+  for (const file of new Set(initializeCalls.map((c) => c.file))) {
+    const initializeLine = Math.min(
+      ...initializeCalls.filter((c) => c.file === file).map((c) => c.line)
+    );
+    const early = otherCalls.find((c) => c.file === file && c.line < initializeLine);
+    if (early) {
+      audit.report({
+        id: "initialize-order",
+        severity: "error",
+        platform,
+        title: `${early.method} is called before initialize`,
+        detail: `${early.method} at line ${early.line} runs before initialize at line ${initializeLine}; call initialize first.`,
+        file,
+        line: early.line,
+      });
+    }
+  }
+
+  const place = INITIALIZE_PLACES[platform];
+  if (place) {
+    let inPlace = false;
+    for (const call of initializeCalls) {
+      if (place.pattern.test(await audit.read(call.file))) inPlace = true;
+    }
+    if (!inPlace) {
+      const [first] = initializeCalls;
+      audit.report({
+        id: "initialize-location",
+        severity: "warning",
+        platform,
+        title: "initialize is not called at app start",
+        detail: `Call initialize in ${place.where} so it runs before any other call, including launches from a notification.`,
+        file: first!.file,
+        line: first!.line,
+      });
+    }
+  }
+}
+
+async function checkIos(audit: ProjectAudit, target: DetectedPlatform): Promise<void> {
+  const platform = "ios";
+  const entitlements = audit.filesIn(target.root, /\.entitlements$/);
+  if (!(await audit.anyContains(entitlements, /aps-environment/))) {
+    audit.report({
+      id: "ios-push-entitlement",
+      severity: "error",
+      platform,
+      title: "Push Notifications capability is not enabled",
+      detail:
+        "No .entitlements file contains aps-environment. Add the Push Notifications capability to the app target.",
+      ...(entitlements[0] ? { file: entitlements[0] } : {}),
+    });
+  }
+
+  const plists = audit.filesIn(target.root, /(^|\/)Info\.plist$/);
+  const serviceExtensions: string[] = [];
+  const appPlists: string[] = [];
+  for (const plist of plists) {
+    const content = await audit.read(plist);
+    if (content.includes("com.apple.usernotifications.service")) serviceExtensions.push(plist);
+    else if (!content.includes("NSExtension")) appPlists.push(plist);
+  }
+
+  if (appPlists.length > 0 && !(await audit.anyContains(appPlists, /remote-notification/))) {
+    audit.report({
+      id: "ios-background-modes",
+      severity: "warning",
+      platform,
+      title: "Remote notifications background mode is off",
+      detail:
+        "Info.plist has no UIBackgroundModes entry for remote-notification. Enable Background Modes > Remote notifications.",
+      file: appPlists[0]!,
+    });
+  }
+
+  if (serviceExtensions.length === 0) {
+    audit.report({
+      id: "ios-nse-missing",
+      severity: "warning",
+      platform,
+      title: "Notification Service Extension is not configured",
+      detail:
+        "No Notification Service Extension target was found. Without it, push images and delivery tracking do not work.",
+    });
+  }
+  for (const plist of serviceExtensions) {
+    const sources = audit.filesIn(dirOf(plist), /\.(swift|m)$/);
+    if (!(await audit.anyContains(sources, /notifly/i))) {
+      audit.report({
+        id: "ios-nse-notifly",
+        severity: "warning",
+        platform,
+        title: "Notification Service Extension does not use Notifly",
+        detail:
+          "The Notification Service Extension never references the Notifly SDK, so Notifly push images are not attached.",
+        file: sources[0] ?? plist,
+      });
+    }
+  }
+
+  if (audit.filesIn(target.root, /(^|\/)GoogleService-Info\.plist$/).length === 0) {
+    audit.report({
+      id: "ios-firebase-config",
+      severity: "warning",
+      platform,
+      title: "GoogleService-Info.plist is missing",
+      detail: "Add the Firebase configuration file of your iOS app to the app target.",
+    });
+  }
+}
+
+async function checkAndroid(audit: ProjectAudit, target: DetectedPlatform): Promise<void> {
+  const platform = "android";
+  if (audit.filesIn(target.root, /(^|\/)google-services\.json$/).length === 0) {
+    audit.report({
+      id: "android-firebase-config",
+      severity: "error",
+      platform,
+      title: "google-services.json is missing",
+      detail: "Add the Firebase configuration file of your Android app to the app module.",
+    });
+  }
+
+  const gradleFiles = audit.filesIn(target.root, /(^|\/)build\.gradle(\.kts)?$/);
+  if (!(await audit.anyContains(gradleFiles, /com\.google\.gms\.google-services/))) {
+    audit.report({
+      id: "android-google-services-plugin",
+      severity: "error",
+      platform,
+      title: "Google services Gradle plugin is not applied",
+      detail:
+        "No build.gradle applies com.google.gms.google-services, so Firebase Cloud Messaging is not configured.",
+      ...(gradleFiles[0] ? { file: gradleFiles[0] } : {}),
+    });
+  }
+
+  const manifests = audit.filesIn(target.root, /src\/main\/AndroidManifest\.xml$/);
+  if (manifests.length > 0 && !(await audit.anyContains(manifests, /POST_NOTIFICATIONS/))) {
+    audit.report({
+      id: "android-post-notifications",
+      severity: "warning",
+      platform,
+      title: "POST_NOTIFICATIONS permission is not declared",
+      detail:
+        "Android 13+ needs android.permission.POST_NOTIFICATIONS in AndroidManifest.xml to show notifications.",
+      file: manifests[0]!,
+    });
+  }
+
+  // A custom FCM service that does not hand messages to Notifly swallows them
+  for (const manifest of manifests) {
+    const content = await audit.read(manifest);
+    for (const service of content.matchAll(
+      /<service\b[^>]*?android:name="([^"]+)"[\s\S]*?<\/service>/g
+    )) {
+      if (!service[0].includes("com.google.firebase.MESSAGING_EVENT")) continue;
+      const className = service[1]!.split(".").pop()!;
+      const sources = audit.filesIn(target.root, new RegExp(`(^|/)${className}\\.(kt|java)$`));
+      if (sources.length > 0 && !(await audit.anyContains(sources, /notifly/i))) {
+        audit.report({
+          id: "android-messaging-service",
+          severity: "warning",
+          platform,
+          title: `${className} may swallow Notifly messages`,
+          detail: `${className} handles com.google.firebase.MESSAGING_EVENT but never references Notifly; forward Notifly messages to the SDK.`,
+          file: sources[0]!,
+        });
+      }
+    }
+  }
+}
+
+async function checkWeb(
+  audit: ProjectAudit,
+  target: DetectedPlatform,
+  calls: SdkCall[]
+): Promise<void> {
+  if (!calls.some((c) => c.method === "requestPermission")) return;
+  const workers = audit.filesIn(target.root, /(service-?worker[^/]*|(^|\/)sw)\.js$/i);
+  if (workers.length === 0) {
+    audit.report({
+      id: "web-service-worker",
+      severity: "warning",
+      platform: "javascript",
+      title: "Service worker for web push is missing",
+      detail: "Web push permission is requested, but no service worker file was found.",
+    });
+  }
+}
+
+/**
+ * Resolve projectPath, keeping it inside NOTIFLY_PROJECTS_DIR when set. Over
+ * HTTP any client could otherwise list files anywhere on the host, so the
+ * tool is disabled there without a projects directory.
+ */
+async function resolveProjectPath(projectPath: string, context: ServerContext): Promise<string> {
+  if (!context.projectsDir) {
+    if (context.remote) {
+      throw new ValidationError(
+        "audit_integration is disabled over HTTP. Set NOTIFLY_PROJECTS_DIR in the MCP server environment to audit projects inside that directory."
+      );
+    }
+    return path.resolve(projectPath);
+  }
+  let resolved: string | undefined;
+  try {
+    resolved = await resolveInside(context.projectsDir, projectPath);
+  } catch {
+    throw new ValidationError(`projectPath is not a directory: ${projectPath}`);
+  }
+  if (!resolved) {
+    throw new ValidationError(
+      `projectPath must be inside the projects directory (NOTIFLY_PROJECTS_DIR): ${projectPath}`
+    );
+  }
+  return resolved;
+}
+
+export const auditIntegrationTool: ToolDefinition<AuditIntegrationInput, ToolResult> = {
+  name: "audit_integration",
+  description: AUDIT_INTEGRATION_DESCRIPTION,
+  inputSchema: {
+    projectPath: auditIntegrationInputSchema.shape.projectPath,
+    platform: auditIntegrationInputSchema.shape.platform,
+  },
+  outputSchema: auditIntegrationOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: AuditIntegrationInput, context: ServerContext): Promise<ToolResult> {
+    const projectPath = await resolveProjectPath(params.projectPath, context);
+    const isDirectory = await stat(projectPath).then(
+      (s) => s.isDirectory(),
+      () => false
+    );
+    if (!isDirectory) {
+      throw new ValidationError(`projectPath is not a directory: ${projectPath}`);
+    }
+
+    try {
+      const audit = new ProjectAudit(await scanProject(projectPath, AUDIT_MAX_FILES));
+      const platform = params.platform || "all";
+      let platforms = await detectPlatforms(audit);
+      if (platform !== "all") {
+        const selected = platforms.filter((p) => p.platform === platform && !p.embedded);
+        // Native projects of a selected Flutter or React Native app are checked too
+        platforms = [
+          ...selected,
+          ...platforms.filter((p) => p.embedded && selected.some((s) => isWithin(p.root, s.root))),
+        ];
+        if (selected.length === 0) {
+          platforms = [{ platform, root: "", embedded: false }];
+        }
+      }
+      if (platforms.length === 0) {
+        throw new ValidationError(
+          `No iOS, Android, Flutter, React Native or web project found in ${projectPath}. Pass platform to audit anyway.`
+        );
+      }
+
+      for (const target of platforms) {
+        if (!target.embedded) {
+          const calls = await findSdkCalls(audit, target);
+          audit.calls.push(...calls);
+          await checkCalls(audit, target, calls);
+          if (target.platform === "javascript") await checkWeb(audit, target, calls);
+        }
+        if (target.platform === "ios") await checkIos(audit, target);
+        if (target.platform === "android") await checkAndroid(audit, target);
+      }
+
+      // Link findings to docs pages; the audit stands on its own when docs are unavailable
+      try {
+        const links = await loadDocsIndex(context);
+        for (const finding of audit.findings) {
+          const [best] = searchDocs(links, docsQuery(finding.id, finding.platform), 1);
+          if (best) finding.docs = { title: best.link.title, url: resolveDocUrl(best.link.url) };
+        }
+      } catch {
+        // Findings are reported without docs links
+      }
+
+      const findings = [
+        ...audit.findings.filter((f) => f.severity === "error"),
+        ...audit.findings.filter((f) => f.severity === "warning"),
+      ];
+      const errors = findings.filter((f) => f.severity === "error").length;
+
+      let output = `# Notifly Integration Audit\n\n`;
+      output += `**Project**: ${projectPath}\n`;
+      output += `**Platforms**: ${platforms
+        .map((p) => `${p.platform} (${p.root || "."}${p.embedded ? ", native project" : ""})`)
+        .join(", ")}\n`;
+      output += `**Result**: ${errors} error(s), ${findings.length - errors} warning(s)\n`;
+      if (audit.project.truncated) {
+        output += `\n[Warning] The project has more than ${AUDIT_MAX_FILES} files; only the first ${AUDIT_MAX_FILES} were scanned.\n`;
+      }
+      output += "\n";
+
+      if (findings.length === 0) {
+        output += `No problems found.\n\n`;
+      }
+      for (const [severity, title] of [
+        ["error", "Errors"],
+        ["warning", "Warnings"],
+      ] as const) {
+        const group = findings.filter((f) => f.severity === severity);
+        if (group.length === 0) continue;
+        output += `## ${title}\n\n`;
+        group.forEach((finding, index) => {
+          const location = finding.file
+            ? ` — ${finding.file}${finding.line ? `:${finding.line}` : ""}`
+            : "";
+          output += `${index + 1}. **${finding.title}** (${finding.platform})${location}\n`;
+          output += `   ${finding.detail}\n`;
+          if (finding.docs) output += `   **Docs**: [${finding.docs.title}](${finding.docs.url})\n`;
+        });
+        output += "\n";
+      }
+
+      output += `## Notifly SDK Calls\n\n`;
+      if (audit.calls.length === 0) output += `No Notifly SDK calls found.\n`;
+      for (const call of audit.calls) {
+        output += `- \`${call.method}\` (${call.platform}) — ${call.file}:${call.line}\n`;
+      }
+
+      return {
+        text: output,
+        structuredContent: {
+          projectPath,
+          platforms,
+          calls: audit.calls,
+          findings,
+          truncated: audit.project.truncated,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to audit integration: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
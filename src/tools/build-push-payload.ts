@@ -0,0 +1,340 @@
+/**
+ * Push Payload Tool
+ *
+ * Build the APNs and FCM payloads of a Notifly push from its content, or check
+ * hand-written ones: size limits, `mutable-content` for the Notification
+ * Service Extension, and the Notifly keys. The key names are taken from the
+ * push sources of the iOS and Android SDKs in the SDK index; built-in names
+ * are only a fallback when those sources are unavailable.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult } from "../types.js";
+import { ApiError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { APNS_PAYLOAD_MAX_BYTES, FCM_DATA_MAX_BYTES } from "../constants.js";
+import { BUILD_PUSH_PAYLOAD_DESCRIPTION } from "./descriptions.js";
+import { fetchSdkSource, loadSdkEntries } from "./search-sdk.js";
+import {
+  buildPushPayloads,
+  NOTIFLY_PUSH_KEYS,
+  payloadSize,
+  resolveNotiflyPushKeys,
+  type NotiflyPushKeys,
+  type PushContent,
+  validateApnsPayload,
+  validateFcmMessage,
+  type PushIssue,
+  type PushPlatform,
+} from "../utils/push-payload.js";
+
+const PUSH_PLATFORMS = ["ios", "android"] as const satisfies PushPlatform[];
+
+/** SDK index entries that handle incoming pushes */
+const PUSH_SOURCE_PATTERN = /push|notification|messaging|fcm|apns/i;
+
+/** Push sources fetched per platform for the key check */
+const MAX_SDK_SOURCES = 6;
+
+const buildPushPayloadInputSchema = z.object({
+  title: z.string().min(1).optional().describe("Notification title"),
+  body: z.string().min(1).optional().describe("Notification body"),
+  imageUrl: z.string().optional().describe("https URL of the rich push image"),
+  link: z.string().optional().describe("Deep link or URL opened on click"),
+  campaignId: z.string().optional().describe("Notifly campaign ID, for click attribution"),
+  messageId: z.string().optional().describe("Notifly message ID, for click attribution"),
+  data: z.record(z.unknown()).optional().describe("Custom data delivered to the app"),
+  badge: z.number().int().min(0).optional().describe("iOS app icon badge count"),
+  sound: z.string().optional().describe('iOS sound name (default: "default")'),
+  platforms: z
+    .array(z.enum(PUSH_PLATFORMS))
+    .min(1)
+    .optional()
+    .describe("Platforms to build for (default: both)"),
+  apnsPayload: z.string().optional().describe("Hand-written APNs payload JSON to check instead"),
+  fcmPayload: z
+    .string()
+    .optional()
+    .describe("Hand-written FCM message JSON ({message} or the message) to check instead"),
+});
+
+type BuildPushPayloadInput = z.infer<typeof buildPushPayloadInputSchema>;
+
+const buildPushPayloadOutputSchema = {
+  valid: z.boolean().describe("Whether no errors were found (warnings allowed)"),
+  apns: z.record(z.unknown()).optional().describe("APNs payload"),
+  fcm: z.record(z.unknown()).optional().describe("FCM HTTP v1 message"),
+  sizes: z
+    .object({ apns: z.number().optional(), fcm: z.number().optional() })
+    .describe("APNs payload and FCM data size in bytes"),
+  issues: z.array(
+    z.object({
+      platform: z.enum(PUSH_PLATFORMS),
+      severity: z.enum(["error", "warning"]),
+      path: z.string(),
+      message: z.string(),
+    })
+  ),
+  sdk: z
+    .array(
+      z.object({
+        platform: z.enum(PUSH_PLATFORMS),
+        files: z.array(z.string()),
+        keys: z
+          .object({
+            campaignId: z.string(),
+            messageId: z.string(),
+            link: z.string(),
+            imageUrl: z.string(),
+          })
+          .describe("Notifly keys used for this platform, as found in the SDK sources"),
+        missing: z.array(z.string()).describe("Notifly keys the SDK sources never mention"),
+        otherKeys: z.array(z.string()).describe("notifly_* keys the SDK sources mention besides"),
+      })
+    )
+    .describe("Notifly keys checked against the SDK push sources"),
+};
+
+interface SdkKeyCheck {
+  platform: PushPlatform;
+  files: string[];
+  keys: NotiflyPushKeys;
+  missing: string[];
+  otherKeys: string[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function parsePayload(json: string, name: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new ValidationError(
+      `${name} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Object holding the Notifly keys of a payload: the APNs payload itself, or
+ * the FCM message's data
+ */
+function notiflyFieldsOf(platform: PushPlatform, payload: unknown): Record<string, unknown> {
+  if (!isObject(payload)) return {};
+  if (platform === "ios") return payload;
+  const message = isObject(payload.message) ? payload.message : payload;
+  return isObject(message.data) ? message.data : {};
+}
+
+/**
+ * Read the Notifly keys from the push sources of each platform's SDK.
+ * Platforms whose sources cannot be fetched are left out.
+ */
+async function checkSdkKeys(
+  platforms: PushPlatform[],
+  context: ServerContext
+): Promise<SdkKeyCheck[]> {
+  const entries = (await loadSdkEntries(context)).filter(
+    (e, i, all) =>
+      (platforms as string[]).includes(e.platform) &&
+      PUSH_SOURCE_PATTERN.test(`${e.title} ${e.file} ${e.description ?? ""}`) &&
+      all.findIndex((o) => o.file === e.file) === i
+  );
+  const checks = await Promise.all(
+    platforms.map(async (platform) => {
+      const files = entries.filter((e) => e.platform === platform).slice(0, MAX_SDK_SOURCES);
+      const sources = await Promise.all(
+        files.map(async (entry) => {
+          try {
+            return { url: entry.file, content: await fetchSdkSource(entry.file, context) };
+          } catch {
+            return undefined;
+          }
+        })
+      );
+      const fetched = sources.filter((s): s is { url: string; content: string } => !!s);
+      if (fetched.length === 0) return undefined;
+      const mentioned = new Set(
+        fetched.flatMap((s) =>
+          [...s.content.matchAll(/["'](notifly_?[A-Za-z0-9_]+)["']/g)].map((m) => m[1]!)
+        )
+      );
+      const { keys, missing } = resolveNotiflyPushKeys([...mentioned]);
+      const known: string[] = Object.values(keys);
+      return {
+        platform,
+        files: fetched.map((s) => s.url),
+        keys,
+        missing: missing.map((field) => keys[field]),
+        otherKeys: [...mentioned]
+          .filter((key) => /^notifly_[a-z0-9_]+$/.test(key) && !known.includes(key))
+          .sort(),
+      };
+    })
+  );
+  return checks.filter((c): c is SdkKeyCheck => c !== undefined);
+}
+
+export const buildPushPayloadTool: ToolDefinition<BuildPushPayloadInput, ToolResult> = {
+  name: "build_push_payload",
+  description: BUILD_PUSH_PAYLOAD_DESCRIPTION,
+  inputSchema: {
+    title: buildPushPayloadInputSchema.shape.title,
+    body: buildPushPayloadInputSchema.shape.body,
+    imageUrl: buildPushPayloadInputSchema.shape.imageUrl,
+    link: buildPushPayloadInputSchema.shape.link,
+    campaignId: buildPushPayloadInputSchema.shape.campaignId,
+    messageId: buildPushPayloadInputSchema.shape.messageId,
+    data: buildPushPayloadInputSchema.shape.data,
+    badge: buildPushPayloadInputSchema.shape.badge,
+    sound: buildPushPayloadInputSchema.shape.sound,
+    platforms: buildPushPayloadInputSchema.shape.platforms,
+    apnsPayload: buildPushPayloadInputSchema.shape.apnsPayload,
+    fcmPayload: buildPushPayloadInputSchema.shape.fcmPayload,
+  },
+  outputSchema: buildPushPayloadOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: BuildPushPayloadInput, context: ServerContext): Promise<ToolResult> {
+    const checking = params.apnsPayload !== undefined || params.fcmPayload !== undefined;
+    let apns: unknown;
+    let fcm: unknown;
+    let content: PushContent | undefined;
+    if (checking) {
+      if (params.title || params.body) {
+        throw new ValidationError(
+          "Pass either the push content (title, body, ...) or apnsPayload/fcmPayload to check, not both."
+        );
+      }
+      if (params.apnsPayload !== undefined) apns = parsePayload(params.apnsPayload, "apnsPayload");
+      if (params.fcmPayload !== undefined) fcm = parsePayload(params.fcmPayload, "fcmPayload");
+    } else {
+      if (!params.title || !params.body) {
+        throw new ValidationError("Pass title and body, or apnsPayload/fcmPayload to check.");
+      }
+      content = { ...params, title: params.title, body: params.body };
+    }
+    const platforms = checking
+      ? PUSH_PLATFORMS.filter((p) => (p === "ios" ? apns : fcm) !== undefined)
+      : (params.platforms ?? [...PUSH_PLATFORMS]);
+
+    try {
+      // The built-in key names stand in when the SDK sources are unavailable
+      let sdk: SdkKeyCheck[] = [];
+      try {
+        sdk = await checkSdkKeys([...platforms], context);
+      } catch {
+        // Keys are reported as unverified
+      }
+      const keysFor = (platform: PushPlatform) =>
+        sdk.find((c) => c.platform === platform)?.keys ?? NOTIFLY_PUSH_KEYS;
+
+      const issues: PushIssue[] = [];
+      if (content) {
+        const built = buildPushPayloads(content, {
+          ios: keysFor("ios"),
+          android: keysFor("android"),
+        });
+        if (platforms.includes("ios")) apns = built.apns;
+        if (platforms.includes("android")) fcm = built.fcm;
+        issues.push(...built.issues.filter((i) => platforms.includes(i.platform)));
+      }
+      if (apns !== undefined) issues.push(...validateApnsPayload(apns, keysFor("ios")));
+      if (fcm !== undefined) issues.push(...validateFcmMessage(fcm, keysFor("android")));
+
+      for (const platform of platforms) {
+        const check = sdk.find((c) => c.platform === platform);
+        const fields = notiflyFieldsOf(platform, platform === "ios" ? apns : fcm);
+        if (!check) {
+          issues.push({
+            platform,
+            severity: "warning",
+            path: "",
+            message: `The ${platform} SDK push sources are unavailable, so the built-in Notifly key names were used unverified.`,
+          });
+          continue;
+        }
+        for (const key of check.missing) {
+          if (fields[key] === undefined) continue;
+          issues.push({
+            platform,
+            severity: "error",
+            path: key,
+            message: `The ${platform} SDK push sources never read "${key}", so the SDK ignores it.`,
+          });
+        }
+      }
+
+      const fcmData = (fcm as { message?: { data?: unknown }; data?: unknown } | undefined) ?? {};
+      const sizes = {
+        ...(apns !== undefined ? { apns: payloadSize(apns) } : {}),
+        ...(fcm !== undefined
+          ? { fcm: payloadSize(fcmData.message?.data ?? fcmData.data ?? {}) }
+          : {}),
+      };
+      const errors = issues.filter((i) => i.severity === "error");
+      const warnings = issues.filter((i) => i.severity === "warning");
+
+      let output = `# Push Payload\n\n`;
+      output += `**Result**: ${errors.length === 0 ? "valid" : "invalid"}\n`;
+      output += `**Mode**: ${checking ? "checked hand-written payloads" : "built from content"}\n`;
+      output += `**Errors**: ${errors.length} · **Warnings**: ${warnings.length}\n\n`;
+      if (apns !== undefined) {
+        output += `## iOS (APNs): ${sizes.apns} / ${APNS_PAYLOAD_MAX_BYTES} bytes\n\n`;
+        output += `\`\`\`json\n${JSON.stringify(apns, null, 2)}\n\`\`\`\n\n`;
+      }
+      if (fcm !== undefined) {
+        output += `## Android (FCM): data ${sizes.fcm} / ${FCM_DATA_MAX_BYTES} bytes\n\n`;
+        output += `\`\`\`json\n${JSON.stringify(fcm, null, 2)}\n\`\`\`\n\n`;
+        if (!checking) output += `Add the device \`token\` to \`message\` before sending.\n\n`;
+      }
+      for (const [title, list] of [
+        ["Errors", errors],
+        ["Warnings", warnings],
+      ] as const) {
+        if (list.length === 0) continue;
+        output += `## ${title}\n\n`;
+        for (const issue of list) {
+          output += `- **${issue.platform}**${issue.path ? ` \`${issue.path}\`` : ""}: ${issue.message}\n`;
+        }
+        output += `\n`;
+      }
+
+      output += `## SDK Key Check\n\n`;
+      for (const platform of platforms) {
+        const check = sdk.find((c) => c.platform === platform);
+        if (!check) {
+          output += `- **${platform}**: SDK push sources unavailable; the Notifly keys were not verified.\n`;
+          continue;
+        }
+        output += `- **${platform}**: ${check.missing.length === 0 ? "all Notifly keys found" : `missing ${check.missing.join(", ")}`} in ${check.files.length} push source(s)`;
+        output +=
+          check.otherKeys.length > 0
+            ? `; the SDK also reads ${check.otherKeys.join(", ")}\n`
+            : `\n`;
+      }
+
+      return {
+        text: output,
+        structuredContent: {
+          valid: errors.length === 0,
+          ...(isObject(apns) ? { apns } : {}),
+          ...(isObject(fcm) ? { fcm } : {}),
+          sizes,
+          issues,
+          sdk,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to build push payload: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
@@ -0,0 +1,460 @@
+/**
+ * Kakao Template Check Tool
+ *
+ * Check a Kakao AlimTalk template against the review rules before it is
+ * submitted: variables, length limits, buttons and the rules of each message
+ * and emphasis type. Each violation links to the matching docs section.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult } from "../types.js";
+import { ApiError, NotiflyMcpError } from "../errors.js";
+import { CHECK_KAKAO_TEMPLATE_DESCRIPTION } from "./descriptions.js";
+import {
+  fetchDocSections,
+  loadDocsIndex,
+  resolveDocUrl,
+  searchDocs,
+  sectionUrl,
+  type DocsLink,
+} from "./search-docs.js";
+import { rankSections } from "../utils/doc-sections.js";
+
+const MESSAGE_TYPES = ["BA", "EX", "AD", "MI"] as const;
+const EMPHASIZE_TYPES = ["NONE", "TEXT", "IMAGE"] as const;
+const BUTTON_TYPES = ["WL", "AL", "DS", "BK", "MD", "BC", "BT", "AC"] as const;
+
+/** Review limits, in characters */
+const LIMITS = {
+  content: 1000,
+  title: 50,
+  subtitle: 50,
+  extra: 500,
+  buttonName: 14,
+  buttons: 5,
+  variableName: 30,
+};
+
+/** Fixed phrase of channel-add (AD, MI) templates */
+const CHANNEL_ADD_PHRASE = "채널 추가하고 이 채널의 광고와 마케팅 메시지 받기";
+
+/** Wording that marks a message as promotional, which AlimTalk does not allow */
+const PROMOTIONAL_WORDS = /(할인|쿠폰|특가|이벤트|세일|무료\s*증정|광고|프로모션|최대\s*\d+\s*%)/g;
+
+const buttonSchema = z.object({
+  type: z
+    .enum(BUTTON_TYPES)
+    .describe(
+      "WL web link, AL app link, DS delivery tracking, BK bot keyword, MD message delivery, BC consultation, BT bot, AC channel add"
+    ),
+  name: z.string().describe("Button label"),
+  linkMobile: z.string().optional().describe("Mobile URL (WL, AL)"),
+  linkPc: z.string().optional().describe("PC URL (WL, AL)"),
+  schemeIos: z.string().optional().describe("iOS app scheme (AL)"),
+  schemeAndroid: z.string().optional().describe("Android app scheme (AL)"),
+});
+
+type KakaoButton = z.infer<typeof buttonSchema>;
+
+const checkKakaoTemplateInputSchema = z.object({
+  content: z.string().min(1).describe("Template body with #{variable} placeholders"),
+  messageType: z
+    .enum(MESSAGE_TYPES)
+    .optional()
+    .describe("BA basic, EX extra info, AD channel add, MI mixed (default: BA)"),
+  emphasizeType: z
+    .enum(EMPHASIZE_TYPES)
+    .optional()
+    .describe("NONE, TEXT (emphasized title) or IMAGE (default: NONE)"),
+  title: z.string().optional().describe("Emphasized title (emphasizeType TEXT)"),
+  subtitle: z.string().optional().describe("Emphasized subtitle (emphasizeType TEXT)"),
+  imageUrl: z.string().optional().describe("Template image URL (emphasizeType IMAGE)"),
+  extra: z.string().optional().describe("Extra information (messageType EX, MI)"),
+  adContent: z.string().optional().describe("Channel add phrase (messageType AD, MI)"),
+  buttons: z.array(buttonSchema).optional().describe("Buttons, in display order"),
+});
+
+type CheckKakaoTemplateInput = z.infer<typeof checkKakaoTemplateInputSchema>;
+
+const violationSchema = z.object({
+  id: z.string(),
+  severity: z.enum(["error", "warning"]),
+  field: z.string(),
+  message: z.string(),
+  docs: z.object({ title: z.string(), url: z.string() }).optional(),
+});
+
+type Violation = z.infer<typeof violationSchema>;
+
+const checkKakaoTemplateOutputSchema = {
+  valid: z.boolean().describe("Whether no errors were found (warnings allowed)"),
+  variables: z.array(z.string()).describe("Variable names used, in order of first use"),
+  lengths: z.record(z.number()).describe("Character counts of the text fields"),
+  violations: z.array(violationSchema),
+};
+
+/** Docs search query per violation category, for linking violations to docs sections */
+const DOCS_QUERIES: Record<string, string> = {
+  variable: "카카오 알림톡 템플릿 변수",
+  length: "카카오 알림톡 템플릿 글자 수 제한",
+  button: "카카오 알림톡 버튼",
+  type: "카카오 알림톡 메시지 유형 강조 표기",
+  content: "카카오 알림톡 템플릿 검수 반려",
+};
+
+/** Characters as Kakao counts them (a Hangul syllable or emoji is one) */
+function length(text: string): number {
+  return [...text].length;
+}
+
+function isHttpUrl(url: string): boolean {
+  return /^https?:\/\/[^\s/$.?#].[^\s]*$/i.test(url);
+}
+
+/**
+ * #{variable} names in a text, with malformed placeholders reported
+ */
+function checkVariables(text: string, field: string, violations: Violation[]): string[] {
+  const names: string[] = [];
+  for (const match of text.matchAll(/#\{([^{}]*)\}/g)) {
+    const name = match[1]!;
+    if (!name.trim()) {
+      violations.push({
+        id: "variable-empty",
+        severity: "error",
+        field,
+        message: `Empty variable "${match[0]}".`,
+      });
+    } else if (name !== name.trim() || /[#{}\s]/.test(name.trim())) {
+      violations.push({
+        id: "variable-name",
+        severity: "error",
+        field,
+        message: `Variable "${match[0]}" contains spaces or #, { or }. Use a name like #{고객명}.`,
+      });
+    } else if (length(name) > LIMITS.variableName) {
+      violations.push({
+        id: "variable-name",
+        severity: "error",
+        field,
+        message: `Variable name "${name}" is longer than ${LIMITS.variableName} characters.`,
+      });
+    }
+    names.push(name.trim());
+  }
+  const stripped = text.replace(/#\{[^{}]*\}/g, "");
+  if (/#\{|\$\{|\{\{/.test(stripped) || /#\s+\{/.test(text)) {
+    violations.push({
+      id: "variable-syntax",
+      severity: "error",
+      field,
+      message:
+        "Malformed variable: AlimTalk variables are written #{name}, without nesting, ${...} or {{...}}.",
+    });
+  }
+  return names;
+}
+
+function checkLength(
+  text: string | undefined,
+  field: keyof typeof LIMITS,
+  violations: Violation[]
+): number {
+  const count = length(text ?? "");
+  if (count > LIMITS[field]) {
+    violations.push({
+      id: `length-${field}`,
+      severity: "error",
+      field,
+      message: `${field} is ${count} characters; the limit is ${LIMITS[field]}. Variables count at their substituted length when sent.`,
+    });
+  }
+  return count;
+}
+
+function checkButton(
+  button: KakaoButton,
+  index: number,
+  params: CheckKakaoTemplateInput,
+  violations: Violation[]
+): void {
+  const field = `buttons[${index}]`;
+  const add = (id: string, message: string, severity: Violation["severity"] = "error") =>
+    violations.push({ id, severity, field, message });
+
+  if (!button.name.trim()) add("button-name", "Button name is empty.");
+  if (length(button.name) > LIMITS.buttonName) {
+    add(
+      "button-name",
+      `Button name "${button.name}" is ${length(button.name)} characters; the limit is ${LIMITS.buttonName}.`
+    );
+  }
+  if (/#\{/.test(button.name)) {
+    add(
+      "button-variable",
+      `Button name "${button.name}" contains a variable; names must be fixed text.`
+    );
+  }
+
+  for (const key of ["linkMobile", "linkPc"] as const) {
+    const link = button[key];
+    if (!link) continue;
+    if (/^#\{/.test(link)) {
+      add(
+        "button-link-domain",
+        `${key} starts with a variable. The domain must be fixed text; only the path or query may use variables.`
+      );
+    } else if (!isHttpUrl(link.replace(/#\{[^{}]*\}/g, "x"))) {
+      add("button-link", `${key} "${link}" is not an http(s) URL.`);
+    }
+  }
+
+  switch (button.type) {
+    case "WL":
+      if (!button.linkMobile) add("button-link", "Web link (WL) buttons need linkMobile.");
+      break;
+    case "AL": {
+      const targets = [button.schemeIos, button.schemeAndroid, button.linkMobile].filter(Boolean);
+      if (targets.length < 2) {
+        add(
+          "button-link",
+          "App link (AL) buttons need two of schemeIos, schemeAndroid and linkMobile."
+        );
+      }
+      break;
+    }
+    case "AC":
+      if (params.messageType !== "AD" && params.messageType !== "MI") {
+        add(
+          "button-channel-add",
+          "Channel add (AC) buttons are only allowed in AD and MI templates."
+        );
+      } else if (index !== 0) {
+        add("button-channel-add", "The channel add (AC) button must be the first button.");
+      }
+      if (button.name !== "채널 추가") {
+        add("button-channel-add", `Channel add (AC) buttons must be named "채널 추가".`);
+      }
+      break;
+    case "DS":
+      if (!/택배|배송|운송장/.test(params.content)) {
+        add(
+          "button-delivery",
+          "Delivery tracking (DS) buttons need the courier and tracking number in the content.",
+          "warning"
+        );
+      }
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Review rules of the message and emphasis types
+ */
+function checkTypeRules(params: CheckKakaoTemplateInput, violations: Violation[]): void {
+  const messageType = params.messageType ?? "BA";
+  const emphasizeType = params.emphasizeType ?? "NONE";
+  const add = (field: string, message: string) =>
+    violations.push({ id: `type-${messageType.toLowerCase()}`, severity: "error", field, message });
+
+  const hasExtra = messageType === "EX" || messageType === "MI";
+  const hasAd = messageType === "AD" || messageType === "MI";
+  if (hasExtra && !params.extra?.trim())
+    add("extra", `${messageType} templates need extra information.`);
+  if (!hasExtra && params.extra)
+    add("extra", `Extra information is only allowed in EX and MI templates.`);
+  if (hasExtra && params.extra && /#\{/.test(params.extra)) {
+    add("extra", "Extra information must be fixed text without variables.");
+  }
+  if (hasAd) {
+    if (params.adContent !== undefined && params.adContent !== CHANNEL_ADD_PHRASE) {
+      add("adContent", `The channel add phrase must be exactly "${CHANNEL_ADD_PHRASE}".`);
+    }
+    if (params.buttons?.[0]?.type !== "AC") {
+      add("buttons", `${messageType} templates need a channel add (AC) button first.`);
+    }
+  } else if (params.adContent) {
+    add("adContent", "The channel add phrase is only allowed in AD and MI templates.");
+  }
+
+  if (emphasizeType === "TEXT") {
+    if (!params.title?.trim()) add("title", "Emphasized title (TEXT) templates need a title.");
+    if (!params.subtitle?.trim())
+      add("subtitle", "Emphasized title (TEXT) templates need a subtitle.");
+  } else if (params.title || params.subtitle) {
+    add("title", "title and subtitle are only used with emphasizeType TEXT.");
+  }
+  if (emphasizeType === "IMAGE" && !params.imageUrl) {
+    add("imageUrl", "Image (IMAGE) templates need imageUrl.");
+  }
+}
+
+/**
+ * Content rules Kakao's review commonly rejects on
+ */
+function checkContent(content: string, violations: Violation[]): void {
+  const fixedText = content.replace(/#\{[^{}]*\}/g, "").replace(/[\s\p{P}\p{S}]/gu, "");
+  const variableText = (content.match(/#\{[^{}]*\}/g) ?? []).join("");
+  if (!fixedText) {
+    violations.push({
+      id: "content-only-variables",
+      severity: "error",
+      field: "content",
+      message: "Content consists only of variables; templates need fixed text reviewers can check.",
+    });
+  } else if (length(variableText) > length(fixedText)) {
+    violations.push({
+      id: "content-mostly-variables",
+      severity: "warning",
+      field: "content",
+      message:
+        "Variables make up most of the content. Reviews reject templates whose meaning depends on variables; keep the message fixed and vary only names, dates or amounts.",
+    });
+  }
+  const promotional = [...new Set(content.match(PROMOTIONAL_WORDS) ?? [])];
+  if (promotional.length > 0) {
+    violations.push({
+      id: "content-promotional",
+      severity: "warning",
+      field: "content",
+      message: `Promotional wording (${promotional.join(", ")}). AlimTalk is for informational messages only; send marketing through FriendTalk.`,
+    });
+  }
+}
+
+/**
+ * Best docs section for a query: the top page from the index and, when the
+ * page can be fetched, its most relevant section
+ */
+async function findDocsSection(
+  links: DocsLink[],
+  query: string,
+  context: ServerContext
+): Promise<Violation["docs"]> {
+  const [best] = searchDocs(links, query, 1);
+  if (!best) return undefined;
+  const url = resolveDocUrl(best.link.url);
+  try {
+    const [ranked] = rankSections(await fetchDocSections(url, context), query, 1);
+    const heading = ranked?.section.headingPath.at(-1);
+    if (ranked && ranked.score > 0 && heading && heading !== best.link.title) {
+      return {
+        title: `${best.link.title} › ${heading}`,
+        url: sectionUrl(url, ranked.section),
+      };
+    }
+  } catch {
+    // Fall back to the page link
+  }
+  return { title: best.link.title, url };
+}
+
+export const checkKakaoTemplateTool: ToolDefinition<CheckKakaoTemplateInput, ToolResult> = {
+  name: "check_kakao_template",
+  description: CHECK_KAKAO_TEMPLATE_DESCRIPTION,
+  inputSchema: {
+    content: checkKakaoTemplateInputSchema.shape.content,
+    messageType: checkKakaoTemplateInputSchema.shape.messageType,
+    emphasizeType: checkKakaoTemplateInputSchema.shape.emphasizeType,
+    title: checkKakaoTemplateInputSchema.shape.title,
+    subtitle: checkKakaoTemplateInputSchema.shape.subtitle,
+    imageUrl: checkKakaoTemplateInputSchema.shape.imageUrl,
+    extra: checkKakaoTemplateInputSchema.shape.extra,
+    adContent: checkKakaoTemplateInputSchema.shape.adContent,
+    buttons: checkKakaoTemplateInputSchema.shape.buttons,
+  },
+  outputSchema: checkKakaoTemplateOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: CheckKakaoTemplateInput, context: ServerContext): Promise<ToolResult> {
+    try {
+      const violations: Violation[] = [];
+      const variables = [
+        ...checkVariables(params.content, "content", violations),
+        ...(params.title ? checkVariables(params.title, "title", violations) : []),
+        ...(params.subtitle ? checkVariables(params.subtitle, "subtitle", violations) : []),
+      ];
+      const lengths: Record<string, number> = {
+        content: checkLength(params.content, "content", violations),
+      };
+      for (const field of ["title", "subtitle", "extra"] as const) {
+        if (params[field] !== undefined)
+          lengths[field] = checkLength(params[field], field, violations);
+      }
+      checkContent(params.content, violations);
+      checkTypeRules(params, violations);
+
+      const buttons = params.buttons ?? [];
+      if (buttons.length > LIMITS.buttons) {
+        violations.push({
+          id: "button-count",
+          severity: "error",
+          field: "buttons",
+          message: `${buttons.length} buttons; AlimTalk templates allow at most ${LIMITS.buttons}.`,
+        });
+      }
+      buttons.forEach((button, index) => checkButton(button, index, params, violations));
+
+      // Link violations to docs sections; the check stands on its own when docs are unavailable
+      if (violations.length > 0) {
+        try {
+          const links = await loadDocsIndex(context);
+          const sections = new Map<string, Promise<Violation["docs"]>>();
+          for (const violation of violations) {
+            const query = DOCS_QUERIES[violation.id.split("-")[0]!] ?? DOCS_QUERIES.content!;
+            if (!sections.has(query)) sections.set(query, findDocsSection(links, query, context));
+            const docs = await sections.get(query);
+            if (docs) violation.docs = docs;
+          }
+        } catch {
+          // Violations are reported without docs links
+        }
+      }
+
+      const ordered = [
+        ...violations.filter((v) => v.severity === "error"),
+        ...violations.filter((v) => v.severity === "warning"),
+      ];
+      const errors = ordered.filter((v) => v.severity === "error").length;
+
+      let output = `# Kakao AlimTalk Template Check\n\n`;
+      output += `**Result**: ${errors === 0 ? "ready for review" : "will be rejected"}\n`;
+      output += `**Type**: ${params.messageType ?? "BA"} / ${params.emphasizeType ?? "NONE"}\n`;
+      output += `**Length**: ${Object.entries(lengths)
+        .map(([field, count]) => `${field} ${count}/${LIMITS[field as keyof typeof LIMITS]}`)
+        .join(", ")}\n`;
+      output += `**Variables**: ${variables.length > 0 ? [...new Set(variables)].map((v) => `#{${v}}`).join(", ") : "none"}\n\n`;
+      if (ordered.length === 0) {
+        output += `No violations found.\n`;
+      } else {
+        output += `## Violations\n\n`;
+        ordered.forEach((violation, index) => {
+          output += `${index + 1}. **[${violation.severity}] ${violation.field}**: ${violation.message}\n`;
+          if (violation.docs)
+            output += `   **Docs**: [${violation.docs.title}](${violation.docs.url})\n`;
+        });
+      }
+
+      return {
+        text: output,
+        structuredContent: {
+          valid: errors === 0,
+          variables: [...new Set(variables)],
+          lengths,
+          violations: ordered,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to check Kakao template: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
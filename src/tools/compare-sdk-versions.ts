@@ -0,0 +1,417 @@
+/**
+ * SDK Version Comparison Tool
+ *
+ * Compare SDK source files between two releases: a unified diff of the
+ * changed files plus the public declarations that were added, removed or
+ * changed, to review SDK upgrades.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult } from "../types.js";
+import { SDK_DIFF_MAX_LENGTH } from "../constants.js";
+import { ApiError, NotFoundError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { COMPARE_SDK_VERSIONS_DESCRIPTION } from "./descriptions.js";
+import {
+  loadSdkEntries,
+  fetchSdkSource,
+  languageForFile,
+  normalizeSdkPlatform,
+  sdkPin,
+  sdkRefSchema,
+  type SdkEntry,
+} from "./search-sdk.js";
+import { resolveSdkEntry } from "./get-sdk-file.js";
+import { parseRawGithubUrl } from "../resources/uris.js";
+import {
+  listDeclarations,
+  matchesSymbolName,
+  type DeclarationInfo,
+} from "../utils/code-symbols.js";
+import { unifiedDiff } from "../utils/diff.js";
+
+const compareSdkVersionsInputSchema = z.object({
+  platform: z
+    .string()
+    .min(1)
+    .transform(normalizeSdkPlatform)
+    .describe("SDK platform (ios, android, flutter, react native, javascript, gtm)"),
+  fromRef: sdkRefSchema
+    .unwrap()
+    .describe("Release tag, branch or commit SHA to compare from (e.g. '1.3.0')"),
+  toRef: sdkRefSchema
+    .unwrap()
+    .describe("Release tag, branch or commit SHA to compare to (e.g. '1.4.0' or 'main')"),
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "File to compare: path in the SDK repository (a trailing part is enough), notifly-sdk:// URI or GitHub raw URL. Default: every indexed file of the platform"
+    ),
+  title: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Entry title from the SDK llms.txt index of the file to compare"),
+  symbol: z
+    .string()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe(
+      "Only compare this declaration, e.g. 'setUserId' or 'Notifly.trackEvent' (members of a type included)"
+    ),
+});
+
+type CompareSdkVersionsInput = z.infer<typeof compareSdkVersionsInputSchema>;
+
+const apiChangeSchema = z.object({
+  name: z.string().describe("Declaration name qualified with its enclosing types"),
+  kind: z.string(),
+  path: z.string().describe("File path in the SDK repository"),
+  before: z.array(z.string()).describe("Signatures at fromRef (several for overloads)"),
+  after: z.array(z.string()).describe("Signatures at toRef (several for overloads)"),
+});
+
+const compareSdkVersionsOutputSchema = {
+  platform: z.string(),
+  fromRef: z.string(),
+  toRef: z.string(),
+  symbol: z.string().optional(),
+  files: z
+    .array(
+      z.object({
+        path: z.string().describe("File path in the SDK repository"),
+        status: z.enum(["added", "removed", "modified", "unchanged"]),
+        diff: z
+          .string()
+          .optional()
+          .describe("Unified diff, omitted when unchanged or over the output limit"),
+      })
+    )
+    .describe("Compared files"),
+  api: z
+    .object({
+      added: z.array(apiChangeSchema),
+      removed: z.array(apiChangeSchema),
+      changed: z.array(apiChangeSchema),
+    })
+    .describe("Public declarations added, removed or with a changed signature"),
+  truncated: z.boolean().describe("Whether some diffs were left out to fit the output limit"),
+};
+
+type ApiChange = z.infer<typeof apiChangeSchema>;
+type FileStatus = "added" | "removed" | "modified" | "unchanged";
+
+/**
+ * One file at both refs (undefined where the file does not exist)
+ */
+interface FileVersions {
+  path: string;
+  language: string;
+  before?: string;
+  after?: string;
+}
+
+function repositoryPath(entry: SdkEntry): string {
+  const parsed = parseRawGithubUrl(entry.file);
+  return parsed ? `${parsed.repo}/${parsed.filePath}` : entry.file;
+}
+
+/**
+ * Source of a file, or undefined when it does not exist at that ref
+ */
+async function fetchVersion(
+  entry: SdkEntry | undefined,
+  context: ServerContext
+): Promise<string | undefined> {
+  if (!entry) return undefined;
+  try {
+    return await fetchSdkSource(entry.file, context);
+  } catch (error) {
+    if (error instanceof ApiError && error.statusCode === 404) return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Resolve the file named by path or title at one ref, or undefined when
+ * it is not in that ref's index
+ */
+function findEntry(entries: SdkEntry[], params: CompareSdkVersionsInput): SdkEntry | undefined {
+  try {
+    return resolveSdkEntry(entries, params);
+  } catch (error) {
+    if (error instanceof NotFoundError) return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Entries to compare, paired by repository path across both refs
+ */
+function pairEntries(
+  params: CompareSdkVersionsInput,
+  fromEntries: SdkEntry[],
+  toEntries: SdkEntry[]
+): Array<{ from?: SdkEntry; to?: SdkEntry }> {
+  if (params.path || params.title) {
+    const from = findEntry(fromEntries, params);
+    const to = findEntry(toEntries, params);
+    if (!from && !to) {
+      // Rethrows the NotFoundError with the searched path or title
+      resolveSdkEntry(toEntries, params);
+    }
+    return [{ from, to }];
+  }
+
+  const pairs = new Map<string, { from?: SdkEntry; to?: SdkEntry }>();
+  for (const entry of fromEntries.filter((e) => e.platform === params.platform)) {
+    pairs.set(repositoryPath(entry), { ...pairs.get(repositoryPath(entry)), from: entry });
+  }
+  for (const entry of toEntries.filter((e) => e.platform === params.platform)) {
+    pairs.set(repositoryPath(entry), { ...pairs.get(repositoryPath(entry)), to: entry });
+  }
+  if (pairs.size === 0) {
+    throw new NotFoundError(`SDK files for platform "${params.platform}"`);
+  }
+  return [...pairs.values()];
+}
+
+/**
+ * Text of the requested symbol's declarations (outermost ones only)
+ */
+function symbolText(source: string, declarations: DeclarationInfo[], symbol: string): string {
+  const lines = source.split("\n");
+  const ranges: Array<[number, number]> = [];
+  for (const declaration of declarations) {
+    if (!matchesSymbolName(declaration.name, symbol)) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && declaration.startLine <= last[1]) continue;
+    ranges.push([declaration.startLine, declaration.endLine]);
+  }
+  return ranges.map(([start, end]) => lines.slice(start - 1, end).join("\n") + "\n").join("");
+}
+
+/**
+ * Signatures of the public declarations in a file, by qualified name
+ */
+function publicApi(declarations: DeclarationInfo[]): Map<string, DeclarationInfo[]> {
+  const api = new Map<string, DeclarationInfo[]>();
+  for (const declaration of declarations) {
+    if (!declaration.isPublic) continue;
+    api.set(declaration.name, [...(api.get(declaration.name) ?? []), declaration]);
+  }
+  return api;
+}
+
+/**
+ * Public declarations added, removed, or whose signatures changed between
+ * two versions of a file
+ */
+function compareApi(
+  path: string,
+  before: DeclarationInfo[],
+  after: DeclarationInfo[]
+): { added: ApiChange[]; removed: ApiChange[]; changed: ApiChange[] } {
+  const beforeApi = publicApi(before);
+  const afterApi = publicApi(after);
+  const signatures = (declarations: DeclarationInfo[] | undefined) =>
+    [...new Set((declarations ?? []).map((d) => d.signature))].sort();
+  const change = (name: string): ApiChange => {
+    const declaration = (afterApi.get(name) ?? beforeApi.get(name))![0]!;
+    return {
+      name,
+      kind: declaration.kind,
+      path,
+      before: signatures(beforeApi.get(name)),
+      after: signatures(afterApi.get(name)),
+    };
+  };
+
+  const added = [...afterApi.keys()].filter((name) => !beforeApi.has(name)).map(change);
+  const removed = [...beforeApi.keys()].filter((name) => !afterApi.has(name)).map(change);
+  const changed = [...afterApi.keys()]
+    .filter((name) => beforeApi.has(name))
+    .map(change)
+    .filter((c) => c.before.join("\n") !== c.after.join("\n"));
+  return { added, removed, changed };
+}
+
+function formatApiChanges(title: string, changes: ApiChange[]): string {
+  if (changes.length === 0) return "";
+  let output = `### ${title} (${changes.length})\n\n`;
+  for (const change of changes) {
+    output += `- \`${change.name}\` (${change.kind}) — ${change.path}\n`;
+    if (change.before.length > 0 && change.after.length > 0) {
+      for (const signature of change.before) output += `  - before: \`${signature}\`\n`;
+      for (const signature of change.after) output += `  - after: \`${signature}\`\n`;
+    } else {
+      for (const signature of [...change.before, ...change.after]) {
+        output += `  - \`${signature}\`\n`;
+      }
+    }
+  }
+  return output + "\n";
+}
+
+export const compareSdkVersionsTool: ToolDefinition<CompareSdkVersionsInput, ToolResult> = {
+  name: "compare_sdk_versions",
+  description: COMPARE_SDK_VERSIONS_DESCRIPTION,
+  inputSchema: {
+    platform: compareSdkVersionsInputSchema.shape.platform,
+    fromRef: compareSdkVersionsInputSchema.shape.fromRef,
+    toRef: compareSdkVersionsInputSchema.shape.toRef,
+    path: compareSdkVersionsInputSchema.shape.path,
+    title: compareSdkVersionsInputSchema.shape.title,
+    symbol: compareSdkVersionsInputSchema.shape.symbol,
+  },
+  outputSchema: compareSdkVersionsOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: CompareSdkVersionsInput, context: ServerContext): Promise<ToolResult> {
+    const fromPin = sdkPin(params.platform, params.fromRef)!;
+    const toPin = sdkPin(params.platform, params.toRef)!;
+    if (params.fromRef === params.toRef) {
+      throw new ValidationError("fromRef and toRef must be different refs.");
+    }
+
+    try {
+      const [fromEntries, toEntries] = await Promise.all([
+        loadSdkEntries(context, fromPin),
+        loadSdkEntries(context, toPin),
+      ]);
+
+      const versions: FileVersions[] = await Promise.all(
+        pairEntries(params, fromEntries, toEntries).map(async ({ from, to }) => {
+          const entry = (to ?? from)!;
+          const [before, after] = await Promise.all([
+            fetchVersion(from, context),
+            fetchVersion(to, context),
+          ]);
+          return {
+            path: repositoryPath(entry),
+            language: languageForFile(entry.file),
+            before,
+            after,
+          };
+        })
+      );
+
+      const files: Array<{ path: string; status: FileStatus; diff?: string }> = [];
+      const api = {
+        added: [] as ApiChange[],
+        removed: [] as ApiChange[],
+        changed: [] as ApiChange[],
+      };
+      let symbolFound = false;
+      let budget = SDK_DIFF_MAX_LENGTH;
+      let truncated = false;
+
+      for (const file of versions) {
+        if (file.before === undefined && file.after === undefined) continue;
+        let before = file.before ?? "";
+        let after = file.after ?? "";
+        let beforeDeclarations = listDeclarations(before, file.language);
+        let afterDeclarations = listDeclarations(after, file.language);
+
+        if (params.symbol) {
+          const symbol = params.symbol;
+          const inFile = (d: DeclarationInfo) => matchesSymbolName(d.name, symbol);
+          if (!beforeDeclarations.some(inFile) && !afterDeclarations.some(inFile)) continue;
+          symbolFound = true;
+          before = symbolText(before, beforeDeclarations, symbol);
+          after = symbolText(after, afterDeclarations, symbol);
+          beforeDeclarations = beforeDeclarations.filter(inFile);
+          afterDeclarations = afterDeclarations.filter(inFile);
+        }
+
+        const status: FileStatus =
+          file.before === undefined
+            ? "added"
+            : file.after === undefined
+              ? "removed"
+              : before === after
+                ? "unchanged"
+                : "modified";
+        const changes = compareApi(file.path, beforeDeclarations, afterDeclarations);
+        api.added.push(...changes.added);
+        api.removed.push(...changes.removed);
+        api.changed.push(...changes.changed);
+
+        const diff =
+          status === "unchanged"
+            ? ""
+            : unifiedDiff(
+                before,
+                after,
+                `${params.fromRef}/${file.path}`,
+                `${params.toRef}/${file.path}`
+              );
+        if (diff && diff.length <= budget) {
+          budget -= diff.length;
+          files.push({ path: file.path, status, diff });
+        } else {
+          if (diff) truncated = true;
+          files.push({ path: file.path, status });
+        }
+      }
+
+      if (params.symbol && !symbolFound) {
+        throw new NotFoundError(
+          `Symbol ${JSON.stringify(params.symbol)} at ${params.fromRef} or ${params.toRef}`
+        );
+      }
+
+      const changedFiles = files.filter((f) => f.status !== "unchanged");
+      const apiChanges = api.added.length + api.removed.length + api.changed.length;
+
+      let output = `# Notifly SDK Changes: ${params.fromRef} → ${params.toRef}\n\n`;
+      output += `**Platform**: ${params.platform}\n`;
+      if (params.symbol) output += `**Symbol**: ${params.symbol}\n`;
+      output += `**Files**: ${changedFiles.length} changed of ${files.length} compared\n\n`;
+
+      output += `## Public API\n\n`;
+      if (apiChanges === 0) {
+        output += `No public declarations were added, removed or changed.\n\n`;
+      } else {
+        output += formatApiChanges("Added", api.added);
+        output += formatApiChanges("Removed", api.removed);
+        output += formatApiChanges("Changed", api.changed);
+      }
+
+      output += `## Diff\n\n`;
+      if (changedFiles.length === 0) {
+        output += `No changes between ${params.fromRef} and ${params.toRef}.\n`;
+      }
+      for (const file of changedFiles) {
+        output += `### ${file.path} (${file.status})\n\n`;
+        output += file.diff
+          ? `\`\`\`diff\n${file.diff}\n\`\`\`\n\n`
+          : `Diff omitted to fit the output limit; narrow the comparison with \`path\` or \`symbol\`.\n\n`;
+      }
+
+      return {
+        text: output,
+        structuredContent: {
+          platform: params.platform,
+          fromRef: params.fromRef,
+          toRef: params.toRef,
+          ...(params.symbol ? { symbol: params.symbol } : {}),
+          files,
+          api,
+          truncated,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to compare SDK versions: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
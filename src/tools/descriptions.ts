@@ -23,10 +23,11 @@ export const DOCS_SEARCH_DESCRIPTION_KO = `지능형 문서 검색 - 노티플
 - 문서 전역 검색(/ko/search.md)으로 빠른 탐색
 
 **반환:**
-- 링크가 아닌 실제 문서 내용
-- 컨텍스트를 포함한 관련 발췌
+- 링크가 아닌 실제 문서 내용(코드 블록, 표, 목록을 보존한 Markdown)
+- 페이지 상단이 아닌, 질의와 가장 관련된 섹션 발췌(제목 경로 및 앵커 URL 포함)
 - 추가 확인용 원문 URL
 - 관련도 점수에 따른 정렬
+- 구조화된 결과(structuredContent: title, url, score, excerpt 등)
 
 **매개변수:**
 - \`query\` (필수): 자연어 검색 질의 (1-200자)
@@ -62,15 +63,19 @@ export const SDK_SEARCH_DESCRIPTION = `SDK 소스 코드 및 템플릿 검색 -
 
 **반환:**
 - GitHub에서 직접 가져온 실제 소스/템플릿
+- 큰 파일은 심볼(클래스/익스텐션/함수/메서드) 단위로 나누어 질의와 가장 관련된 부분만 줄 범위와 GitHub 줄 링크와 함께 반환
 - 파일/템플릿 메타데이터(플랫폼, 경로, 설명)
 - 질의어와의 관련도 순으로 정렬
+- \`ref\` 지정 시 앱에서 실제로 사용하는 SDK 버전의 코드
 - 구문 하이라이팅된 코드 블록
 - GitHub 원본 링크
+- 구조화된 결과(structuredContent: title, url, platform, score, excerpt, language, chunks 등)
 
 **매개변수:**
 - \`query\`(필수): 코드 중심 검색 질의(1-200자)
 - \`platform\`(선택): 플랫폼 필터(\`ios\`, \`react-native\`, \`gtm\`, \`all\`)
 - \`maxResults\`(선택): 반환할 결과 수(1-10, 기본값: 3)
+- \`ref\`(선택): SDK 릴리스 태그, 브랜치 또는 커밋 SHA(예: \`1.4.0\`). 지정하면 해당 버전의 llms.txt와 소스를 읽습니다(기본값: main). \`platform\` 지정 필요
 
 **예시:**
 \`\`\`
@@ -80,3 +85,554 @@ search_sdk({
   maxResults: 3
 })
 \`\`\``;
+
+export const GET_SDK_FILE_DESCRIPTION = `SDK 파일 조회 - Notifly SDK 소스 파일 전체 또는 지정한 줄 범위를 가져옵니다.
+
+**개요:**
+SDK llms.txt 인덱스에 등록된 파일을 경로 또는 항목 제목으로 찾아 GitHub raw에서 잘림 없이 불러옵니다. \`search_sdk\`로 관련 파일을 찾은 뒤 파일의 나머지 부분이나 특정 메서드 주변을 읽을 때 사용합니다. 큰 파일은 페이지 단위(기본 300줄)로 나누어 반환합니다.
+
+**사용 사례:**
+- \`search_sdk\` 결과에서 잘린 파일의 나머지 읽기
+- 검색 결과의 줄 범위(예: 120-180행) 주변 코드 확인
+- 파일 이름만 알고 있는 SDK 구현 코드 전체 열람
+
+**반환:**
+- 요청한 줄 범위의 소스 코드(구문 하이라이팅된 코드 블록)
+- 파일 메타데이터(플랫폼, 경로, 설명, 전체 줄 수)
+- GitHub 원본 링크와 해당 줄 범위 링크
+- 남은 줄이 있으면 다음 페이지의 \`startLine\`
+- 구조화된 결과(structuredContent: path, startLine, endLine, totalLines, nextStartLine, content 등)
+
+**매개변수:**
+- \`platform\`(필수): SDK 플랫폼(\`ios\`, \`android\`, \`flutter\`, \`react-native\`, \`javascript\`, \`gtm\`, \`all\`)
+- \`path\`(선택): 저장소 내 파일 경로(끝부분만 적어도 됨, 예: \`Notifly.swift\`), \`<저장소>/<경로>\`, \`notifly-sdk://\` 리소스 URI 또는 GitHub raw URL
+- \`title\`(선택): SDK llms.txt 항목 제목(예: \`Notifly Main Entry\`). \`path\`와 \`title\` 중 하나는 필수
+- \`startLine\`(선택): 시작 줄(1부터, 기본값: 1)
+- \`endLine\`(선택): 끝 줄(포함)
+- \`ref\`(선택): SDK 릴리스 태그, 브랜치 또는 커밋 SHA(기본값: main). \`platform\` 지정 필요
+
+**예시:**
+\`\`\`
+get_sdk_file({
+  platform: "ios",
+  path: "Notifly.swift",
+  startLine: 120,
+  endLine: 200
+})
+\`\`\``;
+
+export const GET_DOC_PAGE_DESCRIPTION = `문서 페이지 조회 - 노티플라이 문서 페이지 하나를 잘림 없이 Markdown으로 가져옵니다.
+
+**개요:**
+llms.txt 인덱스에 등록된 문서 페이지를 URL 또는 경로로 찾아 전체 내용을 깔끔한 Markdown으로 반환합니다. \`search_docs\` 결과에서 관심 있는 페이지를 찾은 뒤, 같은 페이지가 다시 검색되기를 기대하지 않고 바로 전체 내용을 읽을 때 사용합니다. 긴 페이지는 섹션 단위로 나누어 여러 번에 걸쳐 반환하며, 매번 전체 목차를 함께 제공합니다.
+
+**사용 사례:**
+- \`search_docs\`에서 찾은 페이지의 전체 내용 읽기
+- 검색 결과의 섹션 URL(\`#anchor\`)에서 이어서 읽기
+- 목차로 페이지 구조를 파악한 뒤 필요한 섹션만 읽기
+
+**반환:**
+- 페이지 제목, URL, 리소스 URI
+- 번호가 매겨진 전체 목차(이번에 반환된 섹션은 굵게 표시)
+- 요청한 섹션들의 Markdown(코드 블록, 표, 목록 유지)
+- 남은 섹션이 있으면 다음 페이지의 \`startSection\`
+- 구조화된 결과(structuredContent: toc, startSection, endSection, nextStartSection, content 등)
+
+**매개변수:**
+- \`url\`(필수): 문서 URL(\`https://docs.notifly.tech/ko/...\`), 경로(예: \`client-sdk/ios-sdk\`) 또는 \`notifly-docs://\` 리소스 URI. \`#anchor\`가 있으면 해당 섹션부터 반환
+- \`startSection\`(선택): 시작 섹션 번호(목차 번호, 1부터)
+
+**예시:**
+\`\`\`
+get_doc_page({
+  url: "https://docs.notifly.tech/ko/client-sdk/ios-sdk#push-notification",
+})
+\`\`\``;
+
+export const COMPARE_SDK_VERSIONS_DESCRIPTION = `SDK 버전 비교 - 두 릴리스 사이의 Notifly SDK 소스 변경 사항과 공개 API 변화를 보여줍니다.
+
+**개요:**
+같은 플랫폼의 두 ref(릴리스 태그, 브랜치 또는 커밋 SHA)에서 SDK 파일을 GitHub raw로 불러와 unified diff를 만들고, 공개 선언(클래스, 메서드, 함수 등)의 추가/삭제/시그니처 변경을 요약합니다. SDK 업그레이드 PR을 검토할 때 \`setUserId\`, \`trackEvent\`, 푸시 처리 같은 API가 어떻게 바뀌었는지 확인하는 데 사용합니다.
+
+**사용 사례:**
+- SDK 업그레이드 전 공개 API 변경(breaking change) 확인
+- 특정 메서드(예: \`setUserId\`)의 구현이 릴리스 사이에 어떻게 바뀌었는지 비교
+- 한 파일의 릴리스 간 전체 diff 검토
+
+**반환:**
+- 추가/삭제/변경된 공개 선언 목록(이전/이후 시그니처 포함)
+- 변경된 파일별 unified diff(전체 길이 제한 초과 시 일부 생략)
+- 구조화된 결과(structuredContent: files, api.added, api.removed, api.changed, truncated)
+
+**매개변수:**
+- \`platform\`(필수): SDK 플랫폼(\`ios\`, \`android\`, \`flutter\`, \`react-native\`, \`javascript\`, \`gtm\`)
+- \`fromRef\`(필수): 비교 기준 릴리스 태그, 브랜치 또는 커밋 SHA(예: \`1.3.0\`)
+- \`toRef\`(필수): 비교 대상 릴리스 태그, 브랜치 또는 커밋 SHA(예: \`1.4.0\`, \`main\`)
+- \`path\`(선택): 비교할 파일 경로(끝부분만 적어도 됨), \`notifly-sdk://\` 리소스 URI 또는 GitHub raw URL. 생략하면 플랫폼의 모든 인덱스 파일 비교
+- \`title\`(선택): 비교할 파일의 SDK llms.txt 항목 제목
+- \`symbol\`(선택): 이 선언만 비교(예: \`setUserId\`, \`Notifly.trackEvent\`). 타입 이름이면 멤버 포함
+
+**예시:**
+\`\`\`
+compare_sdk_versions({
+  platform: "ios",
+  fromRef: "1.3.0",
+  toRef: "1.4.0",
+  symbol: "setUserId"
+})
+\`\`\``;
+
+export const FIND_EQUIVALENT_API_DESCRIPTION = `API 대응 찾기 - 한 플랫폼의 Notifly SDK 심볼에 대응하는 다른 플랫폼의 API를 찾아 시그니처를 나란히 보여줍니다.
+
+**개요:**
+SDK llms.txt 인덱스에 등록된 소스 파일에서 선언(클래스, 메서드, 함수 등)을 추출해, 기준 플랫폼의 심볼과 이름이 같거나 비슷한 다른 플랫폼의 공개 API를 찾습니다. "iOS \`Notifly.setUserProperties\`의 Flutter 대응 API는?" 같은 질문에 답할 때 사용합니다. 이름이 같은 선언이 있으면 그것만, 없으면 이름 단어가 겹치는 후보를 유사도 순으로 반환합니다.
+
+**사용 사례:**
+- iOS 코드를 Flutter, Android, React Native, 웹으로 옮길 때 대응 메서드 찾기
+- 플랫폼별 시그니처(매개변수, 반환 타입) 차이 비교
+- 특정 플랫폼에 해당 기능이 있는지 확인
+
+**반환:**
+- 기준 플랫폼에서 찾은 심볼의 선언과 시그니처
+- 플랫폼별 대응 후보(이름, 종류, 시그니처, 파일 경로, GitHub 줄 링크, 유사도 점수)
+- 구조화된 결과(structuredContent: source, equivalents[].platform, equivalents[].matches)
+
+**매개변수:**
+- \`symbol\`(필수): 찾을 심볼 이름(예: \`setUserProperties\`, \`Notifly.setUserProperties\`)
+- \`platform\`(필수): 심볼이 속한 플랫폼(\`ios\`, \`android\`, \`flutter\`, \`react-native\`, \`javascript\`)
+- \`targetPlatforms\`(선택): 검색할 플랫폼 목록(기본값: 나머지 모든 SDK 플랫폼)
+- \`maxResults\`(선택): 플랫폼별 최대 후보 수(1-10, 기본값: 3)
+
+**예시:**
+\`\`\`
+find_equivalent_api({
+  symbol: "Notifly.setUserProperties",
+  platform: "ios",
+  targetPlatforms: ["flutter", "android"]
+})
+\`\`\``;
+
+export const GENERATE_INTEGRATION_SNIPPET_DESCRIPTION = `연동 코드 생성 - 실제 Notifly SDK 소스를 근거로 플랫폼별로 바로 붙여 넣을 수 있는 연동 코드를 만듭니다.
+
+**개요:**
+SDK llms.txt 인덱스에 등록된 소스 파일에서 작업에 해당하는 공개 메서드를 찾고, 그 선언의 이름, 호출 대상(클래스/인스턴스), 인자 레이블을 그대로 사용해 호출 코드를 생성합니다. 메서드 이름을 추측하지 않으므로 존재하지 않는 API를 만들어내지 않으며, 코드가 근거로 한 선언과 GitHub 줄 링크를 함께 반환합니다. 소스에서 메서드를 찾지 못하면 코드를 만들지 않고 오류를 반환합니다.
+
+**사용 사례:**
+- SDK 초기화, 사용자 ID/속성 설정, 이벤트 트래킹 코드 작성
+- 푸시 알림 권한 요청, 알림 클릭 처리 코드 작성
+- 기억에 의존하지 않고 현재 SDK 시그니처에 맞는 코드 확인
+
+**반환:**
+- 작업과 코드 위치 안내(예: \`Application.onCreate()\`에서 호출)
+- 플랫폼 언어로 작성된 코드 조각(예시 값 포함: \`YOUR_PROJECT_ID\`, \`user-123\` 등)
+- 근거가 된 SDK 선언(이름, 시그니처, 파일 경로, GitHub 줄 링크)
+- 구조화된 결과(structuredContent: language, placement, snippet, sources)
+
+**매개변수:**
+- \`platform\`(필수): SDK 플랫폼(\`ios\`, \`android\`, \`flutter\`, \`react-native\`, \`javascript\`, \`gtm\`)
+- \`task\`(필수): 작업(\`initialize\`, \`setUserId\`, \`setUserProperties\`, \`trackEvent\`, \`requestPushPermission\`, \`handleNotificationClick\`). \`gtm\`은 앞의 네 가지만 지원
+
+**예시:**
+\`\`\`
+generate_integration_snippet({
+  platform: "flutter",
+  task: "trackEvent"
+})
+\`\`\``;
+
+export const AUDIT_INTEGRATION_DESCRIPTION = `연동 점검 - 로컬 앱 프로젝트를 스캔해 Notifly SDK 연동에서 빠지거나 순서가 잘못된 단계를 찾습니다.
+
+**개요:**
+프로젝트 디렉터리에서 플랫폼(Podfile/Package.swift, build.gradle, pubspec.yaml, package.json)을 감지하고, 소스 코드의 Notifly SDK 호출과 푸시 설정(Info.plist, entitlements, Notification Service Extension, AndroidManifest, Firebase 설정)을 확인합니다. 발견한 문제마다 관련 문서 페이지 링크를 함께 제공하여 QA 전에 흔한 연동 실수를 잡을 수 있습니다. 파일은 읽기만 하며 수정하지 않습니다.
+
+**점검 항목:**
+- SDK 의존성 누락
+- \`initialize\` 미호출, \`setUserId\`/\`trackEvent\` 등이 \`initialize\`보다 먼저 호출됨, 앱 시작 지점 밖에서 초기화
+- iOS: 푸시 entitlement(aps-environment), Remote notifications 백그라운드 모드, Notification Service Extension 구성, GoogleService-Info.plist
+- Android: google-services.json, Google services Gradle 플러그인, POST_NOTIFICATIONS 권한, Notifly로 메시지를 넘기지 않는 FCM 서비스
+- 웹: 푸시 권한 요청 시 서비스 워커 파일
+- Flutter/React Native: 앱 코드와 함께 ios/android 네이티브 프로젝트 설정 점검
+
+**반환:**
+- 감지한 플랫폼 프로젝트와 경로
+- 오류/경고 목록(파일 위치, 설명, 관련 문서 링크)
+- 발견한 Notifly SDK 호출 목록(파일:줄)
+- 구조화된 결과(structuredContent: platforms, calls, findings, truncated)
+
+**매개변수:**
+- \`projectPath\`(필수): 앱 프로젝트 디렉터리 경로(절대 경로, 또는 \`NOTIFLY_PROJECTS_DIR\`이 있으면 그 디렉터리, 없으면 서버 작업 디렉터리 기준 상대 경로). \`NOTIFLY_PROJECTS_DIR\`이 설정되면 그 안의 프로젝트만 읽으며, HTTP 전송에서는 이 설정이 있어야 사용할 수 있습니다
+- \`platform\`(선택): 이 플랫폼만 점검(\`ios\`, \`android\`, \`flutter\`, \`react-native\`, \`javascript\`). 기본값: 자동 감지
+
+**예시:**
+\`\`\`
+audit_integration({
+  projectPath: "/Users/me/projects/my-flutter-app"
+})
+\`\`\``;
+
+export const LIST_PROJECTS_DESCRIPTION = `프로젝트 목록 - 설정된 Notifly API 키로 접근할 수 있는 프로젝트를 조회합니다.
+
+**개요:**
+Notifly API에서 워크스페이스의 프로젝트 목록을 읽어 옵니다. 캠페인 조회 도구에 넘길 프로젝트 ID를 찾을 때 사용합니다. 읽기 전용이며 프로젝트 API 키는 반환하지 않습니다.
+
+**사전 설정:**
+MCP 서버 환경 변수에 \`NOTIFLY_API_KEY\`, \`NOTIFLY_API_SECRET\`이 필요합니다. \`NOTIFLY_PROJECT_ID\`를 설정하면 다른 도구의 기본 프로젝트로 사용됩니다.
+
+**반환:**
+- 프로젝트 이름, ID, 조직 ID, 생성 시각
+- 구조화된 결과(structuredContent: projects)
+
+**매개변수:**
+없음
+
+**예시:**
+\`\`\`
+list_projects({})
+\`\`\``;
+
+export const LIST_CAMPAIGNS_DESCRIPTION = `캠페인 목록 - Notifly 프로젝트의 캠페인을 조회합니다.
+
+**개요:**
+Notifly API에서 프로젝트의 캠페인 목록을 읽어 상태나 이름으로 거릅니다. 실제 워크스페이스에 어떤 캠페인이 있는지 파악할 때 사용합니다. 읽기 전용입니다.
+
+**사전 설정:**
+MCP 서버 환경 변수에 \`NOTIFLY_API_KEY\`, \`NOTIFLY_API_SECRET\`이 필요합니다.
+
+**반환:**
+- 캠페인 이름, ID, 상태, 생성 시각
+- 필터에 맞는 전체 캠페인 수
+- 구조화된 결과(structuredContent: projectId, total, campaigns)
+
+**매개변수:**
+- \`projectId\`(선택): 프로젝트 ID. 기본값: \`NOTIFLY_PROJECT_ID\`
+- \`status\`(선택): \`active\`, \`inactive\`, \`draft\` 중 하나
+- \`query\`(선택): 캠페인 이름에 포함된 텍스트(대소문자 무시)
+- \`limit\`(선택): 최대 결과 수(1-200, 기본값: 50)
+
+**예시:**
+\`\`\`
+list_campaigns({
+  projectId: "my-project",
+  status: "active"
+})
+\`\`\``;
+
+export const GET_CAMPAIGN_DESCRIPTION = `캠페인 상세 - Notifly 캠페인 하나의 전체 정보를 조회합니다.
+
+**개요:**
+Notifly API가 반환하는 캠페인의 모든 필드(채널, 메시지, 발송 설정 등)를 읽어 옵니다. 캠페인 설정을 검토하거나 연동 문제를 추적할 때 사용합니다. 읽기 전용입니다.
+
+**사전 설정:**
+MCP 서버 환경 변수에 \`NOTIFLY_API_KEY\`, \`NOTIFLY_API_SECRET\`이 필요합니다.
+
+**반환:**
+- 캠페인 이름, ID, 상태, 생성 시각
+- API 응답 전체(JSON)
+- 구조화된 결과(structuredContent: projectId, campaign, details)
+
+**매개변수:**
+- \`campaignId\`(필수): 캠페인 ID(\`list_campaigns\`로 확인)
+- \`projectId\`(선택): 프로젝트 ID. 기본값: \`NOTIFLY_PROJECT_ID\`
+
+**예시:**
+\`\`\`
+get_campaign({
+  projectId: "my-project",
+  campaignId: "welcome-push"
+})
+\`\`\``;
+
+export const SEND_TEST_MESSAGE_DESCRIPTION = `테스트 발송 - 푸시, 이메일, SMS, 카카오 테스트 메시지를 Notifly API로 발송하거나 발송 요청을 미리 확인합니다.
+
+**개요:**
+템플릿을 검증하는 QA 과정에서 테스트 메시지를 보낼 때 사용합니다. \`dryRun\`을 사용하면 실제로 보내지 않고 Notifly API에 전송될 요청(메서드, URL, 헤더, 본문)을 그대로 보여줍니다. 실제 발송은 서버 관리자가 명시적으로 허용한 경우에만, 허용 목록에 있는 수신자에게만 가능합니다.
+
+**안전 장치:**
+- 실제 발송은 MCP 서버 환경 변수 \`NOTIFLY_ALLOW_SEND=true\`가 필요합니다(기본값: 비활성화)
+- 수신자는 \`NOTIFLY_SEND_ALLOWLIST\`(쉼표로 구분한 사용자 ID, 이메일, \`@도메인\`, 전화번호)에 있어야 합니다
+- 드라이런은 항상 가능하며, 실제 발송이 차단될 경우 그 이유를 함께 알려줍니다
+- 실제 발송은 중복 발송을 막기 위해 재시도하지 않습니다
+
+**반환:**
+- 드라이런: 전송될 HTTP 요청(액세스 토큰은 가림)과 실제 발송 가능 여부
+- 실제 발송: 채널, 수신자, 메시지 ID와 상태
+- 구조화된 결과(structuredContent: dryRun, sent, blockedReason, request, result)
+
+**매개변수:**
+- \`channel\`(필수): \`push\`, \`email\`, \`sms\`, \`kakao\` 중 하나
+- \`to\`(필수): 수신자(push: 사용자 ID, email: 이메일 주소, sms/kakao: 전화번호)
+- \`body\`(필수): 메시지 본문
+- \`subject\`(email 필수): 이메일 제목
+- \`templateId\`(kakao 필수): Notifly 템플릿 ID(카카오는 승인된 알림톡 템플릿)
+- \`projectId\`(선택): 프로젝트 ID. 기본값: \`NOTIFLY_PROJECT_ID\`
+- \`dryRun\`(선택): true면 발송하지 않고 요청만 반환(기본값: false)
+
+**예시:**
+\`\`\`
+send_test_message({
+  channel: "email",
+  to: "qa@example.com",
+  subject: "[테스트] 가입 환영 메일",
+  body: "안녕하세요, 가입을 환영합니다.",
+  dryRun: true
+})
+\`\`\``;
+
+export const SET_USER_PROPERTIES_DESCRIPTION = `사용자 속성 설정 - Notifly API로 사용자 속성을 설정합니다.
+
+**개요:**
+세그먼트와 여정 조건을 테스트할 때 curl 대신 사용합니다. 요청을 보내기 전에 API의 필드 제약(키 형식, 값 타입, 개수)을 검증하고, 실패하면 API가 반환한 오류 메시지를 그대로 보여줍니다.
+
+**사전 설정:**
+MCP 서버 환경 변수에 \`NOTIFLY_API_KEY\`, \`NOTIFLY_API_SECRET\`이 필요합니다. 요청은 초당 \`NOTIFLY_API_RATE_LIMIT\`(기본값: 10)건 이하로 보내집니다.
+쓰기는 기본적으로 비활성화되어 있으며, \`NOTIFLY_ALLOW_WRITE=true\`와 \`userId\`가 포함된 \`NOTIFLY_WRITE_ALLOWLIST\`(쉼표로 구분한 테스트 사용자 ID)가 필요합니다.
+
+**제약:**
+- 키: 영문, 숫자, 밑줄(최대 128자). \`$email\`, \`$phone_number\` 같은 예약 속성은 \`$\`로 시작
+- 값: 문자열(최대 1000자), 숫자, 불리언, null, 문자열 배열
+- 요청당 최대 100개 속성
+- \`$email\`은 이메일 주소, \`$phone_number\`는 전화번호여야 함
+
+**반환:**
+- 설정한 사용자, 프로젝트, 속성 목록
+- 구조화된 결과(structuredContent: projectId, userId, properties)
+
+**매개변수:**
+- \`userId\`(필수): 서비스의 사용자 ID(SDK의 setUserId에 넘기는 값)
+- \`properties\`(필수): 설정할 속성 객체
+- \`projectId\`(선택): 프로젝트 ID. 기본값: \`NOTIFLY_PROJECT_ID\`
+
+**예시:**
+\`\`\`
+set_user_properties({
+  userId: "user-123",
+  properties: { plan: "pro", $email: "qa@example.com" }
+})
+\`\`\``;
+
+export const TRACK_EVENT_DESCRIPTION = `이벤트 전송 - Notifly API로 사용자 이벤트를 전송합니다.
+
+**개요:**
+이벤트 기반 캠페인이나 여정의 트리거를 손으로 테스트할 때 curl 대신 사용합니다. 요청을 보내기 전에 API의 필드 제약을 검증하고, 실패하면 API가 반환한 오류 메시지를 그대로 보여줍니다. 같은 이벤트가 두 번 집계되지 않도록 실패한 요청은 재시도하지 않습니다.
+
+**사전 설정:**
+MCP 서버 환경 변수에 \`NOTIFLY_API_KEY\`, \`NOTIFLY_API_SECRET\`이 필요합니다. 요청은 초당 \`NOTIFLY_API_RATE_LIMIT\`(기본값: 10)건 이하로 보내집니다.
+이벤트가 캠페인과 여정을 실행해 실제 메시지가 발송될 수 있으므로 쓰기는 기본적으로 비활성화되어 있으며, \`NOTIFLY_ALLOW_WRITE=true\`와 \`userId\`가 포함된 \`NOTIFLY_WRITE_ALLOWLIST\`(쉼표로 구분한 테스트 사용자 ID)가 필요합니다.
+
+**제약:**
+- 이벤트 이름: 영문, 숫자, \`_\`, \`-\`(최대 128자)
+- 이벤트 파라미터: 사용자 속성과 같은 키/값 제약, 최대 100개
+- \`segmentationEventParamKeys\`: 최대 1개, \`eventParams\`의 키여야 함
+
+**반환:**
+- 전송한 이벤트, 사용자, 파라미터
+- 구조화된 결과(structuredContent: projectId, userId, eventName, eventParams, segmentationEventParamKeys)
+
+**매개변수:**
+- \`eventName\`(필수): 이벤트 이름
+- \`userId\`(필수): 서비스의 사용자 ID
+- \`eventParams\`(선택): 이벤트 파라미터 객체
+- \`segmentationEventParamKeys\`(선택): 캠페인에서 세그먼트 조건으로 쓸 파라미터 키
+- \`projectId\`(선택): 프로젝트 ID. 기본값: \`NOTIFLY_PROJECT_ID\`
+
+**예시:**
+\`\`\`
+track_event({
+  eventName: "purchase_completed",
+  userId: "user-123",
+  eventParams: { product_id: "sku-1", price: 9900 },
+  segmentationEventParamKeys: ["product_id"]
+})
+\`\`\``;
+
+export const GET_USER_DESCRIPTION = `사용자 조회 - Notifly API로 사용자와 속성을 조회합니다.
+
+**개요:**
+테스트 사용자의 현재 속성을 확인해 세그먼트 조건에 맞는지 점검할 때 사용합니다. \`set_user_properties\`로 설정한 값이 반영되었는지 확인하는 데도 쓸 수 있습니다. 읽기 전용입니다.
+
+**사전 설정:**
+MCP 서버 환경 변수에 \`NOTIFLY_API_KEY\`, \`NOTIFLY_API_SECRET\`이 필요합니다.
+
+**반환:**
+- 사용자 속성 목록, 생성/수정 시각
+- 구조화된 결과(structuredContent: projectId, userId, userProperties, createdAt, updatedAt)
+
+**매개변수:**
+- \`userId\`(필수): 서비스의 사용자 ID
+- \`projectId\`(선택): 프로젝트 ID. 기본값: \`NOTIFLY_PROJECT_ID\`
+
+**예시:**
+\`\`\`
+get_user({
+  userId: "user-123"
+})
+\`\`\``;
+
+export const RENDER_MESSAGE_TEMPLATE_DESCRIPTION = `메시지 템플릿 미리보기 - Notifly 메시지의 Liquid 템플릿을 검증하고 샘플 데이터로 렌더링합니다.
+
+**개요:**
+캠페인을 보내기 전에 개인화 문구를 점검할 때 사용합니다. 템플릿의 Liquid 문법을 검사하고, 참조하는 사용자 속성(\`user.*\`)과 이벤트 파라미터(\`event.*\`)를 찾아 fallback이 없는 출력을 경고합니다. 샘플 사용자 속성과 이벤트 파라미터로 실제 수신자가 보게 될 문구를 렌더링합니다. Connected Content 호출은 네트워크 대신 입력으로 받은 JSON 응답을 사용합니다.
+
+**지원 문법:**
+- 출력과 필터: \`{{ user.name | default: "고객" }}\`, 문자열/배열/숫자/날짜 필터
+- 태그: if/elsif/else, unless, case/when, for, assign, capture, comment, raw
+- Connected Content: \`{% connected_content https://... :save result %}\`
+
+**경고 종류:**
+- \`missing-fallback\`: \`default\` 필터나 \`if\` 확인 없이 출력하는 사용자 속성
+- \`empty-fallback\`: fallback이 빈 문자열인 출력
+- \`missing-sample\`: 샘플 데이터에 없는 속성(오타 확인용, 샘플을 준 경우에만)
+- \`unknown-variable\`: \`user\`, \`event\`나 템플릿에서 정의한 변수가 아닌 이름
+
+**반환:**
+- 문법/렌더링 오류(줄 번호 포함), 경고 목록, 렌더링 결과
+- 구조화된 결과(structuredContent: valid, rendered, errors, warnings, references)
+
+**매개변수:**
+- \`template\`(필수): Liquid 템플릿
+- \`userProperties\`(선택): 샘플 사용자 속성. 생략하면 속성이 없는 수신자 기준으로 렌더링
+- \`eventParams\`(선택): 샘플 이벤트 파라미터
+- \`connectedContent\`(선택): URL별 Connected Content 응답 JSON
+- \`connectedContentFile\`(선택): URL별 응답을 담은 JSON 파일 경로. 서버의 \`NOTIFLY_FIXTURES_DIR\` 기준 상대 경로이며, 이 디렉터리 밖의 파일은 읽지 않습니다
+
+**예시:**
+\`\`\`
+render_message_template({
+  template: '{{ user.name | default: "고객" }}님, {{ event.product_name }} 주문이 완료되었습니다.',
+  userProperties: { name: "김노티" },
+  eventParams: { product_name: "운동화" }
+})
+\`\`\``;
+
+export const VERIFY_WEBHOOK_DESCRIPTION = `웹훅 검증 - Notifly 웹훅 요청의 서명과 페이로드 스키마를 검증합니다.
+
+**개요:**
+실제 웹훅 발송을 기다리지 않고 수신 서버를 로컬에서 테스트할 때 사용합니다. 원본 요청 본문, 헤더, 시크릿으로 서명을 검증하고, 이벤트 타입별 스키마로 페이로드를 검사해 잘못된 필드를 경로와 함께 알려줍니다. 네트워크 요청은 보내지 않습니다.
+
+**서명 방식:**
+Notifly 문서에 웹훅 서명과 페이로드 형식이 나와 있지 않아, 아래 방식과 이벤트 스키마는 이 서버가 가정한 것입니다. 실제 웹훅 요청으로 먼저 확인하세요.
+- \`x-notifly-signature\`: \`<timestamp>.<원본 본문>\`의 HMAC-SHA256(hex, \`sha256=\` 접두사 허용)
+- \`x-notifly-timestamp\`: 서명 시각(Unix 초). 허용 범위(기본값: 300초)를 벗어나면 재전송 공격으로 보고 거부
+- 서명이 맞지 않으면 본문과 시크릿으로 계산한 서명을 함께 보여줍니다
+
+**이벤트 타입:**
+\`message.sent\`, \`message.delivered\`, \`message.opened\`, \`message.clicked\`, \`message.failed\`, \`user.unsubscribed\`
+
+**반환:**
+- 서명 검증 결과와 실패 이유, 이벤트 타입과 ID, 필드별 스키마 오류
+- 구조화된 결과(structuredContent: valid, signature, eventType, eventId, errors)
+
+**매개변수:**
+- \`body\`(필수): 받은 그대로의 요청 본문(JSON 파싱 전 문자열)
+- \`headers\`(필수): 요청 헤더 객체
+- \`secret\`(필수): 웹훅 서명 시크릿
+- \`toleranceSeconds\`(선택): 허용할 최대 지연(초). 0이면 시각 검사 생략
+
+**예시:**
+\`\`\`
+verify_webhook({
+  body: '{"id":"evt_1","type":"message.sent","projectId":"p1","createdAt":"2024-05-01T00:00:00Z","data":{...}}',
+  headers: { "x-notifly-signature": "sha256=...", "x-notifly-timestamp": "1714521600" },
+  secret: "whsec_...",
+  toleranceSeconds: 0
+})
+\`\`\``;
+
+export const VALIDATE_GTM_CONTAINER_DESCRIPTION = `GTM 컨테이너 검증 - 내보낸 Google Tag Manager 컨테이너의 Notifly 태그 설정을 검사합니다.
+
+**개요:**
+웹 연동 문의에서 가장 흔한 GTM 설정 오류를 찾을 때 사용합니다. 컨테이너 JSON에서 Notifly 템플릿으로 만든 태그를 찾아, SDK 인덱스에서 가져온 최신 Notifly GTM 템플릿(EN/KO, Cafe24 커스텀 이벤트) 정의와 비교합니다.
+
+**검사 항목:**
+- 필드: 필수 값 누락, 템플릿에 없는 선택지, 값 형식, 이벤트 이름 규칙, 컨테이너에 없는 변수(\`{{...}}\`) 참조
+- Cafe24 이벤트 매핑: 표의 각 행 값, 같은 이벤트를 두 번 매핑한 경우
+- 트리거: 트리거 없음, 없는 트리거 참조, 일시 중지된 태그, 초기화 태그 누락/중복, 초기화보다 먼저 실행되는 태그
+- 템플릿 버전: 컨테이너에 들어 있는 템플릿 사본에 최신 필드가 없는 경우
+
+**반환:**
+- Notifly 태그 목록과 트리거, 오류/경고 목록(태그와 필드 경로 포함)
+- 구조화된 결과(structuredContent: valid, tags, issues, templates)
+
+**매개변수:**
+- \`container\`(선택): 내보낸 컨테이너 JSON 문자열
+- \`containerPath\`(선택): 내보낸 컨테이너 JSON 파일 경로. 서버의 \`NOTIFLY_FIXTURES_DIR\` 기준 상대 경로이며, \`container\`와 둘 중 하나만 전달
+
+**예시:**
+\`\`\`
+validate_gtm_container({
+  containerPath: "GTM-ABC123_workspace.json"
+})
+\`\`\``;
+
+export const CHECK_KAKAO_TEMPLATE_DESCRIPTION = `알림톡 템플릿 검사 - 카카오 알림톡 템플릿을 검수 요청 전에 점검합니다.
+
+**개요:**
+검수 반려로 캠페인이 며칠씩 늦어지지 않도록, 제출 전에 흔한 반려 사유를 찾을 때 사용합니다. 위반 항목마다 관련 문서 섹션 링크를 \`search_docs\`와 같은 문서 인덱스에서 찾아 함께 보여줍니다.
+
+**검사 항목:**
+- 변수: \`#{변수명}\` 형식, 빈 변수, 공백이나 특수문자가 들어간 이름, \`\${...}\`/\`{{...}}\` 같은 잘못된 형식
+- 글자 수: 본문 1,000자, 강조 제목/부제목 50자, 부가정보 500자, 버튼 이름 14자
+- 버튼: 최대 5개, 버튼 이름의 변수, 링크 형식과 도메인 변수, 유형별 필수 링크(WL, AL), 채널 추가(AC) 버튼 위치와 이름
+- 메시지 유형: 부가정보형(EX)/채널추가형(AD)/복합형(MI)과 강조 유형(TEXT, IMAGE)별 필수 항목
+- 내용: 변수로만 이루어진 본문, 광고성 문구
+
+**반환:**
+- 검수 통과 가능 여부, 글자 수, 사용한 변수, 위반 항목과 관련 문서 링크
+- 구조화된 결과(structuredContent: valid, variables, lengths, violations)
+
+**매개변수:**
+- \`content\`(필수): 템플릿 본문
+- \`messageType\`(선택): BA(기본형), EX(부가정보형), AD(채널추가형), MI(복합형). 기본값: BA
+- \`emphasizeType\`(선택): NONE, TEXT(강조표기형), IMAGE(이미지형). 기본값: NONE
+- \`title\`, \`subtitle\`(선택): 강조 제목과 부제목
+- \`imageUrl\`(선택): 이미지형 템플릿의 이미지 URL
+- \`extra\`(선택): 부가정보
+- \`adContent\`(선택): 채널 추가 안내 문구
+- \`buttons\`(선택): 버튼 목록(\`type\`, \`name\`, \`linkMobile\`, \`linkPc\`, \`schemeIos\`, \`schemeAndroid\`)
+
+**예시:**
+\`\`\`
+check_kakao_template({
+  content: "#{고객명}님, 주문하신 상품이 발송되었습니다.\\n택배사: #{택배사}\\n운송장 번호: #{운송장번호}",
+  buttons: [{ type: "DS", name: "배송 조회" }]
+})
+\`\`\``;
+
+export const BUILD_PUSH_PAYLOAD_DESCRIPTION = `푸시 페이로드 생성 - Notifly 푸시의 APNs/FCM 페이로드를 만들거나 직접 작성한 페이로드를 검사합니다.
+
+**개요:**
+리치 푸시를 디버깅하면서 페이로드를 직접 작성할 때 사용합니다. 제목, 본문, 이미지, 딥링크, 커스텀 데이터로 SDK가 처리하는 형태의 페이로드를 만들고, 직접 작성한 페이로드는 같은 규칙으로 검사합니다. Notifly 키 이름은 SDK 인덱스(\`search_sdk\`)에 있는 iOS/Android SDK의 푸시 소스에서 플랫폼별로 가져옵니다. SDK 소스가 읽지 않는 키는 오류로 보고하며, 소스를 가져올 수 없으면 기본 키 이름을 쓰고 검증되지 않았다고 알립니다.
+
+**검사 항목:**
+- 크기: APNs 페이로드 4,096바이트, FCM data 4,000바이트
+- iOS: \`aps.alert\`, Notification Service Extension이 이미지를 붙이고 수신을 기록하는 데 필요한 \`mutable-content: 1\`, \`aps\` 안에 잘못 넣은 Notifly 키
+- Android: data 전용 메시지 여부(\`notification\` 블록이 있으면 백그라운드에서 SDK를 거치지 않음), 문자열이 아닌 data 값, FCM 예약 키, \`android.priority\`
+- Notifly 키: 클릭 추적용 캠페인/메시지 ID, 딥링크와 이미지 URL 형식, 철자가 틀린 키(예: \`campaignId\`)
+
+**반환:**
+- APNs 페이로드와 FCM HTTP v1 메시지, 각 크기
+- 오류와 경고, SDK 소스 대조 결과
+- 구조화된 결과(structuredContent: valid, apns, fcm, sizes, issues, sdk)
+
+**매개변수:**
+- \`title\`, \`body\`: 알림 제목과 본문(생성 시 필수)
+- \`imageUrl\`(선택): 리치 푸시 이미지 https URL
+- \`link\`(선택): 클릭 시 여는 딥링크 또는 URL
+- \`campaignId\`, \`messageId\`(선택): 클릭 추적용 Notifly 캠페인/메시지 ID
+- \`data\`(선택): 앱에 전달할 커스텀 데이터
+- \`badge\`, \`sound\`(선택): iOS 배지 수와 사운드
+- \`platforms\`(선택): \`ios\`, \`android\` 중 생성할 플랫폼. 기본값: 둘 다
+- \`apnsPayload\`, \`fcmPayload\`(선택): 생성 대신 검사할 직접 작성한 페이로드 JSON
+
+**예시:**
+\`\`\`
+build_push_payload({
+  title: "주문이 발송되었어요",
+  body: "배송 현황을 확인해 보세요",
+  imageUrl: "https://cdn.example.com/push/shipping.png",
+  link: "myapp://orders/1234",
+  campaignId: "campaign_123",
+  messageId: "message_456"
+})
+build_push_payload({ apnsPayload: "{\\"aps\\": {\\"alert\\": \\"안녕하세요\\"}}" })
+\`\`\``;
@@ -0,0 +1,347 @@
+/**
+ * Cross-Platform API Equivalence Tool
+ *
+ * Find the counterparts of an SDK symbol on the other Notifly SDK platforms
+ * (e.g. the Flutter equivalent of iOS `Notifly.setUserProperties`) and show
+ * their signatures side by side with source links.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult, ResourceLinkRef } from "../types.js";
+import { ApiError, NotFoundError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { FIND_EQUIVALENT_API_DESCRIPTION } from "./descriptions.js";
+import {
+  loadSdkEntries,
+  fetchSdkSource,
+  languageForFile,
+  normalizeSdkPlatform,
+  type SdkEntry,
+  resolveSdkCommits,
+} from "./search-sdk.js";
+import { githubLinesUrl, parseRawGithubUrl, sdkFileUri } from "../resources/uris.js";
+import {
+  identifierWords,
+  listDeclarations,
+  type DeclarationInfo,
+  type SymbolKind,
+} from "../utils/code-symbols.js";
+
+const findEquivalentApiInputSchema = z.object({
+  symbol: z
+    .string()
+    .min(1)
+    .max(200)
+    .describe("Symbol to look up, e.g. 'setUserProperties' or 'Notifly.setUserProperties'"),
+  platform: z
+    .string()
+    .min(1)
+    .transform(normalizeSdkPlatform)
+    .describe("Platform the symbol comes from (ios, android, flutter, react native, javascript)"),
+  targetPlatforms: z
+    .array(z.string().min(1).transform(normalizeSdkPlatform))
+    .optional()
+    .describe("Platforms to search (default: every other SDK platform)"),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .describe("Maximum matches per platform (default: 3)"),
+});
+
+type FindEquivalentApiInput = z.infer<typeof findEquivalentApiInputSchema>;
+
+const apiMatchSchema = z.object({
+  name: z.string().describe("Declaration name qualified with its enclosing types"),
+  kind: z.string(),
+  signature: z.string(),
+  path: z.string().describe("File path in the SDK repository"),
+  url: z.string().describe("GitHub link to the declaration's lines"),
+  score: z.number().describe("Name similarity to the source symbol (1 for the same name)"),
+});
+
+const findEquivalentApiOutputSchema = {
+  symbol: z.string(),
+  platform: z.string(),
+  source: z.array(apiMatchSchema).describe("Declarations of the symbol on its own platform"),
+  equivalents: z
+    .array(
+      z.object({
+        platform: z.string(),
+        matches: z.array(apiMatchSchema).describe("Best matches first; empty when none found"),
+      })
+    )
+    .describe("Matching symbols per target platform"),
+};
+
+type ApiMatch = z.infer<typeof apiMatchSchema>;
+
+/** Below this name similarity a declaration is not considered a counterpart */
+const MIN_EQUIVALENCE_SCORE = 0.5;
+
+const DEFAULT_MAX_MATCHES = 3;
+
+const CALLABLE_KINDS: SymbolKind[] = ["function", "method", "initializer"];
+
+interface FileDeclarations {
+  entry: SdkEntry;
+  declarations: DeclarationInfo[];
+}
+
+function lastSegment(name: string): string {
+  return name.split(".").pop() ?? name;
+}
+
+function parentName(name: string): string {
+  const parts = name.split(".");
+  return parts.length > 1 ? parts[parts.length - 2]!.toLowerCase() : "";
+}
+
+function repositoryPath(entry: SdkEntry): string {
+  const parsed = parseRawGithubUrl(entry.file);
+  return parsed ? `${parsed.repo}/${parsed.filePath}` : entry.file;
+}
+
+/**
+ * Parse every source file of a platform. Files that cannot be fetched are
+ * skipped and counted.
+ */
+async function loadPlatformDeclarations(
+  entries: SdkEntry[],
+  platform: string,
+  context: ServerContext
+): Promise<{ files: FileDeclarations[]; unreadable: number }> {
+  const platformEntries = entries.filter(
+    (e, i) =>
+      e.platform === platform &&
+      languageForFile(e.file) &&
+      entries.findIndex((other) => other.file === e.file) === i
+  );
+  const results = await Promise.all(
+    platformEntries.map(async (entry) => {
+      try {
+        const source = await fetchSdkSource(entry.file, context);
+        return { entry, declarations: listDeclarations(source, languageForFile(entry.file)) };
+      } catch {
+        return undefined;
+      }
+    })
+  );
+  const files = results.filter((r): r is FileDeclarations => r !== undefined);
+  return { files, unreadable: results.length - files.length };
+}
+
+/**
+ * Similarity of two declaration names by their words: 1 for the same words,
+ * else the Dice coefficient of the word sets. Callables only match callables
+ * and types only match types.
+ */
+function equivalenceScore(words: string[], callable: boolean, candidate: DeclarationInfo): number {
+  if (CALLABLE_KINDS.includes(candidate.kind) !== callable) return 0;
+  const candidateWords = identifierWords(lastSegment(candidate.name));
+  if (candidateWords.join(" ") === words.join(" ")) return 1;
+  const a = new Set(words);
+  const b = new Set(candidateWords);
+  const shared = [...a].filter((word) => b.has(word)).length;
+  return a.size + b.size > 0 ? (2 * shared) / (a.size + b.size) : 0;
+}
+
+function toMatch(
+  file: FileDeclarations,
+  declaration: DeclarationInfo,
+  score: number,
+  commits: Map<string, string>
+): ApiMatch {
+  return {
+    name: declaration.name,
+    kind: declaration.kind,
+    signature: declaration.signature,
+    path: repositoryPath(file.entry),
+    url:
+      githubLinesUrl(
+        file.entry.file,
+        declaration.startLine,
+        declaration.endLine,
+        commits.get(file.entry.file)
+      ) ?? file.entry.file,
+    score: Math.round(score * 100) / 100,
+  };
+}
+
+/**
+ * Public declarations of a platform matching the source symbol's name, best
+ * first. When some have the same name, weaker matches are left out.
+ */
+function findMatches(
+  files: FileDeclarations[],
+  source: DeclarationInfo[],
+  maxResults: number,
+  commits: Map<string, string>
+): ApiMatch[] {
+  const [first] = source;
+  if (!first) return [];
+  const words = identifierWords(lastSegment(first.name));
+  const callable = CALLABLE_KINDS.includes(first.kind);
+  const parents = new Set(source.map((d) => parentName(d.name)));
+
+  const scored = files.flatMap((file) =>
+    file.declarations
+      .filter((declaration) => declaration.isPublic)
+      .map((declaration) => ({
+        file,
+        declaration,
+        score: equivalenceScore(words, callable, declaration),
+        sameParent: parents.has(parentName(declaration.name)),
+      }))
+      .filter((match) => match.score >= MIN_EQUIVALENCE_SCORE)
+  );
+  const exact = scored.filter((match) => match.score === 1);
+  return (exact.length > 0 ? exact : scored)
+    .sort((a, b) => b.score - a.score || Number(b.sameParent) - Number(a.sameParent))
+    .slice(0, maxResults)
+    .map((match) => toMatch(match.file, match.declaration, match.score, commits));
+}
+
+function formatMatches(matches: ApiMatch[], language: string): string {
+  let output = "";
+  for (const match of matches) {
+    output += `- \`${match.name}\` (${match.kind}) — ${match.path}\n`;
+    output += `  **GitHub**: ${match.url}\n\n`;
+    output += `  \`\`\`${language}\n  ${match.signature}\n  \`\`\`\n\n`;
+  }
+  return output;
+}
+
+export const findEquivalentApiTool: ToolDefinition<FindEquivalentApiInput, ToolResult> = {
+  name: "find_equivalent_api",
+  description: FIND_EQUIVALENT_API_DESCRIPTION,
+  inputSchema: {
+    symbol: findEquivalentApiInputSchema.shape.symbol,
+    platform: findEquivalentApiInputSchema.shape.platform,
+    targetPlatforms: findEquivalentApiInputSchema.shape.targetPlatforms,
+    maxResults: findEquivalentApiInputSchema.shape.maxResults,
+  },
+  outputSchema: findEquivalentApiOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: FindEquivalentApiInput, context: ServerContext): Promise<ToolResult> {
+    if (params.platform === "all") {
+      throw new ValidationError(
+        "platform must name the SDK the symbol comes from (ios, android, flutter, react-native or javascript)."
+      );
+    }
+    const maxResults = params.maxResults ?? DEFAULT_MAX_MATCHES;
+    const symbol = params.symbol.trim().replace(/\(\)$/, "");
+
+    try {
+      const entries = await loadSdkEntries(context);
+      const targets = [
+        ...new Set(
+          params.targetPlatforms?.filter((p) => p !== "all") ??
+            entries.filter((e) => languageForFile(e.file)).map((e) => e.platform)
+        ),
+      ].filter((p) => p !== params.platform);
+
+      const [sourceFiles, ...targetFiles] = await Promise.all([
+        loadPlatformDeclarations(entries, params.platform, context),
+        ...targets.map((platform) => loadPlatformDeclarations(entries, platform, context)),
+      ]);
+
+      // Declarations named by the symbol, public ones preferred
+      const wanted = symbol.toLowerCase();
+      const named = sourceFiles!.files.flatMap((file) =>
+        file.declarations
+          .filter((d) => {
+            const name = d.name.toLowerCase();
+            return name === wanted || name.endsWith(`.${wanted}`);
+          })
+          .map((declaration) => ({ file, declaration }))
+      );
+      const publicNamed = named.filter((n) => n.declaration.isPublic);
+      const source = publicNamed.length > 0 ? publicNamed : named;
+      if (source.length === 0) {
+        throw new NotFoundError(
+          `Symbol ${JSON.stringify(symbol)} on platform "${params.platform}"`
+        );
+      }
+
+      const commits = await resolveSdkCommits(
+        [sourceFiles!, ...targetFiles].flatMap(({ files }) => files.map((f) => f.entry.file)),
+        context
+      );
+      const sourceMatches = source.map(({ file, declaration }) =>
+        toMatch(file, declaration, 1, commits)
+      );
+      const equivalents = targets.map((platform, i) => ({
+        platform,
+        matches: findMatches(
+          targetFiles[i]!.files,
+          source.map((s) => s.declaration),
+          maxResults,
+          commits
+        ),
+      }));
+      const entriesByPath = new Map<string, SdkEntry>();
+      for (const { files } of [sourceFiles!, ...targetFiles]) {
+        for (const { entry } of files) entriesByPath.set(repositoryPath(entry), entry);
+      }
+      const languageOf = (matches: ApiMatch[]) => {
+        const entry = entriesByPath.get(matches[0]?.path ?? "");
+        return entry ? languageForFile(entry.file) : "";
+      };
+
+      let output = `# Notifly API Equivalents: \`${symbol}\`\n\n`;
+      output += `**Source Platform**: ${params.platform}\n\n`;
+      output += `## ${params.platform} (source)\n\n`;
+      output += formatMatches(sourceMatches, languageOf(sourceMatches));
+      for (const { platform, matches } of equivalents) {
+        output += `## ${platform}\n\n`;
+        output +=
+          matches.length > 0
+            ? formatMatches(matches, languageOf(matches))
+            : `No matching public API found. Try \`search_sdk\` with platform "${platform}".\n\n`;
+      }
+      const unreadable = [sourceFiles!, ...targetFiles].reduce((n, r) => n + r.unreadable, 0);
+      if (unreadable > 0) {
+        output += `[Warning] ${unreadable} SDK file(s) could not be fetched and were not searched.\n`;
+      }
+
+      // Link each file with a match once
+      const resourceLinks: ResourceLinkRef[] = [];
+      const linked = new Set<string>();
+      for (const match of [...sourceMatches, ...equivalents.flatMap((e) => e.matches)]) {
+        const entry = entriesByPath.get(match.path);
+        const uri = entry ? sdkFileUri(entry.platform, entry.file) : undefined;
+        if (!entry || !uri || linked.has(uri)) continue;
+        linked.add(uri);
+        resourceLinks.push({
+          uri,
+          name: entry.title,
+          description: entry.description,
+          mimeType: "text/plain",
+        });
+      }
+
+      return {
+        text: output,
+        resourceLinks,
+        structuredContent: {
+          symbol,
+          platform: params.platform,
+          source: sourceMatches,
+          equivalents,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to find equivalent APIs: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
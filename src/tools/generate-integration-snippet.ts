@@ -0,0 +1,538 @@
+/**
+ * Integration Snippet Tool
+ *
+ * Generate ready-to-paste Notifly SDK code for common integration tasks. The
+ * method names, receivers and argument labels come from the declarations in
+ * the real SDK sources, so snippets follow the SDK release the indexes
+ * point at instead of remembered API names.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult, ResourceLinkRef } from "../types.js";
+import { ApiError, NotFoundError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { GENERATE_INTEGRATION_SNIPPET_DESCRIPTION } from "./descriptions.js";
+import {
+  loadSdkEntries,
+  fetchSdkSource,
+  languageForFile,
+  normalizeSdkPlatform,
+  type SdkEntry,
+  resolveSdkCommits,
+} from "./search-sdk.js";
+import { githubLinesUrl, parseRawGithubUrl, sdkFileUri } from "../resources/uris.js";
+import {
+  identifierWords,
+  listDeclarations,
+  signatureParameters,
+  type DeclarationInfo,
+  type SignatureParameter,
+} from "../utils/code-symbols.js";
+
+interface IntegrationTask {
+  title: string;
+  /** SDK method names implementing the task, preferred first */
+  methods: string[];
+  /** Preferred signature among overloads (e.g. the click callback among delegate methods) */
+  prefer?: RegExp;
+  /** Where the call belongs, per platform with a default */
+  placement: Record<string, string> & { default: string };
+}
+
+const INTEGRATION_TASKS: Record<string, IntegrationTask> = {
+  initialize: {
+    title: "Initialize the SDK",
+    methods: ["initialize"],
+    placement: {
+      default: "Call once at app start, before any other Notifly call.",
+      ios: "Call in AppDelegate.application(_:didFinishLaunchingWithOptions:), before any other Notifly call.",
+      android: "Call in Application.onCreate(), before any other Notifly call.",
+      flutter:
+        "Call in main() after WidgetsFlutterBinding.ensureInitialized(), before any other Notifly call.",
+      gtm: "Add a Notifly tag from the Notifly GTM template with your project ID, username and password, fired on the Initialization - All Pages trigger.",
+    },
+  },
+  setUserId: {
+    title: "Set the user ID",
+    methods: ["setUserId"],
+    placement: { default: "Call after the user logs in." },
+  },
+  setUserProperties: {
+    title: "Set user properties",
+    methods: ["setUserProperties"],
+    placement: { default: "Call whenever the user's attributes change." },
+  },
+  trackEvent: {
+    title: "Track an event",
+    methods: ["trackEvent"],
+    placement: { default: "Call where the event happens in your app." },
+  },
+  requestPushPermission: {
+    title: "Request push notification permission",
+    methods: [
+      "requestPermission",
+      "requestNotificationPermission",
+      "requestPushPermission",
+      "requestPermissions",
+    ],
+    placement: {
+      default: "Call at a point where asking for notification permission makes sense to the user.",
+    },
+  },
+  handleNotificationClick: {
+    title: "Handle notification clicks",
+    methods: [
+      "addNotificationClickListener",
+      "setNotificationClickListener",
+      "addNotificationOpenedListener",
+      "onNotificationClick",
+      "userNotificationCenter",
+    ],
+    prefer: /didReceive|click|open/i,
+    placement: {
+      default: "Register at app start so clicks that launch the app are handled too.",
+      ios: "Call inside your UNUserNotificationCenterDelegate's userNotificationCenter(_:didReceive:withCompletionHandler:).",
+    },
+  },
+};
+
+/** Tasks supported through the GTM template (it has no push support) */
+const GTM_TASKS = ["initialize", "setUserId", "setUserProperties", "trackEvent"];
+
+const TASK_ALIASES: Record<string, string> = {
+  init: "initialize",
+  setup: "initialize",
+  identify: "setUserId",
+  login: "setUserId",
+  setuserproperty: "setUserProperties",
+  track: "trackEvent",
+  event: "trackEvent",
+  pushpermission: "requestPushPermission",
+  requestpermission: "requestPushPermission",
+  requestnotificationpermission: "requestPushPermission",
+  notificationclick: "handleNotificationClick",
+  onnotificationclick: "handleNotificationClick",
+  handleclick: "handleNotificationClick",
+};
+
+/**
+ * Canonical task name for variants such as "set_user_id" or "request push
+ * permission" (unknown names are returned unchanged)
+ */
+export function normalizeIntegrationTask(val: string): string {
+  const key = identifierWords(val).join("");
+  const task = Object.keys(INTEGRATION_TASKS).find(
+    (name) => identifierWords(name).join("") === key
+  );
+  return task ?? TASK_ALIASES[key] ?? val;
+}
+
+const generateIntegrationSnippetInputSchema = z.object({
+  platform: z
+    .string()
+    .min(1)
+    .transform(normalizeSdkPlatform)
+    .describe("SDK platform (ios, android, flutter, react native, javascript, gtm)"),
+  task: z
+    .string()
+    .min(1)
+    .transform(normalizeIntegrationTask)
+    .describe(
+      "Integration task: initialize, setUserId, setUserProperties, trackEvent, requestPushPermission or handleNotificationClick"
+    ),
+});
+
+type GenerateIntegrationSnippetInput = z.infer<typeof generateIntegrationSnippetInputSchema>;
+
+const snippetSourceSchema = z.object({
+  name: z.string().describe("Declaration name qualified with its enclosing types"),
+  kind: z.string(),
+  signature: z.string(),
+  path: z.string().describe("File path in the SDK repository"),
+  url: z.string().describe("GitHub link to the declaration's lines, or the file"),
+});
+
+const integrationSnippetOutputSchema = {
+  platform: z.string(),
+  task: z.string(),
+  language: z.string().describe("Syntax-highlighting language of the snippet"),
+  placement: z.string().describe("Where the snippet belongs in the app"),
+  snippet: z.string(),
+  sources: z.array(snippetSourceSchema).describe("SDK declarations the snippet was derived from"),
+};
+
+type SnippetSource = z.infer<typeof snippetSourceSchema>;
+
+interface FileDeclarations {
+  entry: SdkEntry;
+  source: string;
+  declarations: DeclarationInfo[];
+}
+
+function repositoryPath(entry: SdkEntry): string {
+  const parsed = parseRawGithubUrl(entry.file);
+  return parsed ? `${parsed.repo}/${parsed.filePath}` : entry.file;
+}
+
+function simpleName(name: string): string {
+  return name.split(".").pop() ?? name;
+}
+
+async function loadPlatformFiles(
+  entries: SdkEntry[],
+  platform: string,
+  context: ServerContext
+): Promise<FileDeclarations[]> {
+  const platformEntries = entries.filter(
+    (e, i) => e.platform === platform && entries.findIndex((o) => o.file === e.file) === i
+  );
+  const files = await Promise.all(
+    platformEntries.map(async (entry) => {
+      try {
+        const source = await fetchSdkSource(entry.file, context);
+        return {
+          entry,
+          source,
+          declarations: listDeclarations(source, languageForFile(entry.file)),
+        };
+      } catch {
+        return undefined;
+      }
+    })
+  );
+  return files.filter((f): f is FileDeclarations => f !== undefined);
+}
+
+/**
+ * The public SDK method implementing a task: earlier method names first,
+ * then members of Notifly types, the preferred overload and fewer required
+ * parameters
+ */
+function findTaskMethod(
+  files: FileDeclarations[],
+  task: IntegrationTask
+): { file: FileDeclarations; declaration: DeclarationInfo } | undefined {
+  const methodKeys = task.methods.map((m) => identifierWords(m).join(""));
+  const candidates = files.flatMap((file) =>
+    file.declarations
+      .filter(
+        (d) =>
+          d.isPublic &&
+          (d.kind === "function" || d.kind === "method") &&
+          methodKeys.includes(identifierWords(simpleName(d.name)).join(""))
+      )
+      .map((declaration) => {
+        const language = languageForFile(file.entry.file);
+        const required = signatureParameters(
+          declaration.signature,
+          declaration.name,
+          language
+        ).filter((p) => !p.optional).length;
+        return {
+          file,
+          declaration,
+          rank: [
+            methodKeys.indexOf(identifierWords(simpleName(declaration.name)).join("")),
+            /^notifly/i.test(declaration.name) ? 0 : 1,
+            task.prefer && !task.prefer.test(declaration.signature) ? 1 : 0,
+            required,
+          ],
+        };
+      })
+  );
+  candidates.sort((a, b) => {
+    for (let i = 0; i < a.rank.length; i++) {
+      const diff = a.rank[i]! - b.rank[i]!;
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
+  return candidates[0];
+}
+
+/**
+ * Expression the method is called on: the type for static members and
+ * Kotlin objects, an instance variable for other members, nothing for
+ * top-level functions
+ */
+function receiverFor(declaration: DeclarationInfo, declarations: DeclarationInfo[]): string {
+  const parts = declaration.name.split(".");
+  if (parts.length < 2) return "";
+  const parentName = parts.slice(0, -1).join(".");
+  const parent = declarations.find((d) => d.name === parentName);
+  let owner = parts[parts.length - 2]!;
+  // Kotlin companion objects are called through their class
+  if (owner === "Companion" && parts.length > 2) owner = parts[parts.length - 3]!;
+  if (
+    /\b(static|class func)\b/.test(declaration.signature) ||
+    parent?.kind === "object" ||
+    owner !== parts[parts.length - 2]
+  ) {
+    return owner;
+  }
+  return owner.charAt(0).toLowerCase() + owner.slice(1);
+}
+
+const STRING_VALUES: Record<string, string> = {
+  projectid: "YOUR_PROJECT_ID",
+  username: "YOUR_USERNAME",
+  password: "YOUR_PASSWORD",
+  userid: "user-123",
+  eventname: "purchase_completed",
+  name: "purchase_completed",
+  event: "purchase_completed",
+};
+
+const MAP_PARAMETER = /^(params|properties|userproperties|eventparams|attributes|data)$/;
+
+function mapLiteral(language: string): string {
+  switch (language) {
+    case "swift":
+      return `["plan": "premium"]`;
+    case "kotlin":
+      return `mapOf("plan" to "premium")`;
+    case "dart":
+      return `{"plan": "premium"}`;
+    default:
+      return `{ plan: "premium" }`;
+  }
+}
+
+function callbackLiteral(language: string): string {
+  switch (language) {
+    case "swift":
+      return `{ notification in\n    // Open the screen for the notification\n}`;
+    case "kotlin":
+      return `{ notification ->\n    // Open the screen for the notification\n}`;
+    case "dart":
+      return `(notification) {\n  // Open the screen for the notification\n}`;
+    default:
+      return `(notification) => {\n  // Open the screen for the notification\n}`;
+  }
+}
+
+/**
+ * Example argument for a parameter, from its name and type. Unknown
+ * parameters are passed as a variable of the same name.
+ */
+function argumentValue(parameter: SignatureParameter, language: string): string {
+  const key = parameter.name.toLowerCase();
+  if (parameter.fields) {
+    const fields = parameter.fields.map((field) => {
+      const value = STRING_VALUES[field.toLowerCase()];
+      return `${field}: ${value ? JSON.stringify(value) : field}`;
+    });
+    return `{ ${fields.join(", ")} }`;
+  }
+  const value = STRING_VALUES[key];
+  if (value && /string|^any$/i.test(parameter.type)) return JSON.stringify(value);
+  if (MAP_PARAMETER.test(key) || /^\[.+:.+\]|Map<|Record<|Dictionary/.test(parameter.type)) {
+    return mapLiteral(language);
+  }
+  // Completion handlers are passed on from the enclosing delegate method
+  if (/completion/.test(key)) return parameter.name;
+  if (/->|=>|Function|Listener|Callback|Handler/.test(parameter.type)) {
+    return callbackLiteral(language);
+  }
+  if (key === "context") return "context";
+  if (key === "activity") return "this";
+  return parameter.name;
+}
+
+/** Parameters commonly worth passing even when optional */
+const USEFUL_OPTIONAL = /^(eventparams|params|properties|listener|callback)$/i;
+
+/**
+ * Call of an SDK method with example arguments in the method's language
+ */
+function buildCall(declaration: DeclarationInfo, receiver: string, language: string): string {
+  const parameters = signatureParameters(declaration.signature, declaration.name, language);
+  const args: string[] = [];
+  let positionalSkipped = false;
+  for (const parameter of parameters) {
+    const include = !parameter.optional || USEFUL_OPTIONAL.test(parameter.name);
+    if (!parameter.named) {
+      if (!include || positionalSkipped) {
+        positionalSkipped = true;
+        continue;
+      }
+    } else if (!include) {
+      continue;
+    }
+    const value = argumentValue(parameter, language);
+    args.push(parameter.named && parameter.label !== "_" ? `${parameter.label}: ${value}` : value);
+  }
+
+  const method = simpleName(declaration.name);
+  const callee = receiver ? `${receiver}.${method}` : method;
+  const awaited =
+    (language === "dart" && /\bFuture\b/.test(declaration.signature)) ||
+    ((language === "typescript" || language === "javascript") &&
+      /\basync\b|\bPromise\b/.test(declaration.signature));
+  const semicolon = language === "swift" || language === "kotlin" ? "" : ";";
+  return `${awaited ? "await " : ""}${callee}(${args.join(", ")})${semicolon}`;
+}
+
+/**
+ * Import for the called type, where the source names its package (Kotlin)
+ */
+function importFor(file: FileDeclarations, receiver: string, language: string): string {
+  if (language !== "kotlin" || !/^[A-Z]/.test(receiver)) return "";
+  const pkg = file.source.match(/^\s*package\s+([\w.]+)/m)?.[1];
+  return pkg ? `import ${pkg}.${receiver}\n\n` : "";
+}
+
+/**
+ * dataLayer snippet for the GTM template, whose tag calls the JavaScript SDK
+ */
+function gtmSnippet(task: string): string {
+  switch (task) {
+    case "initialize":
+      return [
+        "// No page code is needed: the Notifly tag initializes the SDK.",
+        "// Tag: Notifly (from the template) · Trigger: Initialization - All Pages",
+      ].join("\n");
+    case "setUserId":
+      return [
+        "// Fire a Notifly tag that sets the user ID on this custom event",
+        "window.dataLayer = window.dataLayer || [];",
+        `window.dataLayer.push({ event: "notifly_set_user_id", userId: "user-123" });`,
+      ].join("\n");
+    case "setUserProperties":
+      return [
+        "// Fire a Notifly tag that sets user properties on this custom event",
+        "window.dataLayer = window.dataLayer || [];",
+        `window.dataLayer.push({ event: "notifly_set_user_properties", plan: "premium" });`,
+      ].join("\n");
+    default:
+      return [
+        "// Fire a Notifly tag that tracks the event on this custom event",
+        "window.dataLayer = window.dataLayer || [];",
+        `window.dataLayer.push({ event: "purchase_completed", plan: "premium" });`,
+      ].join("\n");
+  }
+}
+
+export const generateIntegrationSnippetTool: ToolDefinition<
+  GenerateIntegrationSnippetInput,
+  ToolResult
+> = {
+  name: "generate_integration_snippet",
+  description: GENERATE_INTEGRATION_SNIPPET_DESCRIPTION,
+  inputSchema: {
+    platform: generateIntegrationSnippetInputSchema.shape.platform,
+    task: generateIntegrationSnippetInputSchema.shape.task,
+  },
+  outputSchema: integrationSnippetOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(
+    params: GenerateIntegrationSnippetInput,
+    context: ServerContext
+  ): Promise<ToolResult> {
+    const { platform } = params;
+    const task = INTEGRATION_TASKS[params.task];
+    if (!task) {
+      throw new ValidationError(
+        `Unknown task "${params.task}". Use one of: ${Object.keys(INTEGRATION_TASKS).join(", ")}`
+      );
+    }
+    if (platform === "all") {
+      throw new ValidationError(
+        "platform must be one of ios, android, flutter, react-native, javascript or gtm."
+      );
+    }
+    if (platform === "gtm" && !GTM_TASKS.includes(params.task)) {
+      throw new ValidationError(
+        `The GTM template does not support "${params.task}". Use platform "javascript" for web push.`
+      );
+    }
+
+    try {
+      const files = await loadPlatformFiles(await loadSdkEntries(context), platform, context);
+      const placement = task.placement[platform] ?? task.placement.default;
+
+      let language: string;
+      let snippet: string;
+      let sources: SnippetSource[];
+      if (platform === "gtm") {
+        // The template passes tag fields to the JavaScript SDK methods
+        language = "javascript";
+        snippet = gtmSnippet(params.task);
+        sources = files
+          .filter((f) => task.methods.some((m) => f.source.includes(m)))
+          .map((f) => ({
+            name: f.entry.title,
+            kind: "template",
+            signature: task.methods.filter((m) => f.source.includes(m)).join(", "),
+            path: repositoryPath(f.entry),
+            url: f.entry.file,
+          }));
+        if (sources.length === 0) {
+          throw new NotFoundError(`"${params.task}" in the Notifly GTM template`);
+        }
+      } else {
+        const found = findTaskMethod(files, task);
+        if (!found) {
+          throw new NotFoundError(
+            `SDK method for "${params.task}" on platform "${platform}" (searched ${task.methods.join(", ")}); use search_sdk to look for it`
+          );
+        }
+        const { file, declaration } = found;
+        const commit = (await resolveSdkCommits([file.entry.file], context)).get(file.entry.file);
+        language = languageForFile(file.entry.file);
+        const receiver = receiverFor(declaration, file.declarations);
+        snippet = `// ${placement}\n${importFor(file, receiver, language)}${buildCall(declaration, receiver, language)}`;
+        sources = [
+          {
+            name: declaration.name,
+            kind: declaration.kind,
+            signature: declaration.signature,
+            path: repositoryPath(file.entry),
+            url:
+              githubLinesUrl(file.entry.file, declaration.startLine, declaration.endLine, commit) ??
+              file.entry.file,
+          },
+        ];
+      }
+
+      let output = `# Notifly Integration Snippet: ${task.title} (${platform})\n\n`;
+      output += `**Where**: ${placement}\n\n`;
+      output += `\`\`\`${language}\n${snippet}\n\`\`\`\n\n`;
+      output += `## Derived From\n\n`;
+      for (const source of sources) {
+        output += `- \`${source.name}\` — \`${source.signature}\`\n`;
+        output += `  **GitHub**: ${source.url}\n`;
+      }
+
+      const resourceLinks: ResourceLinkRef[] = [];
+      for (const file of files.filter((f) =>
+        sources.some((s) => s.path === repositoryPath(f.entry))
+      )) {
+        const uri = sdkFileUri(file.entry.platform, file.entry.file);
+        if (uri) {
+          resourceLinks.push({
+            uri,
+            name: file.entry.title,
+            description: file.entry.description,
+            mimeType: "text/plain",
+          });
+        }
+      }
+
+      return {
+        text: output,
+        resourceLinks,
+        structuredContent: { platform, task: params.task, language, placement, snippet, sources },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to generate integration snippet: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
@@ -0,0 +1,69 @@
+/**
+ * Campaign Details Tool
+ *
+ * Read one campaign of a Notifly project with every field the API returns.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult } from "../types.js";
+import { ApiError, NotiflyMcpError } from "../errors.js";
+import { GET_CAMPAIGN_DESCRIPTION } from "./descriptions.js";
+import { requireApiClient } from "../utils/api-client.js";
+import { campaignSummarySchema, projectIdSchema, toCampaignSummary } from "./list-campaigns.js";
+
+const getCampaignInputSchema = z.object({
+  projectId: projectIdSchema,
+  campaignId: z.string().min(1).describe("Campaign ID (see list_campaigns)"),
+});
+
+type GetCampaignInput = z.infer<typeof getCampaignInputSchema>;
+
+const getCampaignOutputSchema = {
+  projectId: z.string(),
+  campaign: campaignSummarySchema,
+  details: z
+    .record(z.unknown())
+    .describe("Every campaign field returned by the Notifly API, including channel settings"),
+};
+
+export const getCampaignTool: ToolDefinition<GetCampaignInput, ToolResult> = {
+  name: "get_campaign",
+  description: GET_CAMPAIGN_DESCRIPTION,
+  inputSchema: {
+    projectId: getCampaignInputSchema.shape.projectId,
+    campaignId: getCampaignInputSchema.shape.campaignId,
+  },
+  outputSchema: getCampaignOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: GetCampaignInput, context: ServerContext): Promise<ToolResult> {
+    const api = requireApiClient(context);
+    const projectId = api.resolveProjectId(params.projectId);
+
+    try {
+      const details = await api.getCampaign(projectId, params.campaignId);
+      const campaign = toCampaignSummary(details);
+
+      let output = `# Campaign: ${campaign.name}\n\n`;
+      output += `**ID**: ${campaign.id}\n`;
+      output += `**Project**: ${campaign.projectId}\n`;
+      output += `**Status**: ${campaign.status}\n`;
+      output += `**Created**: ${campaign.createdAt}\n\n`;
+      output += `## Details\n\n\`\`\`json\n${JSON.stringify(details, null, 2)}\n\`\`\`\n`;
+
+      return {
+        text: output,
+        structuredContent: { projectId, campaign, details: { ...details } },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to get campaign: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
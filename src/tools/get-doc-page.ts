@@ -0,0 +1,196 @@
+/**
+ * Docs Page Tool
+ *
+ * Read a documentation page from the llms.txt index in full as Markdown,
+ * with a table of contents. Long pages are returned a few sections at a time.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult, ResourceLinkRef } from "../types.js";
+import { DOCS_PAGE_MAX_LENGTH } from "../constants.js";
+import { ApiError, NotFoundError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { GET_DOC_PAGE_DESCRIPTION } from "./descriptions.js";
+import {
+  loadDocsIndex,
+  fetchDocSections,
+  resolveDocUrl,
+  sectionUrl,
+  type DocsLink,
+} from "./search-docs.js";
+import { DOCS_URI_PREFIX, docsPageUri } from "../resources/uris.js";
+import type { DocSection } from "../utils/doc-sections.js";
+
+const getDocPageInputSchema = z.object({
+  url: z
+    .string()
+    .min(1)
+    .describe(
+      "Docs page URL (https://docs.notifly.tech/ko/...), path such as 'client-sdk/ios-sdk', or notifly-docs:// resource URI. A #anchor starts at that section."
+    ),
+  startSection: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("First section to return (1-based, as numbered in the table of contents)"),
+});
+
+type GetDocPageInput = z.infer<typeof getDocPageInputSchema>;
+
+const docPageOutputSchema = {
+  title: z.string(),
+  url: z.string().describe("Docs page URL"),
+  resourceUri: z.string().optional().describe("MCP resource URI of the page"),
+  totalSections: z.number().int(),
+  startSection: z.number().int().describe("First returned section (1-based)"),
+  endSection: z.number().int().describe("Last returned section (inclusive)"),
+  nextStartSection: z
+    .number()
+    .int()
+    .optional()
+    .describe("startSection of the next page, when sections remain after endSection"),
+  toc: z
+    .array(
+      z.object({
+        index: z.number().int(),
+        headingPath: z.array(z.string()),
+        url: z.string().describe("Page URL with the section's anchor"),
+      })
+    )
+    .describe("Every section of the page"),
+  content: z.string().describe("Markdown of the returned sections"),
+};
+
+/**
+ * Resource URI identifying a docs page given as URL, path or resource URI
+ * (ignores trailing slashes, a ".md" suffix and the fragment)
+ */
+function pageKey(page: string): string | undefined {
+  if (page.startsWith(DOCS_URI_PREFIX)) return page.replace(/\/+$/, "");
+  let url: URL;
+  try {
+    url = new URL(resolveDocUrl(page.trim()));
+  } catch {
+    return undefined;
+  }
+  url.hash = "";
+  url.pathname = url.pathname.replace(/\/+$/, "").replace(/\.md$/, "");
+  return docsPageUri(url.toString());
+}
+
+/**
+ * Find the docs index entry for a page URL, path or resource URI.
+ * Throws NotFoundError for pages not in the index.
+ */
+export function resolveDocLink(links: DocsLink[], page: string): DocsLink {
+  const key = pageKey(page);
+  const link = key ? links.find((l) => pageKey(l.url) === key) : undefined;
+  if (!link) throw new NotFoundError(`Docs page ${JSON.stringify(page)}`);
+  return link;
+}
+
+/**
+ * Markdown of a section, with its heading at the depth of its heading path
+ */
+function renderSection(section: DocSection): string {
+  const title = section.headingPath[section.headingPath.length - 1];
+  if (!title) return section.text;
+  return `${"#".repeat(Math.min(6, section.headingPath.length))} ${title}\n\n${section.text}`;
+}
+
+export const getDocPageTool: ToolDefinition<GetDocPageInput, ToolResult> = {
+  name: "get_doc_page",
+  description: GET_DOC_PAGE_DESCRIPTION,
+  inputSchema: {
+    url: getDocPageInputSchema.shape.url,
+    startSection: getDocPageInputSchema.shape.startSection,
+  },
+  outputSchema: docPageOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: GetDocPageInput, context: ServerContext): Promise<ToolResult> {
+    try {
+      const link = resolveDocLink(await loadDocsIndex(context), params.url);
+      const url = resolveDocUrl(link.url);
+      const sections = await fetchDocSections(url, context);
+      if (sections.length === 0) {
+        throw new ApiError(`Docs page ${url} has no content.`);
+      }
+
+      const anchor = params.url.includes("#") ? params.url.split("#").pop() : undefined;
+      const anchorIndex = anchor ? sections.findIndex((s) => s.anchor === anchor) : -1;
+      const startSection = params.startSection ?? (anchorIndex >= 0 ? anchorIndex + 1 : 1);
+      if (startSection > sections.length) {
+        throw new ValidationError(
+          `startSection (${startSection}) is past the last section of the page (${sections.length} sections).`
+        );
+      }
+
+      // Sections up to the length budget, but always at least one
+      let endSection = startSection;
+      let length = renderSection(sections[startSection - 1]!).length;
+      while (endSection < sections.length) {
+        const next = renderSection(sections[endSection]!).length;
+        if (length + next > DOCS_PAGE_MAX_LENGTH) break;
+        length += next;
+        endSection++;
+      }
+      const nextStartSection = endSection < sections.length ? endSection + 1 : undefined;
+
+      const toc = sections.map((section, index) => ({
+        index: index + 1,
+        headingPath: section.headingPath,
+        url: sectionUrl(url, section),
+      }));
+      const content = sections
+        .slice(startSection - 1, endSection)
+        .map(renderSection)
+        .join("\n\n");
+      const uri = docsPageUri(url);
+
+      let output = `# ${link.title}\n\n`;
+      output += `**URL**: ${url}\n`;
+      if (uri) output += `**Resource**: ${uri}\n`;
+      output += `**Sections**: ${startSection}-${endSection} of ${sections.length}\n\n`;
+      output += `## Table of Contents\n\n`;
+      for (const entry of toc) {
+        const heading = entry.headingPath.join(" > ") || "(Introduction)";
+        const shown = entry.index >= startSection && entry.index <= endSection;
+        output += `${entry.index}. ${shown ? `**${heading}**` : heading}\n`;
+      }
+      output += `\n---\n\n${content}\n`;
+      if (nextStartSection !== undefined) {
+        output += `\n---\n\n**Next Page**: call get_doc_page again with \`startSection: ${nextStartSection}\` to continue reading.\n`;
+      }
+
+      const resourceLinks: ResourceLinkRef[] = uri
+        ? [{ uri, name: link.title, description: link.description, mimeType: "text/markdown" }]
+        : [];
+
+      return {
+        text: output,
+        resourceLinks,
+        structuredContent: {
+          title: link.title,
+          url,
+          ...(uri ? { resourceUri: uri } : {}),
+          totalSections: sections.length,
+          startSection,
+          endSection,
+          ...(nextStartSection !== undefined ? { nextStartSection } : {}),
+          toc,
+          content,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to read docs page: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
@@ -0,0 +1,234 @@
+/**
+ * SDK File Tool
+ *
+ * Read a full SDK source file, or a line range of it, by path or llms.txt
+ * entry title. Large files are returned a page of lines at a time.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult, ResourceLinkRef } from "../types.js";
+import { SDK_FILE_PAGE_LINES } from "../constants.js";
+import { ApiError, NotFoundError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { GET_SDK_FILE_DESCRIPTION } from "./descriptions.js";
+import {
+  loadSdkEntries,
+  fetchSdkSource,
+  languageForFile,
+  normalizeSdkPlatform,
+  sdkPin,
+  sdkRefSchema,
+  type SdkEntry,
+  resolveSdkCommits,
+} from "./search-sdk.js";
+import { githubLinesUrl, parseRawGithubUrl, sdkFileUri } from "../resources/uris.js";
+
+const getSdkFileInputSchema = z.object({
+  platform: z
+    .string()
+    .min(1)
+    .transform(normalizeSdkPlatform)
+    .describe("SDK platform (ios, android, flutter, react native, javascript, gtm, or all)"),
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "File path in the SDK repository (a trailing part such as 'Notifly.swift' is enough), '<repository>/<file path>', notifly-sdk:// resource URI or GitHub raw URL"
+    ),
+  title: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Entry title from the SDK llms.txt index, e.g. 'Notifly Main Entry'"),
+  startLine: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("First line to return (1-based, default: 1)"),
+  endLine: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(`Last line to return (inclusive); at most ${SDK_FILE_PAGE_LINES} lines per call`),
+  ref: sdkRefSchema,
+});
+
+type GetSdkFileInput = z.infer<typeof getSdkFileInputSchema>;
+
+const sdkFileOutputSchema = {
+  platform: z.string(),
+  title: z.string().describe("Entry title from the SDK llms.txt index"),
+  url: z.string().describe("GitHub raw URL of the file"),
+  path: z.string().describe("File path in the SDK repository"),
+  ref: z.string().optional().describe("Git ref the file was read at, when pinned"),
+  language: z.string().optional().describe("Syntax-highlighting language of the file"),
+  resourceUri: z.string().optional().describe("MCP resource URI of the file"),
+  startLine: z.number().int().describe("First returned line (1-based)"),
+  endLine: z.number().int().describe("Last returned line (inclusive)"),
+  totalLines: z.number().int(),
+  nextStartLine: z
+    .number()
+    .int()
+    .optional()
+    .describe("startLine of the next page, when lines remain after endLine"),
+  content: z.string().describe("Source code of the returned lines"),
+};
+
+function repositoryPaths(entry: SdkEntry): string[] {
+  const parsed = parseRawGithubUrl(entry.file);
+  return parsed ? [parsed.filePath, `${parsed.repo}/${parsed.filePath}`] : [entry.file];
+}
+
+function describeEntry(entry: SdkEntry): string {
+  return `- ${entry.title} (${entry.platform}): ${repositoryPaths(entry)[0]}`;
+}
+
+/**
+ * Find the SDK entry for a path and/or title on a platform. Paths match the
+ * file URL, resource URI, repository path or a trailing part of it.
+ * Throws NotFoundError when nothing matches and ValidationError when several
+ * files do.
+ */
+export function resolveSdkEntry(
+  entries: SdkEntry[],
+  params: { platform: string; path?: string; title?: string }
+): SdkEntry {
+  const { platform, title } = params;
+  const path = params.path?.trim().replace(/^\/+/, "");
+  // Raw URLs match by repository path, so they also find files pinned to another ref
+  const raw = path ? parseRawGithubUrl(path) : undefined;
+  const wanted = raw ? `${raw.repo}/${raw.filePath}` : path;
+
+  let matches = platform === "all" ? entries : entries.filter((e) => e.platform === platform);
+  if (title) {
+    const normalized = title.trim().toLowerCase();
+    matches = matches.filter((e) => e.title.toLowerCase() === normalized);
+  }
+  if (wanted) {
+    matches = matches.filter(
+      (e) =>
+        e.file === wanted ||
+        sdkFileUri(e.platform, e.file) === wanted ||
+        repositoryPaths(e).some((p) => p === wanted || p.endsWith(`/${wanted}`))
+    );
+  }
+
+  // The same file may be listed under several titles
+  const unique = matches.filter((e, i) => matches.findIndex((m) => m.file === e.file) === i);
+  const [entry] = unique;
+  if (!entry) {
+    throw new NotFoundError(
+      `SDK file ${JSON.stringify(wanted ?? title)} on platform "${platform}"`
+    );
+  }
+  if (unique.length > 1) {
+    const candidates = unique.slice(0, 10).map(describeEntry).join("\n");
+    throw new ValidationError(
+      `${unique.length} SDK files match ${JSON.stringify(wanted ?? title)}. Use a longer path or the exact title:\n${candidates}`
+    );
+  }
+  return entry;
+}
+
+export const getSdkFileTool: ToolDefinition<GetSdkFileInput, ToolResult> = {
+  name: "get_sdk_file",
+  description: GET_SDK_FILE_DESCRIPTION,
+  inputSchema: {
+    platform: getSdkFileInputSchema.shape.platform,
+    path: getSdkFileInputSchema.shape.path,
+    title: getSdkFileInputSchema.shape.title,
+    startLine: getSdkFileInputSchema.shape.startLine,
+    endLine: getSdkFileInputSchema.shape.endLine,
+    ref: getSdkFileInputSchema.shape.ref,
+  },
+  outputSchema: sdkFileOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: GetSdkFileInput, context: ServerContext): Promise<ToolResult> {
+    if (!params.path && !params.title) {
+      throw new ValidationError("Either path or title is required.");
+    }
+    const pin = sdkPin(params.platform, params.ref);
+    const startLine = params.startLine ?? 1;
+    if (params.endLine !== undefined && params.endLine < startLine) {
+      throw new ValidationError(
+        `endLine (${params.endLine}) must not be before startLine (${startLine}).`
+      );
+    }
+
+    try {
+      const entry = resolveSdkEntry(await loadSdkEntries(context, pin), params);
+      const source = await fetchSdkSource(entry.file, context);
+
+      const lines = source.split("\n");
+      if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+      const totalLines = lines.length;
+      if (startLine > totalLines) {
+        throw new ValidationError(
+          `startLine (${startLine}) is past the end of the file (${totalLines} lines).`
+        );
+      }
+      const requestedEnd = Math.min(params.endLine ?? totalLines, totalLines);
+      const endLine = Math.min(requestedEnd, startLine + SDK_FILE_PAGE_LINES - 1);
+      const content = lines.slice(startLine - 1, endLine).join("\n");
+      const nextStartLine = endLine < requestedEnd ? endLine + 1 : undefined;
+
+      const filePath = repositoryPaths(entry)[0] ?? entry.file;
+      const language = languageForFile(entry.file);
+      // Resource URIs always read the default branch
+      const uri = pin ? undefined : sdkFileUri(entry.platform, entry.file);
+      const commit = (await resolveSdkCommits([entry.file], context)).get(entry.file);
+      const linesUrl = githubLinesUrl(entry.file, startLine, endLine, commit);
+
+      let output = `# Notifly SDK File: ${entry.title}\n\n`;
+      output += `**Platform**: ${entry.platform}\n`;
+      if (pin) output += `**Ref**: ${pin.ref}\n`;
+      output += `**File**: ${filePath}\n`;
+      output += `**GitHub Source**: ${entry.file}\n`;
+      if (linesUrl) output += `**GitHub**: ${linesUrl}\n`;
+      if (uri) output += `**Resource**: ${uri}\n`;
+      output += `**Lines**: ${startLine}-${endLine} of ${totalLines}\n\n`;
+      if (entry.description) {
+        output += `**Description**:\n${entry.description}\n\n`;
+      }
+      output += `\`\`\`${language}\n${content}\n\`\`\`\n`;
+      if (nextStartLine !== undefined) {
+        output += `\n**Next Page**: call get_sdk_file again with \`startLine: ${nextStartLine}\` to read lines ${nextStartLine}-${requestedEnd}.\n`;
+      }
+
+      const resourceLinks: ResourceLinkRef[] = uri
+        ? [{ uri, name: entry.title, description: entry.description, mimeType: "text/plain" }]
+        : [];
+
+      return {
+        text: output,
+        resourceLinks,
+        structuredContent: {
+          platform: entry.platform,
+          title: entry.title,
+          url: entry.file,
+          path: filePath,
+          ...(pin ? { ref: pin.ref } : {}),
+          ...(language ? { language } : {}),
+          ...(uri ? { resourceUri: uri } : {}),
+          startLine,
+          endLine,
+          totalLines,
+          ...(nextStartLine !== undefined ? { nextStartLine } : {}),
+          content,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to read SDK file: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
@@ -0,0 +1,83 @@
+/**
+ * User Lookup Tool
+ *
+ * Read a Notifly user's properties through the Notifly API, e.g. to check
+ * which segments a test user falls into.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult } from "../types.js";
+import { ApiError, NotiflyMcpError } from "../errors.js";
+import { GET_USER_DESCRIPTION } from "./descriptions.js";
+import { requireApiClient } from "../utils/api-client.js";
+import { projectIdSchema } from "./list-campaigns.js";
+import { userIdSchema } from "./set-user-properties.js";
+
+const getUserInputSchema = z.object({
+  userId: userIdSchema,
+  projectId: projectIdSchema,
+});
+
+type GetUserInput = z.infer<typeof getUserInputSchema>;
+
+const getUserOutputSchema = {
+  projectId: z.string(),
+  userId: z.string(),
+  userProperties: z.record(z.unknown()),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+};
+
+export const getUserTool: ToolDefinition<GetUserInput, ToolResult> = {
+  name: "get_user",
+  description: GET_USER_DESCRIPTION,
+  inputSchema: {
+    userId: getUserInputSchema.shape.userId,
+    projectId: getUserInputSchema.shape.projectId,
+  },
+  outputSchema: getUserOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: GetUserInput, context: ServerContext): Promise<ToolResult> {
+    const api = requireApiClient(context);
+    const projectId = api.resolveProjectId(params.projectId);
+
+    try {
+      const user = await api.getUser(projectId, params.userId);
+      const userProperties = user.userProperties ?? {};
+
+      let output = `# Notifly User: ${params.userId}\n\n`;
+      output += `**Project**: ${projectId}\n`;
+      if (user.createdAt) output += `**Created**: ${user.createdAt}\n`;
+      if (user.updatedAt) output += `**Updated**: ${user.updatedAt}\n`;
+      output += `\n## Properties\n\n`;
+      const entries = Object.entries(userProperties);
+      for (const [key, value] of entries) {
+        output += `- \`${key}\`: ${JSON.stringify(value)}\n`;
+      }
+      if (entries.length === 0) {
+        output += `No properties set.\n`;
+      }
+
+      return {
+        text: output,
+        structuredContent: {
+          projectId,
+          userId: params.userId,
+          userProperties,
+          ...(user.createdAt ? { createdAt: user.createdAt } : {}),
+          ...(user.updatedAt ? { updatedAt: user.updatedAt } : {}),
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to get user: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
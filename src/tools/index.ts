@@ -6,6 +6,24 @@
 
 import { docsSearchTool } from "./search-docs.js";
 import { sdkSearchTool } from "./search-sdk.js";
+import { getSdkFileTool } from "./get-sdk-file.js";
+import { getDocPageTool } from "./get-doc-page.js";
+import { compareSdkVersionsTool } from "./compare-sdk-versions.js";
+import { findEquivalentApiTool } from "./find-equivalent-api.js";
+import { generateIntegrationSnippetTool } from "./generate-integration-snippet.js";
+import { auditIntegrationTool } from "./audit-integration.js";
+import { listProjectsTool } from "./list-projects.js";
+import { listCampaignsTool } from "./list-campaigns.js";
+import { getCampaignTool } from "./get-campaign.js";
+import { sendTestMessageTool } from "./send-test-message.js";
+import { setUserPropertiesTool } from "./set-user-properties.js";
+import { trackEventTool } from "./track-event.js";
+import { getUserTool } from "./get-user.js";
+import { renderMessageTemplateTool } from "./render-message-template.js";
+import { verifyWebhookTool } from "./verify-webhook.js";
+import { validateGtmContainerTool } from "./validate-gtm-container.js";
+import { checkKakaoTemplateTool } from "./check-kakao-template.js";
+import { buildPushPayloadTool } from "./build-push-payload.js";
 
 /**
  * All tools mapped by their command names
@@ -13,6 +31,24 @@ import { sdkSearchTool } from "./search-sdk.js";
 export const MCP_TOOLS = {
   search_docs: docsSearchTool,
   search_sdk: sdkSearchTool,
+  get_sdk_file: getSdkFileTool,
+  get_doc_page: getDocPageTool,
+  compare_sdk_versions: compareSdkVersionsTool,
+  find_equivalent_api: findEquivalentApiTool,
+  generate_integration_snippet: generateIntegrationSnippetTool,
+  audit_integration: auditIntegrationTool,
+  list_projects: listProjectsTool,
+  list_campaigns: listCampaignsTool,
+  get_campaign: getCampaignTool,
+  send_test_message: sendTestMessageTool,
+  set_user_properties: setUserPropertiesTool,
+  track_event: trackEventTool,
+  get_user: getUserTool,
+  render_message_template: renderMessageTemplateTool,
+  verify_webhook: verifyWebhookTool,
+  validate_gtm_container: validateGtmContainerTool,
+  check_kakao_template: checkKakaoTemplateTool,
+  build_push_payload: buildPushPayloadTool,
 } as const;
 
 export type ToolName = keyof typeof MCP_TOOLS;
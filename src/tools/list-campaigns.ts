@@ -0,0 +1,124 @@
+/**
+ * Campaign Listing Tool
+ *
+ * List the campaigns of a Notifly project, optionally filtered by status or
+ * name.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult, Campaign } from "../types.js";
+import { ApiError, NotiflyMcpError } from "../errors.js";
+import { LIST_CAMPAIGNS_DESCRIPTION } from "./descriptions.js";
+import { requireApiClient } from "../utils/api-client.js";
+
+/** Campaigns returned per call unless `limit` is given */
+const DEFAULT_CAMPAIGN_LIMIT = 50;
+
+export const projectIdSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe("Notifly project ID (default: NOTIFLY_PROJECT_ID; see list_projects)");
+
+const listCampaignsInputSchema = z.object({
+  projectId: projectIdSchema,
+  status: z
+    .enum(["active", "inactive", "draft"])
+    .optional()
+    .describe("Only campaigns with this status"),
+  query: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only campaigns whose name contains this text (case-insensitive)"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe(`Maximum campaigns to return (default: ${DEFAULT_CAMPAIGN_LIMIT})`),
+});
+
+type ListCampaignsInput = z.infer<typeof listCampaignsInputSchema>;
+
+export const campaignSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  projectId: z.string(),
+  status: z.enum(["active", "inactive", "draft"]),
+  createdAt: z.string(),
+});
+
+const listCampaignsOutputSchema = {
+  projectId: z.string(),
+  total: z.number().int().describe("Campaigns matching the filters, before the limit"),
+  campaigns: z.array(campaignSummarySchema),
+};
+
+export function toCampaignSummary(campaign: Campaign): z.infer<typeof campaignSummarySchema> {
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    projectId: campaign.projectId,
+    status: campaign.status,
+    createdAt: campaign.createdAt,
+  };
+}
+
+export const listCampaignsTool: ToolDefinition<ListCampaignsInput, ToolResult> = {
+  name: "list_campaigns",
+  description: LIST_CAMPAIGNS_DESCRIPTION,
+  inputSchema: {
+    projectId: listCampaignsInputSchema.shape.projectId,
+    status: listCampaignsInputSchema.shape.status,
+    query: listCampaignsInputSchema.shape.query,
+    limit: listCampaignsInputSchema.shape.limit,
+  },
+  outputSchema: listCampaignsOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: ListCampaignsInput, context: ServerContext): Promise<ToolResult> {
+    const api = requireApiClient(context);
+    const projectId = api.resolveProjectId(params.projectId);
+    const limit = params.limit ?? DEFAULT_CAMPAIGN_LIMIT;
+
+    try {
+      const query = params.query?.toLowerCase();
+      const matching = (await api.listCampaigns(projectId)).filter(
+        (campaign) =>
+          (!params.status || campaign.status === params.status) &&
+          (!query || campaign.name.toLowerCase().includes(query))
+      );
+      const campaigns = matching.slice(0, limit).map(toCampaignSummary);
+
+      let output = `# Notifly Campaigns\n\n`;
+      output += `**Project**: ${projectId}\n`;
+      if (params.status) output += `**Status Filter**: ${params.status}\n`;
+      if (params.query) output += `**Name Filter**: "${params.query}"\n`;
+      output += `**Campaigns**: ${matching.length}`;
+      output +=
+        matching.length > campaigns.length ? ` (showing first ${campaigns.length})\n\n` : "\n\n";
+      for (const campaign of campaigns) {
+        output += `- **${campaign.name}** — \`${campaign.id}\` [${campaign.status}] (created ${campaign.createdAt})\n`;
+      }
+      if (campaigns.length === 0) {
+        output += `No campaigns found.\n`;
+      }
+
+      return {
+        text: output,
+        structuredContent: { projectId, total: matching.length, campaigns },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to list campaigns: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
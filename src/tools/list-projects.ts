@@ -0,0 +1,76 @@
+/**
+ * Project Listing Tool
+ *
+ * List the projects the configured Notifly API key can access.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult, Project } from "../types.js";
+import { ApiError, NotiflyMcpError } from "../errors.js";
+import { LIST_PROJECTS_DESCRIPTION } from "./descriptions.js";
+import { requireApiClient } from "../utils/api-client.js";
+
+type ListProjectsInput = Record<string, never>;
+
+const listProjectsOutputSchema = {
+  projects: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      organizationId: z.string(),
+      createdAt: z.string(),
+    })
+  ),
+};
+
+/**
+ * Project fields shown to the agent; the project's API key is never returned
+ */
+function toProjectSummary(project: Project) {
+  return {
+    id: project.id,
+    name: project.name,
+    organizationId: project.organizationId,
+    createdAt: project.createdAt,
+  };
+}
+
+export const listProjectsTool: ToolDefinition<ListProjectsInput, ToolResult> = {
+  name: "list_projects",
+  description: LIST_PROJECTS_DESCRIPTION,
+  inputSchema: {},
+  outputSchema: listProjectsOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(_params: ListProjectsInput, context: ServerContext): Promise<ToolResult> {
+    const api = requireApiClient(context);
+
+    try {
+      const projects = (await api.listProjects()).map(toProjectSummary);
+
+      let output = `# Notifly Projects\n\n`;
+      output += `**Projects**: ${projects.length}\n`;
+      if (api.defaultProjectId) {
+        output += `**Default Project**: ${api.defaultProjectId}\n`;
+      }
+      output += "\n";
+      for (const project of projects) {
+        output += `- **${project.name}** — \`${project.id}\` (organization \`${project.organizationId}\`, created ${project.createdAt})\n`;
+      }
+      if (projects.length === 0) {
+        output += `No projects are accessible with the configured API key.\n`;
+      }
+
+      return { text: output, structuredContent: { projects } };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to list projects: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
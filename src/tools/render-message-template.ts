@@ -0,0 +1,279 @@
+/**
+ * Message Template Tool
+ *
+ * Parse a Notifly Liquid template, check the user and event properties it
+ * references, and render a preview from sample properties. Connected Content
+ * calls are answered from fixtures instead of the network.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult } from "../types.js";
+import { ApiError, NotiflyMcpError, TemplateError, ValidationError } from "../errors.js";
+import { RENDER_MESSAGE_TEMPLATE_DESCRIPTION } from "./descriptions.js";
+import { readFixtureFile } from "../utils/fixtures.js";
+import {
+  analyzeTemplate,
+  parseTemplate,
+  renderTemplate,
+  type LiquidNode,
+  type VariableReference,
+} from "../utils/liquid.js";
+
+const renderMessageTemplateInputSchema = z.object({
+  template: z.string().min(1).describe("Liquid template, e.g. message title or body"),
+  userProperties: z
+    .record(z.unknown())
+    .optional()
+    .describe("Sample user properties available as {{ user.<property> }}"),
+  eventParams: z
+    .record(z.unknown())
+    .optional()
+    .describe("Sample event params available as {{ event.<param> }}"),
+  connectedContent: z.record(z.unknown()).optional().describe("Connected Content responses by URL"),
+  connectedContentFile: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "JSON file mapping Connected Content URLs to responses, relative to the server's fixtures directory"
+    ),
+});
+
+type RenderMessageTemplateInput = z.infer<typeof renderMessageTemplateInputSchema>;
+
+const renderMessageTemplateOutputSchema = {
+  valid: z.boolean().describe("Whether the template parsed and rendered without errors"),
+  rendered: z.string().optional().describe("Preview rendered from the sample properties"),
+  errors: z.array(z.object({ message: z.string(), line: z.number().optional() })),
+  warnings: z.array(
+    z.object({
+      id: z.enum(["missing-fallback", "empty-fallback", "missing-sample", "unknown-variable"]),
+      message: z.string(),
+      line: z.number(),
+    })
+  ),
+  references: z
+    .array(
+      z.object({
+        variable: z.string(),
+        line: z.number(),
+        usage: z.enum(["output", "condition", "argument"]),
+        fallback: z.boolean(),
+      })
+    )
+    .describe("Variables the template reads, in order"),
+};
+
+type TemplateWarning = {
+  id: "missing-fallback" | "empty-fallback" | "missing-sample" | "unknown-variable";
+  message: string;
+  line: number;
+};
+
+/** Root variables Notifly provides to message templates */
+const TEMPLATE_ROOTS = ["user", "event"] as const;
+
+/**
+ * Connected Content fixtures from the inline map and the JSON file; inline
+ * entries win
+ */
+async function loadConnectedContent(
+  params: RenderMessageTemplateInput,
+  context: ServerContext
+): Promise<Record<string, unknown>> {
+  let fromFile: Record<string, unknown> = {};
+  if (params.connectedContentFile) {
+    const file = params.connectedContentFile;
+    const content = await readFixtureFile(file, context, "connectedContentFile");
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      // The parser message quotes the file's contents
+      throw new ValidationError(`connectedContentFile is not valid JSON: ${file}`);
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new ValidationError(
+        `connectedContentFile must contain a JSON object mapping URLs to responses: ${file}`
+      );
+    }
+    fromFile = parsed as Record<string, unknown>;
+  }
+  return { ...fromFile, ...params.connectedContent };
+}
+
+function hasPath(sample: Record<string, unknown>, keys: string[]): boolean {
+  let value: unknown = sample;
+  for (const key of keys) {
+    if (!value || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return false;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return true;
+}
+
+function variableName(reference: VariableReference): string {
+  return [reference.root, ...reference.path].join(".");
+}
+
+/**
+ * Warnings for references a recipient's data could break
+ */
+function referenceWarnings(
+  references: VariableReference[],
+  locals: Set<string>,
+  samples: Record<(typeof TEMPLATE_ROOTS)[number], Record<string, unknown> | undefined>
+): TemplateWarning[] {
+  const warnings: TemplateWarning[] = [];
+  const seen = new Set<string>();
+  const warn = (warning: TemplateWarning) => {
+    const key = `${warning.id}:${warning.line}:${warning.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    warnings.push(warning);
+  };
+
+  for (const reference of references) {
+    const name = variableName(reference);
+    const { line } = reference;
+    if (locals.has(reference.root)) continue;
+    if (reference.root !== "user" && reference.root !== "event") {
+      warn({
+        id: "unknown-variable",
+        message: `"${reference.root}" is not defined. Use user.<property> or event.<param>, or assign it first.`,
+        line,
+      });
+      continue;
+    }
+    if (reference.path.length === 0) continue;
+
+    if (reference.root === "user" && reference.usage === "output") {
+      if (!reference.fallback) {
+        warn({
+          id: "missing-fallback",
+          message: `{{ ${name} }} has no fallback, so recipients without ${reference.path.join(".")} get an empty value. Add | default: "..." or wrap it in {% if ${name} %}.`,
+          line,
+        });
+      } else if (reference.emptyFallback) {
+        warn({
+          id: "empty-fallback",
+          message: `The default for {{ ${name} }} is empty, so recipients without ${reference.path.join(".")} still get an empty value.`,
+          line,
+        });
+      }
+    }
+
+    const sample = samples[reference.root];
+    if (sample && !hasPath(sample, reference.path)) {
+      warn({
+        id: "missing-sample",
+        message: `${name} is not in the sample ${reference.root === "user" ? "user properties" : "event params"}; check the property name.`,
+        line,
+      });
+    }
+  }
+  return warnings;
+}
+
+export const renderMessageTemplateTool: ToolDefinition<RenderMessageTemplateInput, ToolResult> = {
+  name: "render_message_template",
+  description: RENDER_MESSAGE_TEMPLATE_DESCRIPTION,
+  inputSchema: {
+    template: renderMessageTemplateInputSchema.shape.template,
+    userProperties: renderMessageTemplateInputSchema.shape.userProperties,
+    eventParams: renderMessageTemplateInputSchema.shape.eventParams,
+    connectedContent: renderMessageTemplateInputSchema.shape.connectedContent,
+    connectedContentFile: renderMessageTemplateInputSchema.shape.connectedContentFile,
+  },
+  outputSchema: renderMessageTemplateOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  async handler(params: RenderMessageTemplateInput, context: ServerContext): Promise<ToolResult> {
+    const fixtures = await loadConnectedContent(params, context);
+
+    try {
+      const errors: Array<{ message: string; line?: number }> = [];
+      let warnings: TemplateWarning[] = [];
+      let references: VariableReference[] = [];
+      let rendered: string | undefined;
+
+      let nodes: LiquidNode[] | undefined;
+      try {
+        nodes = parseTemplate(params.template);
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        errors.push({ message: error.message, ...(error.line ? { line: error.line } : {}) });
+      }
+
+      if (nodes) {
+        const analysis = analyzeTemplate(nodes);
+        references = analysis.references;
+        warnings = referenceWarnings(references, analysis.locals, {
+          user: params.userProperties,
+          event: params.eventParams,
+        });
+        try {
+          rendered = renderTemplate(nodes, {
+            variables: { user: params.userProperties ?? {}, event: params.eventParams ?? {} },
+            connectedContent: (url) => fixtures[url],
+          });
+        } catch (error) {
+          if (!(error instanceof TemplateError)) throw error;
+          errors.push({ message: error.message, ...(error.line ? { line: error.line } : {}) });
+        }
+      }
+      const valid = errors.length === 0;
+
+      let output = `# Message Template\n\n`;
+      output += `**Syntax**: ${nodes ? "valid" : "invalid"}\n`;
+      output += `**Variables**: ${references.length}\n`;
+      if (errors.length > 0) {
+        output += `\n## Errors\n\n`;
+        for (const error of errors) {
+          output += `- ${error.message}\n`;
+        }
+      }
+      if (warnings.length > 0) {
+        output += `\n## Warnings\n\n`;
+        for (const warning of warnings) {
+          output += `- line ${warning.line} [${warning.id}]: ${warning.message}\n`;
+        }
+      }
+      if (rendered !== undefined) {
+        output += `\n## Preview\n\n\`\`\`\n${rendered}\n\`\`\`\n`;
+        if (!params.userProperties && !params.eventParams) {
+          output += `\nNo sample properties were given, so this is what a recipient without any properties sees.\n`;
+        }
+      }
+      if (valid && warnings.length === 0) {
+        output += `\nNo problems found.\n`;
+      }
+
+      return {
+        text: output,
+        structuredContent: {
+          valid,
+          ...(rendered !== undefined ? { rendered } : {}),
+          errors,
+          warnings,
+          references: references.map((reference) => ({
+            variable: variableName(reference),
+            line: reference.line,
+            usage: reference.usage,
+            fallback: reference.fallback,
+          })),
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to render message template: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
@@ -6,21 +6,40 @@
  */
 
 import { z } from "zod";
-import type { ToolDefinition, ServerContext } from "../types.js";
-import { DOCS_SEARCH_MAX_RESULTS, MCP_USER_AGENT, DEFAULT_API_TIMEOUT } from "../constants.js";
+import type {
+  ToolDefinition,
+  ServerContext,
+  ToolResult,
+  ResourceLinkRef,
+  SearchOutput,
+  SearchResult,
+  SearchResultSection,
+} from "../types.js";
+import { DOCS_SEARCH_MAX_RESULTS, DOCS_SECTIONS_PER_PAGE } from "../constants.js";
 import { ApiError } from "../errors.js";
 import { BM25 } from "../utils/bm25.js";
+import { fetchText, describeFetchError } from "../utils/http-client.js";
+import { htmlToMarkdown } from "../utils/html-to-markdown.js";
+import {
+  stripHeadingAnchors,
+  splitSections,
+  rankSections,
+  type DocSection,
+  type RankedSection,
+} from "../utils/doc-sections.js";
 import { DOCS_SEARCH_DESCRIPTION_KO } from "./descriptions.js";
+import { docsPageUri } from "../resources/uris.js";
+import { searchOutputSchema, roundScore } from "./search-output.js";
 
-const DOCS_BASE_URL = "https://docs.notifly.tech";
-const KO_LLMS_URL = `${DOCS_BASE_URL}/llms.txt`;
+export const DOCS_BASE_URL = "https://docs.notifly.tech";
+export const KO_LLMS_URL = `${DOCS_BASE_URL}/llms.txt`;
 
 function pickDocsSource(_query: string): { baseUrl: string; llmsUrl: string } {
   // Always use the Korean docs index for now (EN is incomplete)
   return { baseUrl: DOCS_BASE_URL, llmsUrl: KO_LLMS_URL };
 }
 
-const docsSearchInputSchema = z.object({
+export const docsSearchInputSchema = z.object({
   query: z
     .string()
     .min(1, "Search query must be at least 1 character")
@@ -36,9 +55,9 @@ const docsSearchInputSchema = z.object({
     .describe("Maximum number of results to return (1-10)"),
 });
 
-type DocsSearchInput = z.infer<typeof docsSearchInputSchema>;
+export type DocsSearchInput = z.infer<typeof docsSearchInputSchema>;
 
-interface DocsLink {
+export interface DocsLink {
   title: string;
   url: string;
   description?: string;
@@ -48,7 +67,7 @@ interface DocsLink {
  * Parse llms.txt format from Mintlify
  * Format: - [Title](URL): Description
  */
-function parseLlmsTxt(content: string): DocsLink[] {
+export function parseLlmsTxt(content: string): DocsLink[] {
   const links: DocsLink[] = [];
   const lines = content.split("\n");
 
@@ -70,11 +89,22 @@ function parseLlmsTxt(content: string): DocsLink[] {
   return links;
 }
 
+/**
+ * Resolve a docs link from llms.txt to an absolute URL
+ */
+export function resolveDocUrl(url: string, baseUrl: string = DOCS_BASE_URL): string {
+  return url.startsWith("http") ? url : new URL(url, baseUrl).toString();
+}
+
 /**
  * Search docs links by query using BM25 algorithm
  * BM25 is the industry-standard ranking function
  */
-function searchDocs(links: DocsLink[], query: string, maxResults: number): DocsLink[] {
+export function searchDocs(
+  links: DocsLink[],
+  query: string,
+  maxResults: number
+): Array<{ link: DocsLink; score: number }> {
   // Initialize BM25 with field weights
   // Title matches are more important than description or URL
   const bm25 = new BM25({
@@ -104,114 +134,155 @@ function searchDocs(links: DocsLink[], query: string, maxResults: number): DocsL
   const results = bm25.search(query, maxResults);
 
   // Map back to DocsLink objects
-  return results
-    .map((result) => links[parseInt(result.id)])
-    .filter((link): link is DocsLink => link !== undefined);
+  return results.flatMap((result) => {
+    const link = links[parseInt(result.id)];
+    return link ? [{ link, score: result.score }] : [];
+  });
 }
 
 /**
- * Fetch content from a documentation URL
- * Mintlify pages can be fetched and parsed for their main content
+ * Load and parse a docs llms.txt index
  */
-async function fetchDocContent(url: string): Promise<string> {
+export async function loadDocsIndex(
+  context: ServerContext,
+  llmsUrl: string = KO_LLMS_URL
+): Promise<DocsLink[]> {
+  let content: string;
   try {
-    // Add timeout to prevent hanging requests
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), DEFAULT_API_TIMEOUT);
+    content = await fetchText(context, llmsUrl, { accept: "text/plain" });
+  } catch (error) {
+    throw new ApiError(
+      `Failed to fetch Notifly documentation: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof ApiError ? error.statusCode : undefined
+    );
+  }
+  return parseLlmsTxt(content);
+}
+
+/**
+ * URL of the Markdown version Mintlify serves for a docs page ("<page>.md")
+ */
+export function markdownPageUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  parsed.search = "";
+  const pathname = parsed.pathname.replace(/\/+$/, "");
+  parsed.pathname = pathname.endsWith(".md") ? pathname : `${pathname || "/index"}.md`;
+  return parsed.toString();
+}
+
+function looksLikeHtml(content: string): boolean {
+  return /^\s*<(!doctype|html|head|body|main|article|section|div|p|span|h[1-6])\b/i.test(content);
+}
 
+/**
+ * Fetch a documentation page as Markdown, preferring the page's .md version
+ * and converting the HTML page otherwise. Headings converted from HTML carry
+ * {#anchor} markers. Throws ApiError when the page cannot be fetched.
+ */
+async function fetchDocMarkdown(url: string, context: ServerContext): Promise<string> {
+  const markdownUrl = markdownPageUrl(url);
+  // Pages without a Markdown version go straight to HTML until the cache ttl
+  if (!(await context.cache?.isMissing(markdownUrl))) {
     try {
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": MCP_USER_AGENT,
-          Accept: "text/html",
-        },
-        signal: controller.signal,
+      const content = await fetchText(context, markdownUrl, {
+        accept: "text/markdown, text/plain",
       });
+      // Some hosts answer unknown paths with an HTML page
+      if (looksLikeHtml(content)) return htmlToMarkdown(content, url);
+      return content.replace(/^---\n[\s\S]*?\n---\n/, "").trim();
+    } catch (error) {
+      // No Markdown version (or not in the offline snapshot): use the HTML page
+      if (error instanceof ApiError && error.statusCode === 404) {
+        await context.cache?.markMissing(markdownUrl);
+      }
+    }
+  }
 
-      clearTimeout(timer);
+  const html = await fetchText(context, url, { accept: "text/html" });
+  return htmlToMarkdown(html, url);
+}
 
-      if (!response.ok) {
-        // Provide clearer messages for specific status codes
-        if (response.status === 429) {
-          return `Rate limited (HTTP 429). Please try again later.`;
-        }
-        if (response.status >= 500) {
-          return `Server error (HTTP ${response.status}). Please try again later.`;
-        }
-        return `Unable to fetch content (HTTP ${response.status})`;
-      }
+/**
+ * Fetch a documentation page as Markdown (untruncated).
+ * Throws ApiError when the page cannot be fetched.
+ */
+export async function fetchDocPage(url: string, context: ServerContext): Promise<string> {
+  return stripHeadingAnchors(await fetchDocMarkdown(url, context));
+}
 
-      const html = await response.text();
-
-      // Extract main content from HTML
-      // Mintlify uses specific patterns, but we'll do a simple extraction
-      // Remove script and style tags
-      let content = html.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "");
-      content = content.replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, "");
-
-      // Remove HTML tags
-      content = content.replace(/<[^>]+>/g, " ");
-
-      // Decode HTML entities
-      content = content
-        .replace(/&nbsp;/g, " ")
-        .replace(/&quot;/g, '"')
-        .replace(/&apos;/g, "'")
-        .replace(/&lt;/g, "<")
-        .replace(/&gt;/g, ">")
-        .replace(/&amp;/g, "&");
-
-      // Clean up whitespace
-      content = content.replace(/\s+/g, " ").trim();
-
-      // Limit content length
-      const maxLength = 3000;
-      if (content.length > maxLength) {
-        content = content.substring(0, maxLength) + "\n\n...(truncated for brevity)";
-      }
+/**
+ * Fetch a documentation page split into heading-delimited sections.
+ * Throws ApiError when the page cannot be fetched.
+ */
+export async function fetchDocSections(url: string, context: ServerContext): Promise<DocSection[]> {
+  return splitSections(await fetchDocMarkdown(url, context));
+}
 
-      return content;
-    } catch (fetchError) {
-      clearTimeout(timer);
-      if ((fetchError as Error).name === "AbortError") {
-        return `Request timeout after ${DEFAULT_API_TIMEOUT}ms. Server may be slow or unreachable.`;
-      }
-      throw fetchError;
-    }
+/** Content budget per page in search results, shared by its sections */
+const DOC_CONTENT_MAX_LENGTH = 3000;
+
+function truncateContent(content: string, maxLength: number): string {
+  if (content.length <= maxLength) return content;
+  let truncated = content.substring(0, maxLength);
+  // Close a code block cut in half so the rest of the output still renders
+  if ((truncated.match(/^\s*```/gm) ?? []).length % 2 === 1) {
+    truncated += "\n```";
+  }
+  return truncated + "\n\n...(truncated for brevity)";
+}
+
+/**
+ * URL of a section: the page URL with the section anchor as fragment
+ */
+export function sectionUrl(pageUrl: string, section: DocSection): string {
+  if (!section.anchor) return pageUrl;
+  const url = new URL(pageUrl);
+  url.hash = section.anchor;
+  return url.toString();
+}
+
+/**
+ * Fetch the sections of a page most relevant to the query for search results
+ * (failures described inline)
+ */
+async function fetchRelevantSections(
+  url: string,
+  query: string,
+  context: ServerContext
+): Promise<{ sections: RankedSection[]; error?: string }> {
+  try {
+    const sections = await fetchDocSections(url, context);
+    return { sections: rankSections(sections, query, DOCS_SECTIONS_PER_PAGE) };
   } catch (error) {
-    return `Error fetching content: ${error instanceof Error ? error.message : String(error)}`;
+    return { sections: [], error: describeFetchError(error, "docs server") };
   }
 }
 
-export const docsSearchTool: ToolDefinition<DocsSearchInput, string> = {
+export const docsSearchTool: ToolDefinition<DocsSearchInput, ToolResult> = {
   name: "search_docs",
   description: DOCS_SEARCH_DESCRIPTION_KO,
   inputSchema: {
     query: docsSearchInputSchema.shape.query,
     maxResults: docsSearchInputSchema.shape.maxResults,
   },
+  outputSchema: searchOutputSchema,
   annotations: {
     readOnlyHint: true,
     openWorldHint: true,
   },
-  async handler(params: DocsSearchInput, _context: ServerContext): Promise<string> {
+  async handler(params: DocsSearchInput, context: ServerContext): Promise<ToolResult> {
     try {
       // Pick English or Korean docs based on query
       const { baseUrl, llmsUrl } = pickDocsSource(params.query);
-      const response = await fetch(llmsUrl);
-
-      if (!response.ok) {
-        throw new ApiError(
-          `Failed to fetch Notifly documentation: ${response.status} ${response.statusText}`,
-          response.status
-        );
-      }
-
-      const content = await response.text();
-      const allDocs = parseLlmsTxt(content);
+      const allDocs = await loadDocsIndex(context, llmsUrl);
+      const structured: SearchOutput = { query: params.query, results: [] };
 
       if (allDocs.length === 0) {
-        return `[Warning] No Documentation Available\n\nUnable to parse Notifly documentation. Please try again later.`;
+        return {
+          text: `[Warning] No Documentation Available\n\nUnable to parse Notifly documentation. Please try again later.`,
+          structuredContent: structured,
+        };
       }
 
       // Search docs (single-language index chosen above)
@@ -222,7 +293,10 @@ export const docsSearchTool: ToolDefinition<DocsSearchInput, string> = {
       );
 
       if (results.length === 0) {
-        return `[No Results] No Results Found\n\nQuery: "${params.query}"\n\nNo documentation found matching your query. Try using different keywords or broader search terms.`;
+        return {
+          text: `[No Results] No Results Found\n\nQuery: "${params.query}"\n\nNo documentation found matching your query. Try using different keywords or broader search terms.`,
+          structuredContent: structured,
+        };
       }
 
       // Format output with actual content
@@ -232,28 +306,68 @@ export const docsSearchTool: ToolDefinition<DocsSearchInput, string> = {
       output += `---\n\n`;
 
       // Fetch content for each result
-      for (const [index, doc] of results.entries()) {
-        const absoluteUrl = doc.url.startsWith("http")
-          ? doc.url
-          : new URL(doc.url, baseUrl).toString();
+      const resourceLinks: ResourceLinkRef[] = [];
+      for (const [index, { link: doc, score }] of results.entries()) {
+        const absoluteUrl = resolveDocUrl(doc.url, baseUrl);
+        const uri = docsPageUri(absoluteUrl);
         output += `## ${index + 1}. ${doc.title}\n\n`;
         output += `**URL**: ${absoluteUrl}\n\n`;
+        if (uri) {
+          output += `**Resource**: ${uri}\n\n`;
+          resourceLinks.push({
+            uri,
+            name: doc.title,
+            description: doc.description,
+            mimeType: "text/markdown",
+          });
+        }
 
         if (doc.description) {
           output += `**Description**: ${doc.description}\n\n`;
         }
 
-        // Fetch and include actual content
+        // Include the page sections most relevant to the query
         output += `**Content**:\n\n`;
-        const content = await fetchDocContent(absoluteUrl);
-        output += `${content}\n\n`;
+        const { sections, error } = await fetchRelevantSections(absoluteUrl, params.query, context);
+        const sectionBudget = Math.floor(DOC_CONTENT_MAX_LENGTH / Math.max(1, sections.length));
+        const resultSections: SearchResultSection[] = [];
+        if (error) {
+          output += `${error}\n\n`;
+        }
+        for (const { section, score: sectionScore } of sections) {
+          const text = truncateContent(section.text, sectionBudget);
+          const url = sectionUrl(absoluteUrl, section);
+          if (section.headingPath.length > 0) {
+            output += `### ${section.headingPath.join(" > ")}\n\n`;
+            output += `**Section URL**: ${url}\n\n`;
+          }
+          output += `${text}\n\n`;
+          resultSections.push({
+            headingPath: section.headingPath,
+            url,
+            score: roundScore(sectionScore),
+            text,
+          });
+        }
+
+        const result: SearchResult = {
+          source: "docs",
+          title: doc.title,
+          url: absoluteUrl,
+          score: roundScore(score),
+          excerpt: error ?? resultSections.map((section) => section.text).join("\n\n"),
+          sections: resultSections,
+        };
+        if (doc.description) result.description = doc.description;
+        if (uri) result.resourceUri = uri;
+        structured.results.push(result);
 
         output += `---\n\n`;
       }
 
       output += `\n**Tip**: For more details, visit the full documentation pages above.`;
 
-      return output;
+      return { text: output, resourceLinks, structuredContent: structured };
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -0,0 +1,62 @@
+/**
+ * Search Output Schema
+ *
+ * Zod schema for the structured output shared by search_docs and search_sdk
+ * (see SearchOutput in types.ts).
+ */
+
+import { z } from "zod";
+
+export const searchResultSectionSchema = z.object({
+  headingPath: z.array(z.string()).describe("Headings from the page's top heading to this section"),
+  url: z.string().describe("Page URL with the section's anchor"),
+  score: z.number().describe("BM25 relevance score of the section"),
+  text: z.string(),
+});
+
+export const searchResultChunkSchema = z.object({
+  symbol: z.string().describe("Symbol name qualified with its enclosing types"),
+  kind: z.string().describe("Symbol kind (class, extension, method, function, ...)"),
+  startLine: z.number().int().describe("First line of the chunk (1-based)"),
+  endLine: z.number().int().describe("Last line of the chunk (1-based, inclusive)"),
+  url: z.string().describe("GitHub URL of the line range"),
+  score: z.number().describe("BM25 relevance score of the chunk"),
+  text: z.string(),
+});
+
+export const searchResultSchema = z.object({
+  source: z.enum(["docs", "sdk"]).describe("Where the result comes from"),
+  title: z.string(),
+  url: z.string().describe("Docs page URL or GitHub raw URL of the SDK file"),
+  platform: z.string().optional().describe("SDK platform (search_sdk only)"),
+  score: z.number().describe("BM25 relevance score"),
+  excerpt: z.string().describe("Fetched page text or source code (truncated)"),
+  language: z
+    .string()
+    .optional()
+    .describe("Syntax-highlighting language of the source excerpt (search_sdk only)"),
+  description: z.string().optional(),
+  resourceUri: z.string().optional().describe("MCP resource URI for the full page or file"),
+  sections: z
+    .array(searchResultSectionSchema)
+    .optional()
+    .describe("Most relevant page sections (search_docs only)"),
+  chunks: z
+    .array(searchResultChunkSchema)
+    .optional()
+    .describe("Most relevant symbols of a large source file (search_sdk only)"),
+});
+
+export const searchOutputSchema = {
+  query: z.string(),
+  platform: z.string().optional().describe("Platform filter (search_sdk only)"),
+  ref: z.string().optional().describe("SDK git ref the results are pinned to (search_sdk only)"),
+  results: z.array(searchResultSchema),
+};
+
+/**
+ * Round a BM25 score for output
+ */
+export function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
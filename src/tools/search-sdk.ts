@@ -6,11 +6,29 @@
  */
 
 import { z } from "zod";
-import type { ToolDefinition, ServerContext } from "../types.js";
-import { SDK_SEARCH_MAX_RESULTS, MCP_USER_AGENT, DEFAULT_API_TIMEOUT } from "../constants.js";
-import { ApiError } from "../errors.js";
+import type {
+  ToolDefinition,
+  ServerContext,
+  ToolResult,
+  ResourceLinkRef,
+  SearchOutput,
+  SearchResult,
+  SearchResultChunk,
+} from "../types.js";
+import { SDK_SEARCH_MAX_RESULTS, SDK_CHUNKS_PER_FILE } from "../constants.js";
+import { ApiError, ValidationError } from "../errors.js";
 import { BM25 } from "../utils/bm25.js";
+import { splitSymbols, rankSymbols, type RankedSymbol } from "../utils/code-symbols.js";
+import { fetchText, describeFetchError } from "../utils/http-client.js";
 import { SDK_SEARCH_DESCRIPTION } from "./descriptions.js";
+import {
+  sdkFileUri,
+  githubCommitApiUrl,
+  githubLinesUrl,
+  parseRawGithubUrl,
+  rawGithubUrlAtRef,
+} from "../resources/uris.js";
+import { searchOutputSchema, roundScore } from "./search-output.js";
 
 // Local file resolution
 import { readFile } from "fs/promises";
@@ -18,7 +36,63 @@ import { existsSync } from "fs";
 import { fileURLToPath } from "url";
 import path from "path";
 
-const sdkSearchInputSchema = z.object({
+/**
+ * Normalize a platform name to its canonical form ("all" when unknown)
+ */
+export function normalizeSdkPlatform(val: string | undefined): string {
+  if (!val) return "all";
+  const normalized = val.toLowerCase().replace(/\s+/g, "-");
+  // Map common variations to canonical names
+  const platformMap: Record<string, string> = {
+    "react-native": "react-native",
+    reactnative: "react-native",
+    react: "react-native",
+    ios: "ios",
+    android: "android",
+    flutter: "flutter",
+    javascript: "javascript",
+    js: "javascript",
+    web: "javascript",
+    gtm: "gtm",
+    "google-tag-manager": "gtm",
+    all: "all",
+  };
+  return platformMap[normalized] || "all";
+}
+
+/**
+ * Git ref (release tag, branch or commit SHA) to read SDK sources at
+ */
+export const sdkRefSchema = z
+  .string()
+  .min(1)
+  .max(100)
+  .regex(/^[A-Za-z0-9._/-]+$/, "ref may only contain letters, digits, '.', '_', '-' and '/'")
+  .refine((ref) => !ref.split("/").includes(".."), "ref must not contain '..'")
+  .optional()
+  .describe(
+    "SDK release tag, branch or commit SHA to read sources at (e.g. '1.4.0'); default: main. Requires a platform."
+  );
+
+/**
+ * SDK index pin for a platform and ref (undefined without a ref).
+ * Throws ValidationError for a ref without a platform, since each SDK
+ * repository is tagged separately.
+ */
+export function sdkPin(
+  platform: string,
+  ref: string | undefined
+): { platform: string; ref: string } | undefined {
+  if (!ref) return undefined;
+  if (platform === "all") {
+    throw new ValidationError(
+      "ref requires a platform: each SDK repository has its own release tags."
+    );
+  }
+  return { platform, ref };
+}
+
+export const sdkSearchInputSchema = z.object({
   query: z
     .string()
     .min(1, "Search query must be at least 1 character")
@@ -28,27 +102,7 @@ const sdkSearchInputSchema = z.object({
     .string()
     .default("all")
     .optional()
-    .transform((val) => {
-      // Normalize platform names
-      if (!val) return "all";
-      const normalized = val.toLowerCase().replace(/\s+/g, "-");
-      // Map common variations to canonical names
-      const platformMap: Record<string, string> = {
-        "react-native": "react-native",
-        reactnative: "react-native",
-        react: "react-native",
-        ios: "ios",
-        android: "android",
-        flutter: "flutter",
-        javascript: "javascript",
-        js: "javascript",
-        web: "javascript",
-        gtm: "gtm",
-        "google-tag-manager": "gtm",
-        all: "all",
-      };
-      return platformMap[normalized] || "all";
-    })
+    .transform(normalizeSdkPlatform)
     .describe(
       "Filter by SDK platform (ios, android, flutter, react native, javascript, gtm, or all)"
     ),
@@ -60,11 +114,12 @@ const sdkSearchInputSchema = z.object({
     .default(SDK_SEARCH_MAX_RESULTS)
     .optional()
     .describe("Maximum number of results to return (1-10)"),
+  ref: sdkRefSchema,
 });
 
-type SdkSearchInput = z.infer<typeof sdkSearchInputSchema>;
+export type SdkSearchInput = z.infer<typeof sdkSearchInputSchema>;
 
-interface SdkEntry {
+export interface SdkEntry {
   platform: string;
   title: string;
   file: string;
@@ -92,7 +147,7 @@ function canonicalizePlatformHeader(rawHeader: string | undefined): string {
   return firstToken || "unknown";
 }
 
-function parseSdkLlmsTxt(content: string): SdkEntry[] {
+export function parseSdkLlmsTxt(content: string): SdkEntry[] {
   const entries: SdkEntry[] = [];
   const lines = content.split("\n");
   let currentPlatform = "unknown";
@@ -133,7 +188,7 @@ function searchSdk(
   query: string,
   platform: string,
   maxResults: number
-): SdkEntry[] {
+): Array<{ entry: SdkEntry; score: number }> {
   // Filter by platform first if specified
   const filteredEntries =
     platform !== "all" ? entries.filter((entry) => entry.platform === platform) : entries;
@@ -172,15 +227,16 @@ function searchSdk(
   const results = bm25.search(query, maxResults);
 
   // Map back to SdkEntry objects
-  return results
-    .map((result) => filteredEntries[parseInt(result.id)])
-    .filter((entry): entry is SdkEntry => entry !== undefined);
+  return results.flatMap((result) => {
+    const entry = filteredEntries[parseInt(result.id)];
+    return entry ? [{ entry, score: result.score }] : [];
+  });
 }
 
 // Mapping index (aggregator) lives in this repository and lists per-SDK llms.txt URLs
 const SDK_LLMS_BASE =
   "https://raw.githubusercontent.com/notifly-tech/notifly-mcp-server/refs/heads/main";
-const MAPPING_LLMS_URL = `${SDK_LLMS_BASE}/llms.txt`;
+export const MAPPING_LLMS_URL = `${SDK_LLMS_BASE}/llms.txt`;
 
 function findNearestPackageRoot(startDir: string): string {
   // Walk up directories until a package.json is found or root is reached
@@ -195,7 +251,7 @@ function findNearestPackageRoot(startDir: string): string {
   return startDir;
 }
 
-function pickLocalSdkLlmsPath(): string {
+export function pickLocalSdkLlmsPath(): string {
   // Local fallback for mapping file
   const filename = "llms.txt";
   // Resolve relative to module, then walk to the nearest package root.
@@ -206,23 +262,17 @@ function pickLocalSdkLlmsPath(): string {
   return path.join(pkgRoot, filename);
 }
 
-async function fetchTextWithTimeout(url: string, userFriendlyName: string): Promise<string> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), DEFAULT_API_TIMEOUT);
+async function fetchIndexText(
+  url: string,
+  userFriendlyName: string,
+  context: ServerContext
+): Promise<string> {
   try {
-    const response = await fetch(url, {
-      headers: { "User-Agent": MCP_USER_AGENT, Accept: "text/plain, */*" },
-      signal: controller.signal,
-    });
-    clearTimeout(timer);
-    if (!response.ok) {
-      throw new Error(`Unable to load ${userFriendlyName} (HTTP ${response.status})`);
-    }
-    return await response.text();
+    return await fetchText(context, url, { accept: "text/plain, */*" });
   } catch (err) {
-    clearTimeout(timer);
-    throw new Error(
-      `Failed to load ${userFriendlyName} from GitHub raw. ${err instanceof Error ? err.message : String(err)}`
+    throw new ApiError(
+      `Failed to load ${userFriendlyName} from GitHub raw. ${err instanceof Error ? err.message : String(err)}`,
+      err instanceof ApiError ? err.statusCode : undefined
     );
   }
 }
@@ -233,7 +283,7 @@ async function fetchTextWithTimeout(url: string, userFriendlyName: string): Prom
  *  - Markdown list items containing a (...) URL ending with /llms.txt
  *  - Plain lines that are URLs ending with /llms.txt
  */
-function parseMappingLlmsUrls(content: string): string[] {
+export function parseMappingLlmsUrls(content: string): string[] {
   const urls = new Set<string>();
   const lines = content.split("\n");
   const urlRegex = /\((https?:\/\/[^\s)]+\/llms\.txt)\)/i;
@@ -256,118 +306,248 @@ function parseMappingLlmsUrls(content: string): string[] {
 }
 
 /**
- * Fetch content from a GitHub raw URL
- * Supports fetching source code from SDK repositories
+ * Syntax-highlighting language for an SDK file, based on its extension
+ */
+export function languageForFile(file: string): string {
+  const ext = file.split(".").pop()?.toLowerCase();
+  return ext === "kt"
+    ? "kotlin"
+    : ext === "swift"
+      ? "swift"
+      : ext === "dart"
+        ? "dart"
+        : ext === "ts" || ext === "tsx"
+          ? "typescript"
+          : ext === "js" || ext === "jsx"
+            ? "javascript"
+            : ext === "m" || ext === "mm" || ext === "h"
+              ? "objectivec"
+              : "";
+}
+
+/**
+ * Point the entries of an SDK index at a ref: use the index's own llms.txt
+ * at that ref when it exists (files may have moved between releases), else
+ * the current entries, with files in the index's repository rewritten to the ref
  */
-async function fetchSdkContent(url: string): Promise<string> {
+async function pinSdkEntries(
+  indexUrl: string,
+  entries: SdkEntry[],
+  ref: string,
+  context: ServerContext
+): Promise<SdkEntry[]> {
+  let pinned = entries;
+  const pinnedIndexUrl = rawGithubUrlAtRef(indexUrl, ref);
+  if (pinnedIndexUrl) {
+    try {
+      const content = await fetchIndexText(
+        pinnedIndexUrl,
+        `SDK llms.txt (${pinnedIndexUrl})`,
+        context
+      );
+      const parsed = parseSdkLlmsTxt(content);
+      if (parsed.length > 0) pinned = parsed;
+    } catch {
+      // No llms.txt at that ref (e.g. releases predating it): keep the current index
+    }
+  }
+
+  const index = parseRawGithubUrl(indexUrl);
+  return pinned.map((entry) => {
+    const file = parseRawGithubUrl(entry.file);
+    if (!index || !file || file.owner !== index.owner || file.repo !== index.repo) return entry;
+    return { ...entry, file: rawGithubUrlAtRef(entry.file, ref) ?? entry.file };
+  });
+}
+
+/**
+ * Load the mapping llms.txt and every per-SDK llms.txt it lists,
+ * returning all SDK entries across platforms. With `pin`, the SDK indexes
+ * that contain entries for `pin.platform` are loaded at `pin.ref`.
+ */
+export async function loadSdkEntries(
+  context: ServerContext,
+  pin?: { platform: string; ref: string }
+): Promise<SdkEntry[]> {
+  // Load mapping llms.txt (list of per-SDK llms.txt URLs)
+  const mappingUrl = MAPPING_LLMS_URL;
+  const localPath = pickLocalSdkLlmsPath();
+
+  // Prefer online mapping (always up-to-date). Fallback to local llms.txt when offline/unavailable.
+  let mappingContent: string;
   try {
-    // If it's a GitHub raw URL, fetch the content
-    if (url.startsWith("https://raw.githubusercontent.com/")) {
-      // Add timeout to prevent hanging requests
-      const controller = new AbortController();
-      const timer = setTimeout(() => controller.abort(), DEFAULT_API_TIMEOUT);
+    mappingContent = await fetchIndexText(mappingUrl, "mapping llms.txt", context);
+  } catch {
+    try {
+      mappingContent = await readFile(localPath, "utf8");
+    } catch {
+      throw new ApiError(
+        `Unable to load mapping index from network (${mappingUrl}) and local fallback (${localPath}).`
+      );
+    }
+  }
+
+  // Extract per-SDK llms.txt URLs and fetch them all in parallel
+  const perSdkUrls = parseMappingLlmsUrls(mappingContent);
+  if (perSdkUrls.length === 0) {
+    throw new ApiError(`Mapping llms.txt did not contain any per-SDK indexes.`);
+  }
 
+  const perSdkContents = await Promise.all(
+    perSdkUrls.map(async (url) => {
       try {
-        const response = await fetch(url, {
-          headers: {
-            "User-Agent": MCP_USER_AGENT,
-            Accept: "text/plain, */*",
-          },
-          signal: controller.signal,
-        });
+        return await fetchIndexText(url, `SDK llms.txt (${url})`, context);
+      } catch (e) {
+        // If one fails, return empty to avoid failing entire search; user still gets partial results
+        return "";
+      }
+    })
+  );
+
+  // Parse and aggregate entries across SDKs
+  const perSdkEntries = await Promise.all(
+    perSdkContents.map((content, i) => {
+      const entries = content ? parseSdkLlmsTxt(content) : [];
+      const url = perSdkUrls[i];
+      if (!pin || !url || !entries.some((e) => e.platform === pin.platform)) return entries;
+      return pinSdkEntries(url, entries, pin.ref, context);
+    })
+  );
+  return perSdkEntries.flat();
+}
 
-        clearTimeout(timer);
+/**
+ * Fetch a full SDK source file from GitHub raw (untruncated).
+ * Throws ApiError when the file cannot be fetched.
+ */
+export async function fetchSdkSource(url: string, context: ServerContext): Promise<string> {
+  if (!url.startsWith("https://raw.githubusercontent.com/")) {
+    throw new ApiError(
+      `Source code is not available online. Please check the SDK repository manually: ${url}`
+    );
+  }
+  return fetchText(context, url, { accept: "text/plain, */*" });
+}
 
-        if (!response.ok) {
-          // Provide clearer messages for specific status codes
-          if (response.status === 429) {
-            return `Rate limited by GitHub (HTTP 429). Please try again later.`;
-          }
-          if (response.status >= 500) {
-            return `GitHub server error (HTTP ${response.status}). Please try again later.`;
-          }
-          return `Unable to fetch content (HTTP ${response.status})`;
-        }
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/;
 
-        const content = await response.text();
+/**
+ * Commit SHA that each raw GitHub file's branch or tag points to, for line
+ * permalinks. Each repository and ref is resolved once; files whose commit
+ * cannot be resolved (offline, rate limited, not on GitHub) are left out.
+ */
+export async function resolveSdkCommits(
+  fileUrls: string[],
+  context: ServerContext
+): Promise<Map<string, string>> {
+  const lookups = new Map<string, Promise<string | undefined>>();
+  const commits = new Map<string, string>();
+  await Promise.all(
+    [...new Set(fileUrls)].map(async (url) => {
+      const ref = parseRawGithubUrl(url)?.ref;
+      const apiUrl = githubCommitApiUrl(url);
+      if (!ref || !apiUrl) return;
+      if (COMMIT_SHA_PATTERN.test(ref)) {
+        commits.set(url, ref);
+        return;
+      }
+      if (!lookups.has(apiUrl)) {
+        lookups.set(
+          apiUrl,
+          fetchText(context, apiUrl, { accept: "application/vnd.github.sha" }).then(
+            (sha) => sha.trim(),
+            () => undefined
+          )
+        );
+      }
+      const sha = await lookups.get(apiUrl);
+      if (sha && COMMIT_SHA_PATTERN.test(sha)) commits.set(url, sha);
+    })
+  );
+  return commits;
+}
 
-        // Limit content length to avoid overwhelming responses
-        const maxLength = 5000;
-        if (content.length > maxLength) {
-          return content.substring(0, maxLength) + "\n\n...(truncated for brevity)";
-        }
+const SDK_CONTENT_MAX_LENGTH = 5000;
 
-        return content;
-      } catch (fetchError) {
-        clearTimeout(timer);
-        if ((fetchError as Error).name === "AbortError") {
-          return `Request timeout after ${DEFAULT_API_TIMEOUT}ms. GitHub may be slow or unreachable.`;
-        }
-        throw fetchError;
-      }
-    }
+function truncateSource(content: string, maxLength: number): string {
+  if (content.length <= maxLength) return content;
+  return content.substring(0, maxLength) + "\n\n...(truncated for brevity)";
+}
+
+/**
+ * Source code shown for an SDK file in search results: either the code itself
+ * (whole file, truncated file, or a description of why it is unavailable) or
+ * the symbols most relevant to the query
+ */
+interface SdkExcerpt {
+  code?: string;
+  chunks?: RankedSymbol[];
+}
+
+/**
+ * Fetch an SDK file for search results. Files over the length limit are split
+ * into symbols and only the most relevant ones are returned; files whose
+ * symbols cannot be recognised are truncated instead (failures described inline).
+ */
+async function fetchSdkExcerpt(
+  url: string,
+  query: string,
+  context: ServerContext
+): Promise<SdkExcerpt> {
+  // If it's not a GitHub URL, return a placeholder
+  if (!url.startsWith("https://raw.githubusercontent.com/")) {
+    return {
+      code: `Source code is not available online. Please check the SDK repository manually: ${url}`,
+    };
+  }
 
-    // If it's not a GitHub URL, return a placeholder
-    return `Source code is not available online. Please check the SDK repository manually: ${url}`;
+  let content: string;
+  try {
+    content = await fetchSdkSource(url, context);
   } catch (error) {
-    return `Error fetching content: ${error instanceof Error ? error.message : String(error)}`;
+    return { code: describeFetchError(error, "GitHub") };
+  }
+
+  if (content.length <= SDK_CONTENT_MAX_LENGTH) return { code: content };
+
+  const symbols = splitSymbols(content, languageForFile(url));
+  if (symbols.length > 0) {
+    return { chunks: rankSymbols(symbols, query, SDK_CHUNKS_PER_FILE) };
   }
+  return { code: truncateSource(content, SDK_CONTENT_MAX_LENGTH) };
 }
 
-export const sdkSearchTool: ToolDefinition<SdkSearchInput, string> = {
+export const sdkSearchTool: ToolDefinition<SdkSearchInput, ToolResult> = {
   name: "search_sdk",
   description: SDK_SEARCH_DESCRIPTION,
   inputSchema: {
     query: sdkSearchInputSchema.shape.query,
     platform: sdkSearchInputSchema.shape.platform,
     maxResults: sdkSearchInputSchema.shape.maxResults,
+    ref: sdkSearchInputSchema.shape.ref,
   },
+  outputSchema: searchOutputSchema,
   annotations: {
     readOnlyHint: true,
     openWorldHint: true,
   },
-  async handler(params: SdkSearchInput, _context: ServerContext): Promise<string> {
-    try {
-      // Load mapping llms.txt (list of per-SDK llms.txt URLs)
-      const mappingUrl = MAPPING_LLMS_URL;
-      const localPath = pickLocalSdkLlmsPath();
-
-      // Prefer online mapping (always up-to-date). Fallback to local llms.txt when offline/unavailable.
-      let mappingContent: string;
-      try {
-        mappingContent = await fetchTextWithTimeout(mappingUrl, "mapping llms.txt");
-      } catch {
-        try {
-          mappingContent = await readFile(localPath, "utf8");
-        } catch {
-          throw new ApiError(
-            `Unable to load mapping index from network (${mappingUrl}) and local fallback (${localPath}).`
-          );
-        }
-      }
-
-      // Extract per-SDK llms.txt URLs and fetch them all in parallel
-      const perSdkUrls = parseMappingLlmsUrls(mappingContent);
-      if (perSdkUrls.length === 0) {
-        throw new ApiError(`Mapping llms.txt did not contain any per-SDK indexes.`);
-      }
+  async handler(params: SdkSearchInput, context: ServerContext): Promise<ToolResult> {
+    const pin = sdkPin(params.platform || "all", params.ref);
 
-      const perSdkContents = await Promise.all(
-        perSdkUrls.map(async (url) => {
-          try {
-            return await fetchTextWithTimeout(url, `SDK llms.txt (${url})`);
-          } catch (e) {
-            // If one fails, return empty to avoid failing entire search; user still gets partial results
-            return "";
-          }
-        })
-      );
-
-      // Parse and aggregate entries across SDKs
-      const allEntries = perSdkContents.filter((c) => !!c).flatMap((c) => parseSdkLlmsTxt(c));
+    try {
+      const allEntries = await loadSdkEntries(context, pin);
+      const structured: SearchOutput = {
+        query: params.query,
+        platform: params.platform || "all",
+        ...(pin ? { ref: pin.ref } : {}),
+        results: [],
+      };
 
       if (allEntries.length === 0) {
-        return `[Warning] No SDK Documentation Available\n\nUnable to parse any SDK llms.txt. Please ensure each SDK has a valid llms.txt and the mapping file lists them.`;
+        return {
+          text: `[Warning] No SDK Documentation Available\n\nUnable to parse any SDK llms.txt. Please ensure each SDK has a valid llms.txt and the mapping file lists them.`,
+          structuredContent: structured,
+        };
       }
 
       // Search SDK entries
@@ -379,36 +559,62 @@ export const sdkSearchTool: ToolDefinition<SdkSearchInput, string> = {
       );
 
       if (results.length === 0) {
-        return `[No Results] No Results Found\n\nQuery: "${params.query}"\nPlatform: ${params.platform || "all"}\n\nNo SDK code found matching your query. Try using different keywords or broader search terms.`;
+        return {
+          text: `[No Results] No Results Found\n\nQuery: "${params.query}"\nPlatform: ${params.platform || "all"}\n\nNo SDK code found matching your query. Try using different keywords or broader search terms.`,
+          structuredContent: structured,
+        };
       }
 
       // Format output with fetched content
       let output = `# Notifly SDK Search Results\n\n`;
       output += `**Query**: "${params.query}"\n`;
       output += `**Platform Filter**: ${params.platform || "all"}\n`;
+      if (pin) {
+        output += `**Ref**: ${pin.ref}\n`;
+      }
       output += `**Results**: Found ${results.length} most relevant file${results.length === 1 ? "" : "s"}\n\n`;
 
       // Add summary of what was found
       output += `## Summary\n\n`;
-      output += `The following SDK files are most relevant to your query. Each entry includes the actual source code fetched from GitHub:\n\n`;
-      for (const [index, entry] of results.entries()) {
+      output += `The following SDK files are most relevant to your query. Each entry includes the actual source code fetched from GitHub; large files are narrowed down to the symbols most relevant to your query:\n\n`;
+      for (const [index, { entry }] of results.entries()) {
         output += `${index + 1}. **${entry.title}** (${entry.platform})\n`;
       }
       output += `\n---\n\n`;
 
       // Fetch all source codes in parallel for better latency
-      const sourceCodes = await Promise.all(results.map((entry) => fetchSdkContent(entry.file)));
+      const excerpts = await Promise.all(
+        results.map(({ entry }) => fetchSdkExcerpt(entry.file, params.query, context))
+      );
+      // Symbol line ranges link to the commit their branch or tag points to
+      const commits = await resolveSdkCommits(
+        results.filter((_, i) => excerpts[i]?.chunks).map(({ entry }) => entry.file),
+        context
+      );
 
       // Display code for each result
+      const resourceLinks: ResourceLinkRef[] = [];
       for (let i = 0; i < results.length; i++) {
-        const entry = results[i];
-        const sourceCode = sourceCodes[i];
+        const { entry, score } = results[i] ?? {};
+        const excerpt = excerpts[i] ?? {};
 
-        if (!entry) continue;
+        if (!entry || score === undefined) continue;
 
+        // Resource URIs always read the default branch, so pinned results omit them
+        const uri = pin ? undefined : sdkFileUri(entry.platform, entry.file);
         output += `## Result ${i + 1}: ${entry.title}\n\n`;
         output += `**Platform**: ${entry.platform}\n`;
-        output += `**GitHub Source**: ${entry.file}\n\n`;
+        output += `**GitHub Source**: ${entry.file}\n`;
+        if (uri) {
+          output += `**Resource**: ${uri}\n`;
+          resourceLinks.push({
+            uri,
+            name: entry.title,
+            description: entry.description,
+            mimeType: "text/plain",
+          });
+        }
+        output += `\n`;
 
         if (entry.description) {
           output += `**Description**:\n${entry.description}\n\n`;
@@ -416,21 +622,49 @@ export const sdkSearchTool: ToolDefinition<SdkSearchInput, string> = {
 
         // Format as code block based on file extension
         output += `### Source Code\n\n`;
-        const ext = entry.file.split(".").pop()?.toLowerCase();
-        const language =
-          ext === "kt"
-            ? "kotlin"
-            : ext === "swift"
-              ? "swift"
-              : ext === "dart"
-                ? "dart"
-                : ext === "ts" || ext === "tsx"
-                  ? "typescript"
-                  : ext === "js" || ext === "jsx"
-                    ? "javascript"
-                    : "";
-
-        output += `\`\`\`${language}\n${sourceCode}\n\`\`\`\n\n`;
+        const language = languageForFile(entry.file);
+
+        const result: SearchResult = {
+          source: "sdk",
+          title: entry.title,
+          url: entry.file,
+          platform: entry.platform,
+          score: roundScore(score),
+          excerpt: excerpt.code ?? "",
+        };
+
+        if (excerpt.chunks) {
+          const chunkBudget = Math.floor(
+            SDK_CONTENT_MAX_LENGTH / Math.max(1, excerpt.chunks.length)
+          );
+          const chunks: SearchResultChunk[] = [];
+          for (const { symbol, score: chunkScore } of excerpt.chunks) {
+            const text = truncateSource(symbol.text, chunkBudget);
+            const commit = commits.get(entry.file);
+            const url =
+              githubLinesUrl(entry.file, symbol.startLine, symbol.endLine, commit) ?? entry.file;
+            output += `#### \`${symbol.name}\` (${symbol.kind}, lines ${symbol.startLine}-${symbol.endLine})\n\n`;
+            output += `**GitHub**: ${url}\n\n`;
+            output += `\`\`\`${language}\n${text}\n\`\`\`\n\n`;
+            chunks.push({
+              symbol: symbol.name,
+              kind: symbol.kind,
+              startLine: symbol.startLine,
+              endLine: symbol.endLine,
+              url,
+              score: roundScore(chunkScore),
+              text,
+            });
+          }
+          result.excerpt = chunks.map((chunk) => chunk.text).join("\n\n");
+          result.chunks = chunks;
+        } else {
+          output += `\`\`\`${language}\n${excerpt.code ?? ""}\n\`\`\`\n\n`;
+        }
+        if (language) result.language = language;
+        if (entry.description) result.description = entry.description;
+        if (uri) result.resourceUri = uri;
+        structured.results.push(result);
 
         if (i < results.length - 1) {
           output += `---\n\n`;
@@ -441,7 +675,7 @@ export const sdkSearchTool: ToolDefinition<SdkSearchInput, string> = {
       output += `\n---\n\n`;
       output += `**Note**: All source code above is fetched directly from the Notifly SDK repositories. You can use this code to understand implementation details, debug issues, or learn best practices.\n`;
 
-      return output;
+      return { text: output, resourceLinks, structuredContent: structured };
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -0,0 +1,246 @@
+/**
+ * Test Send Tool
+ *
+ * Send a push, email, SMS or Kakao test message through the Notifly API, or
+ * show the exact request without sending it (dry run). Real sends need the
+ * NOTIFLY_ALLOW_SEND opt-in and a recipient on NOTIFLY_SEND_ALLOWLIST.
+ */
+
+import { z } from "zod";
+import type {
+  ToolDefinition,
+  ServerContext,
+  ToolResult,
+  MessageChannel,
+  SendPolicy,
+  TestMessageRequest,
+} from "../types.js";
+import { NOTIFLY_API_URL } from "../constants.js";
+import { ApiError, ConfigurationError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { SEND_TEST_MESSAGE_DESCRIPTION } from "./descriptions.js";
+import { requireApiClient, testMessageHttpRequest } from "../utils/api-client.js";
+import { projectIdSchema } from "./list-campaigns.js";
+
+const MESSAGE_CHANNELS = ["push", "email", "sms", "kakao"] as const satisfies MessageChannel[];
+
+const sendTestMessageInputSchema = z.object({
+  channel: z.enum(MESSAGE_CHANNELS).describe("Delivery channel: push, email, sms or kakao"),
+  to: z
+    .string()
+    .min(1)
+    .describe("Recipient: user ID for push, email address for email, phone number for sms/kakao"),
+  subject: z.string().min(1).optional().describe("Subject line (required for email)"),
+  body: z.string().min(1).describe("Message body"),
+  templateId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Notifly template ID (required for kakao: the approved AlimTalk template)"),
+  projectId: projectIdSchema,
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return the request that would be sent without sending it (default: false)"),
+});
+
+type SendTestMessageInput = z.infer<typeof sendTestMessageInputSchema>;
+
+const sendTestMessageOutputSchema = {
+  dryRun: z.boolean(),
+  sent: z.boolean().describe("Whether the message was sent"),
+  blockedReason: z.string().optional().describe("Why a real send would be refused (dry runs only)"),
+  request: z
+    .object({
+      method: z.string(),
+      url: z.string(),
+      headers: z.record(z.string()),
+      body: z.record(z.unknown()),
+    })
+    .describe("HTTP request sent to the Notifly API; the access token is redacted"),
+  result: z
+    .object({ messageId: z.string().optional(), status: z.string().optional() })
+    .optional()
+    .describe("Notifly API response for real sends"),
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+
+/**
+ * Phone numbers compared by their digits, keeping a leading +
+ */
+function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return phone.trim().startsWith("+") ? `+${digits}` : digits;
+}
+
+/**
+ * Recipient normalized for sending and allowlist checks
+ */
+function normalizeRecipient(channel: MessageChannel, to: string): string {
+  const recipient = to.trim();
+  if (channel === "email") {
+    if (!EMAIL_PATTERN.test(recipient)) {
+      throw new ValidationError(`"${to}" is not an email address.`);
+    }
+    return recipient.toLowerCase();
+  }
+  if (channel === "sms" || channel === "kakao") {
+    if (!PHONE_PATTERN.test(recipient)) {
+      throw new ValidationError(`"${to}" is not a phone number.`);
+    }
+    return normalizePhone(recipient);
+  }
+  return recipient;
+}
+
+/**
+ * Whether the allowlist admits the recipient. Entries are user IDs, email
+ * addresses, "@domain" for every address of a domain, or phone numbers.
+ */
+function isAllowlisted(channel: MessageChannel, recipient: string, allowlist: string[]): boolean {
+  return allowlist.some((entry) => {
+    if (channel === "email") {
+      const allowed = entry.toLowerCase();
+      return allowed.startsWith("@") ? recipient.endsWith(allowed) : recipient === allowed;
+    }
+    if (channel === "sms" || channel === "kakao") {
+      return PHONE_PATTERN.test(entry) && normalizePhone(entry) === recipient;
+    }
+    return entry === recipient;
+  });
+}
+
+/**
+ * Reason a real send is refused under the policy, if any
+ */
+function sendBlockedReason(
+  channel: MessageChannel,
+  recipient: string,
+  policy: SendPolicy | undefined
+): string | undefined {
+  if (!policy?.enabled) {
+    return "Real sends are disabled. Set NOTIFLY_ALLOW_SEND=true in the MCP server environment to enable them.";
+  }
+  if (policy.allowlist.length === 0) {
+    return "No recipients are allowed. List test recipients in NOTIFLY_SEND_ALLOWLIST.";
+  }
+  if (!isAllowlisted(channel, recipient, policy.allowlist)) {
+    return `${recipient} is not on NOTIFLY_SEND_ALLOWLIST.`;
+  }
+  return undefined;
+}
+
+export const sendTestMessageTool: ToolDefinition<SendTestMessageInput, ToolResult> = {
+  name: "send_test_message",
+  description: SEND_TEST_MESSAGE_DESCRIPTION,
+  inputSchema: {
+    channel: sendTestMessageInputSchema.shape.channel,
+    to: sendTestMessageInputSchema.shape.to,
+    subject: sendTestMessageInputSchema.shape.subject,
+    body: sendTestMessageInputSchema.shape.body,
+    templateId: sendTestMessageInputSchema.shape.templateId,
+    projectId: sendTestMessageInputSchema.shape.projectId,
+    dryRun: sendTestMessageInputSchema.shape.dryRun,
+  },
+  outputSchema: sendTestMessageOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: true,
+  },
+  async handler(params: SendTestMessageInput, context: ServerContext): Promise<ToolResult> {
+    const dryRun = params.dryRun ?? false;
+    if (params.channel === "email" && !params.subject) {
+      throw new ValidationError("subject is required for email test sends.");
+    }
+    if (params.channel === "kakao" && !params.templateId) {
+      throw new ValidationError(
+        "templateId is required for kakao test sends: AlimTalk messages must use an approved template."
+      );
+    }
+    const recipient = normalizeRecipient(params.channel, params.to);
+    // Dry runs work without API credentials, so the project is resolved here
+    const projectId = params.projectId || context.api?.defaultProjectId;
+    if (!projectId) {
+      throw new ConfigurationError(
+        "projectId is required. Pass it to the tool or set NOTIFLY_PROJECT_ID."
+      );
+    }
+
+    const message: TestMessageRequest = {
+      channel: params.channel,
+      projectId,
+      to: recipient,
+      ...(params.subject ? { subject: params.subject } : {}),
+      body: params.body,
+      ...(params.templateId ? { templateId: params.templateId } : {}),
+    };
+    const { method, path, json } = testMessageHttpRequest(message);
+    const request = {
+      method,
+      url: new URL(path, context.api?.baseUrl ?? NOTIFLY_API_URL).toString(),
+      headers: { Authorization: "<access token>", "Content-Type": "application/json" },
+      body: { ...json },
+    };
+    const blockedReason = sendBlockedReason(params.channel, recipient, context.sendPolicy);
+
+    if (dryRun) {
+      let output = `# Test Send (dry run)\n\n`;
+      output += `Nothing was sent. This is the request a real send would make:\n\n`;
+      output += `\`\`\`http\n${request.method} ${request.url}\n`;
+      for (const [name, value] of Object.entries(request.headers)) {
+        output += `${name}: ${value}\n`;
+      }
+      output += `\n${JSON.stringify(request.body, null, 2)}\n\`\`\`\n\n`;
+      output += blockedReason
+        ? `**Real send**: blocked. ${blockedReason}\n`
+        : `**Real send**: allowed\n`;
+      return {
+        text: output,
+        structuredContent: {
+          dryRun: true,
+          sent: false,
+          ...(blockedReason ? { blockedReason } : {}),
+          request,
+        },
+      };
+    }
+
+    if (blockedReason) {
+      throw new ConfigurationError(`${blockedReason} Use dryRun to preview the request.`);
+    }
+    const api = requireApiClient(context);
+
+    try {
+      const result = await api.sendTestMessage(message);
+
+      let output = `# Test Send\n\n`;
+      output += `**Channel**: ${message.channel}\n`;
+      output += `**Recipient**: ${message.to}\n`;
+      output += `**Project**: ${message.projectId}\n`;
+      if (result?.messageId) output += `**Message ID**: ${result.messageId}\n`;
+      if (result?.status) output += `**Status**: ${result.status}\n`;
+      output += `\nThe test message was accepted by the Notifly API.\n`;
+
+      return {
+        text: output,
+        structuredContent: {
+          dryRun: false,
+          sent: true,
+          request,
+          result: {
+            ...(result?.messageId ? { messageId: result.messageId } : {}),
+            ...(result?.status ? { status: result.status } : {}),
+          },
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to send test message: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
@@ -0,0 +1,158 @@
+/**
+ * User Properties Tool
+ *
+ * Set properties on a Notifly user through the Notifly API, validated against
+ * the API's field constraints before anything is sent.
+ */
+
+import { z } from "zod";
+import type {
+  ToolDefinition,
+  ServerContext,
+  ToolResult,
+  PropertyValue,
+  WritePolicy,
+} from "../types.js";
+import { ApiError, ConfigurationError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { SET_USER_PROPERTIES_DESCRIPTION } from "./descriptions.js";
+import { requireApiClient } from "../utils/api-client.js";
+import { projectIdSchema } from "./list-campaigns.js";
+
+/** Properties or event parameters accepted per request */
+const MAX_PROPERTIES = 100;
+
+const MAX_STRING_VALUE_LENGTH = 1000;
+
+export const userIdSchema = z
+  .string()
+  .min(1)
+  .max(256)
+  .describe("Your service's user ID (the ID passed to setUserId in the SDKs)");
+
+const propertyKeySchema = z
+  .string()
+  .min(1)
+  .max(128)
+  .regex(/^\$?[A-Za-z0-9_]+$/, "Keys may only contain letters, digits and underscores");
+
+const propertyValueSchema: z.ZodType<PropertyValue> = z.union([
+  z.string().max(MAX_STRING_VALUE_LENGTH),
+  z.number().finite(),
+  z.boolean(),
+  z.null(),
+  z.array(z.string().max(MAX_STRING_VALUE_LENGTH)).max(MAX_PROPERTIES),
+]);
+
+/**
+ * Key/value map of user properties or event parameters
+ */
+export function propertiesSchema(what: string) {
+  return z
+    .record(propertyKeySchema, propertyValueSchema)
+    .refine((properties) => Object.keys(properties).length <= MAX_PROPERTIES, {
+      message: `At most ${MAX_PROPERTIES} ${what} per request`,
+    });
+}
+
+/**
+ * Refuse writes to a user unless the server opted in and the user is on the
+ * write allowlist. Writes reach the production workspace: events trigger
+ * campaigns and journeys, and properties change who segments target.
+ */
+export function assertWriteAllowed(userId: string, policy: WritePolicy | undefined): void {
+  if (!policy?.enabled) {
+    throw new ConfigurationError(
+      "Writing users and events is disabled. Set NOTIFLY_ALLOW_WRITE=true in the MCP server environment to enable it."
+    );
+  }
+  if (policy.allowlist.length === 0) {
+    throw new ConfigurationError(
+      "No users may be written to. List test user IDs in NOTIFLY_WRITE_ALLOWLIST."
+    );
+  }
+  if (!policy.allowlist.includes(userId)) {
+    throw new ConfigurationError(`${userId} is not on NOTIFLY_WRITE_ALLOWLIST.`);
+  }
+}
+
+/**
+ * Reserved properties Notifly uses to deliver email and text messages
+ */
+const RESERVED_PROPERTIES: Record<string, { pattern: RegExp; expected: string }> = {
+  $email: { pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, expected: "an email address" },
+  $phone_number: { pattern: /^\+?[\d\s().-]{7,20}$/, expected: "a phone number" },
+};
+
+const setUserPropertiesInputSchema = z.object({
+  userId: userIdSchema,
+  properties: propertiesSchema("properties").describe(
+    "Properties to set, e.g. { plan: 'pro', age: 30 }. Values are strings, numbers, booleans, null or string arrays; $email and $phone_number are used for email and text messages."
+  ),
+  projectId: projectIdSchema,
+});
+
+type SetUserPropertiesInput = z.infer<typeof setUserPropertiesInputSchema>;
+
+const setUserPropertiesOutputSchema = {
+  projectId: z.string(),
+  userId: z.string(),
+  properties: z.record(z.unknown()).describe("Properties sent to the Notifly API"),
+};
+
+export const setUserPropertiesTool: ToolDefinition<SetUserPropertiesInput, ToolResult> = {
+  name: "set_user_properties",
+  description: SET_USER_PROPERTIES_DESCRIPTION,
+  inputSchema: {
+    userId: setUserPropertiesInputSchema.shape.userId,
+    properties: setUserPropertiesInputSchema.shape.properties,
+    projectId: setUserPropertiesInputSchema.shape.projectId,
+  },
+  outputSchema: setUserPropertiesOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: true,
+  },
+  async handler(params: SetUserPropertiesInput, context: ServerContext): Promise<ToolResult> {
+    const keys = Object.keys(params.properties);
+    if (keys.length === 0) {
+      throw new ValidationError("properties must contain at least one property.");
+    }
+    for (const [key, rule] of Object.entries(RESERVED_PROPERTIES)) {
+      const value = params.properties[key];
+      if (value !== undefined && value !== null && !rule.pattern.test(String(value))) {
+        throw new ValidationError(`${key} must be ${rule.expected}, got ${JSON.stringify(value)}.`);
+      }
+    }
+    assertWriteAllowed(params.userId, context.writePolicy);
+    const api = requireApiClient(context);
+    const projectId = api.resolveProjectId(params.projectId);
+
+    try {
+      await api.setUserProperties({
+        projectId,
+        userId: params.userId,
+        userProperties: params.properties,
+      });
+
+      let output = `# User Properties Set\n\n`;
+      output += `**User**: ${params.userId}\n`;
+      output += `**Project**: ${projectId}\n\n`;
+      for (const key of keys) {
+        output += `- \`${key}\`: ${JSON.stringify(params.properties[key])}\n`;
+      }
+      output += `\nSegments and journeys using these properties are evaluated with the new values.\n`;
+
+      return {
+        text: output,
+        structuredContent: { projectId, userId: params.userId, properties: params.properties },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to set user properties: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
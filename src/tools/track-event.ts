@@ -0,0 +1,115 @@
+/**
+ * Event Tracking Tool
+ *
+ * Track an event for a Notifly user through the Notifly API, e.g. to fire an
+ * event-triggered campaign or journey while testing it. Only allowlisted test
+ * users can be tracked, since the event can deliver real messages.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult, TrackEventRequest } from "../types.js";
+import { ApiError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { TRACK_EVENT_DESCRIPTION } from "./descriptions.js";
+import { requireApiClient } from "../utils/api-client.js";
+import { projectIdSchema } from "./list-campaigns.js";
+import { assertWriteAllowed, propertiesSchema, userIdSchema } from "./set-user-properties.js";
+
+/** Event parameter keys campaigns can segment on, per event */
+const MAX_SEGMENTATION_KEYS = 1;
+
+const trackEventInputSchema = z.object({
+  eventName: z
+    .string()
+    .min(1)
+    .max(128)
+    .regex(/^[A-Za-z0-9_-]+$/, "Event names may only contain letters, digits, _ and -")
+    .describe("Event name, e.g. 'purchase_completed'"),
+  userId: userIdSchema,
+  eventParams: propertiesSchema("event parameters")
+    .optional()
+    .describe("Event parameters, e.g. { product_id: 'sku-1', price: 9900 }"),
+  segmentationEventParamKeys: z
+    .array(z.string().min(1))
+    .max(MAX_SEGMENTATION_KEYS)
+    .optional()
+    .describe(
+      `Event parameter key campaigns can segment on (at most ${MAX_SEGMENTATION_KEYS}); must be a key of eventParams`
+    ),
+  projectId: projectIdSchema,
+});
+
+type TrackEventInput = z.infer<typeof trackEventInputSchema>;
+
+const trackEventOutputSchema = {
+  projectId: z.string(),
+  userId: z.string(),
+  eventName: z.string(),
+  eventParams: z.record(z.unknown()).optional(),
+  segmentationEventParamKeys: z.array(z.string()).optional(),
+};
+
+export const trackEventTool: ToolDefinition<TrackEventInput, ToolResult> = {
+  name: "track_event",
+  description: TRACK_EVENT_DESCRIPTION,
+  inputSchema: {
+    eventName: trackEventInputSchema.shape.eventName,
+    userId: trackEventInputSchema.shape.userId,
+    eventParams: trackEventInputSchema.shape.eventParams,
+    segmentationEventParamKeys: trackEventInputSchema.shape.segmentationEventParamKeys,
+    projectId: trackEventInputSchema.shape.projectId,
+  },
+  outputSchema: trackEventOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: true,
+  },
+  async handler(params: TrackEventInput, context: ServerContext): Promise<ToolResult> {
+    for (const key of params.segmentationEventParamKeys ?? []) {
+      if (!params.eventParams || !(key in params.eventParams)) {
+        throw new ValidationError(
+          `segmentationEventParamKeys: "${key}" is not a key of eventParams.`
+        );
+      }
+    }
+    assertWriteAllowed(params.userId, context.writePolicy);
+    const api = requireApiClient(context);
+    const projectId = api.resolveProjectId(params.projectId);
+
+    try {
+      const event: TrackEventRequest = {
+        projectId,
+        userId: params.userId,
+        eventName: params.eventName,
+        ...(params.eventParams ? { eventParams: params.eventParams } : {}),
+        ...(params.segmentationEventParamKeys?.length
+          ? { segmentationEventParamKeys: params.segmentationEventParamKeys }
+          : {}),
+      };
+      await api.trackEvent(event);
+
+      let output = `# Event Tracked\n\n`;
+      output += `**Event**: ${event.eventName}\n`;
+      output += `**User**: ${event.userId}\n`;
+      output += `**Project**: ${projectId}\n`;
+      if (event.eventParams) {
+        output += `\n## Event Parameters\n\n`;
+        for (const [key, value] of Object.entries(event.eventParams)) {
+          const segmentation = event.segmentationEventParamKeys?.includes(key)
+            ? " (segmentation key)"
+            : "";
+          output += `- \`${key}\`: ${JSON.stringify(value)}${segmentation}\n`;
+        }
+      }
+      output += `\nCampaigns and journeys triggered by "${event.eventName}" will be evaluated for this user.\n`;
+
+      return { text: output, structuredContent: { ...event } };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to track event: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
@@ -0,0 +1,200 @@
+/**
+ * GTM Container Validation Tool
+ *
+ * Check the Notifly tags of an exported Google Tag Manager container: fields,
+ * triggers and Cafe24 event mappings, against the current Notifly GTM
+ * template definitions listed in the SDK index.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult } from "../types.js";
+import { ApiError, NotFoundError, NotiflyMcpError, ValidationError } from "../errors.js";
+import { VALIDATE_GTM_CONTAINER_DESCRIPTION } from "./descriptions.js";
+import { fetchSdkSource, loadSdkEntries } from "./search-sdk.js";
+import { readFixtureFile } from "../utils/fixtures.js";
+import {
+  auditGtmContainer,
+  parseGtmTemplate,
+  type GtmContainerVersion,
+  type GtmReferenceTemplate,
+} from "../utils/gtm.js";
+
+const validateGtmContainerInputSchema = z.object({
+  container: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Exported GTM container JSON (Admin > Export Container)"),
+  containerPath: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Exported GTM container JSON file relative to the server's fixtures directory, instead of container"
+    ),
+});
+
+type ValidateGtmContainerInput = z.infer<typeof validateGtmContainerInputSchema>;
+
+const validateGtmContainerOutputSchema = {
+  valid: z.boolean().describe("Whether no errors were found (warnings allowed)"),
+  tags: z.array(
+    z.object({
+      tagId: z.string().optional(),
+      name: z.string(),
+      template: z.string(),
+      reference: z.string().optional().describe("Template definition the tag was checked against"),
+      init: z.boolean().describe("Whether the tag initializes Notifly"),
+      triggers: z.array(z.string()),
+    })
+  ),
+  issues: z.array(
+    z.object({
+      severity: z.enum(["error", "warning"]),
+      tag: z.string().optional(),
+      field: z.string().optional(),
+      message: z.string(),
+    })
+  ),
+  templates: z
+    .array(z.object({ title: z.string(), url: z.string() }))
+    .describe("Template definitions fetched from the SDK index"),
+};
+
+/**
+ * `containerVersion` of the export given inline or as a file
+ */
+async function loadContainer(
+  params: ValidateGtmContainerInput,
+  context: ServerContext
+): Promise<GtmContainerVersion> {
+  if (!params.container === !params.containerPath) {
+    throw new ValidationError("Pass either container or containerPath.");
+  }
+  const raw = params.containerPath
+    ? await readFixtureFile(params.containerPath, context, "containerPath")
+    : (params.container ?? "");
+
+  let parsed: { containerVersion?: GtmContainerVersion } & GtmContainerVersion;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    // The parser message quotes the input, which must not leak a file's contents
+    throw new ValidationError(
+      params.containerPath
+        ? `containerPath is not valid JSON: ${params.containerPath}`
+        : `Container is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  const version = parsed?.containerVersion ?? parsed;
+  if (!version || typeof version !== "object" || !Array.isArray(version.tag)) {
+    throw new ValidationError(
+      "Not a GTM container export: expected containerVersion with a tag list. Export it from Admin > Export Container."
+    );
+  }
+  return version;
+}
+
+/**
+ * Current Notifly GTM template definitions (.tpl files) from the SDK index
+ */
+async function loadReferenceTemplates(context: ServerContext): Promise<GtmReferenceTemplate[]> {
+  const entries = (await loadSdkEntries(context)).filter(
+    (e, i, all) =>
+      e.platform === "gtm" &&
+      e.file.endsWith(".tpl") &&
+      all.findIndex((o) => o.file === e.file) === i
+  );
+  const templates = await Promise.all(
+    entries.map(async (entry) => {
+      try {
+        const definition = parseGtmTemplate(await fetchSdkSource(entry.file, context));
+        if (!definition) return undefined;
+        return {
+          ...definition,
+          title: entry.title,
+          url: entry.file,
+          cafe24: /cafe24/i.test(
+            `${entry.title} ${entry.file} ${entry.description ?? ""} ${definition.displayName}`
+          ),
+        };
+      } catch {
+        return undefined;
+      }
+    })
+  );
+  return templates.filter((t): t is GtmReferenceTemplate => t !== undefined);
+}
+
+export const validateGtmContainerTool: ToolDefinition<ValidateGtmContainerInput, ToolResult> = {
+  name: "validate_gtm_container",
+  description: VALIDATE_GTM_CONTAINER_DESCRIPTION,
+  inputSchema: {
+    container: validateGtmContainerInputSchema.shape.container,
+    containerPath: validateGtmContainerInputSchema.shape.containerPath,
+  },
+  outputSchema: validateGtmContainerOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  async handler(params: ValidateGtmContainerInput, context: ServerContext): Promise<ToolResult> {
+    const version = await loadContainer(params, context);
+
+    try {
+      const references = await loadReferenceTemplates(context);
+      if (references.length === 0) {
+        throw new NotFoundError("Notifly GTM template definitions (.tpl) in the SDK index");
+      }
+      const { tags, issues } = auditGtmContainer(version, references);
+      const errors = issues.filter((i) => i.severity === "error");
+      const warnings = issues.filter((i) => i.severity === "warning");
+
+      let output = `# GTM Container Validation\n\n`;
+      output += `**Result**: ${errors.length === 0 ? "valid" : "invalid"}\n`;
+      output += `**Notifly tags**: ${tags.length}\n`;
+      output += `**Errors**: ${errors.length} · **Warnings**: ${warnings.length}\n\n`;
+      if (tags.length > 0) {
+        output += `## Tags\n\n`;
+        for (const tag of tags) {
+          output += `- **${tag.name}** (${tag.template}${tag.init ? ", initialization" : ""})`;
+          output += ` — fires on ${tag.triggers.length > 0 ? tag.triggers.join(", ") : "nothing"}\n`;
+        }
+        output += `\n`;
+      }
+      for (const [title, list] of [
+        ["Errors", errors],
+        ["Warnings", warnings],
+      ] as const) {
+        if (list.length === 0) continue;
+        output += `## ${title}\n\n`;
+        for (const issue of list) {
+          const where = [issue.tag, issue.field].filter(Boolean).join(" › ");
+          output += `- ${where ? `**${where}**: ` : ""}${issue.message}\n`;
+        }
+        output += `\n`;
+      }
+      if (issues.length === 0) {
+        output += `No problems found.\n\n`;
+      }
+      output += `Checked against: ${references.map((r) => `[${r.title}](${r.url})`).join(", ")}\n`;
+
+      return {
+        text: output,
+        structuredContent: {
+          valid: errors.length === 0,
+          tags,
+          issues,
+          templates: references.map((r) => ({ title: r.title, url: r.url })),
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotiflyMcpError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to validate GTM container: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
@@ -0,0 +1,107 @@
+/**
+ * Webhook Verification Tool
+ *
+ * Verify the signature of a Notifly webhook delivery and check its payload
+ * against the schema of its event type, so receivers can be tested locally
+ * with captured or hand-written deliveries. The scheme is assumed rather than
+ * taken from the Notifly docs, and every report says so.
+ */
+
+import { z } from "zod";
+import type { ToolDefinition, ServerContext, ToolResult } from "../types.js";
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from "../constants.js";
+import { VERIFY_WEBHOOK_DESCRIPTION } from "./descriptions.js";
+import {
+  validateWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SCHEME_NOTE,
+} from "../utils/webhook.js";
+
+const verifyWebhookInputSchema = z.object({
+  body: z.string().min(1).describe("Raw request body exactly as received"),
+  headers: z
+    .record(z.string())
+    .describe(
+      `Request headers; ${WEBHOOK_SIGNATURE_HEADER} and ${WEBHOOK_TIMESTAMP_HEADER} are required`
+    ),
+  secret: z.string().min(1).describe("Webhook signing secret from the Notifly console"),
+  toleranceSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Maximum delivery age in seconds (default: 300; 0 disables the age check)"),
+});
+
+type VerifyWebhookInput = z.infer<typeof verifyWebhookInputSchema>;
+
+const verifyWebhookOutputSchema = {
+  valid: z.boolean().describe("Signature verified and payload matches its event schema"),
+  signature: z.object({
+    valid: z.boolean(),
+    reason: z.string().optional(),
+    timestamp: z.number().optional(),
+    ageSeconds: z.number().optional(),
+    expected: z.string().optional().describe("Signature computed from the body and secret"),
+  }),
+  eventType: z.string().optional(),
+  eventId: z.string().optional(),
+  errors: z
+    .array(z.object({ path: z.string(), message: z.string() }))
+    .describe("Payload schema errors by field path"),
+};
+
+export const verifyWebhookTool: ToolDefinition<VerifyWebhookInput, ToolResult> = {
+  name: "verify_webhook",
+  description: VERIFY_WEBHOOK_DESCRIPTION,
+  inputSchema: {
+    body: verifyWebhookInputSchema.shape.body,
+    headers: verifyWebhookInputSchema.shape.headers,
+    secret: verifyWebhookInputSchema.shape.secret,
+    toleranceSeconds: verifyWebhookInputSchema.shape.toleranceSeconds,
+  },
+  outputSchema: verifyWebhookOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  async handler(params: VerifyWebhookInput, _context: ServerContext): Promise<ToolResult> {
+    const signature = verifyWebhookSignature(params.body, params.headers, params.secret, {
+      toleranceSeconds: params.toleranceSeconds,
+    });
+    const { event, type, issues } = validateWebhookPayload(params.body);
+    const valid = signature.valid && issues.length === 0;
+
+    let output = `# Webhook Verification\n\n`;
+    output += `**Result**: ${valid ? "valid" : "invalid"}\n`;
+    output += signature.valid
+      ? `**Signature**: valid (signed ${signature.ageSeconds}s ago)\n`
+      : `**Signature**: invalid. ${signature.reason}\n`;
+    if (signature.expected) {
+      output += `**Expected signature**: \`${signature.expected}\`\n`;
+    }
+    if (type) output += `**Event type**: ${type}\n`;
+    if (event) output += `**Event ID**: ${event.id}\n`;
+
+    if (issues.length > 0) {
+      output += `\n## Payload Errors\n\n`;
+      for (const issue of issues) {
+        output += `- ${issue.path ? `\`${issue.path}\`: ` : ""}${issue.message}\n`;
+      }
+    } else {
+      output += `\nThe payload matches the \`${type}\` event schema.\n`;
+    }
+    output += `\n> **Note**: ${WEBHOOK_SCHEME_NOTE}\n`;
+
+    return {
+      text: output,
+      structuredContent: {
+        valid,
+        signature,
+        ...(type ? { eventType: type } : {}),
+        ...(event ? { eventId: event.id } : {}),
+        errors: issues,
+      },
+    };
+  },
+};
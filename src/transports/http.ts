@@ -0,0 +1,297 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * Serves the Notifly MCP server over the MCP Streamable HTTP transport so a
+ * single instance can be shared by many clients (e.g. behind a gateway).
+ * Each client session gets its own MCP server instance, keyed by the
+ * Mcp-Session-Id header assigned during initialization.
+ *
+ * Requests must name this server in their Host header, and browser requests
+ * must come from an allowed Origin, so a web page cannot reach a local server
+ * through DNS rebinding.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer } from "../server.js";
+import {
+  HTTP_ALLOWED_HOSTS,
+  HTTP_ALLOWED_ORIGINS,
+  HTTP_MAX_BODY_BYTES,
+  HTTP_MCP_PATH,
+  HTTP_SESSION_IDLE_TIMEOUT,
+} from "../constants.js";
+import type { ServerContext } from "../types.js";
+
+export interface HttpServerOptions {
+  /** Interface to bind (e.g. 127.0.0.1 or 0.0.0.0) */
+  host: string;
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  /** Context shared by every session's tool handlers */
+  context: ServerContext;
+  /** Idle time in ms after which a session is closed (default: HTTP_SESSION_IDLE_TIMEOUT) */
+  sessionIdleTimeout?: number;
+  /** Host header values accepted besides the bound address (default: HTTP_ALLOWED_HOSTS) */
+  allowedHosts?: string[];
+  /** Origin header values accepted besides the bound address (default: HTTP_ALLOWED_ORIGINS) */
+  allowedOrigins?: string[];
+}
+
+export interface HttpServerHandle {
+  /** Base URL of the MCP endpoint, e.g. http://127.0.0.1:3000/mcp */
+  url: string;
+  /** Number of currently open MCP sessions */
+  sessionCount(): number;
+  /** Close all sessions and stop listening */
+  close(): Promise<void>;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  /** POST and DELETE requests still being served; open GET streams don't count */
+  activeRequests: number;
+  /** Evicts the session once it has been idle for the timeout */
+  idleTimer?: NodeJS.Timeout;
+}
+
+const SESSION_HEADER = "mcp-session-id";
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "[::1]"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::", "[::]"];
+
+/**
+ * Host header values that name the server: the bound address and, when bound
+ * to loopback or all interfaces, the loopback names
+ */
+function boundHosts(host: string, port: number): string[] {
+  const name = host.includes(":") && !host.startsWith("[") ? `[${host}]` : host;
+  const names = [name];
+  if (LOOPBACK_HOSTS.includes(name) || WILDCARD_HOSTS.includes(name)) {
+    names.push(...LOOPBACK_HOSTS);
+  }
+  return [...new Set(names.filter((n) => !WILDCARD_HOSTS.includes(n)))].map((n) => `${n}:${port}`);
+}
+
+/**
+ * Write a JSON-RPC error response (used before a request reaches a transport)
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Read and parse a JSON request body, enforcing a size limit
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > HTTP_MAX_BODY_BYTES) {
+      throw new RangeError(`Request body exceeds ${HTTP_MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Start the Streamable HTTP server
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const sessions = new Map<string, HttpSession>();
+  const idleTimeout = options.sessionIdleTimeout ?? HTTP_SESSION_IDLE_TIMEOUT;
+  // Filled in once listening, when the port is known
+  let allowedHosts: string[] = [];
+  let allowedOrigins: string[] = [];
+
+  async function closeSession({ transport, server, idleTimer }: HttpSession): Promise<void> {
+    clearTimeout(idleTimer);
+    await transport.close().catch(() => undefined);
+    await server.close().catch(() => undefined);
+  }
+
+  /**
+   * Restart the session's idle timer, unless requests are still in flight
+   */
+  function scheduleIdleClose(session: HttpSession): void {
+    const sessionId = session.transport.sessionId;
+    clearTimeout(session.idleTimer);
+    if (!sessionId || session.activeRequests > 0 || sessions.get(sessionId) !== session) return;
+    session.idleTimer = setTimeout(() => {
+      sessions.delete(sessionId);
+      void closeSession(session);
+    }, idleTimeout);
+    session.idleTimer.unref();
+  }
+
+  /**
+   * Hold off the idle timer until the response is done
+   */
+  function trackRequest(session: HttpSession, res: ServerResponse): void {
+    clearTimeout(session.idleTimer);
+    session.activeRequests++;
+    res.once("close", () => {
+      session.activeRequests--;
+      scheduleIdleClose(session);
+    });
+  }
+
+  async function openSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const server = createMcpServer(options.context);
+    const session: HttpSession = {
+      transport: new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+        onsessioninitialized: (sessionId) => {
+          sessions.set(sessionId, session);
+          trackRequest(session, res);
+        },
+        onsessionclosed: (sessionId) => {
+          sessions.delete(sessionId);
+        },
+      }),
+      server,
+      activeRequests: 0,
+    };
+    const { transport } = session;
+    transport.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize never registers the session; nothing else would close it
+      if (!transport.sessionId || sessions.get(transport.sessionId) !== session) {
+        await closeSession(session);
+      }
+    }
+  }
+
+  async function handleMcpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // Browsers always send Origin on cross-site requests; other clients may omit it
+    const origin = req.headers.origin;
+    if (origin !== undefined && !allowedOrigins.includes(origin)) {
+      sendJsonRpcError(res, 403, -32000, `Forbidden: Origin ${origin} is not allowed`);
+      return;
+    }
+
+    const sessionId = req.headers[SESSION_HEADER];
+    const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (error instanceof RangeError) {
+          sendJsonRpcError(res, 413, -32600, error.message);
+        } else {
+          sendJsonRpcError(res, 400, -32700, "Parse error: request body must be valid JSON");
+        }
+        return;
+      }
+
+      if (session) {
+        trackRequest(session, res);
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId === undefined && isInitializeRequest(body)) {
+        await openSession(req, res, body);
+        return;
+      }
+    } else if (req.method === "GET" || req.method === "DELETE") {
+      if (session) {
+        // A GET stream stays open for the whole session, so it only restarts the timer
+        if (req.method === "GET") scheduleIdleClose(session);
+        else trackRequest(session, res);
+        await session.transport.handleRequest(req, res);
+        return;
+      }
+    } else {
+      res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+      return;
+    }
+
+    // Unknown session IDs get 404 so clients know to re-initialize (per MCP spec)
+    if (sessionId !== undefined) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+    } else {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+    }
+  }
+
+  const httpServer = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (pathname === "/health" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+      return;
+    }
+
+    if (pathname !== HTTP_MCP_PATH) {
+      res.writeHead(404, { "Content-Type": "text/plain" }).end("Not Found");
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((error) => {
+      console.error("[HTTP] Error handling MCP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const displayHost = address.family === "IPv6" ? `[${address.address}]` : address.address;
+  const hosts = boundHosts(options.host, address.port);
+  allowedHosts = [...hosts, ...(options.allowedHosts ?? HTTP_ALLOWED_HOSTS)];
+  allowedOrigins = [
+    ...hosts.map((host) => `http://${host}`),
+    ...(options.allowedOrigins ?? HTTP_ALLOWED_ORIGINS),
+  ];
+
+  return {
+    url: `http://${displayHost}:${address.port}${HTTP_MCP_PATH}`,
+    sessionCount: () => sessions.size,
+    async close() {
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.all(open.map(closeSession));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((err) => (err ? reject(err) : resolve()));
+        // Drop idle keep-alive sockets so close() doesn't wait for them
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -5,10 +5,118 @@
  * and MCP integration.
  */
 
+import type { ResponseCache } from "./utils/cache.js";
+import type { Snapshot } from "./utils/snapshot.js";
+import type { NotiflyApiClient } from "./utils/api-client.js";
+
 /**
  * Server context passed to all tool handlers
  */
-export type ServerContext = {};
+export type ServerContext = {
+  /** Persistent cache for fetched indexes, docs pages and SDK sources */
+  cache?: ResponseCache;
+  /** Offline snapshot; when set, every fetch is served from it instead of the network */
+  snapshot?: Snapshot;
+  /** Authenticated Notifly API client; unset when no API credentials are configured */
+  api?: NotiflyApiClient;
+  /** Guards for tools that send messages; real sends are disabled when unset */
+  sendPolicy?: SendPolicy;
+  /** Guards for tools that write users and events; writes are disabled when unset */
+  writePolicy?: WritePolicy;
+  /** Directory local fixture files may be read from; file inputs are refused when unset */
+  fixturesDir?: string;
+  /** Directory audit_integration may read projects from; any directory when unset over stdio */
+  projectsDir?: string;
+  /** Set when clients reach the server over the network (HTTP transport) */
+  remote?: boolean;
+};
+
+/**
+ * Link to an MCP resource returned alongside a tool's text output
+ */
+export type ResourceLinkRef = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+/**
+ * Tool output with Markdown text plus optional resource links.
+ * Tools that declare an outputSchema also return structuredContent;
+ * the text stays as the fallback for clients without structured output.
+ */
+export type ToolResult = {
+  text: string;
+  resourceLinks?: ResourceLinkRef[];
+  structuredContent?: Record<string, unknown>;
+};
+
+/**
+ * A single search_docs / search_sdk hit in structured output
+ */
+export type SearchResult = {
+  /** Where the hit comes from */
+  source: "docs" | "sdk";
+  title: string;
+  /** Docs page URL or GitHub raw URL of the SDK file */
+  url: string;
+  /** SDK platform (sdk results only) */
+  platform?: string;
+  /** BM25 relevance score */
+  score: number;
+  /** Fetched page text or source code (truncated) */
+  excerpt: string;
+  /** Syntax-highlighting language of the excerpt (sdk results only) */
+  language?: string;
+  description?: string;
+  /** MCP resource URI for the full page or file */
+  resourceUri?: string;
+  /** Most relevant page sections (docs results only) */
+  sections?: SearchResultSection[];
+  /** Most relevant symbols of a large source file (sdk results only) */
+  chunks?: SearchResultChunk[];
+};
+
+/**
+ * A heading-delimited docs page section in structured output
+ */
+export type SearchResultSection = {
+  /** Heading titles from the page's top heading down to this section */
+  headingPath: string[];
+  /** Page URL with the section's anchor */
+  url: string;
+  score: number;
+  text: string;
+};
+
+/**
+ * A symbol-level chunk of an SDK source file in structured output
+ */
+export type SearchResultChunk = {
+  /** Symbol name qualified with its enclosing types */
+  symbol: string;
+  kind: string;
+  /** 1-based line range of the chunk in the file */
+  startLine: number;
+  endLine: number;
+  /** GitHub URL of the line range */
+  url: string;
+  score: number;
+  text: string;
+};
+
+/**
+ * Structured output of search_docs / search_sdk
+ */
+export type SearchOutput = {
+  query: string;
+  /** Platform filter (search_sdk only) */
+  platform?: string;
+  /** SDK git ref the results are pinned to (search_sdk only) */
+  ref?: string;
+  results: SearchResult[];
+};
 
 /**
  * Tool definition structure following MCP protocol
@@ -20,6 +128,8 @@ export type ToolDefinition<TInput = any, TOutput = any> = {
   description: string;
   /** Zod schema for input validation */
   inputSchema: Record<string, any>;
+  /** Zod schema for structuredContent (tools returning structured output only) */
+  outputSchema?: Record<string, any>;
   /** Tool handler function */
   handler: (params: TInput, context: ServerContext) => Promise<TOutput>;
   /** Optional annotations for MCP hints */
@@ -71,6 +181,47 @@ export type Campaign = {
   createdAt: string;
 };
 
+/**
+ * Value of a user property or event parameter
+ */
+export type PropertyValue = string | number | boolean | null | string[];
+
+/**
+ * User profile from Notifly API
+ */
+export type NotiflyUser = {
+  userId: string;
+  userProperties: Record<string, PropertyValue>;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+/**
+ * Set user properties request payload
+ */
+export type SetUserPropertiesRequest = {
+  projectId: string;
+  userId: string;
+  userProperties: Record<string, PropertyValue>;
+};
+
+/**
+ * Track event request payload
+ */
+export type TrackEventRequest = {
+  projectId: string;
+  userId: string;
+  eventName: string;
+  eventParams?: Record<string, PropertyValue>;
+  /** Event parameter keys campaigns can segment on */
+  segmentationEventParamKeys?: string[];
+};
+
+/**
+ * Delivery channel of a Notifly message
+ */
+export type MessageChannel = "push" | "email" | "sms" | "kakao";
+
 /**
  * Generic message send request payload (email, SMS, etc.)
  */
@@ -81,3 +232,103 @@ export type GenericMessagePayload = {
   body: string;
   templateId?: string;
 };
+
+/**
+ * Test send request: a generic message payload for one channel
+ */
+export type TestMessageRequest = GenericMessagePayload & {
+  channel: MessageChannel;
+};
+
+/**
+ * Guards for sending real messages from tools
+ */
+export type SendPolicy = {
+  /** Whether real sends are allowed at all (opt-in) */
+  enabled: boolean;
+  /** Recipients that may receive real sends: user IDs, emails, "@domain" or phone numbers */
+  allowlist: string[];
+};
+
+/**
+ * Guards for writing user properties and events from tools. Events can
+ * trigger campaigns and journeys, so writes deliver real messages too.
+ */
+export type WritePolicy = {
+  /** Whether writes are allowed at all (opt-in) */
+  enabled: boolean;
+  /** User IDs that may be written to */
+  allowlist: string[];
+};
+
+/**
+ * Event types Notifly delivers to webhook endpoints
+ */
+export type WebhookEventType =
+  | "message.sent"
+  | "message.delivered"
+  | "message.opened"
+  | "message.clicked"
+  | "message.failed"
+  | "user.unsubscribed";
+
+/**
+ * Message a webhook event is about
+ */
+export type WebhookMessage = {
+  campaignId: string;
+  messageId: string;
+  channel: MessageChannel;
+  userId: string;
+};
+
+/**
+ * Envelope shared by every webhook event
+ */
+export type WebhookEventEnvelope<T extends WebhookEventType, D> = {
+  /** Unique per event; receivers use it to drop duplicate deliveries */
+  id: string;
+  type: T;
+  projectId: string;
+  /** ISO 8601 time the event happened */
+  createdAt: string;
+  data: D;
+};
+
+export type MessageSentEvent = WebhookEventEnvelope<"message.sent", WebhookMessage>;
+export type MessageDeliveredEvent = WebhookEventEnvelope<"message.delivered", WebhookMessage>;
+export type MessageOpenedEvent = WebhookEventEnvelope<"message.opened", WebhookMessage>;
+export type MessageClickedEvent = WebhookEventEnvelope<
+  "message.clicked",
+  WebhookMessage & {
+    /** Link the recipient clicked, if the message had one */
+    url?: string;
+  }
+>;
+export type MessageFailedEvent = WebhookEventEnvelope<
+  "message.failed",
+  WebhookMessage & {
+    errorCode: string;
+    errorMessage?: string;
+  }
+>;
+export type UserUnsubscribedEvent = WebhookEventEnvelope<
+  "user.unsubscribed",
+  {
+    userId: string;
+    channel: MessageChannel;
+    /** Campaign whose message the user unsubscribed from */
+    campaignId?: string;
+  }
+>;
+
+/**
+ * Webhook event payload, discriminated by `type`
+ */
+export type WebhookEvent =
+  | MessageSentEvent
+  | MessageDeliveredEvent
+  | MessageOpenedEvent
+  | MessageClickedEvent
+  | MessageFailedEvent
+  | UserUnsubscribedEvent;
@@ -0,0 +1,285 @@
+/**
+ * Notifly API Client
+ *
+ * Authenticated access to the Notifly HTTP API for workspace tools:
+ * - Exchanges the API key/secret for an access token (POST /authenticate) on
+ *   first use and again when the token is rejected
+ * - Unwraps the `{ success, data, error }` response envelope
+ * - Maps 401/403 to AuthenticationError and 404 to NotFoundError; other
+ *   failures surface as ApiError with the API's error message
+ * - Paces requests to NOTIFLY_API_RATE_LIMIT per second
+ */
+
+import { httpFetch, type HttpRequestOptions } from "./http-client.js";
+import { RateLimiter } from "./rate-limit.js";
+import { ApiError, AuthenticationError, ConfigurationError, NotFoundError } from "../errors.js";
+import {
+  DEFAULT_API_BASE_URL,
+  NOTIFLY_API_KEY,
+  NOTIFLY_API_SECRET,
+  NOTIFLY_API_RATE_LIMIT,
+  NOTIFLY_API_URL,
+  NOTIFLY_PROJECT_ID,
+} from "../constants.js";
+import type {
+  ApiResponse,
+  Campaign,
+  NotiflyUser,
+  Project,
+  ServerContext,
+  SetUserPropertiesRequest,
+  TestMessageRequest,
+  TrackEventRequest,
+} from "../types.js";
+
+export interface ApiClientOptions {
+  apiKey: string;
+  apiSecret: string;
+  /** Base URL of the Notifly API (default: DEFAULT_API_BASE_URL) */
+  baseUrl?: string;
+  /** Project used when a tool is called without projectId */
+  defaultProjectId?: string;
+  /** Per-attempt timeout in ms (default: DEFAULT_API_TIMEOUT) */
+  timeoutMs?: number;
+  /** Retry attempts after the first request (default: MAX_API_RETRIES) */
+  retries?: number;
+  /** Requests per second (default: NOTIFLY_API_RATE_LIMIT; 0 disables the limit) */
+  rateLimit?: number;
+}
+
+/**
+ * Result of a test send as returned by the Notifly API
+ */
+export interface TestMessageResult {
+  messageId?: string;
+  status?: string;
+}
+
+/**
+ * HTTP request for a test send, shared by real sends and dry runs so a dry
+ * run shows exactly what would be sent
+ */
+export function testMessageHttpRequest(request: TestMessageRequest): {
+  method: string;
+  path: string;
+  json: TestMessageRequest;
+} {
+  return {
+    method: "POST",
+    path: `/projects/${encodeURIComponent(request.projectId)}/messages/test`,
+    json: request,
+  };
+}
+
+/**
+ * Error message from a failed response's `{ error }` / `{ message }` body
+ */
+function apiErrorReason(body: unknown): string | undefined {
+  if (typeof body !== "string" || !body) return undefined;
+  try {
+    const parsed = JSON.parse(body) as ApiResponse;
+    return parsed.error || parsed.message || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export class NotiflyApiClient {
+  readonly baseUrl: string;
+  readonly defaultProjectId?: string;
+  private token?: Promise<string>;
+  private readonly limiter: RateLimiter;
+
+  constructor(private readonly options: ApiClientOptions) {
+    if (!options.apiKey || !options.apiSecret) {
+      throw new ConfigurationError("Notifly API key and secret are both required.");
+    }
+    this.baseUrl = options.baseUrl ?? DEFAULT_API_BASE_URL;
+    this.defaultProjectId = options.defaultProjectId || undefined;
+    this.limiter = new RateLimiter(options.rateLimit ?? NOTIFLY_API_RATE_LIMIT, 1000);
+  }
+
+  /**
+   * Client from NOTIFLY_API_KEY / NOTIFLY_API_SECRET, or undefined when the
+   * credentials are not set
+   */
+  static fromEnv(): NotiflyApiClient | undefined {
+    if (!NOTIFLY_API_KEY || !NOTIFLY_API_SECRET) return undefined;
+    return new NotiflyApiClient({
+      apiKey: NOTIFLY_API_KEY,
+      apiSecret: NOTIFLY_API_SECRET,
+      baseUrl: NOTIFLY_API_URL,
+      defaultProjectId: NOTIFLY_PROJECT_ID,
+    });
+  }
+
+  listProjects(): Promise<Project[]> {
+    return this.request<Project[]>("GET", "/projects");
+  }
+
+  listCampaigns(projectId: string): Promise<Campaign[]> {
+    return this.request<Campaign[]>("GET", `/projects/${encodeURIComponent(projectId)}/campaigns`);
+  }
+
+  getCampaign(projectId: string, campaignId: string): Promise<Campaign> {
+    return this.request<Campaign>(
+      "GET",
+      `/projects/${encodeURIComponent(projectId)}/campaigns/${encodeURIComponent(campaignId)}`,
+      { notFound: `Campaign "${campaignId}" in project "${projectId}"` }
+    );
+  }
+
+  sendTestMessage(request: TestMessageRequest): Promise<TestMessageResult> {
+    const { method, path, json } = testMessageHttpRequest(request);
+    // Not retried: a retried send after a timeout could deliver twice
+    return this.request<TestMessageResult>(method, path, {
+      json,
+      notFound: `Project "${request.projectId}"`,
+      retries: 0,
+    });
+  }
+
+  setUserProperties(request: SetUserPropertiesRequest): Promise<unknown> {
+    return this.request("POST", "/set-user-properties", { json: request });
+  }
+
+  trackEvent(request: TrackEventRequest): Promise<unknown> {
+    // Not retried: a retried event after a timeout could be counted twice
+    return this.request("POST", "/track-event", { json: request, retries: 0 });
+  }
+
+  getUser(projectId: string, userId: string): Promise<NotiflyUser> {
+    return this.request<NotiflyUser>(
+      "GET",
+      `/projects/${encodeURIComponent(projectId)}/users/${encodeURIComponent(userId)}`,
+      { notFound: `User "${userId}" in project "${projectId}"` }
+    );
+  }
+
+  /**
+   * Project ID given to a tool, or the configured default
+   */
+  resolveProjectId(projectId: string | undefined): string {
+    const resolved = projectId || this.defaultProjectId;
+    if (!resolved) {
+      throw new ConfigurationError(
+        "projectId is required. Pass it to the tool or set NOTIFLY_PROJECT_ID."
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Authenticated request returning the envelope's data. A rejected token is
+   * refreshed once.
+   */
+  async request<T>(
+    method: string,
+    path: string,
+    options: { json?: unknown; notFound?: string; retries?: number } = {}
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const token = await this.accessToken();
+      await this.limiter.acquire();
+      try {
+        return await this.send<T>(path, {
+          method,
+          json: options.json,
+          headers: { Authorization: token },
+          retries: options.retries,
+        });
+      } catch (error) {
+        if (!(error instanceof ApiError)) throw error;
+        if (error.statusCode === 401 && attempt === 0) {
+          this.token = undefined;
+          continue;
+        }
+        if (error.statusCode === 401 || error.statusCode === 403) {
+          throw new AuthenticationError(
+            `Notifly API rejected the request to ${path} (HTTP ${error.statusCode}). Check the API key permissions.`
+          );
+        }
+        if (error.statusCode === 404 && options.notFound) {
+          throw new NotFoundError(options.notFound);
+        }
+        const reason = apiErrorReason(error.response);
+        if (reason) {
+          throw new ApiError(
+            `Notifly API rejected ${method} ${path} (HTTP ${error.statusCode}): ${reason}`,
+            error.statusCode,
+            error.response
+          );
+        }
+        throw error;
+      }
+    }
+  }
+
+  private accessToken(): Promise<string> {
+    if (!this.token) {
+      this.token = this.authenticate();
+      // A failed login is retried on the next call
+      this.token.catch(() => {
+        this.token = undefined;
+      });
+    }
+    return this.token;
+  }
+
+  private async authenticate(): Promise<string> {
+    try {
+      const token = await this.send<unknown>("/authenticate", {
+        method: "POST",
+        json: { accessKey: this.options.apiKey, secretKey: this.options.apiSecret },
+      });
+      if (typeof token !== "string" || !token) {
+        throw new ApiError("Notifly API returned no access token");
+      }
+      return token;
+    } catch (error) {
+      if (error instanceof ApiError && (error.statusCode === 401 || error.statusCode === 403)) {
+        throw new AuthenticationError(
+          "Notifly API authentication failed. Check NOTIFLY_API_KEY and NOTIFLY_API_SECRET."
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async send<T>(path: string, init: HttpRequestOptions): Promise<T> {
+    const response = await httpFetch(path, {
+      ...init,
+      baseUrl: this.baseUrl,
+      accept: "application/json",
+      timeoutMs: this.options.timeoutMs,
+      retries: init.retries ?? this.options.retries,
+    });
+    let body: ApiResponse<T>;
+    try {
+      body = (await response.json()) as ApiResponse<T>;
+    } catch {
+      throw new ApiError(`Notifly API returned invalid JSON for ${path}`, response.status);
+    }
+    if (body.success === false || body.error) {
+      throw new ApiError(
+        `Notifly API error for ${path}: ${body.error || body.message || "unknown error"}`,
+        response.status,
+        body
+      );
+    }
+    return body.data as T;
+  }
+}
+
+/**
+ * API client configured on the context; tools that call the Notifly API
+ * fail with ConfigurationError without one
+ */
+export function requireApiClient(context: ServerContext): NotiflyApiClient {
+  if (!context.api) {
+    throw new ConfigurationError(
+      "Notifly API credentials are not configured. Set NOTIFLY_API_KEY and NOTIFLY_API_SECRET in the MCP server environment."
+    );
+  }
+  return context.api;
+}
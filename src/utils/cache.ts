@@ -0,0 +1,272 @@
+/**
+ * Persistent Response Cache
+ *
+ * On-disk cache for llms.txt indexes, documentation pages and SDK sources.
+ *
+ * Behaviour per request:
+ * - Fresh (age < ttl): served from cache without touching the network
+ * - Stale (ttl <= age < ttl + staleTtl): served from cache immediately while a
+ *   background request revalidates it (stale-while-revalidate)
+ * - Expired or missing: fetched from the network, using ETag/Last-Modified
+ *   conditional headers when a previous copy exists (304 reuses the copy)
+ * - Network failure or non-2xx with any previous copy: the copy is served
+ *   (stale-if-error), so tools keep working when GitHub or the docs are flaky
+ * - Error responses are not cached, except URLs a caller marks as missing
+ *   (markMissing), which are reported missing for the ttl
+ *
+ * Entries are stored as one JSON file per URL, named by the URL's SHA-256.
+ * Recently used entries are also kept in memory, up to a total body size;
+ * the least recently used are dropped first and read back from disk.
+ * Cache I/O failures are never fatal; they behave like a cache miss.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { CACHE_MEMORY_MAX_BYTES } from "../constants.js";
+import { NotFoundError } from "../errors.js";
+import type { ServerContext } from "../types.js";
+
+export interface CacheEntry {
+  url: string;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  /** Epoch ms when the entry was last fetched or revalidated */
+  storedAt: number;
+  /** Set on miss markers: the URL was not found (body is empty) */
+  missing?: boolean;
+}
+
+export interface ResponseCacheOptions {
+  /** Directory holding cache entries (created on first write) */
+  dir: string;
+  /** How long an entry is served without revalidation (ms) */
+  ttlMs: number;
+  /** How long past ttl an entry may be served while revalidating (ms) */
+  staleTtlMs: number;
+  /** Total body size kept in memory (bytes, default: CACHE_MEMORY_MAX_BYTES) */
+  memoryMaxBytes?: number;
+}
+
+/**
+ * Minimal response shape returned by cached fetches
+ */
+export interface CachedResponse {
+  ok: boolean;
+  status: number;
+  text: string;
+  /** True when the body came from the cache rather than a fresh 200 */
+  fromCache: boolean;
+}
+
+/**
+ * Performs the network request. Receives conditional headers
+ * (If-None-Match / If-Modified-Since) to forward when revalidating.
+ */
+export type CacheLoader = (conditionalHeaders: Record<string, string>) => Promise<Response>;
+
+function headerValue(response: Response, name: string): string | undefined {
+  // Test doubles and some fetch polyfills omit headers entirely
+  return response.headers?.get?.(name) ?? undefined;
+}
+
+export class ResponseCache {
+  private readonly dir: string;
+  private readonly ttlMs: number;
+  private readonly staleTtlMs: number;
+  private readonly memoryMaxBytes: number;
+
+  // Hot copy of recently used entries, least recently used first
+  private memory: Map<string, CacheEntry> = new Map();
+  private memoryBytes = 0;
+  // Background revalidations in flight, keyed by URL
+  private revalidating: Map<string, Promise<void>> = new Map();
+
+  constructor(options: ResponseCacheOptions) {
+    this.dir = options.dir;
+    this.ttlMs = options.ttlMs;
+    this.staleTtlMs = options.staleTtlMs;
+    this.memoryMaxBytes = options.memoryMaxBytes ?? CACHE_MEMORY_MAX_BYTES;
+  }
+
+  private entryPath(url: string): string {
+    const key = createHash("sha256").update(url).digest("hex");
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  /**
+   * Keep an entry in memory as the most recently used, dropping the least
+   * recently used ones while over the size limit
+   */
+  private remember(entry: CacheEntry): void {
+    this.forget(entry.url);
+    const size = Buffer.byteLength(entry.body);
+    if (size > this.memoryMaxBytes) return;
+    this.memory.set(entry.url, entry);
+    this.memoryBytes += size;
+    for (const url of this.memory.keys()) {
+      if (this.memoryBytes <= this.memoryMaxBytes) break;
+      this.forget(url);
+    }
+  }
+
+  private forget(url: string): void {
+    const entry = this.memory.get(url);
+    if (!entry) return;
+    this.memory.delete(url);
+    this.memoryBytes -= Buffer.byteLength(entry.body);
+  }
+
+  /**
+   * Read an entry (memory first, then disk)
+   */
+  public async get(url: string): Promise<CacheEntry | undefined> {
+    const hot = this.memory.get(url);
+    if (hot) {
+      this.remember(hot);
+      return hot;
+    }
+    try {
+      const entry = JSON.parse(await readFile(this.entryPath(url), "utf8")) as CacheEntry;
+      if (entry.url !== url || typeof entry.body !== "string") return undefined;
+      this.remember(entry);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write an entry to memory and disk (atomic rename)
+   */
+  public async set(entry: CacheEntry): Promise<void> {
+    this.remember(entry);
+    try {
+      await mkdir(this.dir, { recursive: true });
+      const target = this.entryPath(entry.url);
+      const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(tmp, JSON.stringify(entry), "utf8");
+      await rename(tmp, target);
+    } catch {
+      // Disk cache is best-effort; the in-memory copy still helps this process
+    }
+  }
+
+  /**
+   * Record that a URL was not found, so isMissing skips it for the ttl
+   */
+  public async markMissing(url: string): Promise<void> {
+    await this.set({ url, body: "", missing: true, storedAt: Date.now() });
+  }
+
+  /**
+   * Whether a URL was marked missing within the ttl
+   */
+  public async isMissing(url: string): Promise<boolean> {
+    const entry = await this.get(url);
+    return entry?.missing === true && Date.now() - entry.storedAt < this.ttlMs;
+  }
+
+  /**
+   * Wait for any background revalidations (used by tests and shutdown)
+   */
+  public async settle(): Promise<void> {
+    await Promise.all(Array.from(this.revalidating.values()));
+  }
+
+  /**
+   * Fetch a URL as text through the cache
+   */
+  public async fetchText(url: string, load: CacheLoader): Promise<CachedResponse> {
+    const cached = await this.get(url);
+    // A miss marker has no copy to serve; fetch as if nothing were cached
+    const entry = cached?.missing ? undefined : cached;
+    if (entry) {
+      const age = Date.now() - entry.storedAt;
+      if (age < this.ttlMs) {
+        return { ok: true, status: 200, text: entry.body, fromCache: true };
+      }
+      if (age < this.ttlMs + this.staleTtlMs) {
+        this.revalidateInBackground(url, entry, load);
+        return { ok: true, status: 200, text: entry.body, fromCache: true };
+      }
+    }
+    return this.revalidate(url, entry, load);
+  }
+
+  private revalidateInBackground(url: string, entry: CacheEntry, load: CacheLoader): void {
+    if (this.revalidating.has(url)) return;
+    const task = this.revalidate(url, entry, load)
+      .then(() => undefined)
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(url));
+    this.revalidating.set(url, task);
+  }
+
+  private async revalidate(
+    url: string,
+    entry: CacheEntry | undefined,
+    load: CacheLoader
+  ): Promise<CachedResponse> {
+    const conditionalHeaders: Record<string, string> = {};
+    if (entry?.etag) conditionalHeaders["If-None-Match"] = entry.etag;
+    if (entry?.lastModified) conditionalHeaders["If-Modified-Since"] = entry.lastModified;
+
+    let response: Response;
+    try {
+      response = await load(conditionalHeaders);
+    } catch (error) {
+      if (entry) return { ok: true, status: 200, text: entry.body, fromCache: true };
+      throw error;
+    }
+
+    if (response.status === 304 && entry) {
+      await this.set({ ...entry, storedAt: Date.now() });
+      return { ok: true, status: 200, text: entry.body, fromCache: true };
+    }
+
+    if (!response.ok) {
+      if (entry) return { ok: true, status: 200, text: entry.body, fromCache: true };
+      return { ok: false, status: response.status, text: "", fromCache: false };
+    }
+
+    const body = await response.text();
+    await this.set({
+      url,
+      body,
+      etag: headerValue(response, "etag"),
+      lastModified: headerValue(response, "last-modified"),
+      storedAt: Date.now(),
+    });
+    return { ok: true, status: response.status, text: body, fromCache: false };
+  }
+}
+
+/**
+ * Fetch a URL as text for a tool. In offline mode the response is served
+ * from the snapshot; otherwise it goes through the cache when configured.
+ */
+export async function fetchWithCache(
+  context: ServerContext,
+  url: string,
+  load: CacheLoader
+): Promise<CachedResponse> {
+  if (context.snapshot) {
+    const body = context.snapshot.get(url);
+    if (body === undefined) {
+      throw new NotFoundError(`Offline snapshot entry for ${url}`);
+    }
+    return { ok: true, status: 200, text: body, fromCache: true };
+  }
+  if (context.cache) {
+    return context.cache.fetchText(url, load);
+  }
+  const response = await load({});
+  return {
+    ok: response.ok,
+    status: response.status,
+    text: response.ok ? await response.text() : "",
+    fromCache: false,
+  };
+}
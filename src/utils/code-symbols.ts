@@ -0,0 +1,821 @@
+/**
+ * SDK Source Symbol Chunking
+ *
+ * Splits an SDK source file into symbol-level chunks (types, extensions,
+ * functions and methods) and ranks them against a query with BM25, so search
+ * results show the relevant method of a large file instead of its first few
+ * thousand characters.
+ *
+ * Declarations are found line by line with per-language patterns and their
+ * extent by brace matching on the source with comments and string literals
+ * removed. Supported languages use the names returned by languageForFile:
+ * swift, kotlin, dart, typescript, javascript and objectivec.
+ */
+
+import { BM25 } from "./bm25.js";
+
+export type SymbolKind =
+  | "class"
+  | "struct"
+  | "enum"
+  | "protocol"
+  | "interface"
+  | "extension"
+  | "object"
+  | "mixin"
+  | "namespace"
+  | "implementation"
+  | "function"
+  | "method"
+  | "initializer";
+
+export interface CodeSymbol {
+  /** Symbol name qualified with its enclosing types (e.g. "Notifly.setUserId") */
+  name: string;
+  kind: SymbolKind;
+  /** First line of the chunk (1-based), including leading doc comments and attributes */
+  startLine: number;
+  /** Last line of the chunk (1-based, inclusive) */
+  endLine: number;
+  text: string;
+}
+
+export interface RankedSymbol {
+  symbol: CodeSymbol;
+  score: number;
+}
+
+/** Symbols longer than this are split into their members when they have any */
+const MAX_SYMBOL_LINES = 80;
+
+/** How many lines a declaration header may span before its body or terminator */
+const MAX_HEADER_LINES = 12;
+
+const CONTROL_KEYWORDS = new Set([
+  "if",
+  "else",
+  "for",
+  "while",
+  "do",
+  "switch",
+  "case",
+  "catch",
+  "return",
+  "throw",
+  "await",
+  "new",
+  "assert",
+  "super",
+  "this",
+  "typeof",
+  "void",
+  "delete",
+  "yield",
+]);
+
+interface DeclarationMatch {
+  kind: SymbolKind;
+  name: string;
+  /** Member-like declaration without a keyword: only accepted when it has a body */
+  needsBody?: boolean;
+  /** Ends at the next "@end" line (Objective-C containers) */
+  endsWithAtEnd?: boolean;
+}
+
+interface Declaration {
+  name: string;
+  kind: SymbolKind;
+  /** 0-based line indexes */
+  start: number;
+  end: number;
+  /** 0-based index of the declaration line itself */
+  line: number;
+  signature: string;
+  isPublic: boolean;
+  children: Declaration[];
+}
+
+export interface DeclarationInfo {
+  /** Name qualified with its enclosing types */
+  name: string;
+  kind: SymbolKind;
+  /** Declaration header without body, comments or string contents, on one line */
+  signature: string;
+  /** Visible outside the module by the language's rules */
+  isPublic: boolean;
+  /** Line of the declaration keyword (1-based) */
+  line: number;
+  /** Line range including doc comments and body (1-based, inclusive) */
+  startLine: number;
+  endLine: number;
+}
+
+type DeclarationMatcher = (
+  line: string,
+  parent: Declaration | undefined
+) => DeclarationMatch | null;
+
+const SWIFT_DECLARATION =
+  /^(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:public|private|internal|fileprivate|open|final|static|override|mutating|nonmutating|convenience|required|dynamic|nonisolated|indirect|lazy|(?:private|fileprivate|internal|public)\(set\))\s+)*(?:class\s+(?=func\b))?(class|struct|enum|protocol|extension|actor|func|init|deinit)\b[?!]?\s*([A-Za-z_][\w.]*)?/;
+
+const KOTLIN_DECLARATION =
+  /^(?:@[\w.:]+(?:\([^)]*\))?\s+)*((?:(?:public|private|internal|protected|open|abstract|final|sealed|data|enum|inner|override|suspend|inline|operator|infix|companion|annotation|value|external|tailrec|expect|actual)\s+)*)(class|interface|object|fun)\b(?:\s*<[^>]*>)?\s*(?:[A-Za-z_][\w.]*(?:<[^>]*>)?\??\.)?([A-Za-z_]\w*)?/;
+
+const DART_TYPE =
+  /^(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:abstract|base|final|sealed|interface)\s+)*(class|mixin|enum|extension)\b\s*([A-Za-z_]\w*)?(?:\s*<[^>]*>)?(?:\s+on\s+([A-Za-z_]\w*))?/;
+
+const DART_FUNCTION =
+  /^(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:static|external|factory|abstract)\s+)*(?:[A-Za-z_][\w.]*(?:<[^()]*>)?\??\s+)?([A-Za-z_$][\w$.]*)\s*(?:<[^()]*>)?\s*\(/;
+
+const TS_TYPE =
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(class|interface|enum|namespace|module)\s+([A-Za-z_$][\w$.]*)/;
+
+const TS_FUNCTION =
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\b\s*\*?\s*([A-Za-z_$][\w$]*)/;
+
+const TS_ARROW =
+  /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\b\s*)?(?:function\b|\(|[A-Za-z_$][\w$]*\s*=>)/;
+
+const TS_METHOD =
+  /^(?:(?:public|private|protected|static|readonly|async|override|abstract|get|set)\s+)*\*?(#?[A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(/;
+
+const OBJC_CONTAINER =
+  /^@(interface|implementation|protocol)\s+([A-Za-z_]\w*)(?:\s*\(\s*(\w*)\s*\))?/;
+
+const OBJC_METHOD = /^[-+]\s*\([^)]*\)\s*([A-Za-z_]\w*)/;
+
+/** Kinds whose nested functions are plain functions rather than methods */
+const FUNCTION_SCOPES: SymbolKind[] = ["function", "method", "initializer", "namespace"];
+
+function functionKind(parent: Declaration | undefined): SymbolKind {
+  return parent && !FUNCTION_SCOPES.includes(parent.kind) ? "method" : "function";
+}
+
+const swiftMatcher: DeclarationMatcher = (line, parent) => {
+  const match = line.match(SWIFT_DECLARATION);
+  if (!match) return null;
+  const keyword = match[1]!;
+  const name = match[2];
+  if (keyword === "func") {
+    return name ? { kind: functionKind(parent), name } : null;
+  }
+  if (keyword === "init" || keyword === "deinit") {
+    return { kind: "initializer", name: keyword };
+  }
+  // "class var" / "class let" are type properties, not classes
+  if (!name || name === "var" || name === "let") return null;
+  const kind: SymbolKind =
+    keyword === "actor"
+      ? "class"
+      : (keyword as "class" | "struct" | "enum" | "protocol" | "extension");
+  return { kind, name };
+};
+
+const kotlinMatcher: DeclarationMatcher = (line, parent) => {
+  const match = line.match(KOTLIN_DECLARATION);
+  if (!match) return null;
+  const modifiers = match[1] ?? "";
+  const keyword = match[2]!;
+  const name = match[3];
+  if (keyword === "fun") {
+    return name ? { kind: functionKind(parent), name } : null;
+  }
+  if (keyword === "object") {
+    if (!name && !/\bcompanion\b/.test(modifiers)) return null;
+    return { kind: "object", name: name ?? "Companion" };
+  }
+  if (!name) return null;
+  if (keyword === "interface") return { kind: "interface", name };
+  return { kind: /\benum\b/.test(modifiers) ? "enum" : "class", name };
+};
+
+const dartMatcher: DeclarationMatcher = (line, parent) => {
+  const type = line.match(DART_TYPE);
+  if (type) {
+    const keyword = type[1] as "class" | "mixin" | "enum" | "extension";
+    // Unnamed extensions ("extension on Foo") are named after the extended type
+    const name =
+      type[2] && type[2] !== "on" ? type[2] : (type[3] ?? line.match(/\bon\s+(\w+)/)?.[1]);
+    return name ? { kind: keyword, name } : null;
+  }
+  const fn = line.match(DART_FUNCTION);
+  if (!fn || CONTROL_KEYWORDS.has(fn[1]!) || /^(?:return|await|throw|else|new)\b/.test(line)) {
+    return null;
+  }
+  return { kind: functionKind(parent), name: fn[1]!, needsBody: true };
+};
+
+const typescriptMatcher: DeclarationMatcher = (line, parent) => {
+  const type = line.match(TS_TYPE);
+  if (type) {
+    return { kind: type[1] === "module" ? "namespace" : (type[1] as SymbolKind), name: type[2]! };
+  }
+  const fn = line.match(TS_FUNCTION);
+  if (fn) return { kind: functionKind(parent), name: fn[1]! };
+  const arrow = line.match(TS_ARROW);
+  if (arrow) return { kind: functionKind(parent), name: arrow[1]!, needsBody: true };
+  if (parent?.kind !== "class") return null;
+  const method = line.match(TS_METHOD);
+  if (!method || CONTROL_KEYWORDS.has(method[1]!)) return null;
+  return {
+    kind: method[1] === "constructor" ? "initializer" : "method",
+    name: method[1]!,
+    needsBody: true,
+  };
+};
+
+const objectiveCMatcher: DeclarationMatcher = (line) => {
+  const container = line.match(OBJC_CONTAINER);
+  if (container) {
+    // Forward declarations ("@protocol Foo;") have no body
+    if (/;\s*$/.test(line)) return null;
+    const keyword = container[1] as "interface" | "implementation" | "protocol";
+    const name = container[3] !== undefined ? `${container[2]}(${container[3]})` : container[2]!;
+    return { kind: keyword, name, endsWithAtEnd: true };
+  }
+  const method = line.match(OBJC_METHOD);
+  if (!method) return null;
+  // Selector name: every "part:" of a method with arguments, else the bare name
+  const parts = Array.from(line.matchAll(/([A-Za-z_]\w*)\s*:\s*\(/g), (m) => `${m[1]}:`);
+  return { kind: "method", name: parts.length > 0 ? parts.join("") : method[1]! };
+};
+
+const MATCHERS: Record<string, DeclarationMatcher> = {
+  swift: swiftMatcher,
+  kotlin: kotlinMatcher,
+  dart: dartMatcher,
+  typescript: typescriptMatcher,
+  javascript: typescriptMatcher,
+  objectivec: objectiveCMatcher,
+};
+
+/**
+ * Blank out comments and string literals so braces inside them are not
+ * counted. Empty quotes are kept in place of each string literal.
+ */
+function stripCommentsAndStrings(lines: string[], language: string): string[] {
+  const multilineDelimiters = language === "typescript" || language === "javascript" ? ["`"] : [];
+  const code: string[] = [];
+  let inBlockComment = false;
+  let stringDelimiter: string | null = null;
+
+  for (const line of lines) {
+    let out = "";
+    let i = 0;
+    while (i < line.length) {
+      if (inBlockComment) {
+        const end = line.indexOf("*/", i);
+        if (end === -1) break;
+        inBlockComment = false;
+        i = end + 2;
+        continue;
+      }
+      if (stringDelimiter) {
+        if (line[i] === "\\") {
+          i += 2;
+        } else if (line.startsWith(stringDelimiter, i)) {
+          i += stringDelimiter.length;
+          stringDelimiter = null;
+          out += '""';
+        } else {
+          i++;
+        }
+        continue;
+      }
+      if (line.startsWith("//", i)) break;
+      if (line.startsWith("/*", i)) {
+        inBlockComment = true;
+        i += 2;
+        continue;
+      }
+      const triple = ['"""', "'''"].find((d) => line.startsWith(d, i));
+      const char = line[i]!;
+      if (triple || char === '"' || char === "'" || char === "`") {
+        stringDelimiter = triple ?? char;
+        i += stringDelimiter.length;
+        continue;
+      }
+      out += char;
+      i++;
+    }
+    // Only triple-quoted strings (and JS template literals) span lines
+    if (
+      stringDelimiter &&
+      stringDelimiter.length === 1 &&
+      !multilineDelimiters.includes(stringDelimiter)
+    ) {
+      stringDelimiter = null;
+    }
+    code.push(out);
+  }
+
+  return code;
+}
+
+/** A header line ending like this continues on the next line */
+const CONTINUATION = /(?:[,(=:.|&+\-*/?]|->|=>)\s*$/;
+
+/** A line starting like this continues the declaration header above it */
+const HEADER_CONTINUATION =
+  /^(?:\{|:|->|\.|=|where\b|throws\b|rethrows\b|async\b|extends\b|implements\b|with\b)/;
+
+/**
+ * Find where a declaration starting at line `start` ends: at the brace closing
+ * its body, or at the end of a body-less declaration (";", or a header line
+ * that does not continue).
+ */
+function findDeclarationEnd(
+  code: string[],
+  start: number
+): { end: number; hasBody: boolean; header: string } | undefined {
+  let parens = 0;
+  let header = "";
+
+  for (let line = start; line < Math.min(code.length, start + MAX_HEADER_LINES); line++) {
+    const text = code[line]!;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+      if (char === "(" || char === "[") parens++;
+      else if (char === ")" || char === "]") parens--;
+      else if (char === ";" && parens <= 0) return { end: line, hasBody: false, header };
+      else if (char === "{" && parens <= 0) {
+        return { end: findClosingBrace(code, line, i), hasBody: true, header };
+      }
+      header += char;
+    }
+    header += "\n";
+
+    if (parens > 0 || CONTINUATION.test(text)) continue;
+    let next = line + 1;
+    while (next < code.length && code[next]!.trim() === "") next++;
+    if (next < code.length && HEADER_CONTINUATION.test(code[next]!.trim())) continue;
+    return { end: line, hasBody: false, header };
+  }
+
+  return undefined;
+}
+
+function findClosingBrace(code: string[], line: number, column: number): number {
+  let depth = 0;
+  for (let l = line; l < code.length; l++) {
+    const text = code[l]!;
+    for (let i = l === line ? column : 0; i < text.length; i++) {
+      if (text[i] === "{") depth++;
+      else if (text[i] === "}" && --depth === 0) return l;
+    }
+  }
+  return code.length - 1;
+}
+
+/**
+ * Line index where a declaration's chunk starts: the declaration line moved up
+ * over directly preceding doc comments and attribute/annotation lines
+ */
+function chunkStart(lines: string[], declarationLine: number, floor: number): number {
+  let start = declarationLine;
+  while (start - 1 > floor) {
+    const previous = lines[start - 1]!.trim();
+    // Objective-C directives ("@end", "@class Foo;") are not attributes
+    if (!/^(?:\/\/|\/\*|\*|@(?!end\b)[^;]*$)/.test(previous)) break;
+    start--;
+  }
+  return start;
+}
+
+/**
+ * One-line signature from a declaration header: whitespace collapsed and an
+ * expression body ("=> ..." or a function's "= ...") removed
+ */
+function signatureOf(header: string, kind: SymbolKind): string {
+  let parens = 0;
+  for (let i = 0; i < header.length; i++) {
+    const char = header[i]!;
+    if (char === "(" || char === "[" || char === "<") parens++;
+    else if (char === ")" || char === "]" || (char === ">" && header[i - 1] !== "=")) parens--;
+    else if (parens <= 0 && char === "=" && header[i + 1] === ">") {
+      header = header.slice(0, i);
+      break;
+    } else if (
+      parens <= 0 &&
+      char === "=" &&
+      (kind === "function" || kind === "method") &&
+      !/[=!<>]/.test(header[i - 1] ?? "") &&
+      header[i + 1] !== "=" &&
+      !header.includes("=>", i)
+    ) {
+      header = header.slice(0, i);
+      break;
+    }
+  }
+  return header.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Whether a declaration is visible outside its module, from the modifiers on
+ * its declaration line (members also need a public parent)
+ */
+function isPublicDeclaration(
+  language: string,
+  line: string,
+  name: string,
+  parent: Declaration | undefined
+): boolean {
+  if (parent && !parent.isPublic) return false;
+  switch (language) {
+    case "swift":
+      return /\b(public|open)\b/.test(line);
+    case "kotlin":
+      return !/\b(private|internal|protected)\b/.test(line);
+    case "dart":
+      return !(name.split(".").pop() ?? name).startsWith("_");
+    case "typescript":
+    case "javascript":
+      return parent
+        ? !/^(?:\w+\s+)*(private|protected)\b/.test(line) && !name.startsWith("#")
+        : /^(?:export|declare)\b/.test(line);
+    default:
+      return true;
+  }
+}
+
+function parseDeclarations(lines: string[], language: string): Declaration[] {
+  const matcher = MATCHERS[language];
+  if (!matcher) return [];
+
+  const code = stripCommentsAndStrings(lines, language);
+  const roots: Declaration[] = [];
+  const open: Declaration[] = [];
+
+  for (let line = 0; line < code.length; line++) {
+    while (open.length > 0 && open[open.length - 1]!.end < line) open.pop();
+    const parent = open[open.length - 1];
+
+    const trimmed = code[line]!.trim();
+    if (!trimmed) continue;
+    const match = matcher(trimmed, parent);
+    if (!match) continue;
+
+    let end: number;
+    let hasBody: boolean;
+    let header = trimmed;
+    if (match.endsWithAtEnd) {
+      end = code.findIndex((text, index) => index > line && /^\s*@end\b/.test(text));
+      if (end === -1) end = code.length - 1;
+      hasBody = true;
+    } else {
+      const found = findDeclarationEnd(code, line);
+      if (!found) continue;
+      if (match.needsBody && !found.hasBody && !found.header.includes("=>")) continue;
+      end = found.end;
+      hasBody = found.hasBody;
+      header = found.header;
+    }
+
+    const declaration: Declaration = {
+      name: match.name,
+      kind: match.kind,
+      start: chunkStart(lines, line, parent ? parent.start : -1),
+      end,
+      line,
+      signature: signatureOf(header, match.kind),
+      isPublic: isPublicDeclaration(language, trimmed, match.name, parent),
+      children: [],
+    };
+    (parent ? parent.children : roots).push(declaration);
+    if (hasBody && end > line) open.push(declaration);
+  }
+
+  if (language === "typescript" || language === "javascript") {
+    markExported(roots, code, language);
+  }
+  return roots;
+}
+
+/**
+ * Make top-level TypeScript/JavaScript declarations exported later in the
+ * file public: `export default Name`, `export default new Name(...)` and
+ * `export { Name }` (members follow their own modifiers)
+ */
+function markExported(roots: Declaration[], code: string[], language: string): void {
+  const exported = new Set<string>();
+  for (const text of code) {
+    const single = text.match(/^\s*export\s+default\s+(?:new\s+)?([A-Za-z_$][\w$]*)/);
+    if (single) exported.add(single[1]!);
+    const list = text.match(/^\s*export\s*\{([^}]*)\}/);
+    for (const item of list ? list[1]!.split(",") : []) {
+      const name = item.trim().split(/\s+/)[0];
+      if (name) exported.add(name);
+    }
+  }
+
+  const update = (declaration: Declaration, parent: Declaration | undefined) => {
+    declaration.isPublic = parent
+      ? isPublicDeclaration(language, code[declaration.line]!.trim(), declaration.name, parent)
+      : true;
+    for (const child of declaration.children) update(child, declaration);
+  };
+  for (const root of roots) {
+    if (!root.isPublic && exported.has(root.name)) update(root, undefined);
+  }
+}
+
+function toSymbol(
+  lines: string[],
+  name: string,
+  kind: SymbolKind,
+  start: number,
+  end: number
+): CodeSymbol {
+  return {
+    name,
+    kind,
+    startLine: start + 1,
+    endLine: end + 1,
+    text: lines.slice(start, end + 1).join("\n"),
+  };
+}
+
+function collectSymbols(
+  lines: string[],
+  declaration: Declaration,
+  prefix: string,
+  symbols: CodeSymbol[]
+): void {
+  const name = prefix ? `${prefix}.${declaration.name}` : declaration.name;
+  const { start, end, children } = declaration;
+  if (children.length === 0 || end - start + 1 <= MAX_SYMBOL_LINES) {
+    symbols.push(toSymbol(lines, name, declaration.kind, start, end));
+    return;
+  }
+
+  // Declaration header and properties before the first member
+  let headerEnd = children[0]!.start - 1;
+  while (headerEnd > start && lines[headerEnd]!.trim() === "") headerEnd--;
+  if (headerEnd > start) {
+    symbols.push(toSymbol(lines, name, declaration.kind, start, headerEnd));
+  }
+  for (const child of children) collectSymbols(lines, child, name, symbols);
+}
+
+/**
+ * Split a source file into symbol chunks in source order. Small types are kept
+ * whole; larger ones are split into their members, plus a chunk for the
+ * declaration header. Code outside any declaration (imports, top-level
+ * statements) is not included. Unsupported languages yield no chunks.
+ */
+export function splitSymbols(source: string, language: string): CodeSymbol[] {
+  const lines = source.split("\n");
+  const symbols: CodeSymbol[] = [];
+  for (const declaration of parseDeclarations(lines, language)) {
+    collectSymbols(lines, declaration, "", symbols);
+  }
+  return symbols;
+}
+
+/**
+ * Every declaration in a source file, including members of small types and
+ * body-less declarations (protocol requirements, abstract members), in
+ * source order
+ */
+export function listDeclarations(source: string, language: string): DeclarationInfo[] {
+  const declarations: DeclarationInfo[] = [];
+  const visit = (declaration: Declaration, prefix: string) => {
+    const name = prefix ? `${prefix}.${declaration.name}` : declaration.name;
+    declarations.push({
+      name,
+      kind: declaration.kind,
+      signature: declaration.signature,
+      isPublic: declaration.isPublic,
+      line: declaration.line + 1,
+      startLine: declaration.start + 1,
+      endLine: declaration.end + 1,
+    });
+    for (const child of declaration.children) visit(child, name);
+  };
+  for (const declaration of parseDeclarations(source.split("\n"), language)) {
+    visit(declaration, "");
+  }
+  return declarations;
+}
+
+export interface SignatureParameter {
+  /** Argument label at call sites: "_" for positional Swift arguments, else the name */
+  label: string;
+  name: string;
+  type: string;
+  /** Has a default value or is optional, so callers may leave it out */
+  optional: boolean;
+  /** Passed as `label: value` (Swift labels, Dart named parameters) */
+  named: boolean;
+  /** Properties of a destructured object parameter (TypeScript/JavaScript) */
+  fields?: string[];
+}
+
+/**
+ * Split at top-level separators, ignoring those nested in brackets
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    const arrow = (char === "=" || char === "-") && text[i + 1] === ">";
+    if (arrow) {
+      i++;
+    } else if ("([{<".includes(char)) {
+      depth++;
+    } else if (")]}>".includes(char)) {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function parseParameter(text: string, language: string, group: string): SignatureParameter | null {
+  const [declaration = "", defaultValue] = splitTopLevel(text, "=");
+  const hasDefault = defaultValue !== undefined;
+  switch (language) {
+    case "swift": {
+      const match = declaration.match(/^(?:(\w+)\s+)?(\w+)\s*:\s*(.+)$/);
+      if (!match) return null;
+      const label = match[1] ?? match[2]!;
+      return {
+        label,
+        name: match[2]!,
+        type: match[3]!.replace(/^(inout|@escaping)\s+/, ""),
+        optional: hasDefault,
+        named: label !== "_",
+      };
+    }
+    case "kotlin": {
+      const match = declaration.match(
+        /^(?:(?:vararg|noinline|crossinline|va[lr])\s+)*(\w+)\s*:\s*(.+)$/
+      );
+      if (!match) return null;
+      return {
+        label: match[1]!,
+        name: match[1]!,
+        type: match[2]!,
+        optional: hasDefault,
+        named: false,
+      };
+    }
+    case "dart": {
+      const match = declaration.match(/^(required\s+)?(.*?)\s*(?:this\.)?(\w+)$/);
+      if (!match) return null;
+      const named = group === "{";
+      return {
+        label: match[3]!,
+        name: match[3]!,
+        type: match[2] || "dynamic",
+        optional: hasDefault || group === "[" || (named && !match[1]),
+        named,
+      };
+    }
+    case "typescript":
+    case "javascript": {
+      const match = declaration.match(
+        /^(?:\.\.\.)?(\w+|\{[^}]*\}|\[[^\]]*\])(\?)?\s*(?::\s*(.+))?$/
+      );
+      if (!match) return null;
+      const name = /^\w/.test(match[1]!) ? match[1]! : "options";
+      const fields = match[1]!.startsWith("{")
+        ? splitTopLevel(match[1]!.slice(1, -1), ",").map((field) => field.split(/[:=\s]/)[0]!)
+        : undefined;
+      return {
+        label: name,
+        name,
+        type: match[3] ?? "any",
+        optional: hasDefault || match[2] === "?",
+        named: false,
+        ...(fields ? { fields } : {}),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parameters of a function or method signature from listDeclarations
+ * (Swift, Kotlin, Dart, TypeScript/JavaScript). Returns an empty list when
+ * the parameter list cannot be found.
+ */
+export function signatureParameters(
+  signature: string,
+  name: string,
+  language: string
+): SignatureParameter[] {
+  const simpleName = name.split(".").pop() ?? name;
+  const at = signature.search(
+    new RegExp(`\\b${simpleName.replace(/\W/g, "")}\\s*(?:<[^(]*>)?\\s*\\(`)
+  );
+  const open = at === -1 ? signature.indexOf("(") : signature.indexOf("(", at);
+  if (open === -1) return [];
+
+  let depth = 0;
+  let close = -1;
+  for (let i = open; i < signature.length; i++) {
+    if (signature[i] === "(") depth++;
+    else if (signature[i] === ")" && --depth === 0) {
+      close = i;
+      break;
+    }
+  }
+  if (close === -1) return [];
+
+  const parameters: SignatureParameter[] = [];
+  for (const part of splitTopLevel(signature.slice(open + 1, close), ",")) {
+    // Dart groups optional parameters in {...} (named) or [...] (positional)
+    const group = language === "dart" && /^[{[]/.test(part) ? part[0]! : "";
+    const inner = group ? part.slice(1, -1) : part;
+    for (const text of group ? splitTopLevel(inner, ",") : [inner]) {
+      const parameter = parseParameter(text.replace(/^@\w+(\([^)]*\))?\s*/, ""), language, group);
+      if (parameter) parameters.push(parameter);
+    }
+  }
+  return parameters;
+}
+
+/**
+ * Whether a qualified declaration name is the requested symbol, one of its
+ * members, or a member named by it ("setUserId" matches "Notifly.setUserId",
+ * "Notifly" matches "Notifly.setUserId"), ignoring case
+ */
+export function matchesSymbolName(name: string, symbol: string): boolean {
+  const wanted = symbol.trim().toLowerCase();
+  const qualified = name.toLowerCase();
+  return (
+    qualified === wanted ||
+    qualified.endsWith(`.${wanted}`) ||
+    qualified.startsWith(`${wanted}.`) ||
+    qualified.includes(`.${wanted}.`)
+  );
+}
+
+/**
+ * Lowercase words of an identifier, splitting camelCase, snake_case and
+ * Objective-C selector parts ("setUserProperties:" gives set, user, properties)
+ */
+export function identifierWords(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Words of a symbol name for matching, e.g. "Notifly.setUserId" also yields
+ * "set user id"
+ */
+function symbolNameTerms(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .replace(/[._:$#]+/g, " ");
+  return `${name} ${words}`;
+}
+
+/**
+ * Rank symbols against a query with BM25 (name weighted above body).
+ * When nothing matches, the first symbols of the file are returned with a
+ * score of 0.
+ */
+export function rankSymbols(
+  symbols: CodeSymbol[],
+  query: string,
+  maxSymbols: number
+): RankedSymbol[] {
+  if (symbols.length === 0) return [];
+
+  const bm25 = new BM25({
+    k1: 1.5,
+    b: 0.75,
+    fieldWeights: {
+      name: 3.0, // Method and type names carry the API vocabulary
+      kind: 0.5,
+      text: 1.0,
+    },
+  });
+  bm25.indexDocuments(
+    symbols.map((symbol, index) => ({
+      id: index.toString(),
+      fields: { name: symbolNameTerms(symbol.name), kind: symbol.kind, text: symbol.text },
+    }))
+  );
+
+  const ranked = bm25.search(query, maxSymbols).flatMap((result) => {
+    const symbol = symbols[parseInt(result.id)];
+    return symbol ? [{ symbol, score: result.score }] : [];
+  });
+  if (ranked.length > 0) return ranked;
+
+  return symbols.slice(0, maxSymbols).map((symbol) => ({ symbol, score: 0 }));
+}
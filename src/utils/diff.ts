@@ -0,0 +1,218 @@
+/**
+ * Line Diff
+ *
+ * Myers line diff and unified diff formatting, used to compare SDK sources
+ * between releases.
+ */
+
+export type LineEdit =
+  | { type: "equal"; oldLine: number; newLine: number; text: string }
+  | { type: "delete"; oldLine: number; text: string }
+  | { type: "insert"; newLine: number; text: string };
+
+/**
+ * Above this edit distance the Myers search stops and the changed region is
+ * reported as one replacement, keeping time and memory bounded for unrelated
+ * files
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Shortest edit script between the middle parts of two line arrays (Myers).
+ * Returns undefined when the distance exceeds MAX_EDIT_DISTANCE.
+ */
+function myers(a: string[], b: string[]): Array<"equal" | "delete" | "insert"> | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d..d before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+          ? v[offset + k + 1]!
+          : v[offset + k - 1]! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+
+  return undefined;
+}
+
+function backtrack(
+  trace: Int32Array[],
+  n: number,
+  m: number
+): Array<"equal" | "delete" | "insert"> {
+  const ops: Array<"equal" | "delete" | "insert"> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]!;
+    const at = (k: number) => v[k + d]!;
+    const k = x - y;
+    let prevX = 0;
+    let prevY = 0;
+    if (d > 0) {
+      const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+      prevX = at(prevK);
+      prevY = prevX - prevK;
+    }
+    while (x > prevX && y > prevY) {
+      ops.push("equal");
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push("insert");
+        y--;
+      } else {
+        ops.push("delete");
+        x--;
+      }
+    }
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Line-by-line edit script turning `oldLines` into `newLines`
+ * (line numbers are 1-based)
+ */
+export function diffLines(oldLines: string[], newLines: string[]): LineEdit[] {
+  // Common prefix and suffix are matched directly
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const middle = myers(a, b) ?? [
+    ...a.map(() => "delete" as const),
+    ...b.map(() => "insert" as const),
+  ];
+  const ops = [
+    ...Array<"equal">(prefix).fill("equal"),
+    ...middle,
+    ...Array<"equal">(suffix).fill("equal"),
+  ];
+
+  const edits: LineEdit[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const op of ops) {
+    if (op === "equal") {
+      edits.push({
+        type: "equal",
+        oldLine: oldIndex + 1,
+        newLine: newIndex + 1,
+        text: oldLines[oldIndex]!,
+      });
+      oldIndex++;
+      newIndex++;
+    } else if (op === "delete") {
+      edits.push({ type: "delete", oldLine: oldIndex + 1, text: oldLines[oldIndex]! });
+      oldIndex++;
+    } else {
+      edits.push({ type: "insert", newLine: newIndex + 1, text: newLines[newIndex]! });
+      newIndex++;
+    }
+  }
+
+  return edits;
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function hunkRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Unified diff of two texts with `context` lines around each change.
+ * Returns an empty string when the texts have the same lines.
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3
+): string {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const edits = diffLines(oldLines, newLines);
+  if (edits.every((edit) => edit.type === "equal")) return "";
+
+  // Group changes whose context overlaps into hunks
+  const hunks: Array<{ start: number; end: number }> = [];
+  edits.forEach((edit, index) => {
+    if (edit.type === "equal") return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(edits.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) last.end = end;
+    else hunks.push({ start, end });
+  });
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const { start, end } of hunks) {
+    const slice = edits.slice(start, end + 1);
+    const oldCount = slice.filter((e) => e.type !== "insert").length;
+    const newCount = slice.filter((e) => e.type !== "delete").length;
+    // Line numbers where the hunk starts in each file
+    let oldStart = oldLines.length + 1;
+    let newStart = newLines.length + 1;
+    for (const edit of edits.slice(start)) {
+      if (edit.type !== "insert") {
+        oldStart = edit.oldLine;
+        break;
+      }
+    }
+    for (const edit of edits.slice(start)) {
+      if (edit.type !== "delete") {
+        newStart = edit.newLine;
+        break;
+      }
+    }
+    output.push(`@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(newStart, newCount)} @@`);
+    for (const edit of slice) {
+      const marker = edit.type === "equal" ? " " : edit.type === "delete" ? "-" : "+";
+      output.push(`${marker}${edit.text}`);
+    }
+  }
+
+  return output.join("\n");
+}
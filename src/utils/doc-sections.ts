@@ -0,0 +1,133 @@
+/**
+ * Documentation Section Chunking
+ *
+ * Splits a docs page into heading-delimited sections and ranks them against
+ * a query with BM25, so search results show the relevant part of a page
+ * instead of its first few thousand characters.
+ *
+ * Pages are split as Markdown (see html-to-markdown.ts); headings may carry a
+ * trailing {#anchor} with the page's own fragment id.
+ */
+
+import { BM25 } from "./bm25.js";
+
+export interface DocSection {
+  /** Heading titles from the top-level heading down to this section's heading */
+  headingPath: string[];
+  /** Fragment id of the section heading, when it has one */
+  anchor?: string;
+  /** Section body text (without the heading line) */
+  text: string;
+}
+
+export interface RankedSection {
+  section: DocSection;
+  score: number;
+}
+
+const HEADING_LINE = /^(#{1,6})\s+(.+?)(?:\s+\{#([^}\s]+)\})?\s*$/;
+
+/**
+ * Remove {#anchor} markers from Markdown headings (for display)
+ */
+export function stripHeadingAnchors(markdown: string): string {
+  return markdown.replace(/^(#{1,6}\s+.+?)\s+\{#[^}\s]+\}\s*$/gm, "$1");
+}
+
+/**
+ * Fragment id for a heading without an explicit one (lowercase, spaces to
+ * hyphens, punctuation removed; letters in any script are kept)
+ */
+export function slugifyHeading(title: string): string {
+  return title
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
+/**
+ * Split a Markdown page into sections at each heading. Text before the
+ * first heading becomes a section with an empty heading path; headings inside
+ * fenced code blocks are ignored and sections without text are dropped.
+ */
+export function splitSections(markdown: string): DocSection[] {
+  const sections: DocSection[] = [];
+  const stack: Array<{ level: number; title: string }> = [];
+  let current: { headingPath: string[]; anchor?: string; lines: string[] } = {
+    headingPath: [],
+    lines: [],
+  };
+  let inFence = false;
+
+  const flush = () => {
+    const text = current.lines.join("\n").trim();
+    if (text) {
+      sections.push({
+        headingPath: current.headingPath,
+        ...(current.anchor ? { anchor: current.anchor } : {}),
+        text,
+      });
+    }
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = inFence ? null : line.match(HEADING_LINE);
+    if (!match) {
+      current.lines.push(line);
+      continue;
+    }
+
+    flush();
+    const level = match[1]!.length;
+    const title = match[2]!.trim();
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= level) stack.pop();
+    stack.push({ level, title });
+    current = {
+      headingPath: stack.map((h) => h.title),
+      anchor: match[3] ?? (slugifyHeading(title) || undefined),
+      lines: [],
+    };
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Rank sections against a query with BM25 (heading path weighted above body).
+ * When nothing matches, the first sections of the page are returned with a
+ * score of 0 so the result still shows the page's opening content.
+ */
+export function rankSections(
+  sections: DocSection[],
+  query: string,
+  maxSections: number
+): RankedSection[] {
+  if (sections.length === 0) return [];
+
+  const bm25 = new BM25({
+    k1: 1.5,
+    b: 0.75,
+    fieldWeights: {
+      heading: 2.0, // Heading path names the topic of the section
+      text: 1.0,
+    },
+  });
+  bm25.indexDocuments(
+    sections.map((section, index) => ({
+      id: index.toString(),
+      fields: { heading: section.headingPath.join(" "), text: section.text },
+    }))
+  );
+
+  const ranked = bm25.search(query, maxSections).flatMap((result) => {
+    const section = sections[parseInt(result.id)];
+    return section ? [{ section, score: result.score }] : [];
+  });
+  if (ranked.length > 0) return ranked;
+
+  return sections.slice(0, maxSections).map((section) => ({ section, score: 0 }));
+}
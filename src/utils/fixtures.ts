@@ -0,0 +1,65 @@
+/**
+ * Fixture Files
+ *
+ * Reads local fixture files named by tool inputs. Over the HTTP transport any
+ * client can call the tools, so files are only read from the configured
+ * fixtures directory, and read errors never echo file contents. The same
+ * containment check restricts audit_integration to its projects directory.
+ */
+
+import { readFile, realpath } from "fs/promises";
+import path from "path";
+import type { ServerContext } from "../types.js";
+import { ValidationError } from "../errors.js";
+
+/**
+ * Resolve a path against a root directory, following symlinks in both.
+ * Returns undefined when the path resolves outside the root; throws when it
+ * does not exist.
+ */
+export async function resolveInside(root: string, file: string): Promise<string | undefined> {
+  const realRoot = await realpath(root);
+  const resolved = await realpath(path.resolve(realRoot, file));
+  const relative = path.relative(realRoot, resolved);
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  return resolved;
+}
+
+/**
+ * Read a fixture file by its path relative to the fixtures directory.
+ * Throws ValidationError when no fixtures directory is configured, the path
+ * resolves outside it (including through symlinks) or the file cannot be read.
+ */
+export async function readFixtureFile(
+  file: string,
+  context: ServerContext,
+  param: string
+): Promise<string> {
+  if (!context.fixturesDir) {
+    throw new ValidationError(
+      `${param} is disabled. Set NOTIFLY_FIXTURES_DIR in the MCP server environment to read fixture files from that directory.`
+    );
+  }
+
+  let resolved: string | undefined;
+  try {
+    resolved = await resolveInside(context.fixturesDir, file);
+    // The fixtures directory itself is not a file
+    if (resolved === (await realpath(context.fixturesDir))) resolved = undefined;
+  } catch {
+    throw new ValidationError(
+      `Could not read ${param} ${file}: no such file in the fixtures directory.`
+    );
+  }
+  if (!resolved) {
+    throw new ValidationError(`${param} must be a file inside the fixtures directory: ${file}`);
+  }
+
+  try {
+    return await readFile(resolved, "utf8");
+  } catch {
+    throw new ValidationError(`Could not read ${param} ${file}.`);
+  }
+}
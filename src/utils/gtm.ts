@@ -0,0 +1,566 @@
+/**
+ * GTM Container Checks
+ *
+ * Checks the Notifly tags of an exported Google Tag Manager container against
+ * the Notifly GTM template definitions (.tpl): field values against the
+ * template parameters (required fields, select options, validators, table
+ * rows such as the Cafe24 event mappings), variable references, and the
+ * triggers the tags fire on.
+ */
+
+/** Parameter of a tag in a container export */
+export interface GtmParameter {
+  type: string;
+  key?: string;
+  value?: string;
+  list?: GtmParameter[];
+  map?: GtmParameter[];
+}
+
+export interface GtmTag {
+  tagId?: string;
+  name: string;
+  type: string;
+  parameter?: GtmParameter[];
+  firingTriggerId?: string[];
+  blockingTriggerId?: string[];
+  setupTag?: Array<{ tagName?: string }>;
+  paused?: boolean;
+}
+
+export interface GtmTrigger {
+  triggerId: string;
+  name: string;
+  type: string;
+}
+
+export interface GtmCustomTemplate {
+  templateId: string;
+  name: string;
+  templateData?: string;
+  galleryReference?: { host?: string; owner?: string; repository?: string; version?: string };
+}
+
+/** `containerVersion` of a container export */
+export interface GtmContainerVersion {
+  containerId?: string;
+  tag?: GtmTag[];
+  trigger?: GtmTrigger[];
+  variable?: Array<{ name: string }>;
+  builtInVariable?: Array<{ name: string }>;
+  customTemplate?: GtmCustomTemplate[];
+}
+
+/** Parameter declared in a template's ___TEMPLATE_PARAMETERS___ section */
+export interface TemplateParameter {
+  type: string;
+  name: string;
+  displayName?: string;
+  valueValidators?: Array<{ type: string; args?: unknown[]; errorMessage?: string }>;
+  selectItems?: Array<{ value: unknown; displayValue?: string }>;
+  radioItems?: Array<{ value: unknown; displayValue?: string }>;
+  enablingConditions?: Array<{ paramName: string; paramValue?: unknown; type: string }>;
+  subParams?: TemplateParameter[];
+  simpleTableColumns?: Array<TemplateParameter & { isUnique?: boolean }>;
+  paramTableColumns?: Array<{ param: TemplateParameter; isUnique?: boolean }>;
+}
+
+export interface GtmTemplateDefinition {
+  displayName: string;
+  parameters: TemplateParameter[];
+}
+
+/** Current template definition from the SDK index */
+export interface GtmReferenceTemplate extends GtmTemplateDefinition {
+  title: string;
+  url: string;
+  /** The Cafe24 custom event template rather than the main Notifly template */
+  cafe24: boolean;
+}
+
+export interface GtmIssue {
+  severity: "error" | "warning";
+  /** Tag (or custom template) the issue is about */
+  tag?: string;
+  /** Field path, e.g. "eventMappings[2].notiflyEventName" */
+  field?: string;
+  message: string;
+}
+
+export interface GtmTagSummary {
+  tagId?: string;
+  name: string;
+  template: string;
+  /** Title of the reference template the tag was checked against */
+  reference?: string;
+  init: boolean;
+  triggers: string[];
+}
+
+export interface GtmAuditReport {
+  tags: GtmTagSummary[];
+  issues: GtmIssue[];
+}
+
+/** GTM's built-in triggers, by their fixed IDs */
+const BUILT_IN_TRIGGERS: Record<string, { name: string; type: string }> = {
+  "2147479553": { name: "All Pages", type: "PAGEVIEW" },
+  "2147479572": { name: "Consent Initialization - All Pages", type: "CONSENT_INIT" },
+  "2147479573": { name: "Initialization - All Pages", type: "INIT" },
+};
+
+/** Page load order of trigger types; other types fire later, on demand */
+const TRIGGER_ORDER = ["CONSENT_INIT", "INIT", "PAGEVIEW", "DOM_READY", "WINDOW_LOADED"];
+
+/** Notifly event names, as accepted by track_event */
+const EVENT_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const VARIABLE_REFERENCE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Split a .tpl file into its ___SECTION___ blocks
+ */
+function templateSections(source: string): Record<string, string> {
+  const sections: Record<string, string> = {};
+  let current: string | undefined;
+  for (const line of source.split("\n")) {
+    const header = line.match(/^___([A-Z_]+)___\s*$/);
+    if (header) {
+      current = header[1]!;
+      sections[current] = "";
+    } else if (current) {
+      sections[current] += `${line}\n`;
+    }
+  }
+  return sections;
+}
+
+/**
+ * Parse a GTM custom template (.tpl). Undefined when the source is not one.
+ */
+export function parseGtmTemplate(source: string): GtmTemplateDefinition | undefined {
+  const sections = templateSections(source);
+  if (!sections.TEMPLATE_PARAMETERS) return undefined;
+  try {
+    const parameters = JSON.parse(sections.TEMPLATE_PARAMETERS) as TemplateParameter[];
+    const info = sections.INFO
+      ? (JSON.parse(sections.INFO) as { displayName?: string })
+      : undefined;
+    return {
+      displayName: info?.displayName ?? "",
+      parameters: Array.isArray(parameters) ? parameters : [],
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Plain value of an exported parameter: LIST becomes an array, MAP an object
+ */
+export function parameterValue(parameter: GtmParameter): unknown {
+  if (parameter.type === "LIST") return (parameter.list ?? []).map(parameterValue);
+  if (parameter.type === "MAP") {
+    return Object.fromEntries(
+      (parameter.map ?? []).map((entry) => [entry.key ?? "", parameterValue(entry)])
+    );
+  }
+  return parameter.value ?? "";
+}
+
+function isBlank(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === "string") return value.trim() === "";
+  return Array.isArray(value) && value.length === 0;
+}
+
+function isVariable(value: string): boolean {
+  return /^\{\{[^{}]+\}\}$/.test(value.trim());
+}
+
+function label(parameter: TemplateParameter): string {
+  return parameter.displayName ? `${parameter.displayName} (${parameter.name})` : parameter.name;
+}
+
+/**
+ * Parameters of a template with GROUP parameters flattened; a group's enabling
+ * conditions apply to its children
+ */
+function flattenParameters(
+  parameters: TemplateParameter[],
+  conditions: TemplateParameter["enablingConditions"] = []
+): TemplateParameter[] {
+  return parameters.flatMap((parameter) => {
+    const enablingConditions = [...conditions, ...(parameter.enablingConditions ?? [])];
+    if (parameter.type === "GROUP") {
+      return flattenParameters(parameter.subParams ?? [], enablingConditions);
+    }
+    return [{ ...parameter, enablingConditions }];
+  });
+}
+
+function isEnabled(parameter: TemplateParameter, values: Record<string, unknown>): boolean {
+  return (parameter.enablingConditions ?? []).every((condition) => {
+    const value = values[condition.paramName];
+    switch (condition.type) {
+      case "EQUALS":
+        return String(value) === String(condition.paramValue);
+      case "NOT_EQUALS":
+        return String(value) !== String(condition.paramValue);
+      case "PRESENT":
+        return !isBlank(value);
+      case "NOT_PRESENT":
+        return isBlank(value);
+      default:
+        return true;
+    }
+  });
+}
+
+function tableColumns(
+  parameter: TemplateParameter
+): Array<TemplateParameter & { isUnique?: boolean }> {
+  if (parameter.simpleTableColumns) return parameter.simpleTableColumns;
+  return (parameter.paramTableColumns ?? []).map((column) => ({
+    ...column.param,
+    isUnique: column.isUnique,
+  }));
+}
+
+/**
+ * Problems with one value against its parameter definition
+ */
+function valueIssues(parameter: TemplateParameter, value: unknown, field: string): GtmIssue[] {
+  const issues: GtmIssue[] = [];
+  const required = parameter.valueValidators?.some((v) => v.type === "NON_EMPTY");
+  if (isBlank(value)) {
+    if (required) {
+      issues.push({
+        severity: "error",
+        field,
+        message: `${label(parameter)} is required but empty.`,
+      });
+    }
+    return issues;
+  }
+  if (typeof value !== "string" || isVariable(value)) return issues;
+
+  const items = parameter.selectItems ?? parameter.radioItems;
+  if (items && items.length > 0) {
+    const allowed = items.map((item) => String(item.value));
+    if (!allowed.includes(value)) {
+      issues.push({
+        severity: "error",
+        field,
+        message: `${label(parameter)} is "${value}", which the template does not offer. Use one of: ${allowed.join(", ")}.`,
+      });
+    }
+  }
+  for (const validator of parameter.valueValidators ?? []) {
+    if (validator.type !== "REGEX" || typeof validator.args?.[0] !== "string") continue;
+    if (!new RegExp(`^(?:${validator.args[0]})$`).test(value)) {
+      issues.push({
+        severity: "error",
+        field,
+        message: `${label(parameter)} "${value}" is invalid${validator.errorMessage ? `: ${validator.errorMessage}` : ` (must match ${validator.args[0]})`}.`,
+      });
+    }
+  }
+  if (/event_?name/i.test(parameter.name) && !items && !EVENT_NAME_PATTERN.test(value)) {
+    issues.push({
+      severity: "error",
+      field,
+      message: `${label(parameter)} "${value}" is not a valid Notifly event name (letters, digits, _ and - only).`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Rows of a table parameter, e.g. Cafe24 event to Notifly event mappings
+ */
+function tableIssues(parameter: TemplateParameter, value: unknown): GtmIssue[] {
+  const issues: GtmIssue[] = [];
+  const rows = Array.isArray(value) ? value : [];
+  const columns = tableColumns(parameter);
+  // The first select column is the mapping key unless a column is marked unique
+  const uniqueColumns = columns.some((c) => c.isUnique)
+    ? columns.filter((c) => c.isUnique)
+    : columns.filter((c) => c.selectItems).slice(0, 1);
+
+  rows.forEach((row, index) => {
+    const cells = row && typeof row === "object" ? (row as Record<string, unknown>) : {};
+    for (const column of columns) {
+      issues.push(
+        ...valueIssues(column, cells[column.name], `${parameter.name}[${index}].${column.name}`)
+      );
+    }
+  });
+  for (const column of uniqueColumns) {
+    const seen = new Map<string, number>();
+    rows.forEach((row, index) => {
+      const cell = (row as Record<string, unknown> | undefined)?.[column.name];
+      if (typeof cell !== "string" || isBlank(cell)) return;
+      const first = seen.get(cell);
+      if (first === undefined) {
+        seen.set(cell, index);
+      } else {
+        issues.push({
+          severity: "error",
+          field: `${parameter.name}[${index}].${column.name}`,
+          message: `"${cell}" is mapped more than once (rows ${first} and ${index}); only one mapping takes effect.`,
+        });
+      }
+    });
+  }
+  return issues;
+}
+
+function variableReferences(value: unknown): string[] {
+  if (typeof value === "string") return [...value.matchAll(VARIABLE_REFERENCE)].map((m) => m[1]!);
+  if (Array.isArray(value)) return value.flatMap(variableReferences);
+  if (value && typeof value === "object") return Object.values(value).flatMap(variableReferences);
+  return [];
+}
+
+/**
+ * Check a tag's fields against its template definition
+ */
+export function checkTagFields(
+  tag: GtmTag,
+  definition: GtmTemplateDefinition,
+  variables: Set<string>
+): GtmIssue[] {
+  const values: Record<string, unknown> = Object.fromEntries(
+    (tag.parameter ?? []).map((p) => [p.key ?? "", parameterValue(p)])
+  );
+  const parameters = flattenParameters(definition.parameters);
+  const known = new Set(parameters.map((p) => p.name));
+  const issues: GtmIssue[] = [];
+
+  for (const key of Object.keys(values)) {
+    if (!known.has(key)) {
+      issues.push({
+        severity: "warning",
+        field: key,
+        message: `Field "${key}" is not in the current template; the container may use an outdated template version.`,
+      });
+    }
+  }
+  for (const parameter of parameters) {
+    if (!isEnabled(parameter, values)) continue;
+    const value = values[parameter.name];
+    if (parameter.type === "SIMPLE_TABLE" || parameter.type === "PARAM_TABLE") {
+      if (isBlank(value) && parameter.valueValidators?.some((v) => v.type === "NON_EMPTY")) {
+        issues.push(...valueIssues(parameter, value, parameter.name));
+      }
+      issues.push(...tableIssues(parameter, value));
+    } else {
+      issues.push(...valueIssues(parameter, value, parameter.name));
+    }
+  }
+  for (const name of new Set(variableReferences(values))) {
+    if (!variables.has(name)) {
+      issues.push({
+        severity: "error",
+        message: `References {{${name}}}, which is not a variable in the container.`,
+      });
+    }
+  }
+  return issues.map((issue) => ({ ...issue, tag: tag.name }));
+}
+
+/**
+ * Select/radio parameter that picks the tag's action, found by an
+ * initialization option
+ */
+function actionParameter(definition: GtmTemplateDefinition): TemplateParameter | undefined {
+  return flattenParameters(definition.parameters).find((p) =>
+    (p.selectItems ?? p.radioItems ?? []).some((item) => /init/i.test(String(item.value)))
+  );
+}
+
+function parameterNames(definition: GtmTemplateDefinition): Set<string> {
+  return new Set(flattenParameters(definition.parameters).map((p) => p.name));
+}
+
+function isNotiflyTemplate(template: GtmCustomTemplate): boolean {
+  const gallery = template.galleryReference;
+  return [
+    template.name,
+    gallery?.owner,
+    gallery?.repository,
+    template.templateData?.slice(0, 2000),
+  ].some((text) => /notifly/i.test(text ?? ""));
+}
+
+/**
+ * Reference template for a container's copy: same kind (main or Cafe24), most
+ * shared parameter names
+ */
+function matchReference(
+  template: GtmCustomTemplate,
+  embedded: GtmTemplateDefinition | undefined,
+  references: GtmReferenceTemplate[]
+): GtmReferenceTemplate | undefined {
+  const cafe24 = /cafe24/i.test(
+    `${template.name} ${template.galleryReference?.repository ?? ""} ${embedded?.displayName ?? ""}`
+  );
+  const candidates = references.filter((r) => r.cafe24 === cafe24);
+  if (!embedded) return candidates[0];
+  const names = parameterNames(embedded);
+  const overlap = (r: GtmReferenceTemplate) =>
+    [...parameterNames(r)].filter((name) => names.has(name)).length;
+  return candidates.reduce<GtmReferenceTemplate | undefined>(
+    (best, r) => (!best || overlap(r) > overlap(best) ? r : best),
+    undefined
+  );
+}
+
+/**
+ * Check every Notifly tag of a container against the reference templates
+ */
+export function auditGtmContainer(
+  version: GtmContainerVersion,
+  references: GtmReferenceTemplate[]
+): GtmAuditReport {
+  const issues: GtmIssue[] = [];
+  const tags: GtmTagSummary[] = [];
+  const variables = new Set([
+    ...(version.variable ?? []).map((v) => v.name),
+    ...(version.builtInVariable ?? []).map((v) => v.name),
+  ]);
+  const triggers = new Map<string, { name: string; type: string }>(
+    Object.entries(BUILT_IN_TRIGGERS)
+  );
+  for (const trigger of version.trigger ?? []) {
+    triggers.set(trigger.triggerId, { name: trigger.name, type: trigger.type });
+  }
+
+  const templates = (version.customTemplate ?? []).filter(isNotiflyTemplate);
+  const checked: Array<{ tag: GtmTag; summary: GtmTagSummary }> = [];
+  for (const template of templates) {
+    const embedded = template.templateData ? parseGtmTemplate(template.templateData) : undefined;
+    const reference = matchReference(template, embedded, references);
+    if (!reference) {
+      issues.push({
+        severity: "warning",
+        tag: template.name,
+        message: `No current Notifly template definition to check "${template.name}" against; its tags' fields were not checked.`,
+      });
+    } else if (embedded) {
+      const names = parameterNames(embedded);
+      const missing = [...parameterNames(reference)].filter((name) => !names.has(name));
+      if (missing.length > 0) {
+        issues.push({
+          severity: "warning",
+          tag: template.name,
+          message: `The container's copy of "${template.name}" lacks fields of the current template (${missing.join(", ")}). Update the template from the Community Template Gallery.`,
+        });
+      }
+    }
+
+    const action = reference && actionParameter(reference);
+    const templateTags = (version.tag ?? []).filter(
+      (tag) =>
+        tag.type === `cvt_${version.containerId}_${template.templateId}` ||
+        (tag.type.startsWith("cvt_") && tag.type.endsWith(`_${template.templateId}`))
+    );
+    for (const tag of templateTags) {
+      const actionValue = action
+        ? tag.parameter?.find((p) => p.key === action.name)?.value
+        : undefined;
+      const summary: GtmTagSummary = {
+        ...(tag.tagId ? { tagId: tag.tagId } : {}),
+        name: tag.name,
+        template: template.name,
+        ...(reference ? { reference: reference.title } : {}),
+        init: action ? /init/i.test(actionValue ?? "") : Boolean(reference && !reference.cafe24),
+        triggers: (tag.firingTriggerId ?? []).map((id) => triggers.get(id)?.name ?? id),
+      };
+      tags.push(summary);
+      checked.push({ tag, summary });
+      if (reference) issues.push(...checkTagFields(tag, reference, variables));
+    }
+  }
+
+  if (templates.length === 0) {
+    issues.push({
+      severity: "error",
+      message:
+        "No Notifly tag template found in the container. Import the Notifly template from the Community Template Gallery.",
+    });
+    return { tags, issues };
+  }
+
+  const order = (id: string) => {
+    const index = TRIGGER_ORDER.indexOf(triggers.get(id)?.type ?? "");
+    return index === -1 ? TRIGGER_ORDER.length : index;
+  };
+  const active = checked.filter(({ tag }) => !tag.paused);
+  const inits = active.filter(({ summary }) => summary.init);
+  const earliestInit = Math.min(
+    ...inits.flatMap(({ tag }) => (tag.firingTriggerId ?? []).map(order))
+  );
+
+  for (const { tag, summary } of checked) {
+    const firing = tag.firingTriggerId ?? [];
+    if (tag.paused) {
+      issues.push({
+        severity: "warning",
+        tag: tag.name,
+        message: "Tag is paused and never fires.",
+      });
+    }
+    if (firing.length === 0) {
+      issues.push({
+        severity: "error",
+        tag: tag.name,
+        message: "Tag has no firing trigger, so it never fires.",
+      });
+    }
+    for (const id of [...firing, ...(tag.blockingTriggerId ?? [])]) {
+      if (!triggers.has(id)) {
+        issues.push({
+          severity: "error",
+          tag: tag.name,
+          message: `Tag uses trigger ${id}, which is not in the container.`,
+        });
+      }
+    }
+    if (tag.paused || firing.length === 0) continue;
+
+    if (summary.init) {
+      if (!firing.some((id) => order(id) <= TRIGGER_ORDER.indexOf("PAGEVIEW"))) {
+        issues.push({
+          severity: "warning",
+          tag: tag.name,
+          message: `Initialization fires only on ${summary.triggers.join(", ")}; pages without those events never initialize Notifly. Fire it on Initialization - All Pages.`,
+        });
+      }
+    } else if (inits.length > 0 && !tag.setupTag?.length) {
+      const earliest = Math.min(...firing.map(order));
+      if (earliest < earliestInit) {
+        issues.push({
+          severity: "warning",
+          tag: tag.name,
+          message: `Fires on ${summary.triggers.join(", ")}, before the Notifly initialization tag. Fire it later or set the initialization tag as its setup tag.`,
+        });
+      }
+    }
+  }
+
+  if (checked.length > 0 && inits.length === 0) {
+    issues.push({
+      severity: "error",
+      message:
+        "No active Notifly initialization tag. Add a Notifly tag that initializes the SDK, fired on Initialization - All Pages.",
+    });
+  } else if (inits.length > 1) {
+    issues.push({
+      severity: "warning",
+      message: `${inits.length} Notifly initialization tags (${inits.map(({ tag }) => tag.name).join(", ")}); keep one.`,
+    });
+  }
+  return { tags, issues };
+}
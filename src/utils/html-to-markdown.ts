@@ -0,0 +1,440 @@
+/**
+ * HTML to Markdown Conversion
+ *
+ * Converts documentation pages to Markdown so agents get copy-pasteable code
+ * samples, parameter tables and numbered steps instead of flattened text:
+ * - Main content extraction (article / main / #content-area), dropping
+ *   navigation, sidebars, headers, footers, scripts and styles
+ * - Headings with a trailing {#anchor} when the page provides an id
+ * - Fenced code blocks with the language taken from language-* classes
+ * - GFM tables, nested ordered/unordered lists, links, emphasis, images
+ *
+ * Uses a small lenient parser suited to the well-formed markup Mintlify
+ * renders; it is not a general-purpose HTML parser.
+ */
+
+type HtmlNode = HtmlElement | HtmlText;
+
+interface HtmlElement {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+interface HtmlText {
+  type: "text";
+  text: string;
+}
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** Elements whose content is never part of the page copy (see also isSkipped) */
+const SKIPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "button",
+  "form",
+  "nav",
+  "footer",
+  "aside",
+]);
+
+/** Elements implicitly closed by an opening tag of the same name */
+const SELF_NESTING_CLOSERS = new Set(["p", "li", "tr", "td", "th", "option"]);
+
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "section",
+  "article",
+  "main",
+  "figure",
+  "figcaption",
+  "details",
+  "summary",
+  "dl",
+  "dt",
+  "dd",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  quot: '"',
+  apos: "'",
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  copy: "©",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  rarr: "→",
+  larr: "←",
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(source)) !== null) {
+    const name = m[1]!.toLowerCase();
+    attrs[name] = decodeHtmlEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Parse HTML into a lightweight element tree
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: "element", tag: "#root", attrs: {}, children: [] };
+  let current = root;
+  const tokenRe =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g;
+  let m: RegExpExecArray | null;
+
+  while ((m = tokenRe.exec(html)) !== null) {
+    const token = m[0];
+    const tagName = m[2]?.toLowerCase();
+
+    if (!tagName) {
+      if (!token.startsWith("<!")) {
+        current.children.push({ type: "text", text: token });
+      }
+      continue;
+    }
+
+    if (m[1]) {
+      // Closing tag: close up to the matching open element, if any
+      for (let el: HtmlElement | undefined = current; el && el !== root; el = el.parent) {
+        if (el.tag === tagName) {
+          current = el.parent ?? root;
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (SELF_NESTING_CLOSERS.has(tagName)) {
+      for (let el: HtmlElement | undefined = current; el && el !== root; el = el.parent) {
+        if (el.tag === tagName) {
+          current = el.parent ?? root;
+          break;
+        }
+        if (["ul", "ol", "table", "tbody", "thead", "select", "div"].includes(el.tag)) break;
+      }
+    }
+
+    const rawAttrs = m[3] ?? "";
+    const element: HtmlElement = {
+      type: "element",
+      tag: tagName,
+      attrs: parseAttributes(rawAttrs),
+      children: [],
+      parent: current,
+    };
+    current.children.push(element);
+
+    if (tagName === "script" || tagName === "style") {
+      // Raw text elements: skip to the closing tag
+      const close = html.toLowerCase().indexOf(`</${tagName}`, tokenRe.lastIndex);
+      tokenRe.lastIndex = close === -1 ? html.length : close;
+      continue;
+    }
+    if (!VOID_TAGS.has(tagName) && !rawAttrs.trimEnd().endsWith("/")) {
+      current = element;
+    }
+  }
+
+  return root;
+}
+
+function isSkipped(el: HtmlElement, options: RenderOptions): boolean {
+  if (SKIPPED_TAGS.has(el.tag)) return true;
+  // A header inside the main content holds the page title; elsewhere it is site chrome
+  if (el.tag === "header" && !options.insideMain) return true;
+  if (el.attrs.role === "navigation" || el.attrs["aria-hidden"] === "true") return true;
+  const idAndClass = `${el.attrs.id ?? ""} ${el.attrs.class ?? ""}`;
+  return /\b(sidebar|table-of-contents|breadcrumb)\b/i.test(idAndClass);
+}
+
+function findFirst(
+  node: HtmlElement,
+  predicate: (el: HtmlElement) => boolean
+): HtmlElement | undefined {
+  for (const child of node.children) {
+    if (child.type !== "element") continue;
+    if (predicate(child)) return child;
+    const found = findFirst(child, predicate);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * The element holding the page's main content, if the page marks one
+ */
+function mainContent(root: HtmlElement): HtmlElement | undefined {
+  return (
+    findFirst(root, (el) => el.tag === "article") ??
+    findFirst(root, (el) => el.tag === "main") ??
+    findFirst(root, (el) => el.attrs.id === "content-area" || el.attrs.id === "content")
+  );
+}
+
+function textContent(node: HtmlNode): string {
+  if (node.type === "text") return decodeHtmlEntities(node.text);
+  if (node.tag === "br") return "\n";
+  return node.children.map(textContent).join("");
+}
+
+function codeLanguage(el: HtmlElement): string {
+  const candidates = [el, findFirst(el, (child) => child.tag === "code")];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const lang =
+      candidate.attrs["data-language"] ??
+      candidate.attrs.class?.match(/\b(?:language|lang)-([\w#+.-]+)/)?.[1];
+    if (lang) return lang.toLowerCase();
+  }
+  return "";
+}
+
+function fence(code: string, language: string): string {
+  const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map((ticks) => ticks.length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${language}\n${code.replace(/\n+$/, "")}\n${ticks}`;
+}
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : "";
+}
+
+/** Collapse inline whitespace produced while rendering (outside code blocks) */
+function squash(text: string): string {
+  return text
+    .replace(/[ \t\r\f\v]*\n[ \t\r\f\v]*/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function resolveHref(href: string, baseUrl: string | undefined): string {
+  if (!baseUrl || /^[a-z][a-z0-9+.-]*:/i.test(href)) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+interface RenderOptions {
+  baseUrl?: string;
+  /** Rendering inside an explicit main content element */
+  insideMain: boolean;
+}
+
+function renderChildren(el: HtmlElement, options: RenderOptions): string {
+  return el.children.map((child) => renderNode(child, options)).join("");
+}
+
+function renderList(el: HtmlElement, options: RenderOptions): string {
+  const ordered = el.tag === "ol";
+  let index = parseInt(el.attrs.start ?? "1", 10) || 1;
+  const items: string[] = [];
+
+  for (const child of el.children) {
+    if (child.type !== "element" || child.tag !== "li") continue;
+    const marker = ordered ? `${index++}.` : "-";
+    const body = renderChildren(child, options)
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+      .split("\n")
+      .map((line, i) => (i === 0 ? line : line ? `${" ".repeat(marker.length + 1)}${line}` : line))
+      .join("\n");
+    items.push(`${marker} ${body}`);
+  }
+
+  return block(items.join("\n"));
+}
+
+function renderTable(el: HtmlElement, options: RenderOptions): string {
+  const rows: Array<{ cells: string[] }> = [];
+  const collect = (node: HtmlElement) => {
+    for (const child of node.children) {
+      if (child.type !== "element") continue;
+      if (child.tag === "tr") {
+        const cells = child.children.filter(
+          (c): c is HtmlElement => c.type === "element" && (c.tag === "td" || c.tag === "th")
+        );
+        rows.push({
+          cells: cells.map((cell) =>
+            squash(renderChildren(cell, options).replace(/\n+/g, " ")).replace(/\|/g, "\\|")
+          ),
+        });
+      } else if (child.tag !== "table") {
+        collect(child);
+      }
+    }
+  };
+  collect(el);
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((r) => r.cells.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  // GFM tables need a header row; without <th> cells the first row serves as one
+  const [head, ...body] = rows;
+
+  return block(
+    [
+      line(head!.cells),
+      `| ${Array.from({ length: width }, () => "---").join(" | ")} |`,
+      ...body.map((r) => line(r.cells)),
+    ].join("\n")
+  );
+}
+
+function renderNode(node: HtmlNode, options: RenderOptions): string {
+  if (node.type === "text") {
+    return decodeHtmlEntities(node.text).replace(/\s+/g, " ");
+  }
+  const el = node;
+  if (isSkipped(el, options)) return "";
+
+  switch (el.tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const title = squash(renderChildren(el, options)).replace(/^#+\s*/, "");
+      if (!title) return "";
+      const id = el.attrs.id ?? findFirst(el, (child) => !!child.attrs.id)?.attrs.id;
+      return block(`${"#".repeat(Number(el.tag[1]))} ${title}${id ? ` {#${id}}` : ""}`);
+    }
+    case "pre":
+      return block(fence(textContent(el), codeLanguage(el)));
+    case "code": {
+      const code = textContent(el).replace(/\s+/g, " ");
+      if (!code.trim()) return "";
+      const ticks = code.includes("`") ? "``" : "`";
+      return `${ticks}${code}${ticks}`;
+    }
+    case "a": {
+      const text = squash(renderChildren(el, options));
+      const href = el.attrs.href;
+      if (!text) return "";
+      if (!href || href.startsWith("#") || /^javascript:/i.test(href)) return text;
+      return `[${text}](${resolveHref(href, options.baseUrl)})`;
+    }
+    case "img": {
+      const src = el.attrs.src;
+      return src ? `![${el.attrs.alt ?? ""}](${resolveHref(src, options.baseUrl)})` : "";
+    }
+    case "strong":
+    case "b": {
+      const text = squash(renderChildren(el, options));
+      return text ? `**${text}**` : "";
+    }
+    case "em":
+    case "i": {
+      const text = squash(renderChildren(el, options));
+      return text ? `*${text}*` : "";
+    }
+    case "br":
+      return "\n";
+    case "hr":
+      return block("---");
+    case "ul":
+    case "ol":
+      return renderList(el, options);
+    case "table":
+      return renderTable(el, options);
+    case "blockquote":
+      return block(
+        renderChildren(el, options)
+          .trim()
+          .split("\n")
+          .map((line) => `> ${line}`.trimEnd())
+          .join("\n")
+      );
+    case "li":
+      // Stray list item outside ul/ol
+      return block(`- ${renderChildren(el, options).trim()}`);
+    default:
+      return BLOCK_TAGS.has(el.tag)
+        ? block(renderChildren(el, options))
+        : renderChildren(el, options);
+  }
+}
+
+/**
+ * Convert an HTML page to Markdown. Relative links and images are resolved
+ * against baseUrl when given.
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const root = parseHtml(html);
+  const main = mainContent(root);
+  const markdown = renderNode(main ?? findFirst(root, (el) => el.tag === "body") ?? root, {
+    baseUrl,
+    insideMain: main !== undefined,
+  });
+
+  // Normalize whitespace outside fenced code blocks
+  const lines: string[] = [];
+  let fenceMarker: string | undefined;
+  for (const raw of markdown.split("\n")) {
+    const fenceMatch = raw.match(/^\s*(`{3,})/);
+    if (fenceMarker) {
+      lines.push(raw);
+      if (fenceMatch && fenceMatch[1] === fenceMarker) fenceMarker = undefined;
+      continue;
+    }
+    if (fenceMatch) fenceMarker = fenceMatch[1];
+    // Inline text directly after a block boundary keeps one collapsed space;
+    // list indentation is always two or more spaces
+    lines.push(raw.replace(/[ \t]+$/, "").replace(/^ (?=\S)/, ""));
+  }
+
+  return lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,178 @@
+/**
+ * Shared HTTP Client
+ *
+ * Single entry point for every outbound request made by the tools:
+ * - Per-attempt timeout (DEFAULT_API_TIMEOUT)
+ * - Retries with jittered exponential backoff on network errors, timeouts,
+ *   408, 429 and 5xx, honoring Retry-After (MAX_API_RETRIES)
+ * - Notifly User-Agent on every request
+ * - Relative URLs resolve against the Notifly API (DEFAULT_API_BASE_URL)
+ * - Failures surface as typed ApiError (statusCode set for HTTP errors)
+ */
+
+import {
+  DEFAULT_API_BASE_URL,
+  DEFAULT_API_TIMEOUT,
+  MAX_API_RETRIES,
+  API_RETRY_BASE_DELAY_MS,
+  API_RETRY_MAX_DELAY_MS,
+  MCP_USER_AGENT,
+} from "../constants.js";
+import { ApiError } from "../errors.js";
+import { fetchWithCache } from "./cache.js";
+import type { ServerContext } from "../types.js";
+
+export interface HttpRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  /** Raw request body */
+  body?: string;
+  /** JSON request body (sets Content-Type) */
+  json?: unknown;
+  /** Accept header (default: any) */
+  accept?: string;
+  /** Base URL for relative paths (default: DEFAULT_API_BASE_URL) */
+  baseUrl?: string;
+  /** Per-attempt timeout in ms (default: DEFAULT_API_TIMEOUT) */
+  timeoutMs?: number;
+  /** Retry attempts after the first request (default: MAX_API_RETRIES) */
+  retries?: number;
+  /** Base delay for exponential backoff in ms (default: API_RETRY_BASE_DELAY_MS) */
+  retryBaseDelayMs?: number;
+}
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into ms
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): Retry-After when the server
+ * sent one, otherwise full-jitter exponential backoff. Capped at
+ * API_RETRY_MAX_DELAY_MS either way.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  retryAfterMs: number | undefined,
+  baseDelayMs: number = API_RETRY_BASE_DELAY_MS
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, API_RETRY_MAX_DELAY_MS);
+  }
+  const ceiling = Math.min(baseDelayMs * 2 ** attempt, API_RETRY_MAX_DELAY_MS);
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Perform an HTTP request with timeout and retries.
+ * Resolves with the response for 2xx and 304; throws ApiError otherwise.
+ */
+export async function httpFetch(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+  const target = new URL(url, options.baseUrl ?? DEFAULT_API_BASE_URL).toString();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_API_TIMEOUT;
+  const retries = Math.max(0, options.retries ?? MAX_API_RETRIES);
+  const headers: Record<string, string> = {
+    "User-Agent": MCP_USER_AGENT,
+    Accept: options.accept ?? "*/*",
+    ...options.headers,
+  };
+  let body = options.body;
+  if (options.json !== undefined) {
+    headers["Content-Type"] = "application/json";
+    body = JSON.stringify(options.json);
+  }
+
+  let lastError: ApiError | undefined;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    let retryAfterMs: number | undefined;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(target, {
+        method: options.method ?? "GET",
+        headers,
+        body,
+        signal: controller.signal,
+      });
+
+      if (response.ok || response.status === 304) {
+        return response;
+      }
+
+      lastError = new ApiError(
+        `Request to ${target} failed: HTTP ${response.status}`,
+        response.status,
+        await response.text?.().catch(() => undefined)
+      );
+      if (!RETRYABLE_STATUS.has(response.status)) {
+        throw lastError;
+      }
+      retryAfterMs = parseRetryAfter(response.headers?.get?.("retry-after"));
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      lastError =
+        (error as Error)?.name === "AbortError"
+          ? new ApiError(`Request to ${target} timed out after ${timeoutMs}ms`)
+          : new ApiError(
+              `Request to ${target} failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt < retries) {
+      await sleep(computeRetryDelay(attempt, retryAfterMs, options.retryBaseDelayMs));
+    }
+  }
+
+  throw lastError ?? new ApiError(`Request to ${target} failed`);
+}
+
+/**
+ * Fetch a URL as text for a tool, through the offline snapshot or response
+ * cache configured on the context. Throws ApiError on failure.
+ */
+export async function fetchText(
+  context: ServerContext,
+  url: string,
+  options: HttpRequestOptions = {}
+): Promise<string> {
+  const response = await fetchWithCache(context, url, (conditionalHeaders) =>
+    httpFetch(url, { ...options, headers: { ...options.headers, ...conditionalHeaders } })
+  );
+  if (!response.ok) {
+    throw new ApiError(`Request to ${url} failed: HTTP ${response.status}`, response.status);
+  }
+  return response.text;
+}
+
+/**
+ * Short, user-facing description of a failed content fetch, for tools that
+ * report per-item failures inline instead of failing the whole call
+ */
+export function describeFetchError(error: unknown, sourceName: string): string {
+  if (error instanceof ApiError && error.statusCode) {
+    if (error.statusCode === 429) {
+      return `Rate limited by ${sourceName} (HTTP 429). Please try again later.`;
+    }
+    if (error.statusCode >= 500) {
+      return `${sourceName} server error (HTTP ${error.statusCode}). Please try again later.`;
+    }
+    return `Unable to fetch content (HTTP ${error.statusCode})`;
+  }
+  return `Error fetching content: ${error instanceof Error ? error.message : String(error)}`;
+}
@@ -0,0 +1,1357 @@
+/**
+ * Liquid Template Engine
+ *
+ * Parser and renderer for the Liquid subset used in Notifly message
+ * personalization: output tags with filters, if/unless/case/for,
+ * assign/capture, comment/raw and Connected Content. Templates are parsed to
+ * a tree first so they can be checked statically (referenced properties,
+ * fallbacks) before a preview is rendered.
+ */
+
+import { TemplateError } from "../errors.js";
+
+/** The `empty` and `blank` keywords of Liquid conditions */
+const EMPTY = Symbol("empty");
+const BLANK = Symbol("blank");
+
+export type Expression =
+  | { type: "literal"; value: unknown }
+  | { type: "variable"; root: string; path: Array<string | Expression> }
+  | { type: "range"; start: Expression; end: Expression };
+
+export interface Filter {
+  name: string;
+  args: Expression[];
+}
+
+export interface FilteredExpression {
+  expression: Expression;
+  filters: Filter[];
+}
+
+export type Condition =
+  | { type: "compare"; op: string; left: Expression; right: Expression }
+  | { type: "logic"; op: "and" | "or"; left: Condition; right: Condition }
+  | { type: "not"; condition: Condition }
+  | { type: "value"; expression: Expression };
+
+export type LiquidNode =
+  | { type: "text"; value: string }
+  | { type: "output"; value: FilteredExpression; line: number }
+  | {
+      type: "if";
+      branches: Array<{ condition: Condition; body: LiquidNode[] }>;
+      elseBody: LiquidNode[];
+      line: number;
+    }
+  | {
+      type: "case";
+      subject: Expression;
+      whens: Array<{ values: Expression[]; body: LiquidNode[] }>;
+      elseBody: LiquidNode[];
+      line: number;
+    }
+  | {
+      type: "for";
+      variable: string;
+      collection: Expression;
+      limit?: Expression;
+      offset?: Expression;
+      reversed: boolean;
+      body: LiquidNode[];
+      elseBody: LiquidNode[];
+      line: number;
+    }
+  | { type: "assign"; name: string; value: FilteredExpression; line: number }
+  | { type: "capture"; name: string; body: LiquidNode[]; line: number }
+  | { type: "connected_content"; url: LiquidNode[]; save: string; line: number }
+  | { type: "break" | "continue"; line: number };
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+interface Token {
+  kind: "text" | "output" | "tag";
+  value: string;
+  /** Tag name (tags only) */
+  name: string;
+  line: number;
+  trimLeft: boolean;
+  trimRight: boolean;
+}
+
+/** Tags whose content is not parsed */
+const VERBATIM_END: Record<string, RegExp> = {
+  raw: /\{%-?\s*endraw\s*-?%\}/g,
+  comment: /\{%-?\s*endcomment\s*-?%\}/g,
+};
+
+function newlines(text: string): number {
+  return text.split("\n").length - 1;
+}
+
+function syntaxError(message: string, line: number): TemplateError {
+  return new TemplateError(`Liquid syntax error: ${message}`, line);
+}
+
+function tokenize(source: string, firstLine = 1): Token[] {
+  const tokens: Token[] = [];
+  const open = /\{\{|\{%/g;
+  let pos = 0;
+  let line = firstLine;
+  const text = (value: string, at: number) =>
+    tokens.push({ kind: "text", value, name: "", line: at, trimLeft: false, trimRight: false });
+
+  while (pos < source.length) {
+    open.lastIndex = pos;
+    const match = open.exec(source);
+    const start = match ? match.index : source.length;
+    if (start > pos) {
+      text(source.slice(pos, start), line);
+      line += newlines(source.slice(pos, start));
+    }
+    if (!match) break;
+
+    const output = match[0] === "{{";
+    const end = source.indexOf(output ? "}}" : "%}", start + 2);
+    if (end === -1) {
+      throw syntaxError(`${match[0]} is never closed with ${output ? "}}" : "%}"}`, line);
+    }
+    const raw = source.slice(start + 2, end);
+    const trimLeft = raw.startsWith("-");
+    const trimRight = raw.endsWith("-") && raw.length > 1;
+    const inner = raw.slice(trimLeft ? 1 : 0, trimRight ? -1 : undefined).trim();
+    const tokenLine = line;
+    line += newlines(raw);
+    pos = end + 2;
+
+    if (output) {
+      if (!inner) throw syntaxError("empty {{ }}", tokenLine);
+      tokens.push({ kind: "output", value: inner, name: "", line: tokenLine, trimLeft, trimRight });
+      continue;
+    }
+    const name = inner.match(/^(#|[A-Za-z_]\w*)/)?.[1] ?? "";
+    if (!name) throw syntaxError(`missing tag name in {% ${inner} %}`, tokenLine);
+    if (name === "#") continue;
+
+    const verbatimEnd = VERBATIM_END[name];
+    if (verbatimEnd) {
+      verbatimEnd.lastIndex = pos;
+      const close = verbatimEnd.exec(source);
+      if (!close) {
+        throw syntaxError(`{% ${name} %} is never closed with {% end${name} %}`, tokenLine);
+      }
+      const content = source.slice(pos, close.index);
+      if (name === "raw") text(content, line);
+      line += newlines(content) + newlines(close[0]);
+      pos = close.index + close[0].length;
+      continue;
+    }
+    tokens.push({
+      kind: "tag",
+      value: inner.slice(name.length).trim(),
+      name,
+      line: tokenLine,
+      trimLeft,
+      trimRight,
+    });
+  }
+
+  // Whitespace control: {{- / -}} strip the whitespace of the neighbouring text
+  tokens.forEach((token, i) => {
+    const before = tokens[i - 1];
+    const after = tokens[i + 1];
+    if (token.trimLeft && before?.kind === "text") before.value = before.value.trimEnd();
+    if (token.trimRight && after?.kind === "text") after.value = after.value.trimStart();
+  });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Expressions
+
+interface Lexeme {
+  type: "string" | "number" | "ident" | "op" | "punct";
+  value: string;
+}
+
+const LEXEME =
+  /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(-?\d+(?:\.\d+)?)|(==|!=|<>|>=|<=|>|<|\.\.)|([|:,()[\].=])|([A-Za-z_$][\w$-]*\??))/y;
+
+const COMPARISON_OPS = new Set(["==", "!=", "<>", ">", "<", ">=", "<="]);
+
+function lex(markup: string, line: number): Lexeme[] {
+  const lexemes: Lexeme[] = [];
+  let pos = 0;
+  while (pos < markup.length) {
+    if (!markup.slice(pos).trim()) break;
+    LEXEME.lastIndex = pos;
+    const match = LEXEME.exec(markup);
+    if (!match) {
+      throw syntaxError(`unexpected "${markup.slice(pos).trim()[0]}" in "${markup}"`, line);
+    }
+    pos = LEXEME.lastIndex;
+    if (match[1] !== undefined || match[2] !== undefined) {
+      lexemes.push({ type: "string", value: (match[1] ?? match[2])!.replace(/\\(.)/g, "$1") });
+    } else if (match[3] !== undefined) {
+      lexemes.push({ type: "number", value: match[3] });
+    } else if (match[4] !== undefined) {
+      lexemes.push({ type: "op", value: match[4] });
+    } else if (match[5] !== undefined) {
+      lexemes.push({ type: "punct", value: match[5] });
+    } else {
+      lexemes.push({ type: "ident", value: match[6]! });
+    }
+  }
+  return lexemes;
+}
+
+class ExpressionParser {
+  private pos = 0;
+  private readonly lexemes: Lexeme[];
+
+  constructor(
+    private readonly markup: string,
+    private readonly line: number
+  ) {
+    this.lexemes = lex(markup, line);
+  }
+
+  private peek(offset = 0): Lexeme | undefined {
+    return this.lexemes[this.pos + offset];
+  }
+
+  private next(): Lexeme {
+    const lexeme = this.lexemes[this.pos++];
+    if (!lexeme) throw syntaxError(`unexpected end of "${this.markup}"`, this.line);
+    return lexeme;
+  }
+
+  private is(type: Lexeme["type"], value?: string, offset = 0): boolean {
+    const lexeme = this.peek(offset);
+    return lexeme?.type === type && (value === undefined || lexeme.value === value);
+  }
+
+  private expect(type: Lexeme["type"], value?: string): Lexeme {
+    const lexeme = this.next();
+    if (lexeme.type !== type || (value !== undefined && lexeme.value !== value)) {
+      throw syntaxError(
+        `expected ${value ? `"${value}"` : type} but found "${lexeme.value}" in "${this.markup}"`,
+        this.line
+      );
+    }
+    return lexeme;
+  }
+
+  done(): void {
+    const rest = this.peek();
+    if (rest) throw syntaxError(`unexpected "${rest.value}" in "${this.markup}"`, this.line);
+  }
+
+  atEnd(): boolean {
+    return this.peek() === undefined;
+  }
+
+  primary(): Expression {
+    const lexeme = this.next();
+    if (lexeme.type === "string") return { type: "literal", value: lexeme.value };
+    if (lexeme.type === "number") return { type: "literal", value: Number(lexeme.value) };
+    if (lexeme.type === "punct" && lexeme.value === "(") {
+      const start = this.primary();
+      this.expect("op", "..");
+      const end = this.primary();
+      this.expect("punct", ")");
+      return { type: "range", start, end };
+    }
+    if (lexeme.type !== "ident") {
+      throw syntaxError(
+        `expected a value but found "${lexeme.value}" in "${this.markup}"`,
+        this.line
+      );
+    }
+    const keywords: Record<string, unknown> = {
+      true: true,
+      false: false,
+      nil: null,
+      null: null,
+      empty: EMPTY,
+      blank: BLANK,
+    };
+    if (lexeme.value in keywords) return { type: "literal", value: keywords[lexeme.value] };
+
+    const path: Array<string | Expression> = [];
+    for (;;) {
+      if (this.is("punct", ".")) {
+        this.next();
+        const segment = this.next();
+        if (segment.type !== "ident" && segment.type !== "number") {
+          throw syntaxError(`expected a property name after "." in "${this.markup}"`, this.line);
+        }
+        path.push(segment.value);
+      } else if (this.is("punct", "[")) {
+        this.next();
+        const key = this.primary();
+        this.expect("punct", "]");
+        path.push(key.type === "literal" ? String(key.value) : key);
+      } else {
+        return { type: "variable", root: lexeme.value, path };
+      }
+    }
+  }
+
+  filtered(): FilteredExpression {
+    const expression = this.primary();
+    const filters: Filter[] = [];
+    while (this.is("punct", "|")) {
+      this.next();
+      const name = this.expect("ident").value;
+      const args: Expression[] = [];
+      if (this.is("punct", ":")) {
+        this.next();
+        do {
+          if (args.length > 0) this.expect("punct", ",");
+          // Named arguments (allow_false: true) are accepted by their value
+          if (this.is("ident") && this.is("punct", ":", 1)) {
+            this.next();
+            this.next();
+          }
+          args.push(this.primary());
+        } while (this.is("punct", ","));
+      }
+      checkFilter(name, args.length, this.line);
+      filters.push({ name, args });
+    }
+    return { expression, filters };
+  }
+
+  condition(): Condition {
+    const left = this.comparison();
+    if (this.is("ident", "and") || this.is("ident", "or")) {
+      const op = this.next().value as "and" | "or";
+      return { type: "logic", op, left, right: this.condition() };
+    }
+    return left;
+  }
+
+  private comparison(): Condition {
+    const left = this.primary();
+    const op = this.peek();
+    if (
+      (op?.type === "op" && COMPARISON_OPS.has(op.value)) ||
+      (op?.type === "ident" && op.value === "contains")
+    ) {
+      this.next();
+      return { type: "compare", op: op.value, left, right: this.primary() };
+    }
+    return { type: "value", expression: left };
+  }
+
+  /** for-loop options after the collection: limit:n offset:n reversed */
+  forOptions(): { limit?: Expression; offset?: Expression; reversed: boolean } {
+    const options: { limit?: Expression; offset?: Expression; reversed: boolean } = {
+      reversed: false,
+    };
+    while (!this.atEnd()) {
+      const name = this.expect("ident").value;
+      if (name === "reversed") {
+        options.reversed = true;
+      } else if (name === "limit" || name === "offset") {
+        this.expect("punct", ":");
+        options[name] = this.primary();
+      } else {
+        throw syntaxError(`unknown for-loop option "${name}"`, this.line);
+      }
+      if (this.is("punct", ",")) this.next();
+    }
+    return options;
+  }
+
+  /** Values of a {% when %}: separated by "," or "or" */
+  whenValues(): Expression[] {
+    const values = [this.primary()];
+    while (this.is("punct", ",") || this.is("ident", "or")) {
+      this.next();
+      values.push(this.primary());
+    }
+    return values;
+  }
+}
+
+function parseWith<T>(markup: string, line: number, parse: (parser: ExpressionParser) => T): T {
+  const parser = new ExpressionParser(markup, line);
+  const result = parse(parser);
+  parser.done();
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Filters
+
+type FilterFunction = (input: unknown, args: unknown[]) => unknown;
+
+interface FilterDefinition {
+  minArgs: number;
+  maxArgs: number;
+  apply: FilterFunction;
+}
+
+function isNil(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (typeof value === "string" || Array.isArray(value)) return value.length === 0;
+  if (value instanceof Map) return value.size === 0;
+  if (value && typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}
+
+function isBlank(value: unknown): boolean {
+  if (isNil(value) || value === false) return true;
+  if (typeof value === "string") return value.trim() === "";
+  return isEmpty(value);
+}
+
+/**
+ * Text a value renders as: nil renders empty, arrays are concatenated
+ */
+export function toText(value: unknown): string {
+  if (isNil(value) || value === EMPTY || value === BLANK) return "";
+  if (Array.isArray(value)) return value.map(toText).join("");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function toNumber(value: unknown): number {
+  const number = typeof value === "number" ? value : Number(toText(value));
+  return Number.isFinite(number) ? number : 0;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (isNil(value)) return [];
+  return [value];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function arithmetic(apply: (a: number, b: number) => number): FilterDefinition {
+  return {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (input, [operand]) => apply(toNumber(input), toNumber(operand)),
+  };
+}
+
+function stringFilter(
+  apply: (text: string, args: string[]) => string,
+  minArgs = 0,
+  maxArgs = minArgs
+) {
+  return {
+    minArgs,
+    maxArgs,
+    apply: (input: unknown, args: unknown[]) => apply(toText(input), args.map(toText)),
+  };
+}
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * strftime-style formatting in UTC, for the `date` filter
+ */
+function formatDate(date: Date, format: string): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const hours12 = date.getUTCHours() % 12 || 12;
+  const fields: Record<string, string> = {
+    Y: String(date.getUTCFullYear()),
+    y: pad(date.getUTCFullYear() % 100),
+    m: pad(date.getUTCMonth() + 1),
+    "-m": String(date.getUTCMonth() + 1),
+    d: pad(date.getUTCDate()),
+    "-d": String(date.getUTCDate()),
+    e: String(date.getUTCDate()).padStart(2, " "),
+    H: pad(date.getUTCHours()),
+    "-H": String(date.getUTCHours()),
+    I: pad(hours12),
+    "-I": String(hours12),
+    M: pad(date.getUTCMinutes()),
+    S: pad(date.getUTCSeconds()),
+    p: date.getUTCHours() < 12 ? "AM" : "PM",
+    B: MONTHS[date.getUTCMonth()]!,
+    b: MONTHS[date.getUTCMonth()]!.slice(0, 3),
+    A: WEEKDAYS[date.getUTCDay()]!,
+    a: WEEKDAYS[date.getUTCDay()]!.slice(0, 3),
+    s: String(Math.floor(date.getTime() / 1000)),
+    "%": "%",
+  };
+  return format.replace(/%(-?[A-Za-z%])/g, (match, field: string) => fields[field] ?? match);
+}
+
+function parseDate(value: unknown, now: Date): Date | undefined {
+  if (value instanceof Date) return value;
+  if (value === "now" || value === "today") return now;
+  if (typeof value === "number") return new Date(value * 1000);
+  if (typeof value === "string" && /^\d+$/.test(value)) return new Date(Number(value) * 1000);
+  if (typeof value === "string") {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : new Date(time);
+  }
+  return undefined;
+}
+
+/**
+ * Render limits. Templates come from any client of the shared server process,
+ * so a single render must not exhaust its memory or CPU.
+ */
+export const LIQUID_LIMITS = {
+  /** Items in a (start..end) range */
+  rangeLength: 10_000,
+  /** for loop iterations in one render, across all loops */
+  iterations: 100_000,
+  /** Characters of the output and of any value a filter produces */
+  outputLength: 1_000_000,
+};
+
+/**
+ * Join strings, refusing results over the output limit before building them
+ */
+function joinLimited(parts: string[], separator: string): string {
+  const length =
+    parts.reduce((total, part) => total + part.length, 0) +
+    separator.length * Math.max(0, parts.length - 1);
+  if (length > LIQUID_LIMITS.outputLength) {
+    throw new Error(
+      `result would be ${length} characters; the limit is ${LIQUID_LIMITS.outputLength}`
+    );
+  }
+  return parts.join(separator);
+}
+
+/** Current time for the `date` filter; set per render */
+let renderNow = new Date();
+
+const FILTERS: Record<string, FilterDefinition> = {
+  default: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (input, [fallback]) =>
+      isNil(input) || input === false || isEmpty(input) ? fallback : input,
+  },
+  upcase: stringFilter((text) => text.toUpperCase()),
+  downcase: stringFilter((text) => text.toLowerCase()),
+  capitalize: stringFilter((text) => text.charAt(0).toUpperCase() + text.slice(1).toLowerCase()),
+  strip: stringFilter((text) => text.trim()),
+  lstrip: stringFilter((text) => text.trimStart()),
+  rstrip: stringFilter((text) => text.trimEnd()),
+  strip_newlines: stringFilter((text) => text.replace(/\r?\n/g, "")),
+  newline_to_br: stringFilter((text) => text.replace(/\r?\n/g, "<br />\n")),
+  strip_html: stringFilter((text) => text.replace(/<[^>]*>/g, "")),
+  escape: stringFilter(escapeHtml),
+  url_encode: stringFilter((text) => encodeURIComponent(text).replace(/%20/g, "+")),
+  url_decode: stringFilter((text) => decodeURIComponent(text.replace(/\+/g, " "))),
+  append: stringFilter((text, [suffix]) => text + suffix, 1),
+  prepend: stringFilter((text, [prefix]) => prefix + text, 1),
+  replace: stringFilter((text, [from, to]) => joinLimited(text.split(from!), to!), 2),
+  replace_first: stringFilter((text, [from, to]) => text.replace(from!, () => to!), 2),
+  remove: stringFilter((text, [part]) => text.split(part!).join(""), 1),
+  remove_first: stringFilter((text, [part]) => text.replace(part!, ""), 1),
+  truncate: {
+    minArgs: 0,
+    maxArgs: 2,
+    apply: (input, [length, ellipsis]) => {
+      const text = toText(input);
+      const max = isNil(length) ? 50 : toNumber(length);
+      const tail = isNil(ellipsis) ? "..." : toText(ellipsis);
+      return text.length <= max ? text : text.slice(0, Math.max(0, max - tail.length)) + tail;
+    },
+  },
+  truncatewords: {
+    minArgs: 0,
+    maxArgs: 2,
+    apply: (input, [count, ellipsis]) => {
+      const words = toText(input).split(/\s+/).filter(Boolean);
+      const max = Math.max(1, isNil(count) ? 15 : toNumber(count));
+      const tail = isNil(ellipsis) ? "..." : toText(ellipsis);
+      return words.length <= max ? words.join(" ") : words.slice(0, max).join(" ") + tail;
+    },
+  },
+  split: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (input, [separator]) => toText(input).split(toText(separator)),
+  },
+  join: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (input, [separator]) =>
+      joinLimited(toArray(input).map(toText), isNil(separator) ? " " : toText(separator)),
+  },
+  slice: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (input, [start, length]) => {
+      const count = isNil(length) ? 1 : toNumber(length);
+      const source = Array.isArray(input) ? input : toText(input);
+      const from = toNumber(start) < 0 ? source.length + toNumber(start) : toNumber(start);
+      return source.slice(from, from + count);
+    },
+  },
+  size: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (input) =>
+      typeof input === "string" || Array.isArray(input)
+        ? input.length
+        : input && typeof input === "object"
+          ? Object.keys(input).length
+          : 0,
+  },
+  first: { minArgs: 0, maxArgs: 0, apply: (input) => toArray(input)[0] },
+  last: { minArgs: 0, maxArgs: 0, apply: (input) => toArray(input).at(-1) },
+  reverse: { minArgs: 0, maxArgs: 0, apply: (input) => [...toArray(input)].reverse() },
+  sort: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (input) =>
+      [...toArray(input)].sort((a, b) =>
+        typeof a === "number" && typeof b === "number" ? a - b : toText(a).localeCompare(toText(b))
+      ),
+  },
+  uniq: { minArgs: 0, maxArgs: 0, apply: (input) => [...new Set(toArray(input))] },
+  compact: { minArgs: 0, maxArgs: 0, apply: (input) => toArray(input).filter((v) => !isNil(v)) },
+  map: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (input, [key]) => toArray(input).map((item) => member(item, toText(key))),
+  },
+  plus: arithmetic((a, b) => a + b),
+  minus: arithmetic((a, b) => a - b),
+  times: arithmetic((a, b) => a * b),
+  divided_by: arithmetic((a, b) => {
+    if (b === 0) throw new Error("divided by 0");
+    return Number.isInteger(a) && Number.isInteger(b) ? Math.floor(a / b) : a / b;
+  }),
+  modulo: arithmetic((a, b) => {
+    if (b === 0) throw new Error("divided by 0");
+    return a % b;
+  }),
+  at_least: arithmetic((a, b) => Math.max(a, b)),
+  at_most: arithmetic((a, b) => Math.min(a, b)),
+  round: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (input, [digits]) => {
+      const factor = 10 ** (isNil(digits) ? 0 : toNumber(digits));
+      return Math.round(toNumber(input) * factor) / factor;
+    },
+  },
+  floor: { minArgs: 0, maxArgs: 0, apply: (input) => Math.floor(toNumber(input)) },
+  ceil: { minArgs: 0, maxArgs: 0, apply: (input) => Math.ceil(toNumber(input)) },
+  abs: { minArgs: 0, maxArgs: 0, apply: (input) => Math.abs(toNumber(input)) },
+  date: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (input, [format]) => {
+      const date = parseDate(input, renderNow);
+      return date ? formatDate(date, toText(format)) : input;
+    },
+  },
+};
+
+/** Names of the supported filters */
+export const LIQUID_FILTERS = Object.keys(FILTERS);
+
+/**
+ * Edit distance, for suggesting the filter a misspelled name meant
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function checkFilter(name: string, argCount: number, line: number): void {
+  const filter = FILTERS[name];
+  if (!filter) {
+    const suggestion = LIQUID_FILTERS.find((known) => editDistance(name, known) <= 2);
+    throw syntaxError(
+      `unknown filter "${name}"${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`,
+      line
+    );
+  }
+  if (argCount < filter.minArgs || argCount > filter.maxArgs) {
+    const expected =
+      filter.minArgs === filter.maxArgs
+        ? `${filter.minArgs}`
+        : `${filter.minArgs}-${filter.maxArgs}`;
+    throw syntaxError(
+      name === "default" && argCount === 0
+        ? `the default filter needs a fallback value, e.g. | default: "고객"`
+        : `filter "${name}" takes ${expected} argument(s), got ${argCount}`,
+      line
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+
+/** Tags that only appear inside a block; outside one they are errors */
+const BLOCK_DELIMITERS = new Set([
+  "else",
+  "elsif",
+  "when",
+  "endif",
+  "endunless",
+  "endcase",
+  "endfor",
+  "endcapture",
+]);
+
+class TemplateParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): LiquidNode[] {
+    return this.parseUntil([]).nodes;
+  }
+
+  /**
+   * Nodes up to one of the `stops` tags; the last stop is the block's end tag
+   */
+  private parseUntil(stops: string[], opener?: Token): { nodes: LiquidNode[]; stop?: Token } {
+    const nodes: LiquidNode[] = [];
+    while (this.index < this.tokens.length) {
+      const token = this.tokens[this.index++]!;
+      if (token.kind === "text") {
+        nodes.push({ type: "text", value: token.value });
+      } else if (token.kind === "output") {
+        nodes.push({
+          type: "output",
+          value: parseWith(token.value, token.line, (p) => p.filtered()),
+          line: token.line,
+        });
+      } else if (stops.includes(token.name)) {
+        return { nodes, stop: token };
+      } else {
+        nodes.push(this.parseTag(token));
+      }
+    }
+    if (opener) {
+      throw syntaxError(
+        `{% ${opener.name} %} is never closed with {% ${stops.at(-1)} %}`,
+        opener.line
+      );
+    }
+    return { nodes };
+  }
+
+  private parseTag(token: Token): LiquidNode {
+    const { name, value: markup, line } = token;
+    switch (name) {
+      case "if":
+      case "unless": {
+        const end = `end${name}`;
+        const first = parseWith(markup, line, (p) => p.condition());
+        const branches = [
+          {
+            condition: name === "if" ? first : ({ type: "not", condition: first } as Condition),
+            body: [] as LiquidNode[],
+          },
+        ];
+        let elseBody: LiquidNode[] = [];
+        for (;;) {
+          const { nodes, stop } = this.parseUntil(["elsif", "else", end], token);
+          branches.at(-1)!.body = nodes;
+          if (stop!.name === "elsif") {
+            branches.push({
+              condition: parseWith(stop!.value, stop!.line, (p) => p.condition()),
+              body: [],
+            });
+            continue;
+          }
+          if (stop!.name === "else") elseBody = this.parseUntil([end], token).nodes;
+          break;
+        }
+        return { type: "if", branches, elseBody, line };
+      }
+      case "case": {
+        const subject = parseWith(markup, line, (p) => p.primary());
+        const whens: Array<{ values: Expression[]; body: LiquidNode[] }> = [];
+        let elseBody: LiquidNode[] = [];
+        let { stop } = this.parseUntil(["when", "else", "endcase"], token);
+        while (stop!.name === "when") {
+          const values = parseWith(stop!.value, stop!.line, (p) => p.whenValues());
+          const next = this.parseUntil(["when", "else", "endcase"], token);
+          whens.push({ values, body: next.nodes });
+          stop = next.stop;
+        }
+        if (stop!.name === "else") elseBody = this.parseUntil(["endcase"], token).nodes;
+        return { type: "case", subject, whens, elseBody, line };
+      }
+      case "for": {
+        const match = markup.match(/^([A-Za-z_][\w-]*)\s+in\s+([\s\S]+)$/);
+        if (!match) {
+          throw syntaxError(`expected {% for item in collection %}, got {% for ${markup} %}`, line);
+        }
+        const parser = new ExpressionParser(match[2]!, line);
+        const collection = parser.primary();
+        const options = parser.forOptions();
+        const { nodes, stop } = this.parseUntil(["else", "endfor"], token);
+        const elseBody = stop!.name === "else" ? this.parseUntil(["endfor"], token).nodes : [];
+        return {
+          type: "for",
+          variable: match[1]!,
+          collection,
+          ...options,
+          body: nodes,
+          elseBody,
+          line,
+        };
+      }
+      case "assign": {
+        const match = markup.match(/^([A-Za-z_][\w-]*)\s*=\s*([\s\S]+)$/);
+        if (!match) {
+          throw syntaxError(`expected {% assign name = value %}, got {% assign ${markup} %}`, line);
+        }
+        return {
+          type: "assign",
+          name: match[1]!,
+          value: parseWith(match[2]!, line, (p) => p.filtered()),
+          line,
+        };
+      }
+      case "capture": {
+        const captureName = markup.replace(/^["']|["']$/g, "");
+        if (!/^[A-Za-z_][\w-]*$/.test(captureName)) {
+          throw syntaxError(`expected {% capture name %}, got {% capture ${markup} %}`, line);
+        }
+        return {
+          type: "capture",
+          name: captureName,
+          body: this.parseUntil(["endcapture"], token).nodes,
+          line,
+        };
+      }
+      case "echo":
+        return { type: "output", value: parseWith(markup, line, (p) => p.filtered()), line };
+      case "connected_content": {
+        // {% connected_content https://api.example.com/{{ user.id }} :save result %}
+        const [url = ""] = markup.split(/\s+:(?=\w)/);
+        if (!url.trim()) throw syntaxError("connected_content needs a URL", line);
+        const save = markup.match(/\s:save\s+([A-Za-z_][\w-]*)/)?.[1] ?? "connected";
+        return {
+          type: "connected_content",
+          url: new TemplateParser(tokenize(url.trim(), line)).parse(),
+          save,
+          line,
+        };
+      }
+      case "break":
+      case "continue":
+        return { type: name, line };
+      default:
+        if (BLOCK_DELIMITERS.has(name)) {
+          throw syntaxError(`unexpected {% ${name} %} without a matching opening tag`, line);
+        }
+        throw syntaxError(`unknown tag {% ${name} %}`, line);
+    }
+  }
+}
+
+/**
+ * Parse a Liquid template. Throws TemplateError on syntax errors.
+ */
+export function parseTemplate(source: string): LiquidNode[] {
+  return new TemplateParser(tokenize(source)).parse();
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+
+export interface RenderOptions {
+  /** Root variables, e.g. { user: {...}, event: {...} } */
+  variables: Record<string, unknown>;
+  /** Connected Content response for a URL; undefined when there is none */
+  connectedContent?: (url: string) => unknown;
+  /** Time used for "now" in the date filter */
+  now?: Date;
+}
+
+class LoopInterrupt {
+  constructor(readonly kind: "break" | "continue") {}
+}
+
+function member(value: unknown, key: string): unknown {
+  if (isNil(value)) return undefined;
+  if (Array.isArray(value) || typeof value === "string") {
+    if (key === "size") return value.length;
+    if (Array.isArray(value)) {
+      if (key === "first") return value[0];
+      if (key === "last") return value.at(-1);
+      if (/^-?\d+$/.test(key)) return value.at(Number(key));
+    }
+    return undefined;
+  }
+  if (typeof value === "object") {
+    if (Object.prototype.hasOwnProperty.call(value, key)) {
+      return (value as Record<string, unknown>)[key];
+    }
+    if (key === "size") return Object.keys(value).length;
+  }
+  return undefined;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (b === EMPTY) return a === EMPTY || isEmpty(a);
+  if (a === EMPTY) return isEmpty(b);
+  if (b === BLANK) return a === BLANK || isBlank(a);
+  if (a === BLANK) return isBlank(b);
+  if (isNil(a) || isNil(b)) return isNil(a) && isNil(b);
+  return a === b;
+}
+
+function truthy(value: unknown): boolean {
+  return value !== false && !isNil(value);
+}
+
+class TemplateRenderer {
+  /** Variable scopes, innermost last; assign and capture write to the first */
+  private readonly scopes: Array<Record<string, unknown>>;
+  /** Line of the node being rendered, for errors raised while evaluating it */
+  private line?: number;
+  /** for loop iterations so far, against LIQUID_LIMITS.iterations */
+  private iterations = 0;
+
+  constructor(private readonly options: RenderOptions) {
+    this.scopes = [{ ...options.variables }];
+  }
+
+  render(nodes: LiquidNode[]): string {
+    let output = "";
+    for (const node of nodes) {
+      output = this.append(output, this.renderNode(node));
+    }
+    return output;
+  }
+
+  /**
+   * Concatenate output, enforcing the output limit. Every rendered string is
+   * built through here, so the limit also holds inside loops and captures.
+   */
+  private append(output: string, text: string): string {
+    if (output.length + text.length > LIQUID_LIMITS.outputLength) {
+      throw this.limitError(`output exceeds ${LIQUID_LIMITS.outputLength} characters`);
+    }
+    return output + text;
+  }
+
+  private limitError(message: string): TemplateError {
+    return new TemplateError(`Liquid render error: ${message}`, this.line);
+  }
+
+  private renderNode(node: LiquidNode): string {
+    if ("line" in node) this.line = node.line;
+    switch (node.type) {
+      case "text":
+        return node.value;
+      case "output":
+        return toText(this.filtered(node.value, node.line));
+      case "if": {
+        const branch = node.branches.find((b) => this.test(b.condition));
+        return this.render(branch ? branch.body : node.elseBody);
+      }
+      case "case": {
+        const subject = this.evaluate(node.subject);
+        const matching = node.whens.filter((w) =>
+          w.values.some((v) => equals(subject, this.evaluate(v)))
+        );
+        return matching.length > 0
+          ? matching.reduce((output, w) => this.append(output, this.render(w.body)), "")
+          : this.render(node.elseBody);
+      }
+      case "for":
+        return this.renderFor(node);
+      case "assign":
+        this.scopes[0]![node.name] = this.filtered(node.value, node.line);
+        return "";
+      case "capture":
+        this.scopes[0]![node.name] = this.render(node.body);
+        return "";
+      case "connected_content": {
+        const url = this.render(node.url).trim();
+        const response = this.options.connectedContent?.(url);
+        if (response === undefined) {
+          throw new TemplateError(
+            `Liquid render error: no Connected Content response for ${url}`,
+            node.line
+          );
+        }
+        this.scopes[0]![node.save] = response;
+        return "";
+      }
+      case "break":
+      case "continue":
+        throw new LoopInterrupt(node.type);
+    }
+  }
+
+  private renderFor(node: Extract<LiquidNode, { type: "for" }>): string {
+    const collection = this.evaluate(node.collection);
+    let items =
+      collection && typeof collection === "object" && !Array.isArray(collection)
+        ? Object.entries(collection)
+        : toArray(collection);
+    const offset = node.offset ? toNumber(this.evaluate(node.offset)) : 0;
+    const limit = node.limit ? toNumber(this.evaluate(node.limit)) : items.length;
+    items = items.slice(offset, offset + limit);
+    if (node.reversed) items.reverse();
+    if (items.length === 0) return this.render(node.elseBody);
+
+    let output = "";
+    const scope: Record<string, unknown> = {};
+    this.scopes.push(scope);
+    try {
+      for (const [index, item] of items.entries()) {
+        if (++this.iterations > LIQUID_LIMITS.iterations) {
+          this.line = node.line;
+          throw this.limitError(
+            `loops run more than ${LIQUID_LIMITS.iterations} iterations in total`
+          );
+        }
+        scope[node.variable] = item;
+        scope.forloop = {
+          index: index + 1,
+          index0: index,
+          rindex: items.length - index,
+          rindex0: items.length - index - 1,
+          first: index === 0,
+          last: index === items.length - 1,
+          length: items.length,
+        };
+        try {
+          output = this.append(output, this.render(node.body));
+        } catch (error) {
+          if (!(error instanceof LoopInterrupt)) throw error;
+          if (error.kind === "break") break;
+        }
+      }
+    } finally {
+      this.scopes.pop();
+    }
+    return output;
+  }
+
+  private lookup(root: string): unknown {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const scope = this.scopes[i]!;
+      if (Object.prototype.hasOwnProperty.call(scope, root)) return scope[root];
+    }
+    return undefined;
+  }
+
+  private evaluate(expression: Expression): unknown {
+    switch (expression.type) {
+      case "literal":
+        return expression.value;
+      case "range": {
+        const start = Math.trunc(toNumber(this.evaluate(expression.start)));
+        const end = Math.trunc(toNumber(this.evaluate(expression.end)));
+        const length = Math.max(0, end - start + 1);
+        if (length > LIQUID_LIMITS.rangeLength) {
+          throw this.limitError(
+            `range (${start}..${end}) has ${length} items; the limit is ${LIQUID_LIMITS.rangeLength}`
+          );
+        }
+        return Array.from({ length }, (_, i) => start + i);
+      }
+      case "variable": {
+        let value = this.lookup(expression.root);
+        for (const segment of expression.path) {
+          const key = typeof segment === "string" ? segment : toText(this.evaluate(segment));
+          value = member(value, key);
+        }
+        return value;
+      }
+    }
+  }
+
+  private filtered(value: FilteredExpression, line: number): unknown {
+    let result = this.evaluate(value.expression);
+    for (const filter of value.filters) {
+      const args = filter.args.map((arg) => this.evaluate(arg));
+      try {
+        result = FILTERS[filter.name]!.apply(result, args);
+        if (typeof result === "string" && result.length > LIQUID_LIMITS.outputLength) {
+          throw new Error(`result exceeds ${LIQUID_LIMITS.outputLength} characters`);
+        }
+      } catch (error) {
+        throw new TemplateError(
+          `Liquid render error: ${filter.name}: ${error instanceof Error ? error.message : String(error)}`,
+          line
+        );
+      }
+    }
+    return result;
+  }
+
+  private test(condition: Condition): boolean {
+    switch (condition.type) {
+      case "value":
+        return truthy(this.evaluate(condition.expression));
+      case "not":
+        return !this.test(condition.condition);
+      case "logic":
+        return condition.op === "and"
+          ? this.test(condition.left) && this.test(condition.right)
+          : this.test(condition.left) || this.test(condition.right);
+      case "compare": {
+        const left = this.evaluate(condition.left);
+        const right = this.evaluate(condition.right);
+        switch (condition.op) {
+          case "==":
+            return equals(left, right);
+          case "!=":
+          case "<>":
+            return !equals(left, right);
+          case "contains":
+            if (typeof left === "string") return left.includes(toText(right));
+            return Array.isArray(left) && left.some((item) => equals(item, right));
+          default: {
+            const comparable =
+              (typeof left === "number" && typeof right === "number") ||
+              (typeof left === "string" && typeof right === "string");
+            if (!comparable) return false;
+            const [a, b] = [left as number | string, right as number | string];
+            if (condition.op === ">") return a > b;
+            if (condition.op === "<") return a < b;
+            if (condition.op === ">=") return a >= b;
+            return a <= b;
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Render parsed template nodes. Throws TemplateError on render errors.
+ */
+export function renderTemplate(nodes: LiquidNode[], options: RenderOptions): string {
+  renderNow = options.now ?? new Date();
+  try {
+    return new TemplateRenderer(options).render(nodes);
+  } catch (error) {
+    if (error instanceof LoopInterrupt) return "";
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Static analysis
+
+export interface VariableReference {
+  /** Root variable name, e.g. "user" */
+  root: string;
+  /** Static property path below the root; dynamic segments stop the path */
+  path: string[];
+  line: number;
+  usage: "output" | "condition" | "argument";
+  /**
+   * Whether a missing value is handled: the output has a default filter or
+   * sits in a branch that checks the same variable
+   */
+  fallback: boolean;
+  /** The default filter's fallback renders empty */
+  emptyFallback: boolean;
+}
+
+export interface TemplateAnalysis {
+  references: VariableReference[];
+  /** Variables defined by the template: assign, capture, for and Connected Content */
+  locals: Set<string>;
+}
+
+function staticPath(expression: Extract<Expression, { type: "variable" }>): string[] {
+  const path: string[] = [];
+  for (const segment of expression.path) {
+    if (typeof segment !== "string") break;
+    path.push(segment);
+  }
+  return path;
+}
+
+function variableKey(expression: Extract<Expression, { type: "variable" }>): string {
+  return [expression.root, ...staticPath(expression)].join(".");
+}
+
+/**
+ * Variables a condition requires to be truthy for its branch to run
+ */
+function guardedBy(condition: Condition): string[] {
+  if (condition.type === "value" && condition.expression.type === "variable") {
+    return [variableKey(condition.expression)];
+  }
+  if (condition.type === "compare" && condition.left.type === "variable") {
+    const right = condition.right;
+    const checksPresence =
+      (condition.op === "!=" || condition.op === "<>") &&
+      right.type === "literal" &&
+      (right.value === null ||
+        right.value === EMPTY ||
+        right.value === BLANK ||
+        right.value === "");
+    return checksPresence ? [variableKey(condition.left)] : [];
+  }
+  if (condition.type === "logic" && condition.op === "and") {
+    return [...guardedBy(condition.left), ...guardedBy(condition.right)];
+  }
+  return [];
+}
+
+/**
+ * Collect the variables a template reads and whether each has a fallback
+ */
+export function analyzeTemplate(nodes: LiquidNode[]): TemplateAnalysis {
+  const references: VariableReference[] = [];
+  const locals = new Set<string>();
+
+  const addExpression = (
+    expression: Expression,
+    line: number,
+    usage: VariableReference["usage"],
+    fallback = false,
+    emptyFallback = false
+  ) => {
+    if (expression.type === "range") {
+      addExpression(expression.start, line, "argument");
+      addExpression(expression.end, line, "argument");
+    } else if (expression.type === "variable") {
+      references.push({
+        root: expression.root,
+        path: staticPath(expression),
+        line,
+        usage,
+        fallback,
+        emptyFallback,
+      });
+      for (const segment of expression.path) {
+        if (typeof segment !== "string") addExpression(segment, line, "argument");
+      }
+    }
+  };
+  const addFiltered = (
+    value: FilteredExpression,
+    line: number,
+    usage: VariableReference["usage"],
+    guarded: Set<string>
+  ) => {
+    const fallbackFilter = value.filters.find((f) => f.name === "default");
+    const fallbackArg = fallbackFilter?.args[0];
+    const guard =
+      value.expression.type === "variable" && guarded.has(variableKey(value.expression));
+    addExpression(
+      value.expression,
+      line,
+      usage,
+      Boolean(fallbackFilter) || guard,
+      !guard && fallbackArg?.type === "literal" && toText(fallbackArg.value).trim() === ""
+    );
+    for (const filter of value.filters) {
+      for (const arg of filter.args) addExpression(arg, line, "argument");
+    }
+  };
+  const addCondition = (condition: Condition, line: number) => {
+    if (condition.type === "value") addExpression(condition.expression, line, "condition");
+    else if (condition.type === "not") addCondition(condition.condition, line);
+    else if (condition.type === "logic") {
+      addCondition(condition.left, line);
+      addCondition(condition.right, line);
+    } else {
+      addExpression(condition.left, line, "condition");
+      addExpression(condition.right, line, "condition");
+    }
+  };
+
+  const walk = (body: LiquidNode[], guarded: Set<string>) => {
+    for (const node of body) {
+      switch (node.type) {
+        case "output":
+          addFiltered(node.value, node.line, "output", guarded);
+          break;
+        case "if":
+          for (const branch of node.branches) {
+            addCondition(branch.condition, node.line);
+            walk(branch.body, new Set([...guarded, ...guardedBy(branch.condition)]));
+          }
+          walk(node.elseBody, guarded);
+          break;
+        case "case":
+          addExpression(node.subject, node.line, "condition");
+          for (const when of node.whens) walk(when.body, guarded);
+          walk(node.elseBody, guarded);
+          break;
+        case "for":
+          locals.add(node.variable);
+          locals.add("forloop");
+          addExpression(node.collection, node.line, "argument");
+          walk(node.body, guarded);
+          walk(node.elseBody, guarded);
+          break;
+        case "assign":
+          locals.add(node.name);
+          addFiltered(node.value, node.line, "argument", guarded);
+          break;
+        case "capture":
+          locals.add(node.name);
+          walk(node.body, guarded);
+          break;
+        case "connected_content":
+          locals.add(node.save);
+          // Values in the URL are request parameters, not message text
+          for (const part of node.url) {
+            if (part.type === "output") addFiltered(part.value, node.line, "argument", guarded);
+          }
+          break;
+        default:
+          break;
+      }
+    }
+  };
+
+  walk(nodes, new Set());
+  return { references, locals };
+}
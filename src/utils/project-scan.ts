@@ -0,0 +1,96 @@
+/**
+ * Local Project Scanner
+ *
+ * Lists the files of an app project on disk, skipping dependency, build and
+ * VCS directories, and reads them with a size limit. Used to audit an app's
+ * Notifly integration.
+ */
+
+import { readdir, readFile, stat } from "fs/promises";
+import path from "path";
+
+/**
+ * Directories never descended into: dependencies, build output, tooling state
+ */
+const SKIPPED_DIRECTORIES = new Set([
+  ".git",
+  ".gradle",
+  ".dart_tool",
+  ".build",
+  ".expo",
+  ".idea",
+  ".next",
+  ".vscode",
+  "build",
+  "Carthage",
+  "DerivedData",
+  "dist",
+  "node_modules",
+  "Pods",
+  "vendor",
+]);
+
+const MAX_DEPTH = 12;
+
+/** Files larger than this are not read (generated or binary files) */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+export interface ProjectFiles {
+  root: string;
+  /** Paths relative to the root, with "/" separators, sorted */
+  files: string[];
+  /** Whether the file limit stopped the scan early */
+  truncated: boolean;
+}
+
+/**
+ * List project files breadth-first, up to `maxFiles`
+ */
+export async function scanProject(root: string, maxFiles: number): Promise<ProjectFiles> {
+  const files: string[] = [];
+  let truncated = false;
+  let level: Array<{ dir: string; depth: number }> = [{ dir: "", depth: 0 }];
+
+  while (level.length > 0 && !truncated) {
+    const next: typeof level = [];
+    for (const { dir, depth } of level) {
+      let entries;
+      try {
+        entries = await readdir(path.join(root, dir), { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        const relative = dir ? `${dir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (!SKIPPED_DIRECTORIES.has(entry.name) && depth < MAX_DEPTH) {
+            next.push({ dir: relative, depth: depth + 1 });
+          }
+        } else if (entry.isFile()) {
+          if (files.length >= maxFiles) {
+            truncated = true;
+            break;
+          }
+          files.push(relative);
+        }
+      }
+      if (truncated) break;
+    }
+    level = next;
+  }
+
+  return { root, files: files.sort(), truncated };
+}
+
+/**
+ * Read a project file as text, or undefined when it is missing or too large
+ */
+export async function readProjectFile(root: string, file: string): Promise<string | undefined> {
+  const fullPath = path.join(root, file);
+  try {
+    if ((await stat(fullPath)).size > MAX_FILE_BYTES) return undefined;
+    return await readFile(fullPath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
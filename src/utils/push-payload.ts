@@ -0,0 +1,434 @@
+/**
+ * Push Payloads
+ *
+ * Builds and checks the APNs and FCM payloads the Notifly SDKs handle:
+ * - iOS: an APNs payload with `mutable-content` so the Notification Service
+ *   Extension can attach the image and report delivery, and the Notifly keys
+ *   next to `aps`
+ * - Android: an FCM HTTP v1 data-only message, so the SDK (not the system)
+ *   shows the notification and tracks the click
+ *
+ * The Notifly key names are passed in per platform, as found in that SDK's push
+ * sources; NOTIFLY_PUSH_KEYS is only the fallback when the sources are
+ * unavailable.
+ */
+
+import { APNS_PAYLOAD_MAX_BYTES, FCM_DATA_MAX_BYTES } from "../constants.js";
+
+export type PushPlatform = "ios" | "android";
+
+/** Keys the Notifly SDKs read from a push for click tracking, deep links and images */
+export interface NotiflyPushKeys {
+  campaignId: string;
+  messageId: string;
+  link: string;
+  imageUrl: string;
+}
+
+/** Fallback key names, used when the SDK push sources cannot be read */
+export const NOTIFLY_PUSH_KEYS: Readonly<NotiflyPushKeys> = {
+  campaignId: "notifly_campaign_id",
+  messageId: "notifly_message_id",
+  link: "notifly_link",
+  imageUrl: "notifly_image_url",
+};
+
+/** FCM rejects these data keys */
+const FCM_RESERVED_KEYS = ["from", "notification", "message_type"];
+const FCM_RESERVED_PREFIXES = ["google.", "gcm."];
+
+export interface PushContent {
+  title: string;
+  body: string;
+  imageUrl?: string;
+  link?: string;
+  campaignId?: string;
+  messageId?: string;
+  data?: Record<string, unknown>;
+  badge?: number;
+  sound?: string;
+}
+
+export interface PushIssue {
+  platform: PushPlatform;
+  severity: "error" | "warning";
+  /** Dotted path of the offending field; empty for the whole payload */
+  path: string;
+  message: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Size of a payload as sent: its UTF-8 encoded JSON
+ */
+export function payloadSize(payload: unknown): number {
+  return Buffer.byteLength(JSON.stringify(payload), "utf8");
+}
+
+/**
+ * Custom data keys the payload sets itself, which would be overwritten
+ */
+function checkCustomData(
+  data: JsonObject,
+  keys: Record<PushPlatform, NotiflyPushKeys>
+): PushIssue[] {
+  const issues: PushIssue[] = [];
+  for (const key of Object.keys(data)) {
+    for (const platform of ["ios", "android"] as const) {
+      if (
+        Object.values(keys[platform]).includes(key) ||
+        key === "aps" ||
+        key === "title" ||
+        key === "body"
+      ) {
+        issues.push({
+          platform,
+          severity: "error",
+          path: `data.${key}`,
+          message: `Custom data key "${key}" is set by the payload itself; rename it.`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * APNs payload for a Notifly push: alert in `aps`, Notifly keys and custom data
+ * next to it
+ */
+export function buildApnsPayload(
+  content: PushContent,
+  keys: NotiflyPushKeys = NOTIFLY_PUSH_KEYS
+): JsonObject {
+  const aps: JsonObject = {
+    alert: { title: content.title, body: content.body },
+    sound: content.sound ?? "default",
+    ...(content.badge !== undefined ? { badge: content.badge } : {}),
+    // The Notification Service Extension only runs with mutable-content: it
+    // attaches the image and reports delivery
+    "mutable-content": 1,
+  };
+  return {
+    aps,
+    ...content.data,
+    ...notiflyFields(content, keys),
+  };
+}
+
+/**
+ * FCM HTTP v1 message for a Notifly push. It is data-only: a `notification`
+ * block would be shown by the system while the app is in the background,
+ * bypassing the SDK. FCM data values must be strings.
+ */
+export function buildFcmMessage(
+  content: PushContent,
+  keys: NotiflyPushKeys = NOTIFLY_PUSH_KEYS
+): JsonObject {
+  const data: Record<string, string> = {};
+  for (const [key, value] of Object.entries(content.data ?? {})) {
+    data[key] = typeof value === "string" ? value : JSON.stringify(value);
+  }
+  Object.assign(data, { title: content.title, body: content.body }, notiflyFields(content, keys));
+  return { message: { data, android: { priority: "high" } } };
+}
+
+function notiflyFields(content: PushContent, keys: NotiflyPushKeys): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (content.campaignId) fields[keys.campaignId] = content.campaignId;
+  if (content.messageId) fields[keys.messageId] = content.messageId;
+  if (content.link) fields[keys.link] = content.link;
+  if (content.imageUrl) fields[keys.imageUrl] = content.imageUrl;
+  return fields;
+}
+
+export function buildPushPayloads(
+  content: PushContent,
+  keys: Partial<Record<PushPlatform, NotiflyPushKeys>> = {}
+): {
+  apns: JsonObject;
+  fcm: JsonObject;
+  issues: PushIssue[];
+} {
+  const resolved = {
+    ios: keys.ios ?? NOTIFLY_PUSH_KEYS,
+    android: keys.android ?? NOTIFLY_PUSH_KEYS,
+  };
+  return {
+    apns: buildApnsPayload(content, resolved.ios),
+    fcm: buildFcmMessage(content, resolved.android),
+    issues: checkCustomData(content.data ?? {}, resolved),
+  };
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Pick each Notifly key from the string keys an SDK's push sources read, e.g.
+ * `notifly_campaign_id` or a differently cased `notiflyCampaignId`. Fields the
+ * sources have no key for keep the fallback name and are listed as missing.
+ */
+export function resolveNotiflyPushKeys(sourceKeys: string[]): {
+  keys: NotiflyPushKeys;
+  missing: (keyof NotiflyPushKeys)[];
+} {
+  const keys = { ...NOTIFLY_PUSH_KEYS };
+  const missing: (keyof NotiflyPushKeys)[] = [];
+  for (const field of Object.keys(NOTIFLY_PUSH_KEYS) as (keyof NotiflyPushKeys)[]) {
+    const fallback = NOTIFLY_PUSH_KEYS[field];
+    const found = sourceKeys.includes(fallback)
+      ? fallback
+      : sourceKeys.find((key) => normalizeKey(key) === normalizeKey(fallback));
+    if (found) keys[field] = found;
+    else missing.push(field);
+  }
+  return { keys, missing };
+}
+
+/**
+ * Notifly key a misspelled key was meant to be, e.g. `campaignId` or
+ * `notiflyMessageId` for `notifly_campaign_id` and `notifly_message_id`
+ */
+export function suggestNotiflyKey(
+  key: string,
+  keys: NotiflyPushKeys = NOTIFLY_PUSH_KEYS
+): string | undefined {
+  const known: string[] = Object.values(keys);
+  if (known.includes(key)) return undefined;
+  const normalized = normalizeKey(key);
+  return known.find(
+    (known) =>
+      normalizeKey(known) === normalized ||
+      normalizeKey(known.replace(/^notifly_/, "")) === normalized
+  );
+}
+
+/**
+ * Checks shared by both platforms on the Notifly keys of a payload
+ */
+function checkNotiflyKeys(
+  platform: PushPlatform,
+  fields: JsonObject,
+  prefix: string,
+  keys: NotiflyPushKeys
+): PushIssue[] {
+  const issues: PushIssue[] = [];
+  const add = (severity: PushIssue["severity"], path: string, message: string) =>
+    issues.push({ platform, severity, path: `${prefix}${path}`, message });
+
+  for (const key of Object.keys(fields)) {
+    const suggestion = suggestNotiflyKey(key, keys);
+    if (suggestion && !(suggestion in fields)) {
+      // notiflyCampaignId is surely a typo; a bare campaignId may be the app's own data
+      const typo = normalizeKey(key).startsWith("notifly");
+      add(
+        typo ? "error" : "warning",
+        key,
+        `${typo ? "Unknown" : "Custom"} key "${key}"; the SDK reads "${suggestion}".`
+      );
+    }
+  }
+
+  for (const key of [keys.campaignId, keys.messageId]) {
+    if (fields[key] === undefined) {
+      add("warning", key, `Missing "${key}": opens and clicks of this push are not attributed.`);
+    } else if (typeof fields[key] !== "string" || !fields[key]) {
+      add("error", key, `"${key}" must be a non-empty string.`);
+    }
+  }
+
+  const link = fields[keys.link];
+  if (
+    link !== undefined &&
+    (typeof link !== "string" || !/^[a-z][a-z0-9+.-]*:\/\/\S+$/i.test(link))
+  ) {
+    add(
+      "error",
+      keys.link,
+      `Deep link must be a URL with a scheme, such as https://example.com/p or myapp://home.`
+    );
+  }
+
+  const image = fields[keys.imageUrl];
+  if (image !== undefined) {
+    if (typeof image !== "string" || !/^https?:\/\/\S+$/i.test(image)) {
+      add("error", keys.imageUrl, "Image must be an http(s) URL.");
+    } else if (image.startsWith("http://")) {
+      add(
+        platform === "ios" ? "error" : "warning",
+        keys.imageUrl,
+        platform === "ios"
+          ? "Image must use https; App Transport Security blocks http downloads in the Notification Service Extension."
+          : "Image uses http; Android blocks cleartext downloads unless the app allows them. Use https."
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check an APNs payload against what the Notifly iOS SDK handles
+ */
+export function validateApnsPayload(
+  payload: unknown,
+  keys: NotiflyPushKeys = NOTIFLY_PUSH_KEYS
+): PushIssue[] {
+  const issues: PushIssue[] = [];
+  const add = (severity: PushIssue["severity"], path: string, message: string) =>
+    issues.push({ platform: "ios", severity, path, message });
+
+  if (!isObject(payload)) {
+    add("error", "", "APNs payload must be a JSON object.");
+    return issues;
+  }
+  const aps = payload.aps;
+  if (!isObject(aps)) {
+    add("error", "aps", "Missing the aps dictionary.");
+    return issues;
+  }
+
+  const silent = aps["content-available"] !== undefined;
+  if (silent && aps["content-available"] !== 1) {
+    add("error", "aps.content-available", "content-available must be the number 1.");
+  }
+  const alert = aps.alert;
+  if (alert === undefined && !silent) {
+    add("error", "aps.alert", "Missing aps.alert: nothing is shown and the push is dropped.");
+  } else if (isObject(alert)) {
+    if (!alert.title && !alert.body) {
+      add("error", "aps.alert", "aps.alert has neither title nor body.");
+    }
+  } else if (alert !== undefined && typeof alert !== "string") {
+    add("error", "aps.alert", "aps.alert must be a string or a {title, body} dictionary.");
+  }
+
+  for (const key of Object.keys(aps)) {
+    if ((Object.values(keys) as string[]).includes(key) || suggestNotiflyKey(key, keys)) {
+      add(
+        "error",
+        `aps.${key}`,
+        `"${key}" is inside aps; Notifly keys go at the top level of the payload, next to aps.`
+      );
+    }
+  }
+
+  issues.push(...checkNotiflyKeys("ios", payload, "", keys));
+  const image = payload[keys.imageUrl] !== undefined;
+
+  const mutable = aps["mutable-content"];
+  if (mutable === undefined) {
+    if (image) {
+      add(
+        "error",
+        "aps.mutable-content",
+        "Missing mutable-content: 1. Without it the Notification Service Extension does not run and the image is not attached."
+      );
+    } else if (!silent) {
+      add(
+        "warning",
+        "aps.mutable-content",
+        "Missing mutable-content: 1. The Notification Service Extension does not run, so delivery is not reported."
+      );
+    }
+  } else if (mutable !== 1) {
+    add(
+      "error",
+      "aps.mutable-content",
+      `mutable-content must be the number 1, got ${JSON.stringify(mutable)}.`
+    );
+  } else if (silent && alert === undefined) {
+    add(
+      "warning",
+      "aps.mutable-content",
+      "mutable-content has no effect on a silent push; the Notification Service Extension only runs for alerts."
+    );
+  }
+
+  const size = payloadSize(payload);
+  if (size > APNS_PAYLOAD_MAX_BYTES) {
+    add(
+      "error",
+      "",
+      `Payload is ${size} bytes; APNs rejects payloads over ${APNS_PAYLOAD_MAX_BYTES} bytes.`
+    );
+  }
+  return issues;
+}
+
+/**
+ * Check an FCM message (HTTP v1 `{message}` or the message itself) against
+ * what the Notifly Android SDK handles
+ */
+export function validateFcmMessage(
+  payload: unknown,
+  keys: NotiflyPushKeys = NOTIFLY_PUSH_KEYS
+): PushIssue[] {
+  const issues: PushIssue[] = [];
+  const message = isObject(payload) && isObject(payload.message) ? payload.message : payload;
+  const base = message === payload ? "" : "message.";
+  const add = (severity: PushIssue["severity"], path: string, message: string) =>
+    issues.push({ platform: "android", severity, path: `${base}${path}`, message });
+
+  if (!isObject(message)) {
+    add("error", "", "FCM message must be a JSON object.");
+    return issues;
+  }
+  if (message.notification !== undefined) {
+    add(
+      "warning",
+      "notification",
+      "A notification block makes Android show the push itself while the app is in the background, bypassing the Notifly SDK: the click is not tracked and the image is not shown. Send a data-only message."
+    );
+  }
+  const data = message.data;
+  if (!isObject(data)) {
+    add("error", "data", "Missing the data object the Notifly SDK reads the push from.");
+    return issues;
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value !== "string") {
+      add(
+        "error",
+        `data.${key}`,
+        `FCM data values must be strings; send ${JSON.stringify(value)} as a string.`
+      );
+    }
+    if (
+      FCM_RESERVED_KEYS.includes(key) ||
+      FCM_RESERVED_PREFIXES.some((prefix) => key.startsWith(prefix))
+    ) {
+      add("error", `data.${key}`, `"${key}" is reserved by FCM and cannot be used as a data key.`);
+    }
+  }
+  if (!data.title && !data.body) {
+    add("warning", "data", "data has neither title nor body, so the notification has no text.");
+  }
+  issues.push(...checkNotiflyKeys("android", data, `${base}data.`, keys));
+
+  const priority = isObject(message.android) ? message.android.priority : undefined;
+  if (typeof priority !== "string" || priority.toLowerCase() !== "high") {
+    add(
+      "warning",
+      "android.priority",
+      'Set android.priority to "high"; normal priority data messages are delayed while the device dozes.'
+    );
+  }
+
+  const size = payloadSize(data);
+  if (size > FCM_DATA_MAX_BYTES) {
+    add(
+      "error",
+      "data",
+      `data is ${size} bytes; FCM rejects data over ${FCM_DATA_MAX_BYTES} bytes.`
+    );
+  }
+  return issues;
+}
@@ -0,0 +1,41 @@
+/**
+ * Request Rate Limiter
+ *
+ * Sliding-window limiter that delays requests so at most `limit` start in any
+ * `windowMs` period. Used by the Notifly API client to stay under the API's
+ * rate limit instead of running into 429 responses.
+ */
+
+export class RateLimiter {
+  /** Start times of the requests in the current window, oldest first */
+  private starts: number[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  /**
+   * Resolve when another request may start. Callers are served in order.
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForSlot());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async waitForSlot(): Promise<void> {
+    if (this.limit <= 0) return;
+    for (;;) {
+      const now = Date.now();
+      this.starts = this.starts.filter((start) => now - start < this.windowMs);
+      if (this.starts.length < this.limit) {
+        this.starts.push(now);
+        return;
+      }
+      const wait = this.starts[0]! + this.windowMs - now;
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
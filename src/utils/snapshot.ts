@@ -0,0 +1,95 @@
+/**
+ * Offline Snapshot Archive
+ *
+ * A snapshot is a gzipped JSON archive mapping every URL the tools read
+ * (docs llms.txt, docs pages, SDK mapping, per-SDK llms.txt, SDK sources)
+ * to its body. In offline mode all tool fetches are served from it.
+ *
+ * The archive carries a format version so older servers refuse archives
+ * they cannot read instead of serving partial data.
+ */
+
+import { gunzipSync, gzipSync } from "zlib";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { ConfigurationError } from "../errors.js";
+
+export const SNAPSHOT_FORMAT = "notifly-mcp-snapshot";
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+export interface SnapshotArchive {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  /** ISO timestamp of when the snapshot was taken */
+  createdAt: string;
+  /** Server version that produced the snapshot */
+  serverVersion: string;
+  /** URL -> response body */
+  entries: Record<string, string>;
+}
+
+export class Snapshot {
+  public readonly createdAt: string;
+  public readonly serverVersion: string;
+  private entries: Map<string, string>;
+
+  constructor(archive: SnapshotArchive) {
+    this.createdAt = archive.createdAt;
+    this.serverVersion = archive.serverVersion;
+    this.entries = new Map(Object.entries(archive.entries));
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(url: string): string | undefined {
+    return this.entries.get(url);
+  }
+
+  public has(url: string): boolean {
+    return this.entries.has(url);
+  }
+}
+
+/**
+ * Load and validate a snapshot archive from disk
+ */
+export async function loadSnapshot(filePath: string): Promise<Snapshot> {
+  let raw: Buffer;
+  try {
+    raw = await readFile(filePath);
+  } catch {
+    throw new ConfigurationError(
+      `Offline snapshot not found at ${filePath}. Run "notifly-mcp-server snapshot" while online to create one.`
+    );
+  }
+
+  let archive: SnapshotArchive;
+  try {
+    archive = JSON.parse(gunzipSync(raw).toString("utf8")) as SnapshotArchive;
+  } catch {
+    throw new ConfigurationError(`Offline snapshot at ${filePath} is not a valid archive.`);
+  }
+
+  if (archive.format !== SNAPSHOT_FORMAT || typeof archive.entries !== "object") {
+    throw new ConfigurationError(`Offline snapshot at ${filePath} is not a valid archive.`);
+  }
+  if (archive.version !== SNAPSHOT_FORMAT_VERSION) {
+    throw new ConfigurationError(
+      `Offline snapshot at ${filePath} uses format version ${archive.version}, but this server reads version ${SNAPSHOT_FORMAT_VERSION}. Re-create it with "notifly-mcp-server snapshot".`
+    );
+  }
+
+  return new Snapshot(archive);
+}
+
+/**
+ * Write a snapshot archive to disk (atomic rename)
+ */
+export async function writeSnapshot(filePath: string, archive: SnapshotArchive): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tmp, gzipSync(JSON.stringify(archive)));
+  await rename(tmp, filePath);
+}
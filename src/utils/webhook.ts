@@ -0,0 +1,218 @@
+/**
+ * Webhook Verification
+ *
+ * Signature checks and payload schemas for Notifly webhook deliveries:
+ * - The signature is an HMAC-SHA256 of `<timestamp>.<raw body>` keyed with the
+ *   webhook secret, hex-encoded in WEBHOOK_SIGNATURE_HEADER (optionally
+ *   prefixed `sha256=`); the Unix timestamp is sent in WEBHOOK_TIMESTAMP_HEADER
+ * - Payloads are checked against one schema per event type
+ *
+ * The Notifly docs index does not describe webhook signing or payloads, so the
+ * scheme, header names and event schemas here are assumed, not documented;
+ * reports say so (WEBHOOK_SCHEME_NOTE).
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from "../constants.js";
+import type { MessageChannel, WebhookEvent, WebhookEventType } from "../types.js";
+
+/** Caveat shown with every verification report */
+export const WEBHOOK_SCHEME_NOTE =
+  "The signing scheme, header names and event schemas are assumed by this server; the Notifly docs index does not describe them. Confirm them against a real delivery from your Notifly webhook settings.";
+
+export interface SignatureCheck {
+  valid: boolean;
+  /** Why the signature was rejected */
+  reason?: string;
+  /** Unix time from the timestamp header */
+  timestamp?: number;
+  /** Seconds between signing and the check */
+  ageSeconds?: number;
+  /** Signature computed from the body and secret, when the header did not match */
+  expected?: string;
+}
+
+export interface PayloadIssue {
+  /** Dotted path of the offending field; empty for the whole payload */
+  path: string;
+  message: string;
+}
+
+/**
+ * Hex HMAC-SHA256 signature of a webhook body, as Notifly computes it
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function header(headers: Record<string, string>, name: string): string | undefined {
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+  return entry?.[1].trim();
+}
+
+/**
+ * Verify a delivery's signature over the raw body. Deliveries older than
+ * `toleranceSeconds` are rejected even when signed correctly; 0 disables the
+ * age check.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  headers: Record<string, string>,
+  secret: string,
+  options: { toleranceSeconds?: number; now?: Date } = {}
+): SignatureCheck {
+  const signature = header(headers, WEBHOOK_SIGNATURE_HEADER);
+  const timestampHeader = header(headers, WEBHOOK_TIMESTAMP_HEADER);
+  if (!signature) {
+    return { valid: false, reason: `Missing ${WEBHOOK_SIGNATURE_HEADER} header.` };
+  }
+  if (!timestampHeader) {
+    return { valid: false, reason: `Missing ${WEBHOOK_TIMESTAMP_HEADER} header.` };
+  }
+  if (!/^\d+$/.test(timestampHeader)) {
+    return {
+      valid: false,
+      reason: `${WEBHOOK_TIMESTAMP_HEADER} must be a Unix time in seconds, got "${timestampHeader}".`,
+    };
+  }
+
+  const timestamp = Number(timestampHeader);
+  const ageSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000) - timestamp;
+  const expected = signWebhook(secret, timestamp, body);
+  const received = signature.replace(/^sha256=/, "").toLowerCase();
+  // Only well-formed hex reaches timingSafeEqual, which throws on unequal byte lengths
+  const matches =
+    /^[0-9a-f]{64}$/.test(received) &&
+    timingSafeEqual(Buffer.from(received, "hex"), Buffer.from(expected, "hex"));
+  if (!matches) {
+    return {
+      valid: false,
+      reason:
+        "Signature does not match. Check the secret and sign the raw request body exactly as received, before any JSON parsing.",
+      timestamp,
+      ageSeconds,
+      expected: `sha256=${expected}`,
+    };
+  }
+
+  const tolerance = options.toleranceSeconds ?? WEBHOOK_TOLERANCE_SECONDS;
+  if (tolerance > 0 && Math.abs(ageSeconds) > tolerance) {
+    return {
+      valid: false,
+      reason: `Timestamp is ${ageSeconds} seconds old, outside the ${tolerance} second tolerance. Reject it as a possible replay.`,
+      timestamp,
+      ageSeconds,
+    };
+  }
+  return { valid: true, timestamp, ageSeconds };
+}
+
+const MESSAGE_CHANNELS = ["push", "email", "sms", "kakao"] as const satisfies MessageChannel[];
+
+const webhookMessageSchema = z.object({
+  campaignId: z.string().min(1),
+  messageId: z.string().min(1),
+  channel: z.enum(MESSAGE_CHANNELS),
+  userId: z.string().min(1),
+});
+
+function envelope<T extends WebhookEventType, D extends z.ZodTypeAny>(type: T, data: D) {
+  return z.object({
+    id: z.string().min(1),
+    type: z.literal(type),
+    projectId: z.string().min(1),
+    createdAt: z.string().datetime({ offset: true }),
+    data,
+  });
+}
+
+/**
+ * Payload schema of each webhook event type
+ */
+export const WEBHOOK_EVENT_SCHEMAS: {
+  [T in WebhookEventType]: z.ZodType<Extract<WebhookEvent, { type: T }>>;
+} = {
+  "message.sent": envelope("message.sent", webhookMessageSchema),
+  "message.delivered": envelope("message.delivered", webhookMessageSchema),
+  "message.opened": envelope("message.opened", webhookMessageSchema),
+  "message.clicked": envelope(
+    "message.clicked",
+    webhookMessageSchema.extend({ url: z.string().url().optional() })
+  ),
+  "message.failed": envelope(
+    "message.failed",
+    webhookMessageSchema.extend({
+      errorCode: z.string().min(1),
+      errorMessage: z.string().optional(),
+    })
+  ),
+  "user.unsubscribed": envelope(
+    "user.unsubscribed",
+    z.object({
+      userId: z.string().min(1),
+      channel: z.enum(MESSAGE_CHANNELS),
+      campaignId: z.string().min(1).optional(),
+    })
+  ),
+};
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENT_SCHEMAS) as WebhookEventType[];
+
+/**
+ * Parse a raw webhook body and check it against its event type's schema
+ */
+export function validateWebhookPayload(body: string): {
+  event?: WebhookEvent;
+  type?: string;
+  issues: PayloadIssue[];
+} {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch (error) {
+    return {
+      issues: [
+        {
+          path: "",
+          message: `Body is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+    };
+  }
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return { issues: [{ path: "", message: "Body must be a JSON object." }] };
+  }
+
+  const type = (payload as { type?: unknown }).type;
+  if (typeof type !== "string") {
+    return { issues: [{ path: "type", message: "Required: the event type string." }] };
+  }
+  if (!(WEBHOOK_EVENT_TYPES as string[]).includes(type)) {
+    return {
+      type,
+      issues: [
+        {
+          path: "type",
+          message: `Unknown event type "${type}". Expected one of: ${WEBHOOK_EVENT_TYPES.join(", ")}.`,
+        },
+      ],
+    };
+  }
+
+  const result = WEBHOOK_EVENT_SCHEMAS[type as WebhookEventType].safeParse(payload);
+  if (!result.success) {
+    return {
+      type,
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    };
+  }
+  return { event: result.data, type, issues: [] };
+}
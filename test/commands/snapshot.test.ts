@@ -0,0 +1,119 @@
+/**
+ * Snapshot Command Tests
+ *
+ * Tests crawling docs and SDK indexes into an offline snapshot archive.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { createSnapshot } from "../../src/commands/snapshot.js";
+import { loadSnapshot } from "../../src/utils/snapshot.js";
+import { MAPPING_LLMS_URL } from "../../src/tools/search-sdk.js";
+
+const DOCS_LLMS = "https://docs.notifly.tech/llms.txt";
+const IOS_LLMS =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/llms.txt";
+const IOS_FILE =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/Sources/Notifly.swift";
+const IOS_MISSING =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/Sources/Gone.swift";
+
+const RESPONSES: Record<string, string> = {
+  [DOCS_LLMS]: [
+    "- [Getting Started](/ko/getting-started): Intro",
+    "- [Push](https://docs.notifly.tech/ko/push): Push setup",
+  ].join("\n"),
+  "https://docs.notifly.tech/ko/getting-started": "<html>start</html>",
+  "https://docs.notifly.tech/ko/push": "<html>push</html>",
+  [MAPPING_LLMS_URL]: `- [iOS](${IOS_LLMS})`,
+  [IOS_LLMS]: [
+    "# Platform: iOS",
+    `- [Main](${IOS_FILE}): Entry`,
+    `- [Gone](${IOS_MISSING}): Removed file`,
+  ].join("\n"),
+  [IOS_FILE]: "public class Notifly {}",
+};
+
+describe("snapshot command", () => {
+  let dir: string;
+  const fetchMock = vi.fn((url: string) => {
+    const body = RESPONSES[url];
+    return Promise.resolve(
+      body === undefined
+        ? { ok: false, status: 404, text: () => Promise.resolve("") }
+        : { ok: true, status: 200, text: () => Promise.resolve(body) }
+    );
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "notifly-snapshot-cmd-"));
+    fetchMock.mockClear();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should capture docs pages, SDK indexes and SDK sources", async () => {
+    const outPath = path.join(dir, "snapshot.json.gz");
+    const result = await createSnapshot({ outPath });
+
+    expect(result.entryCount).toBe(Object.keys(RESPONSES).length);
+    const snapshot = await loadSnapshot(outPath);
+    for (const [url, body] of Object.entries(RESPONSES)) {
+      expect(snapshot.get(url)).toBe(body);
+    }
+  });
+
+  it("should store the Markdown version of docs pages when available", async () => {
+    const pushMarkdown = "https://docs.notifly.tech/ko/push.md";
+    RESPONSES[pushMarkdown] = "# Push";
+    try {
+      const outPath = path.join(dir, "snapshot.json.gz");
+      await createSnapshot({ outPath });
+
+      const snapshot = await loadSnapshot(outPath);
+      expect(snapshot.get(pushMarkdown)).toBe("# Push");
+      expect(snapshot.has("https://docs.notifly.tech/ko/push")).toBe(false);
+    } finally {
+      delete RESPONSES[pushMarkdown];
+    }
+  });
+
+  it("should record failed downloads without aborting", async () => {
+    const result = await createSnapshot({ outPath: path.join(dir, "snapshot.json.gz") });
+
+    expect(result.failures).toEqual([
+      { url: IOS_MISSING, reason: expect.stringContaining("HTTP 404") },
+    ]);
+  });
+
+  it("should fall back to the bundled mapping when GitHub is unreachable", async () => {
+    fetchMock.mockImplementation((url: string) => {
+      if (url === MAPPING_LLMS_URL) return Promise.reject(new Error("offline"));
+      const body = RESPONSES[url];
+      return Promise.resolve(
+        body === undefined
+          ? { ok: false, status: 404, text: () => Promise.resolve("") }
+          : { ok: true, status: 200, text: () => Promise.resolve(body) }
+      );
+    });
+
+    const outPath = path.join(dir, "snapshot.json.gz");
+    await createSnapshot({ outPath });
+
+    const snapshot = await loadSnapshot(outPath);
+    expect(snapshot.get(MAPPING_LLMS_URL)).toContain("# Notifly SDK Index Mapping");
+  });
+
+  it("should fail when nothing could be downloaded", async () => {
+    fetchMock.mockImplementation(() => Promise.reject(new Error("offline")));
+    await expect(createSnapshot({ outPath: path.join(dir, "snapshot.json.gz") })).rejects.toThrow(
+      /Snapshot failed/
+    );
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * GTM Fixtures
+ *
+ * Minimal Notifly GTM templates (.tpl) and a container export using them,
+ * shared by the GTM container tests.
+ */
+
+const MAIN_PARAMETERS = [
+  {
+    type: "SELECT",
+    name: "action",
+    displayName: "Action",
+    selectItems: [
+      { value: "initialize", displayValue: "Initialize" },
+      { value: "setUserId", displayValue: "Set user ID" },
+      { value: "trackEvent", displayValue: "Track event" },
+    ],
+  },
+  {
+    type: "GROUP",
+    name: "credentials",
+    enablingConditions: [{ paramName: "action", paramValue: "initialize", type: "EQUALS" }],
+    subParams: [
+      { type: "TEXT", name: "projectId", valueValidators: [{ type: "NON_EMPTY" }] },
+      {
+        type: "TEXT",
+        name: "username",
+        displayName: "Username",
+        valueValidators: [{ type: "NON_EMPTY" }],
+      },
+      { type: "TEXT", name: "password", valueValidators: [{ type: "NON_EMPTY" }] },
+    ],
+  },
+  {
+    type: "TEXT",
+    name: "eventName",
+    displayName: "Event name",
+    valueValidators: [{ type: "NON_EMPTY" }],
+    enablingConditions: [{ paramName: "action", paramValue: "trackEvent", type: "EQUALS" }],
+  },
+];
+
+const CAFE24_PARAMETERS = [
+  {
+    type: "SIMPLE_TABLE",
+    name: "eventMappings",
+    displayName: "Event mappings",
+    simpleTableColumns: [
+      {
+        type: "SELECT",
+        name: "cafe24Event",
+        displayName: "Cafe24 event",
+        selectItems: [{ value: "add_to_cart" }, { value: "purchase" }, { value: "sign_up" }],
+      },
+      {
+        type: "TEXT",
+        name: "notiflyEventName",
+        displayName: "Notifly event",
+        valueValidators: [{ type: "NON_EMPTY" }],
+      },
+    ],
+  },
+];
+
+export function gtmTemplate(displayName: string, parameters: unknown[]): string {
+  return [
+    "___INFO___",
+    "",
+    JSON.stringify({ type: "TAG", displayName }, null, 2),
+    "",
+    "___TEMPLATE_PARAMETERS___",
+    "",
+    JSON.stringify(parameters, null, 2),
+    "",
+    "___SANDBOXED_JS_FOR_WEB_TEMPLATE___",
+    "",
+    "const injectScript = require('injectScript');",
+    "",
+  ].join("\n");
+}
+
+export const MAIN_TEMPLATE = gtmTemplate("Notifly", MAIN_PARAMETERS);
+export const CAFE24_TEMPLATE = gtmTemplate("Notifly Cafe24 Custom Events", CAFE24_PARAMETERS);
+
+function text(key: string, value: string) {
+  return { type: "TEMPLATE", key, value };
+}
+
+/**
+ * Container with one problem of each kind: an outdated template copy, an
+ * empty required field, an undefined variable, an invalid event name, a tag
+ * firing before initialization, a Cafe24 event the template does not offer, a
+ * duplicate mapping and a missing trigger
+ */
+export const CONTAINER = {
+  exportFormatVersion: 2,
+  containerVersion: {
+    containerId: "123",
+    tag: [
+      {
+        tagId: "1",
+        name: "Notifly - Init",
+        type: "cvt_123_7",
+        parameter: [
+          text("action", "initialize"),
+          text("projectId", "{{Notifly Project ID}}"),
+          text("username", ""),
+          text("password", "pw"),
+        ],
+        firingTriggerId: ["2147479573"],
+      },
+      {
+        tagId: "2",
+        name: "Notifly - Purchase",
+        type: "cvt_123_7",
+        parameter: [text("action", "trackEvent"), text("eventName", "purchase completed")],
+        firingTriggerId: ["2147479572"],
+      },
+      {
+        tagId: "3",
+        name: "Notifly - Cafe24",
+        type: "cvt_123_9",
+        parameter: [
+          {
+            type: "LIST",
+            key: "eventMappings",
+            list: [
+              ["add_to_cart", "add_to_cart"],
+              ["refund", "refund"],
+              ["add_to_cart", "cart"],
+            ].map(([cafe24Event, notiflyEventName]) => ({
+              type: "MAP",
+              map: [text("cafe24Event", cafe24Event!), text("notiflyEventName", notiflyEventName!)],
+            })),
+          },
+        ],
+        firingTriggerId: ["55"],
+      },
+      { tagId: "4", name: "GA4", type: "gaawc", firingTriggerId: ["2147479553"] },
+    ],
+    trigger: [],
+    variable: [{ name: "Page Path Variable" }],
+    builtInVariable: [{ name: "Page URL" }],
+    customTemplate: [
+      {
+        templateId: "7",
+        name: "Notifly",
+        templateData: gtmTemplate(
+          "Notifly",
+          MAIN_PARAMETERS.filter((p) => p.name !== "eventName")
+        ),
+        galleryReference: { owner: "notifly-tech", repository: "notifly-gtm-template" },
+      },
+      { templateId: "9", name: "Notifly Cafe24 Events", templateData: CAFE24_TEMPLATE },
+    ],
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * Mock Notifly API Server
+ *
+ * Local HTTP server standing in for the Notifly API in tests. Accepts the
+ * configured credentials at POST /authenticate, checks the access token on
+ * every other request, and answers from a route table keyed by
+ * "<METHOD> <path>".
+ */
+
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { NotiflyApiClient, type ApiClientOptions } from "../../src/utils/api-client.js";
+
+export const MOCK_API_KEY = "test-key";
+export const MOCK_API_SECRET = "test-secret";
+
+export interface MockRoute {
+  status?: number;
+  /** Response body, sent as JSON */
+  body: unknown;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  body?: unknown;
+}
+
+export interface MockApiServer {
+  url: string;
+  routes: Record<string, MockRoute | ((body: unknown) => MockRoute)>;
+  requests: RecordedRequest[];
+  /** Logins accepted so far; login n issues the token "token-n" */
+  logins: number;
+  /** Reject the current access token, as the API does when it expires */
+  expireToken(): void;
+  /** Client authenticated against this server */
+  client(options?: Partial<ApiClientOptions>): NotiflyApiClient;
+  close(): Promise<void>;
+}
+
+export async function startMockApiServer(): Promise<MockApiServer> {
+  let issued: string | undefined;
+  const mock = {
+    routes: {},
+    requests: [],
+    logins: 0,
+    expireToken: () => {
+      issued = undefined;
+    },
+  } as unknown as MockApiServer;
+
+  const server: Server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      const path = req.url ?? "/";
+      mock.requests.push({
+        method: req.method ?? "GET",
+        path,
+        authorization: req.headers.authorization,
+        body,
+      });
+      const send = ({ status = 200, body }: MockRoute) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.method === "POST" && path === "/authenticate") {
+        if (body?.accessKey !== MOCK_API_KEY || body?.secretKey !== MOCK_API_SECRET) {
+          send({ status: 401, body: { success: false, error: "invalid credentials" } });
+          return;
+        }
+        issued = `token-${++mock.logins}`;
+        send({ body: { success: true, data: issued } });
+        return;
+      }
+      if (!issued || req.headers.authorization !== issued) {
+        send({ status: 401, body: { success: false, error: "invalid token" } });
+        return;
+      }
+      const route = mock.routes[`${req.method} ${path}`];
+      if (!route) {
+        send({ status: 404, body: { success: false, error: "not found" } });
+        return;
+      }
+      send(typeof route === "function" ? route(body) : route);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  mock.url = `http://127.0.0.1:${port}`;
+  mock.client = (options = {}) =>
+    new NotiflyApiClient({
+      apiKey: MOCK_API_KEY,
+      apiSecret: MOCK_API_SECRET,
+      baseUrl: mock.url,
+      retries: 0,
+      ...options,
+    });
+  mock.close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+  return mock;
+}
@@ -0,0 +1,121 @@
+/**
+ * MCP Prompts Tests
+ *
+ * Tests prompt argument validation and context assembled from the search tools.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createMcpServer } from "../../src/server.js";
+import { MCP_PROMPTS, getPrompt } from "../../src/prompts/index.js";
+import { KO_LLMS_URL } from "../../src/tools/search-docs.js";
+import { MAPPING_LLMS_URL } from "../../src/tools/search-sdk.js";
+import { NotFoundError, ValidationError } from "../../src/errors.js";
+
+const IOS_LLMS =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/llms.txt";
+const IOS_FILE =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/Sources/Notifly.swift";
+
+const ROUTES: Record<string, string> = {
+  [KO_LLMS_URL]: [
+    "- [iOS SDK 푸시 설정](https://docs.notifly.tech/ko/client-sdk/ios-sdk): iOS push notification setup",
+    "- [카카오 알림톡](https://docs.notifly.tech/ko/kakao/alimtalk): 카카오 알림톡 발송 설정",
+  ].join("\n"),
+  "https://docs.notifly.tech/ko/client-sdk/ios-sdk": "<p>Register the APNs device token</p>",
+  "https://docs.notifly.tech/ko/kakao/alimtalk": "<p>알림톡 템플릿 등록</p>",
+  [MAPPING_LLMS_URL]: `- [iOS SDK](${IOS_LLMS})`,
+  [IOS_LLMS]: `# Platform: iOS\n- [Push Notification Handler](${IOS_FILE}): Handles push notification token and click`,
+  [IOS_FILE]: "func userNotificationCenter(didReceive response) {}",
+};
+
+describe("MCP Prompts", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should define the integration workflow prompts", () => {
+    expect(Object.keys(MCP_PROMPTS)).toEqual([
+      "integrate_push",
+      "setup_kakao_alimtalk",
+      "debug_push_click_tracking",
+    ]);
+  });
+
+  it("should embed docs and SDK search results", async () => {
+    const { text } = await getPrompt("integrate_push", { platform: "iOS" }, {});
+
+    expect(text).toContain("Integrate Notifly push notifications into my ios app.");
+    expect(text).toContain("## Documentation");
+    expect(text).toContain("Register the APNs device token");
+    expect(text).toContain("## SDK sources (ios)");
+    expect(text).toContain("userNotificationCenter");
+  });
+
+  it("should include optional arguments when given", async () => {
+    const { text } = await getPrompt(
+      "debug_push_click_tracking",
+      { platform: "ios", symptom: "zero clicks in campaign stats" },
+      {}
+    );
+
+    expect(text).toContain("Symptom: zero clicks in campaign stats");
+  });
+
+  it("should still build the prompt when search fails", async () => {
+    fetchMock.mockImplementation(() => Promise.reject(new TypeError("fetch failed")));
+
+    const { text } = await getPrompt("setup_kakao_alimtalk", {}, {});
+
+    expect(text).toContain("Help me set up Kakao AlimTalk sending with Notifly.");
+    expect(text).toContain("Use the search_docs tool.");
+  });
+
+  it("should reject missing or invalid arguments", async () => {
+    await expect(getPrompt("integrate_push", {}, {})).rejects.toBeInstanceOf(ValidationError);
+    await expect(getPrompt("integrate_push", { platform: "gtm" }, {})).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(getPrompt("unknown", {}, {})).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("should serve prompts/list and prompts/get over MCP", async () => {
+    const server = createMcpServer({});
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    try {
+      const { prompts } = await client.listPrompts();
+      expect(prompts.find((p) => p.name === "integrate_push")?.arguments).toEqual([
+        expect.objectContaining({ name: "platform", required: true }),
+      ]);
+
+      const result = await client.getPrompt({
+        name: "setup_kakao_alimtalk",
+        arguments: { useCase: "order confirmation" },
+      });
+      expect(result.messages[0]?.role).toBe("user");
+      expect(result.messages[0]?.content).toMatchObject({ type: "text" });
+
+      await expect(client.getPrompt({ name: "integrate_push" })).rejects.toMatchObject({
+        code: -32602,
+      });
+    } finally {
+      await client.close();
+      await server.close();
+    }
+  });
+});
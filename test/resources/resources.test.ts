@@ -0,0 +1,219 @@
+/**
+ * MCP Resources Tests
+ *
+ * Tests listing and reading docs pages and SDK files as resources,
+ * and resource links returned by the search tools.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createMcpServer } from "../../src/server.js";
+import { listResources, readResource } from "../../src/resources/index.js";
+import {
+  docsPageUri,
+  sdkFileUri,
+  parseRawGithubUrl,
+  githubCommitApiUrl,
+  githubLinesUrl,
+  rawGithubUrlAtRef,
+} from "../../src/resources/uris.js";
+import { KO_LLMS_URL } from "../../src/tools/search-docs.js";
+import { MAPPING_LLMS_URL } from "../../src/tools/search-sdk.js";
+import { NotFoundError } from "../../src/errors.js";
+
+const IOS_LLMS =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/llms.txt";
+const IOS_FILE =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/Sources/Notifly.swift";
+
+const ROUTES: Record<string, string> = {
+  [KO_LLMS_URL]: "- [iOS SDK](https://docs.notifly.tech/ko/client-sdk/ios-sdk): iOS integration",
+  "https://docs.notifly.tech/ko/client-sdk/ios-sdk":
+    "<html><body><h1>iOS SDK</h1><p>Install with CocoaPods</p></body></html>",
+  [MAPPING_LLMS_URL]: `- [iOS SDK](${IOS_LLMS})`,
+  [IOS_LLMS]: `# Platform: iOS\n- [Notifly Main Entry](${IOS_FILE}): Singleton entry point`,
+  [IOS_FILE]: "public class Notifly {}",
+};
+
+describe("MCP Resources", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("URIs", () => {
+    it("should map docs URLs to notifly-docs URIs", () => {
+      expect(docsPageUri("https://docs.notifly.tech/ko/client-sdk/ios-sdk")).toBe(
+        "notifly-docs://ko/client-sdk/ios-sdk"
+      );
+      expect(docsPageUri("https://example.com/ko/page")).toBeUndefined();
+    });
+
+    it("should map raw GitHub URLs to notifly-sdk URIs", () => {
+      expect(sdkFileUri("ios", IOS_FILE)).toBe("notifly-sdk://ios/notifly-ios-sdk/Sources/Notifly.swift");
+      expect(parseRawGithubUrl(IOS_FILE)).toEqual({
+        owner: "team-michael",
+        repo: "notifly-ios-sdk",
+        ref: "refs/heads/main",
+        filePath: "Sources/Notifly.swift",
+      });
+    });
+
+    it("should link raw GitHub line ranges to github.com", () => {
+      expect(githubLinesUrl(IOS_FILE, 10, 20)).toBe(
+        "https://github.com/team-michael/notifly-ios-sdk/blob/main/Sources/Notifly.swift#L10-L20"
+      );
+      expect(githubLinesUrl(IOS_FILE, 7, 7)).toMatch(/#L7$/);
+      expect(githubLinesUrl("https://example.com/file.swift", 1, 2)).toBeUndefined();
+    });
+
+    it("should pin line links to a commit when one is given", () => {
+      const sha = "0123456789abcdef0123456789abcdef01234567";
+      expect(githubLinesUrl(IOS_FILE, 10, 20, sha)).toBe(
+        `https://github.com/team-michael/notifly-ios-sdk/blob/${sha}/Sources/Notifly.swift#L10-L20`
+      );
+      expect(githubCommitApiUrl(IOS_FILE)).toBe(
+        "https://api.github.com/repos/team-michael/notifly-ios-sdk/commits/main"
+      );
+    });
+
+    it("should rewrite raw GitHub URLs to another ref", () => {
+      expect(rawGithubUrlAtRef(IOS_FILE, "v1.4.0")).toBe(
+        "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/v1.4.0/Sources/Notifly.swift"
+      );
+      expect(rawGithubUrlAtRef("https://example.com/file.swift", "v1.4.0")).toBeUndefined();
+    });
+  });
+
+  describe("listResources", () => {
+    it("should list docs pages and SDK files", async () => {
+      const resources = await listResources({});
+
+      expect(resources.map((r) => r.uri)).toEqual([
+        "notifly-docs://ko/client-sdk/ios-sdk",
+        "notifly-sdk://ios/notifly-ios-sdk/Sources/Notifly.swift",
+      ]);
+      expect(resources[0]?.name).toBe("iOS SDK");
+    });
+
+    it("should still list SDK files when the docs index is unavailable", async () => {
+      delete ROUTES[KO_LLMS_URL];
+      try {
+        const resources = await listResources({});
+        expect(resources.map((r) => r.uri)).toEqual([
+          "notifly-sdk://ios/notifly-ios-sdk/Sources/Notifly.swift",
+        ]);
+      } finally {
+        ROUTES[KO_LLMS_URL] =
+          "- [iOS SDK](https://docs.notifly.tech/ko/client-sdk/ios-sdk): iOS integration";
+      }
+    });
+  });
+
+  describe("readResource", () => {
+    it("should read a docs page as text", async () => {
+      const contents = await readResource("notifly-docs://ko/client-sdk/ios-sdk", {});
+
+      expect(contents.mimeType).toBe("text/markdown");
+      expect(contents.text).toContain("# iOS SDK");
+      expect(contents.text).toContain("Install with CocoaPods");
+    });
+
+    it("should read an SDK file in full", async () => {
+      const contents = await readResource(
+        "notifly-sdk://ios/notifly-ios-sdk/Sources/Notifly.swift",
+        {}
+      );
+
+      expect(contents.text).toBe("public class Notifly {}");
+    });
+
+    it("should throw NotFoundError for unknown URIs", async () => {
+      await expect(readResource("notifly-docs://ko/nope", {})).rejects.toBeInstanceOf(
+        NotFoundError
+      );
+      await expect(readResource("https://example.com", {})).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe("MCP server", () => {
+    async function connect() {
+      const server = createMcpServer({});
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+      return { client, server };
+    }
+
+    it("should serve resources/list, templates and resources/read", async () => {
+      const { client, server } = await connect();
+      try {
+        const { resources } = await client.listResources();
+        expect(resources).toHaveLength(2);
+
+        const { resourceTemplates } = await client.listResourceTemplates();
+        expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+          "notifly-docs://ko/{path}",
+          "notifly-sdk://{platform}/{path}",
+        ]);
+
+        const { contents } = await client.readResource({
+          uri: "notifly-sdk://ios/notifly-ios-sdk/Sources/Notifly.swift",
+        });
+        expect(contents[0]).toMatchObject({ text: "public class Notifly {}" });
+      } finally {
+        await client.close();
+        await server.close();
+      }
+    });
+
+    it("should reject unknown resources with -32002", async () => {
+      const { client, server } = await connect();
+      try {
+        await expect(client.readResource({ uri: "notifly-docs://ko/nope" })).rejects.toMatchObject(
+          { code: -32002 }
+        );
+      } finally {
+        await client.close();
+        await server.close();
+      }
+    });
+
+    it("should return structured content and resource links from search tools", async () => {
+      const { client, server } = await connect();
+      try {
+        const result = await client.callTool({
+          name: "search_docs",
+          arguments: { query: "iOS" },
+        });
+        const content = result.content as Array<{ type: string; uri?: string }>;
+
+        expect(content[0]?.type).toBe("text");
+        expect(result.structuredContent).toMatchObject({
+          query: "iOS",
+          results: [expect.objectContaining({ source: "docs", title: "iOS SDK" })],
+        });
+        expect(content).toContainEqual(
+          expect.objectContaining({
+            type: "resource_link",
+            uri: "notifly-docs://ko/client-sdk/ios-sdk",
+          })
+        );
+      } finally {
+        await client.close();
+        await server.close();
+      }
+    });
+  });
+});
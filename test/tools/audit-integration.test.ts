@@ -0,0 +1,244 @@
+/**
+ * Integration Audit Tool Tests
+ *
+ * Tests platform detection, SDK call ordering and push configuration checks
+ * against project fixtures written to a temporary directory.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { auditIntegrationTool } from "../../src/tools/audit-integration.js";
+import { KO_LLMS_URL } from "../../src/tools/search-docs.js";
+import { ValidationError } from "../../src/errors.js";
+
+const FLUTTER_APP: Record<string, string> = {
+  "pubspec.yaml":
+    "name: app\ndependencies:\n  notifly_flutter: ^1.0.0\nflutter:\n  uses-material-design: true\n",
+  "lib/main.dart": [
+    "import 'package:notifly_flutter/notifly_flutter.dart';",
+    "",
+    "void main() async {",
+    "  // NotiflyPlugin.trackEvent(eventName: 'commented');",
+    "  await NotiflyPlugin.setUserId('user-123');",
+    "  await NotiflyPlugin.initialize(projectId: 'p', username: 'u', password: 'x');",
+    "  runApp(const App());",
+    "}",
+  ].join("\n"),
+  "ios/Podfile": "platform :ios, '13.0'\n",
+  "ios/Runner/Info.plist": "<plist><dict><key>CFBundleName</key></dict></plist>",
+  "android/settings.gradle": "include ':app'\n",
+  "android/app/build.gradle": "apply plugin: 'com.android.application'\n",
+  "android/app/src/main/AndroidManifest.xml": [
+    "<manifest>",
+    '  <service android:name=".PushService" android:exported="false">',
+    "    <intent-filter>",
+    '      <action android:name="com.google.firebase.MESSAGING_EVENT" />',
+    "    </intent-filter>",
+    "  </service>",
+    "</manifest>",
+  ].join("\n"),
+  "android/app/src/main/kotlin/com/example/PushService.kt":
+    "class PushService : FirebaseMessagingService()\n",
+};
+
+const IOS_APP: Record<string, string> = {
+  Podfile: "target 'App' do\n  pod 'notifly_sdk'\nend\n",
+  "App/AppDelegate.swift": [
+    "import notifly_sdk",
+    "",
+    "class AppDelegate: UIResponder, UIApplicationDelegate {",
+    "  func application(_ application: UIApplication, didFinishLaunchingWithOptions launchOptions: [UIApplication.LaunchOptionsKey: Any]?) -> Bool {",
+    '    Notifly.initialize(projectId: "p", username: "u", password: "x")',
+    "    return true",
+    "  }",
+    "}",
+  ].join("\n"),
+  "App/App.entitlements": "<dict><key>aps-environment</key><string>development</string></dict>",
+  "App/Info.plist":
+    "<dict><key>UIBackgroundModes</key><array><string>remote-notification</string></array></dict>",
+  "App/GoogleService-Info.plist": "<dict></dict>",
+  "NotificationService/Info.plist":
+    "<dict><key>NSExtension</key><dict><key>NSExtensionPointIdentifier</key><string>com.apple.usernotifications.service</string></dict></dict>",
+  "NotificationService/NotificationService.swift":
+    "import notifly_sdk\nclass NotificationService: NotiflyNotificationServiceExtension {}\n",
+  "Pods/Notifly/Sources/Notifly.swift": 'Notifly.trackEvent(eventName: "ignored")\n',
+};
+
+const ROUTES: Record<string, string> = {
+  [KO_LLMS_URL]: [
+    "- [Flutter SDK 초기화](https://docs.notifly.tech/ko/client-sdk/flutter-sdk): Flutter SDK 설치와 초기화",
+    "- [iOS 푸시 알림 설정](https://docs.notifly.tech/ko/client-sdk/ios-push): iOS 푸시 알림 APNs 설정",
+    "- [Android 푸시 알림 설정](https://docs.notifly.tech/ko/client-sdk/android-push): Android 푸시 알림 FCM 설정",
+  ].join("\n"),
+};
+
+async function writeProject(root: string, files: Record<string, string>): Promise<void> {
+  for (const [file, content] of Object.entries(files)) {
+    await mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await writeFile(path.join(root, file), content);
+  }
+}
+
+interface FindingResult {
+  id: string;
+  severity: string;
+  platform: string;
+  file?: string;
+  line?: number;
+  docs?: { title: string; url: string };
+}
+
+describe("audit_integration Tool", () => {
+  const fetchMock = vi.fn();
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "notifly-audit-"));
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should detect a Flutter app with its native projects", async () => {
+    await writeProject(dir, FLUTTER_APP);
+
+    const { structuredContent } = await auditIntegrationTool.handler({ projectPath: dir }, {});
+
+    expect(structuredContent?.platforms).toEqual([
+      { platform: "flutter", root: "", embedded: false },
+      { platform: "ios", root: "ios", embedded: true },
+      { platform: "android", root: "android", embedded: true },
+    ]);
+    expect(structuredContent?.calls).toEqual([
+      { platform: "flutter", method: "setUserId", file: "lib/main.dart", line: 5 },
+      { platform: "flutter", method: "initialize", file: "lib/main.dart", line: 6 },
+    ]);
+  });
+
+  it("should report misordered calls and missing push configuration with docs links", async () => {
+    await writeProject(dir, FLUTTER_APP);
+
+    const { text: result, structuredContent } = await auditIntegrationTool.handler(
+      { projectPath: dir },
+      {}
+    );
+    const findings = structuredContent?.findings as FindingResult[];
+    const ids = findings.map((f) => f.id);
+
+    expect(ids).toEqual(
+      expect.arrayContaining([
+        "initialize-order",
+        "ios-push-entitlement",
+        "ios-background-modes",
+        "ios-nse-missing",
+        "android-firebase-config",
+        "android-google-services-plugin",
+        "android-post-notifications",
+        "android-messaging-service",
+      ])
+    );
+    expect(ids).not.toContain("sdk-dependency-missing");
+    expect(ids).not.toContain("initialize-location");
+    expect(findings.findIndex((f) => f.severity === "warning")).toBeGreaterThan(
+      findings.findLastIndex((f) => f.severity === "error")
+    );
+
+    const order = findings.find((f) => f.id === "initialize-order");
+    expect(order).toMatchObject({ file: "lib/main.dart", line: 5 });
+    expect(order?.docs?.url).toBe("https://docs.notifly.tech/ko/client-sdk/flutter-sdk");
+    expect(findings.find((f) => f.id === "android-firebase-config")?.docs?.title).toBe(
+      "Android 푸시 알림 설정"
+    );
+
+    expect(result).toContain("## Errors");
+    expect(result).toContain(
+      "**setUserId is called before initialize** (flutter) — lib/main.dart:5"
+    );
+    expect(result).toContain("## Notifly SDK Calls");
+  });
+
+  it("should pass a complete iOS integration and skip dependency directories", async () => {
+    await writeProject(dir, IOS_APP);
+
+    const { text: result, structuredContent } = await auditIntegrationTool.handler(
+      { projectPath: dir },
+      {}
+    );
+
+    expect(structuredContent?.findings).toEqual([]);
+    expect(structuredContent?.calls).toEqual([
+      { platform: "ios", method: "initialize", file: "App/AppDelegate.swift", line: 5 },
+    ]);
+    expect(result).toContain("No problems found.");
+  });
+
+  it("should report a missing SDK and initialize call", async () => {
+    await writeProject(dir, {
+      "package.json": JSON.stringify({ dependencies: { react: "18.0.0" } }),
+      "src/index.js": "notifly.requestPermission();\n",
+    });
+
+    const { structuredContent } = await auditIntegrationTool.handler({ projectPath: dir }, {});
+    const ids = (structuredContent?.findings as FindingResult[]).map((f) => f.id);
+
+    expect(ids).toEqual(["sdk-dependency-missing", "initialize-missing", "web-service-worker"]);
+  });
+
+  it("should still report findings when the docs index is unavailable", async () => {
+    await writeProject(dir, FLUTTER_APP);
+    fetchMock.mockRejectedValue(new Error("offline"));
+
+    const { structuredContent } = await auditIntegrationTool.handler(
+      { projectPath: dir, platform: "flutter" },
+      {}
+    );
+    const findings = structuredContent?.findings as FindingResult[];
+
+    expect(findings.length).toBeGreaterThan(0);
+    expect(findings.every((f) => f.docs === undefined)).toBe(true);
+  });
+
+  it("should throw ValidationError for missing directories and unknown projects", async () => {
+    await expect(
+      auditIntegrationTool.handler({ projectPath: path.join(dir, "missing") }, {})
+    ).rejects.toThrow(ValidationError);
+
+    await writeFile(path.join(dir, "README.md"), "# Notes\n");
+    await expect(auditIntegrationTool.handler({ projectPath: dir }, {})).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it("should only read projects inside NOTIFLY_PROJECTS_DIR and require it over HTTP", async () => {
+    const projects = path.join(dir, "projects");
+    await writeProject(path.join(projects, "app"), FLUTTER_APP);
+    await writeProject(path.join(dir, "private"), FLUTTER_APP);
+    await symlink(path.join(dir, "private"), path.join(projects, "link"));
+    const context = { projectsDir: projects, remote: true };
+
+    const { structuredContent } = await auditIntegrationTool.handler(
+      { projectPath: "app" },
+      context
+    );
+    expect(structuredContent?.platforms).toHaveLength(3);
+
+    for (const projectPath of [path.join(dir, "private"), "../private", "link", "/"]) {
+      await expect(auditIntegrationTool.handler({ projectPath }, context)).rejects.toThrow(
+        "must be inside the projects directory"
+      );
+    }
+    await expect(
+      auditIntegrationTool.handler({ projectPath: path.join(projects, "app") }, { remote: true })
+    ).rejects.toThrow("disabled over HTTP");
+  });
+});
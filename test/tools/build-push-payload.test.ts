@@ -0,0 +1,190 @@
+/**
+ * build_push_payload Tool Tests
+ *
+ * Tests building and checking payloads with the Notifly keys read from the SDK
+ * push sources (SDK index requests are stubbed).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { buildPushPayloadTool } from "../../src/tools/build-push-payload.js";
+import { MAPPING_LLMS_URL } from "../../src/tools/search-sdk.js";
+import { ValidationError } from "../../src/errors.js";
+
+const IOS = "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main";
+const ANDROID =
+  "https://raw.githubusercontent.com/team-michael/notifly-android-sdk/refs/heads/main";
+
+const ROUTES: Record<string, string> = {
+  [MAPPING_LLMS_URL]: [`- [iOS](${IOS}/llms.txt)`, `- [Android](${ANDROID}/llms.txt)`].join("\n"),
+  [`${IOS}/llms.txt`]: [
+    "# Platform: iOS",
+    `- [NotificationService](${IOS}/Sources/NotificationService.swift): Push handling in the Notification Service Extension`,
+    `- [Notifly](${IOS}/Sources/Notifly.swift): SDK entry point`,
+  ].join("\n"),
+  [`${ANDROID}/llms.txt`]: [
+    "# Platform: Android",
+    `- [NotiflyMessagingService](${ANDROID}/sdk/NotiflyMessagingService.kt): FCM messaging service`,
+  ].join("\n"),
+  [`${IOS}/Sources/NotificationService.swift`]: [
+    'let campaignId = userInfo["notifly_campaign_id"] as? String',
+    'let messageId = userInfo["notifly_message_id"] as? String',
+    'let imageUrl = userInfo["notifly_image_url"] as? String',
+    'let link = userInfo["notifly_link"] as? String',
+  ].join("\n"),
+  [`${ANDROID}/sdk/NotiflyMessagingService.kt`]: [
+    'val campaignId = data["notifly_campaign_id"]',
+    'val messageId = data["notifly_message_id"]',
+    'val link = data["notifly_link"]',
+    'val channel = data["notifly_channel_id"]',
+  ].join("\n"),
+};
+
+interface IssueResult {
+  platform: string;
+  severity: string;
+  path: string;
+}
+
+describe("build_push_payload Tool", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should build both payloads and reject keys the SDK push sources never read", async () => {
+    const { text, structuredContent } = await buildPushPayloadTool.handler(
+      {
+        title: "주문이 발송되었어요",
+        body: "배송 현황을 확인해 보세요",
+        imageUrl: "https://cdn.example.com/push.png",
+        link: "myapp://orders/1234",
+        campaignId: "campaign_123",
+        messageId: "message_456",
+      },
+      {}
+    );
+
+    expect(structuredContent?.valid).toBe(false);
+    expect(structuredContent?.apns).toMatchObject({ aps: { "mutable-content": 1 } });
+    expect(structuredContent?.fcm).toMatchObject({ message: { android: { priority: "high" } } });
+    expect(structuredContent?.sdk).toEqual([
+      {
+        platform: "ios",
+        files: [`${IOS}/Sources/NotificationService.swift`],
+        keys: {
+          campaignId: "notifly_campaign_id",
+          messageId: "notifly_message_id",
+          link: "notifly_link",
+          imageUrl: "notifly_image_url",
+        },
+        missing: [],
+        otherKeys: [],
+      },
+      {
+        platform: "android",
+        files: [`${ANDROID}/sdk/NotiflyMessagingService.kt`],
+        keys: expect.objectContaining({ imageUrl: "notifly_image_url" }),
+        missing: ["notifly_image_url"],
+        otherKeys: ["notifly_channel_id"],
+      },
+    ]);
+    expect(structuredContent?.issues).toMatchObject([
+      { platform: "android", severity: "error", path: "notifly_image_url" },
+    ]);
+    expect(text).toContain("## iOS (APNs)");
+    expect(text).toContain("the SDK also reads notifly_channel_id");
+  });
+
+  it("should use the key names the SDK push sources read", async () => {
+    fetchMock.mockImplementation((url: string) => {
+      const body =
+        url === `${ANDROID}/sdk/NotiflyMessagingService.kt`
+          ? 'val campaignId = data["notiflyCampaignId"]\nval link = data["notifly_link"]'
+          : ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+
+    const { structuredContent } = await buildPushPayloadTool.handler(
+      { title: "hi", body: "there", campaignId: "c", link: "myapp://home", platforms: ["android"] },
+      {}
+    );
+
+    expect(structuredContent?.fcm).toMatchObject({
+      message: { data: { notiflyCampaignId: "c", notifly_link: "myapp://home" } },
+    });
+    expect(structuredContent?.valid).toBe(true);
+  });
+
+  it("should build only the requested platforms", async () => {
+    const { structuredContent } = await buildPushPayloadTool.handler(
+      { title: "hi", body: "there", platforms: ["ios"] },
+      {}
+    );
+
+    expect(structuredContent?.apns).toBeDefined();
+    expect(structuredContent?.fcm).toBeUndefined();
+    expect(structuredContent?.sizes).toEqual({ apns: expect.any(Number) });
+  });
+
+  it("should check hand-written payloads", async () => {
+    const { structuredContent } = await buildPushPayloadTool.handler(
+      {
+        apnsPayload: JSON.stringify({
+          aps: { alert: "hi" },
+          campaignId: "c",
+          notifly_message_id: "m",
+          notifly_image_url: "https://cdn.example.com/push.png",
+        }),
+      },
+      {}
+    );
+    const issues = structuredContent?.issues as IssueResult[];
+
+    expect(structuredContent?.valid).toBe(false);
+    expect(structuredContent?.fcm).toBeUndefined();
+    expect(issues.map((i) => [i.severity, i.path])).toEqual([
+      ["warning", "campaignId"],
+      ["warning", "notifly_campaign_id"],
+      ["error", "aps.mutable-content"],
+    ]);
+  });
+
+  it("should report the keys as unverified when the SDK index is unavailable", async () => {
+    fetchMock.mockImplementation(() => Promise.resolve(new Response("down", { status: 503 })));
+
+    const { text, structuredContent } = await buildPushPayloadTool.handler(
+      { title: "hi", body: "there", campaignId: "c", messageId: "m" },
+      {}
+    );
+
+    expect(structuredContent?.valid).toBe(true);
+    expect(structuredContent?.sdk).toEqual([]);
+    expect(structuredContent?.issues).toMatchObject([
+      { platform: "ios", severity: "warning", message: expect.stringContaining("unverified") },
+      { platform: "android", severity: "warning", message: expect.stringContaining("unverified") },
+    ]);
+    expect(text).toContain("SDK push sources unavailable; the Notifly keys were not verified.");
+  });
+
+  it("should reject missing content and invalid JSON", async () => {
+    await expect(buildPushPayloadTool.handler({ title: "hi" }, {})).rejects.toThrow(
+      ValidationError
+    );
+    await expect(buildPushPayloadTool.handler({ fcmPayload: "{data:" }, {})).rejects.toThrow(
+      /fcmPayload is not valid JSON/
+    );
+    await expect(
+      buildPushPayloadTool.handler({ title: "hi", body: "there", apnsPayload: "{}" }, {})
+    ).rejects.toThrow(/not both/);
+  });
+});
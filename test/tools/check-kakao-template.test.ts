@@ -0,0 +1,187 @@
+/**
+ * check_kakao_template Tool Tests
+ *
+ * Tests for the AlimTalk template rules and the docs links attached to
+ * violations (docs requests are stubbed).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { checkKakaoTemplateTool } from "../../src/tools/check-kakao-template.js";
+import { KO_LLMS_URL } from "../../src/tools/search-docs.js";
+
+const KAKAO_PAGE = "https://docs.notifly.tech/ko/channels/kakao-alimtalk";
+
+const ROUTES: Record<string, string> = {
+  [KO_LLMS_URL]: [
+    "- [카카오 알림톡 템플릿](https://docs.notifly.tech/ko/channels/kakao-alimtalk): 알림톡 템플릿 등록과 검수, 변수와 버튼",
+    "- [문자 메시지 발송](https://docs.notifly.tech/ko/channels/sms): SMS, LMS 발송 설정",
+  ].join("\n"),
+  [`${KAKAO_PAGE}.md`]: [
+    "# 카카오 알림톡 템플릿",
+    "",
+    "## 템플릿 변수",
+    "",
+    "본문에 #{변수명} 형식으로 변수를 넣습니다.",
+    "",
+    "## 버튼",
+    "",
+    "알림톡 버튼은 최대 5개까지 등록할 수 있습니다.",
+  ].join("\n"),
+};
+
+interface ViolationResult {
+  id: string;
+  severity: string;
+  field: string;
+  docs?: { title: string; url: string };
+}
+
+async function check(params: Parameters<typeof checkKakaoTemplateTool.handler>[0]) {
+  const { text, structuredContent } = await checkKakaoTemplateTool.handler(params, {});
+  return {
+    text,
+    valid: structuredContent?.valid as boolean,
+    violations: structuredContent?.violations as ViolationResult[],
+  };
+}
+
+describe("check_kakao_template Tool", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should pass a valid shipping notice without requesting docs", async () => {
+    const { valid, violations, text } = await check({
+      content:
+        "#{고객명}님, 주문하신 상품이 발송되었습니다.\n택배사: #{택배사}\n운송장 번호: #{운송장번호}",
+      buttons: [{ type: "DS", name: "배송 조회" }],
+    });
+
+    expect(valid).toBe(true);
+    expect(violations).toEqual([]);
+    expect(text).toContain("#{고객명}, #{택배사}, #{운송장번호}");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should report malformed variables and link the variables section", async () => {
+    const { valid, violations } = await check({
+      content: "#{ 고객 명 }님, #{}의 주문이 {{order_id}}로 접수되었습니다.",
+    });
+
+    expect(valid).toBe(false);
+    expect(violations.map((v) => v.id)).toEqual([
+      "variable-name",
+      "variable-empty",
+      "variable-syntax",
+    ]);
+    expect(violations[0]?.docs).toEqual({
+      title: "카카오 알림톡 템플릿 › 템플릿 변수",
+      url: `${KAKAO_PAGE}#${encodeURIComponent("템플릿-변수")}`,
+    });
+  });
+
+  it("should reject content made only of variables and warn about promotional wording", async () => {
+    const onlyVariables = await check({ content: "#{메시지}" });
+    expect(onlyVariables.violations.map((v) => v.id)).toEqual(["content-only-variables"]);
+
+    const promotional = await check({
+      content: "#{고객명}님, 회원 전용 쿠폰이 발급되었습니다. 최대 50% 할인 혜택을 확인하세요.",
+    });
+    expect(promotional.valid).toBe(true);
+    expect(promotional.violations).toMatchObject([
+      { id: "content-promotional", severity: "warning" },
+    ]);
+  });
+
+  it("should count characters by code point against the limits", async () => {
+    const { violations, text } = await check({
+      content: "가".repeat(1001),
+      emphasizeType: "TEXT",
+      title: "주문 완료",
+      subtitle: "😀".repeat(51),
+    });
+
+    expect(violations.map((v) => [v.id, v.field])).toEqual([
+      ["length-content", "content"],
+      ["length-subtitle", "subtitle"],
+    ]);
+    expect(text).toContain("content 1001/1000, title 5/50, subtitle 51/50");
+  });
+
+  it("should check buttons", async () => {
+    const { violations } = await check({
+      content: "#{고객명}님, 예약이 확정되었습니다.",
+      buttons: [
+        { type: "WL", name: "예약 내역 확인하러 가기 바로가기" },
+        { type: "WL", name: "#{상품명} 보기", linkMobile: "#{상품링크}" },
+        { type: "AL", name: "앱에서 보기", schemeIos: "myapp://booking" },
+        { type: "WL", name: "상세", linkMobile: "example.com/booking" },
+        { type: "AC", name: "채널 추가" },
+        { type: "BK", name: "문의" },
+      ],
+    });
+
+    expect(violations.map((v) => [v.id, v.field])).toEqual([
+      ["button-count", "buttons"],
+      ["button-name", "buttons[0]"],
+      ["button-link", "buttons[0]"],
+      ["button-variable", "buttons[1]"],
+      ["button-link-domain", "buttons[1]"],
+      ["button-link", "buttons[2]"],
+      ["button-link", "buttons[3]"],
+      ["button-channel-add", "buttons[4]"],
+    ]);
+    expect(violations[0]?.docs).toEqual({
+      title: "카카오 알림톡 템플릿 › 버튼",
+      url: `${KAKAO_PAGE}#${encodeURIComponent("버튼")}`,
+    });
+  });
+
+  it("should apply the message and emphasis type rules", async () => {
+    const mixed = await check({
+      content: "#{고객명}님, 주문하신 상품의 재입고 알림입니다.",
+      messageType: "MI",
+      emphasizeType: "IMAGE",
+      adContent: "채널 추가하고 혜택 받기",
+      buttons: [{ type: "WL", name: "상품 보기", linkMobile: "https://example.com/p" }],
+    });
+    expect(mixed.violations.map((v) => [v.id, v.field])).toEqual([
+      ["type-mi", "extra"],
+      ["type-mi", "adContent"],
+      ["type-mi", "buttons"],
+      ["type-mi", "imageUrl"],
+    ]);
+
+    const channelAdd = await check({
+      content: "#{고객명}님, 주문하신 상품의 재입고 알림입니다.",
+      messageType: "AD",
+      adContent: "채널 추가하고 이 채널의 광고와 마케팅 메시지 받기",
+      buttons: [
+        { type: "AC", name: "채널 추가" },
+        { type: "WL", name: "상품 보기", linkMobile: "https://example.com/p/#{상품코드}" },
+      ],
+    });
+    expect(channelAdd.valid).toBe(true);
+  });
+
+  it("should report violations without docs links when the index is unavailable", async () => {
+    fetchMock.mockImplementation(() => Promise.resolve(new Response("down", { status: 503 })));
+
+    const { valid, violations } = await check({ content: "#{}" });
+
+    expect(valid).toBe(false);
+    expect(violations.length).toBeGreaterThan(0);
+    expect(violations.every((v) => v.docs === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * SDK Version Comparison Tool Tests
+ *
+ * Tests pairing files across refs, public API summaries, symbol filtering
+ * and diff limits.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { compareSdkVersionsTool } from "../../src/tools/compare-sdk-versions.js";
+import { MAPPING_LLMS_URL } from "../../src/tools/search-sdk.js";
+import { NotFoundError, ValidationError } from "../../src/errors.js";
+
+const RAW = "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk";
+const IOS_LLMS = `${RAW}/refs/heads/main/llms.txt`;
+const MAIN_FILE = "Sources/Notifly/Notifly.swift";
+const PUSH_FILE = "Sources/Notifly/Push.swift";
+
+const OLD_MAIN = [
+  "public class Notifly {",
+  "    public static func setUserId(_ userId: String?) {",
+  "        print(userId)",
+  "    }",
+  "",
+  "    public static func trackEvent(name: String) {",
+  "        print(name)",
+  "    }",
+  "",
+  "    public static func legacyLogin() {}",
+  "",
+  "    static func helper() {}",
+  "}",
+].join("\n");
+
+const NEW_MAIN = [
+  "public class Notifly {",
+  "    public static func setUserId(_ userId: String?, force: Bool = false) {",
+  "        print(userId)",
+  "    }",
+  "",
+  "    public static func trackEvent(name: String) {",
+  "        print(name)",
+  "    }",
+  "",
+  "    public static func logout() {}",
+  "",
+  "    static func helper() -> Bool { true }",
+  "}",
+].join("\n");
+
+const ROUTES: Record<string, string> = {
+  [MAPPING_LLMS_URL]: `- [iOS SDK](${IOS_LLMS})`,
+  [IOS_LLMS]: `# Platform: iOS\n- [Notifly Main Entry](${RAW}/refs/heads/main/${MAIN_FILE}): Entry`,
+  // 1.3.0 predates llms.txt, so the current index is used at that ref
+  [`${RAW}/1.4.0/llms.txt`]: [
+    "# Platform: iOS",
+    `- [Notifly Main Entry](${RAW}/refs/heads/main/${MAIN_FILE}): Entry`,
+    `- [Push Handling](${RAW}/refs/heads/main/${PUSH_FILE}): Push`,
+  ].join("\n"),
+  [`${RAW}/1.3.0/${MAIN_FILE}`]: OLD_MAIN,
+  [`${RAW}/1.4.0/${MAIN_FILE}`]: NEW_MAIN,
+  [`${RAW}/1.4.0/${PUSH_FILE}`]: "public func registerPush() {}",
+};
+
+describe("compare_sdk_versions Tool", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should have correct tool name and schemas", () => {
+    expect(compareSdkVersionsTool.name).toBe("compare_sdk_versions");
+    expect(compareSdkVersionsTool.inputSchema).toHaveProperty("fromRef");
+    expect(compareSdkVersionsTool.inputSchema).toHaveProperty("toRef");
+    expect(compareSdkVersionsTool.inputSchema).toHaveProperty("symbol");
+    expect(compareSdkVersionsTool.outputSchema).toHaveProperty("api");
+  });
+
+  it("should diff every file of the platform and summarize public API changes", async () => {
+    const { text: result, structuredContent } = await compareSdkVersionsTool.handler(
+      { platform: "ios", fromRef: "1.3.0", toRef: "1.4.0" },
+      {}
+    );
+    const output = structuredContent as any;
+
+    expect(output.files).toEqual([
+      expect.objectContaining({ path: `notifly-ios-sdk/${MAIN_FILE}`, status: "modified" }),
+      expect.objectContaining({ path: `notifly-ios-sdk/${PUSH_FILE}`, status: "added" }),
+    ]);
+    expect(output.api.added.map((c: any) => c.name)).toEqual(["Notifly.logout", "registerPush"]);
+    expect(output.api.removed.map((c: any) => c.name)).toEqual(["Notifly.legacyLogin"]);
+    expect(output.api.changed).toEqual([
+      {
+        name: "Notifly.setUserId",
+        kind: "method",
+        path: `notifly-ios-sdk/${MAIN_FILE}`,
+        before: ["public static func setUserId(_ userId: String?)"],
+        after: ["public static func setUserId(_ userId: String?, force: Bool = false)"],
+      },
+    ]);
+    expect(output.truncated).toBe(false);
+
+    expect(result).toContain("# Notifly SDK Changes: 1.3.0 → 1.4.0");
+    expect(result).toContain("### Removed (1)\n\n- `Notifly.legacyLogin` (method)");
+    expect(result).toContain(
+      "  - before: `public static func setUserId(_ userId: String?)`\n  - after: `public static func setUserId(_ userId: String?, force: Bool = false)`"
+    );
+    expect(result).toContain(`--- 1.3.0/notifly-ios-sdk/${MAIN_FILE}`);
+    expect(result).toContain("-    public static func legacyLogin() {}");
+    expect(result).toContain("+    public static func logout() {}");
+    // Non-public helpers show up in the diff but not in the API summary
+    expect(result).toContain("+    static func helper() -> Bool { true }");
+    expect(result).not.toContain("`Notifly.helper`");
+  });
+
+  it("should narrow the comparison to one symbol", async () => {
+    const { structuredContent } = await compareSdkVersionsTool.handler(
+      {
+        platform: "ios",
+        fromRef: "1.3.0",
+        toRef: "1.4.0",
+        path: "Notifly.swift",
+        symbol: "setUserId",
+      },
+      {}
+    );
+    const output = structuredContent as any;
+
+    expect(output.symbol).toBe("setUserId");
+    expect(output.api.added).toEqual([]);
+    expect(output.api.removed).toEqual([]);
+    expect(output.api.changed.map((c: any) => c.name)).toEqual(["Notifly.setUserId"]);
+    expect(output.files[0].diff).toContain("+    public static func setUserId(");
+    expect(output.files[0].diff).not.toContain("trackEvent");
+  });
+
+  it("should report unchanged symbols and unknown ones", async () => {
+    const { text: result } = await compareSdkVersionsTool.handler(
+      { platform: "ios", fromRef: "1.3.0", toRef: "1.4.0", symbol: "trackEvent" },
+      {}
+    );
+    expect(result).toContain("No public declarations were added, removed or changed.");
+    expect(result).toContain("No changes between 1.3.0 and 1.4.0.");
+
+    await expect(
+      compareSdkVersionsTool.handler(
+        { platform: "ios", fromRef: "1.3.0", toRef: "1.4.0", symbol: "nope" },
+        {}
+      )
+    ).rejects.toThrow('Symbol "nope" at 1.3.0 or 1.4.0 not found');
+    await expect(
+      compareSdkVersionsTool.handler(
+        { platform: "ios", fromRef: "1.3.0", toRef: "1.4.0", path: "Missing.swift" },
+        {}
+      )
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("should validate refs", async () => {
+    await expect(
+      compareSdkVersionsTool.handler({ platform: "ios", fromRef: "1.4.0", toRef: "1.4.0" }, {})
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      compareSdkVersionsTool.handler({ platform: "all", fromRef: "1.3.0", toRef: "1.4.0" }, {})
+    ).rejects.toThrow("ref requires a platform");
+  });
+});
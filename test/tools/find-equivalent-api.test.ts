@@ -0,0 +1,139 @@
+/**
+ * Cross-Platform API Equivalence Tool Tests
+ *
+ * Tests locating a symbol on its platform and ranking counterparts on the
+ * other platforms.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { findEquivalentApiTool } from "../../src/tools/find-equivalent-api.js";
+import { MAPPING_LLMS_URL } from "../../src/tools/search-sdk.js";
+import { NotFoundError, ValidationError } from "../../src/errors.js";
+
+const RAW = "https://raw.githubusercontent.com/team-michael";
+const IOS_LLMS = `${RAW}/notifly-ios-sdk/refs/heads/main/llms.txt`;
+const FLUTTER_LLMS = `${RAW}/notifly-flutter-sdk/refs/heads/main/llms.txt`;
+const ANDROID_LLMS = `${RAW}/notifly-android-sdk/refs/heads/main/llms.txt`;
+const IOS_FILE = `${RAW}/notifly-ios-sdk/refs/heads/main/Sources/Notifly/Notifly.swift`;
+const FLUTTER_FILE = `${RAW}/notifly-flutter-sdk/refs/heads/main/lib/notifly_plugin.dart`;
+const ANDROID_FILE = `${RAW}/notifly-android-sdk/refs/heads/main/sdk/src/main/java/tech/notifly/Notifly.kt`;
+
+const ROUTES: Record<string, string> = {
+  [MAPPING_LLMS_URL]: [IOS_LLMS, FLUTTER_LLMS, ANDROID_LLMS].map((u) => `- [SDK](${u})`).join("\n"),
+  [IOS_LLMS]: `# Platform: iOS\n- [Notifly Main Entry](${IOS_FILE}): Entry point`,
+  [FLUTTER_LLMS]: `# Platform: Flutter\n- [Flutter Plugin](${FLUTTER_FILE}): Plugin API`,
+  [ANDROID_LLMS]: `# Platform: Android\n- [Android Entry](${ANDROID_FILE}): Entry point`,
+  [IOS_FILE]: [
+    "public class Notifly {",
+    "    public static func setUserProperties(_ params: [String: Any]) {",
+    "    }",
+    "    public static func setUserId(_ userId: String?) {}",
+    "    static func setUserPropertiesInternal() {}",
+    "}",
+  ].join("\n"),
+  [FLUTTER_FILE]: [
+    "class NotiflyPlugin {",
+    "  static Future<void> setUserProperties(Map<String, Object> params) async {",
+    "  }",
+    "  static Future<void> _setUserProperties() async {}",
+    "  static Future<void> setUserId(String? userId) async {}",
+    "}",
+  ].join("\n"),
+  [ANDROID_FILE]: [
+    "object Notifly {",
+    "    fun setUserProps(context: Context, params: Map<String, Any?>) {",
+    "    }",
+    "    fun trackEvent(context: Context, eventName: String) {}",
+    "}",
+  ].join("\n"),
+};
+
+describe("find_equivalent_api Tool", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should return same-named public counterparts with signatures and line links", async () => {
+    const {
+      text: result,
+      structuredContent,
+      resourceLinks,
+    } = await findEquivalentApiTool.handler(
+      { symbol: "Notifly.setUserProperties", platform: "ios" },
+      {}
+    );
+    const output = structuredContent as any;
+
+    expect(output.source).toEqual([
+      {
+        name: "Notifly.setUserProperties",
+        kind: "method",
+        signature: "public static func setUserProperties(_ params: [String: Any])",
+        path: "notifly-ios-sdk/Sources/Notifly/Notifly.swift",
+        url: "https://github.com/team-michael/notifly-ios-sdk/blob/main/Sources/Notifly/Notifly.swift#L2-L3",
+        score: 1,
+      },
+    ]);
+    const flutter = output.equivalents.find((e: any) => e.platform === "flutter");
+    expect(flutter.matches).toEqual([
+      expect.objectContaining({
+        name: "NotiflyPlugin.setUserProperties",
+        signature: "static Future<void> setUserProperties(Map<String, Object> params) async",
+        score: 1,
+      }),
+    ]);
+    expect(result).toContain("## flutter\n\n- `NotiflyPlugin.setUserProperties` (method)");
+    expect(result).toContain("```dart\n  static Future<void> setUserProperties(");
+    expect(resourceLinks?.map((l) => l.name)).toEqual([
+      "Notifly Main Entry",
+      "Flutter Plugin",
+      "Android Entry",
+    ]);
+  });
+
+  it("should fall back to similar names with a lower score", async () => {
+    const { structuredContent } = await findEquivalentApiTool.handler(
+      { symbol: "setUserProperties", platform: "flutter", targetPlatforms: ["android"] },
+      {}
+    );
+    const output = structuredContent as any;
+
+    expect(output.equivalents).toHaveLength(1);
+    expect(output.equivalents[0].platform).toBe("android");
+    expect(output.equivalents[0].matches.map((m: any) => [m.name, m.score])).toEqual([
+      ["Notifly.setUserProps", 0.67],
+    ]);
+  });
+
+  it("should report platforms without a match", async () => {
+    const { text: result, structuredContent } = await findEquivalentApiTool.handler(
+      { symbol: "trackEvent", platform: "android" },
+      {}
+    );
+
+    expect((structuredContent as any).equivalents.every((e: any) => e.matches.length === 0)).toBe(
+      true
+    );
+    expect(result).toContain('No matching public API found. Try `search_sdk` with platform "ios".');
+  });
+
+  it("should reject unknown symbols and a missing source platform", async () => {
+    await expect(
+      findEquivalentApiTool.handler({ symbol: "nope", platform: "ios" }, {})
+    ).rejects.toBeInstanceOf(NotFoundError);
+    await expect(
+      findEquivalentApiTool.handler({ symbol: "setUserId", platform: "all" }, {})
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Integration Snippet Tool Tests
+ *
+ * Tests task names, finding SDK methods in the sources and building calls
+ * with each language's receivers and argument labels.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  generateIntegrationSnippetTool,
+  normalizeIntegrationTask,
+} from "../../src/tools/generate-integration-snippet.js";
+import { MAPPING_LLMS_URL } from "../../src/tools/search-sdk.js";
+import { NotFoundError, ValidationError } from "../../src/errors.js";
+
+const RAW = "https://raw.githubusercontent.com/team-michael";
+const MAIN = "refs/heads/main";
+const FILES = {
+  ios: `${RAW}/notifly-ios-sdk/${MAIN}/Sources/Notifly/Notifly.swift`,
+  android: `${RAW}/notifly-android-sdk/${MAIN}/sdk/src/main/java/tech/notifly/Notifly.kt`,
+  flutter: `${RAW}/notifly_flutter/${MAIN}/lib/notifly_flutter.dart`,
+  "react-native": `${RAW}/notifly-react-native-sdk/${MAIN}/src/index.tsx`,
+  gtm: `${RAW}/notifly-gtm-template/${MAIN}/template.tpl`,
+};
+const LLMS = Object.fromEntries(
+  Object.entries(FILES).map(([platform, file]) => [
+    platform,
+    file.replace(/refs\/heads\/main\/.*$/, "refs/heads/main/llms.txt"),
+  ])
+);
+const PLATFORM_NAMES: Record<string, string> = {
+  ios: "iOS",
+  android: "Android",
+  flutter: "Flutter",
+  "react-native": "React Native",
+  gtm: "GTM",
+};
+
+const SOURCES: Record<string, string> = {
+  ios: [
+    "public class Notifly {",
+    "    public static func initialize(projectId: String, username: String, password: String, useCustomClickHandler: Bool = false) {",
+    "    }",
+    "    public static func setUserId(userId: String?) {}",
+    "    public static func userNotificationCenter(_ notificationCenter: UNUserNotificationCenter, willPresent notification: UNNotification, withCompletionHandler completion: @escaping (UNNotificationPresentationOptions) -> Void) {}",
+    "    public static func userNotificationCenter(_ notificationCenter: UNUserNotificationCenter, didReceive response: UNNotificationResponse, withCompletionHandler completion: () -> Void) {}",
+    "}",
+  ].join("\n"),
+  android: [
+    "package tech.notifly",
+    "",
+    "object Notifly {",
+    "    fun trackEvent(context: Context, eventName: String, eventParams: Map<String, Any?> = emptyMap(), segmentationEventParamKeys: List<String>? = null) {",
+    "    }",
+    "    fun addNotificationClickListener(listener: (NotiflyNotification) -> Unit) {}",
+    "}",
+  ].join("\n"),
+  flutter: [
+    "class NotiflyPlugin {",
+    "  static Future<void> setUserProperties(Map<String, Object?> params) async {",
+    "  }",
+    "  static Future<void> initialize({required String projectId, required String username, required String password}) async {}",
+    "}",
+  ].join("\n"),
+  "react-native": [
+    "class Notifly {",
+    "  async trackEvent(eventName: string, eventParams?: Record<string, unknown>): Promise<void> {}",
+    "  requestPermission() {}",
+    "}",
+    "export default new Notifly();",
+    "export class Notifly2 {}",
+  ].join("\n"),
+  gtm: "const notifly = require('notifly-js-sdk');\nnotifly.setUserId(data.userId);",
+};
+
+const ROUTES: Record<string, string> = {
+  [MAPPING_LLMS_URL]: Object.values(LLMS)
+    .map((url) => `- [SDK](${url})`)
+    .join("\n"),
+  ...Object.fromEntries(
+    Object.entries(FILES).flatMap(([platform, file]) => [
+      [LLMS[platform]!, `# Platform: ${PLATFORM_NAMES[platform]}\n- [Main](${file}): Main`],
+      [file, SOURCES[platform]!],
+    ])
+  ),
+};
+
+async function generate(platform: string, task: string) {
+  const { text, structuredContent } = await generateIntegrationSnippetTool.handler(
+    { platform, task: normalizeIntegrationTask(task) },
+    {}
+  );
+  return { text, output: structuredContent as any };
+}
+
+describe("generate_integration_snippet Tool", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should normalize task names", () => {
+    expect(normalizeIntegrationTask("set_user_id")).toBe("setUserId");
+    expect(normalizeIntegrationTask("request push permission")).toBe("requestPushPermission");
+    expect(normalizeIntegrationTask("handle notification click")).toBe("handleNotificationClick");
+    expect(normalizeIntegrationTask("init")).toBe("initialize");
+    expect(normalizeIntegrationTask("dance")).toBe("dance");
+  });
+
+  it("should use Swift argument labels and skip defaulted parameters", async () => {
+    const { text, output } = await generate("ios", "initialize");
+
+    expect(output.language).toBe("swift");
+    expect(output.snippet).toContain(
+      'Notifly.initialize(projectId: "YOUR_PROJECT_ID", username: "YOUR_USERNAME", password: "YOUR_PASSWORD")'
+    );
+    expect(output.sources).toEqual([
+      expect.objectContaining({
+        name: "Notifly.initialize",
+        url: `https://github.com/team-michael/notifly-ios-sdk/blob/main/Sources/Notifly/Notifly.swift#L2-L3`,
+      }),
+    ]);
+    expect(text).toContain("**Where**: Call in AppDelegate.application");
+    expect(text).toContain("## Derived From");
+  });
+
+  it("should pick the click overload and keep positional Swift arguments", async () => {
+    const { output } = await generate("ios", "handleNotificationClick");
+
+    expect(output.snippet).toContain(
+      "Notifly.userNotificationCenter(notificationCenter, didReceive: response, withCompletionHandler: completion)"
+    );
+  });
+
+  it("should call Kotlin objects with the package import and useful optional arguments", async () => {
+    const { output } = await generate("android", "trackEvent");
+
+    expect(output.snippet).toContain("import tech.notifly.Notifly\n\n");
+    expect(output.snippet).toContain(
+      'Notifly.trackEvent(context, "purchase_completed", mapOf("plan" to "premium"))'
+    );
+
+    const click = await generate("android", "notification click");
+    expect(click.output.snippet).toContain(
+      "Notifly.addNotificationClickListener({ notification ->"
+    );
+  });
+
+  it("should await Dart futures and pass named parameters", async () => {
+    expect((await generate("flutter", "setUserProperties")).output.snippet).toContain(
+      'await NotiflyPlugin.setUserProperties({"plan": "premium"});'
+    );
+    expect((await generate("flutter", "initialize")).output.snippet).toContain(
+      'await NotiflyPlugin.initialize(projectId: "YOUR_PROJECT_ID", username: "YOUR_USERNAME", password: "YOUR_PASSWORD");'
+    );
+  });
+
+  it("should call instance methods on an instance variable in TypeScript", async () => {
+    const { output } = await generate("react-native", "trackEvent");
+
+    expect(output.language).toBe("typescript");
+    expect(output.snippet).toContain(
+      'await notifly.trackEvent("purchase_completed", { plan: "premium" });'
+    );
+  });
+
+  it("should build GTM dataLayer snippets grounded in the template", async () => {
+    const { output } = await generate("gtm", "setUserId");
+
+    expect(output.snippet).toContain('event: "notifly_set_user_id"');
+    expect(output.sources).toEqual([expect.objectContaining({ kind: "template" })]);
+
+    await expect(generate("gtm", "trackEvent")).rejects.toBeInstanceOf(NotFoundError);
+    await expect(generate("gtm", "requestPushPermission")).rejects.toThrow(
+      'Use platform "javascript"'
+    );
+  });
+
+  it("should not invent methods missing from the sources", async () => {
+    await expect(generate("flutter", "trackEvent")).rejects.toThrow(
+      'SDK method for "trackEvent" on platform "flutter"'
+    );
+    await expect(generate("ios", "dance")).rejects.toBeInstanceOf(ValidationError);
+    await expect(generate("all", "trackEvent")).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Campaign Details Tool Tests
+ *
+ * Tests get_campaign against a local mock of the Notifly API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { getCampaignTool } from "../../src/tools/get-campaign.js";
+import { NotFoundError } from "../../src/errors.js";
+import { startMockApiServer, type MockApiServer } from "../helpers/mock-api-server.js";
+
+const CAMPAIGN = {
+  id: "c1",
+  name: "Welcome Push",
+  projectId: "p1",
+  status: "active",
+  createdAt: "2024-01-01",
+  channel: "push-notification",
+  message: { title: "Hi {{ user.name }}" },
+};
+
+describe("get_campaign Tool", () => {
+  let mock: MockApiServer;
+
+  beforeEach(async () => {
+    mock = await startMockApiServer();
+    mock.routes["GET /projects/p1/campaigns/c1"] = { body: { success: true, data: CAMPAIGN } };
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  it("should return the campaign with every API field", async () => {
+    const { text: result, structuredContent } = await getCampaignTool.handler(
+      { projectId: "p1", campaignId: "c1" },
+      { api: mock.client() }
+    );
+
+    expect(structuredContent?.campaign).toEqual({
+      id: "c1",
+      name: "Welcome Push",
+      projectId: "p1",
+      status: "active",
+      createdAt: "2024-01-01",
+    });
+    expect(structuredContent?.details).toEqual(CAMPAIGN);
+    expect(result).toContain("# Campaign: Welcome Push");
+    expect(result).toContain('"channel": "push-notification"');
+  });
+
+  it("should throw NotFoundError for unknown campaigns", async () => {
+    await expect(
+      getCampaignTool.handler({ projectId: "p1", campaignId: "c9" }, { api: mock.client() })
+    ).rejects.toThrow('Campaign "c9" in project "p1" not found');
+    await expect(
+      getCampaignTool.handler({ projectId: "p1", campaignId: "c9" }, { api: mock.client() })
+    ).rejects.toThrow(NotFoundError);
+  });
+});
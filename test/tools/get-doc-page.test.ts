@@ -0,0 +1,159 @@
+/**
+ * Docs Page Tool Tests
+ *
+ * Tests resolving docs pages, the table of contents and section pagination.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getDocPageTool, resolveDocLink } from "../../src/tools/get-doc-page.js";
+import { KO_LLMS_URL, type DocsLink } from "../../src/tools/search-docs.js";
+import { NotFoundError, ValidationError } from "../../src/errors.js";
+
+const IOS_PAGE = "https://docs.notifly.tech/ko/client-sdk/ios-sdk";
+const GUIDE_PAGE = "https://docs.notifly.tech/ko/guide/campaign";
+
+const IOS_MARKDOWN = [
+  "---",
+  "title: iOS SDK",
+  "---",
+  "Intro text",
+  "# iOS SDK",
+  "Install with CocoaPods",
+  "## Push Notification {#push-notification}",
+  "Register for APNs",
+  "```swift",
+  "# not a heading",
+  "```",
+  "### Troubleshooting",
+  "Check the certificate",
+].join("\n");
+
+const GUIDE_MARKDOWN = [
+  "# Campaign",
+  "Send messages to segments",
+  ...["One", "Two", "Three", "Four"].map((t) => `## ${t}\n${t.repeat(1500)}`),
+].join("\n");
+
+const ROUTES: Record<string, string> = {
+  [KO_LLMS_URL]: [
+    `- [iOS SDK](${IOS_PAGE}): iOS integration`,
+    `- [Campaign Guide](/ko/guide/campaign): Campaigns`,
+  ].join("\n"),
+  [`${IOS_PAGE}.md`]: IOS_MARKDOWN,
+  [`${GUIDE_PAGE}.md`]: GUIDE_MARKDOWN,
+};
+
+describe("get_doc_page Tool", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("resolveDocLink", () => {
+    const links: DocsLink[] = [
+      { title: "iOS SDK", url: IOS_PAGE },
+      { title: "Campaign Guide", url: "/ko/guide/campaign" },
+    ];
+
+    it("should accept URLs, paths and resource URIs", () => {
+      for (const page of [
+        IOS_PAGE,
+        `${IOS_PAGE}/`,
+        `${IOS_PAGE}.md`,
+        `${IOS_PAGE}#push-notification`,
+        "/ko/client-sdk/ios-sdk",
+        "client-sdk/ios-sdk",
+        "notifly-docs://ko/client-sdk/ios-sdk",
+      ]) {
+        expect(resolveDocLink(links, page).title).toBe("iOS SDK");
+      }
+      expect(resolveDocLink(links, GUIDE_PAGE).title).toBe("Campaign Guide");
+    });
+
+    it("should throw NotFoundError for pages outside the index", () => {
+      expect(() => resolveDocLink(links, "client-sdk/android-sdk")).toThrow(NotFoundError);
+      expect(() => resolveDocLink(links, "https://example.com/ko/client-sdk/ios-sdk")).toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe("Reading Pages", () => {
+    it("should return the full page with a table of contents", async () => {
+      const { text: result, structuredContent } = await getDocPageTool.handler(
+        { url: "client-sdk/ios-sdk" },
+        {}
+      );
+
+      expect(result).toContain("# iOS SDK\n\n**URL**: " + IOS_PAGE);
+      expect(result).toContain("**Sections**: 1-4 of 4");
+      expect(result).toContain("1. **(Introduction)**");
+      expect(result).toContain("3. **iOS SDK > Push Notification**");
+      expect(result).toContain("## Push Notification\n\nRegister for APNs");
+      expect(result).toContain("```swift\n# not a heading\n```");
+      expect(result).not.toContain("{#push-notification}");
+      expect(result).not.toContain("title: iOS SDK");
+      expect(result).not.toContain("Next Page");
+
+      expect(structuredContent).toMatchObject({
+        title: "iOS SDK",
+        resourceUri: "notifly-docs://ko/client-sdk/ios-sdk",
+        totalSections: 4,
+        startSection: 1,
+        endSection: 4,
+      });
+      expect((structuredContent as any).toc[2]).toEqual({
+        index: 3,
+        headingPath: ["iOS SDK", "Push Notification"],
+        url: `${IOS_PAGE}#push-notification`,
+      });
+    });
+
+    it("should start at the section named by the URL anchor", async () => {
+      const { structuredContent } = await getDocPageTool.handler(
+        { url: `${IOS_PAGE}#push-notification` },
+        {}
+      );
+
+      expect(structuredContent).toMatchObject({ startSection: 3, endSection: 4 });
+      expect((structuredContent as any).content).toMatch(/^## Push Notification/);
+    });
+
+    it("should paginate long pages by section", async () => {
+      const first = await getDocPageTool.handler({ url: GUIDE_PAGE }, {});
+      expect(first.structuredContent).toMatchObject({
+        totalSections: 5,
+        startSection: 1,
+        nextStartSection: (first.structuredContent as any).endSection + 1,
+      });
+      expect(first.text).toContain("**Next Page**");
+
+      const last = await getDocPageTool.handler({ url: GUIDE_PAGE, startSection: 5 }, {});
+      expect(last.structuredContent).toMatchObject({ startSection: 5, endSection: 5 });
+      expect(last.structuredContent).not.toHaveProperty("nextStartSection");
+      expect((last.structuredContent as any).content).toContain("## Four");
+    });
+
+    it("should reject sections past the end of the page", async () => {
+      await expect(
+        getDocPageTool.handler({ url: IOS_PAGE, startSection: 9 }, {})
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it("should reject pages outside the index", async () => {
+      await expect(getDocPageTool.handler({ url: "nope/page" }, {})).rejects.toThrow(
+        'Docs page "nope/page" not found'
+      );
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * SDK File Tool Tests
+ *
+ * Tests resolving SDK files by path or title, line ranges and pagination.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getSdkFileTool, resolveSdkEntry } from "../../src/tools/get-sdk-file.js";
+import { MAPPING_LLMS_URL, type SdkEntry } from "../../src/tools/search-sdk.js";
+import { SDK_FILE_PAGE_LINES } from "../../src/constants.js";
+import { NotFoundError, ValidationError } from "../../src/errors.js";
+
+const IOS_LLMS =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/llms.txt";
+const RN_LLMS =
+  "https://raw.githubusercontent.com/team-michael/notifly-react-native-sdk/refs/heads/main/llms.txt";
+const IOS_FILE =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/Sources/Notifly/Notifly.swift";
+const IOS_EXTENSION_FILE =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/Sources/NotiflyExtension/Notifly.swift";
+const RN_FILE =
+  "https://raw.githubusercontent.com/team-michael/notifly-react-native-sdk/refs/heads/main/src/index.tsx";
+
+const LARGE_SOURCE = Array.from({ length: 700 }, (_, i) => `// line ${i + 1}`).join("\n") + "\n";
+
+const ROUTES: Record<string, string> = {
+  [MAPPING_LLMS_URL]: `- [iOS SDK](${IOS_LLMS})\n- [RN SDK](${RN_LLMS})`,
+  [IOS_LLMS]: [
+    "# Platform: iOS",
+    `- [Notifly Main Entry](${IOS_FILE}): Singleton entry point`,
+    `- [Extension Entry](${IOS_EXTENSION_FILE}): Notification service extension`,
+  ].join("\n"),
+  [RN_LLMS]: `# Platform: React Native\n- [JS Public API](${RN_FILE}): Public interface`,
+  [IOS_FILE]: LARGE_SOURCE,
+  [IOS_EXTENSION_FILE]: "class NotiflyExtension {}",
+  [RN_FILE]: "export function setUserId() {}\nexport function track() {}",
+};
+
+describe("get_sdk_file Tool", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      const body = ROUTES[url];
+      return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Tool Metadata", () => {
+    it("should have correct tool name and schemas", () => {
+      expect(getSdkFileTool.name).toBe("get_sdk_file");
+      expect(getSdkFileTool.inputSchema).toHaveProperty("platform");
+      expect(getSdkFileTool.inputSchema).toHaveProperty("path");
+      expect(getSdkFileTool.inputSchema).toHaveProperty("title");
+      expect(getSdkFileTool.outputSchema).toHaveProperty("nextStartLine");
+    });
+  });
+
+  describe("resolveSdkEntry", () => {
+    const entries: SdkEntry[] = [
+      { platform: "ios", title: "Notifly Main Entry", file: IOS_FILE },
+      { platform: "ios", title: "Extension Entry", file: IOS_EXTENSION_FILE },
+      { platform: "react-native", title: "JS Public API", file: RN_FILE },
+    ];
+
+    it("should match repository paths, trailing parts, URIs and raw URLs", () => {
+      const byPath = (path: string, platform = "ios") =>
+        resolveSdkEntry(entries, { platform, path });
+
+      expect(byPath("Sources/Notifly/Notifly.swift").file).toBe(IOS_FILE);
+      expect(byPath("Notifly/Notifly.swift").file).toBe(IOS_FILE);
+      expect(byPath("notifly-ios-sdk/Sources/NotiflyExtension/Notifly.swift").file).toBe(
+        IOS_EXTENSION_FILE
+      );
+      expect(
+        byPath("notifly-sdk://react-native/notifly-react-native-sdk/src/index.tsx", "all").file
+      ).toBe(RN_FILE);
+      expect(byPath(IOS_FILE).file).toBe(IOS_FILE);
+    });
+
+    it("should match titles case-insensitively", () => {
+      expect(resolveSdkEntry(entries, { platform: "all", title: "js public api" }).file).toBe(
+        RN_FILE
+      );
+    });
+
+    it("should reject ambiguous paths with the candidates", () => {
+      expect(() => resolveSdkEntry(entries, { platform: "ios", path: "Notifly.swift" })).toThrow(
+        ValidationError
+      );
+      expect(() => resolveSdkEntry(entries, { platform: "ios", path: "Notifly.swift" })).toThrow(
+        /Extension Entry \(ios\): Sources\/NotiflyExtension\/Notifly\.swift/
+      );
+    });
+
+    it("should throw NotFoundError for unknown files or the wrong platform", () => {
+      expect(() => resolveSdkEntry(entries, { platform: "ios", path: "index.tsx" })).toThrow(
+        NotFoundError
+      );
+      expect(() => resolveSdkEntry(entries, { platform: "ios", title: "Nope" })).toThrow(
+        'SDK file "Nope" on platform "ios" not found'
+      );
+    });
+  });
+
+  describe("Reading Files", () => {
+    it("should return a small file in full", async () => {
+      const { text: result, structuredContent } = await getSdkFileTool.handler(
+        { platform: "react-native", title: "JS Public API" },
+        {}
+      );
+
+      expect(result).toContain("# Notifly SDK File: JS Public API");
+      expect(result).toContain("**Lines**: 1-2 of 2");
+      expect(result).toContain("```typescript\nexport function setUserId() {}");
+      expect(result).not.toContain("Next Page");
+      expect(structuredContent).toMatchObject({
+        platform: "react-native",
+        path: "src/index.tsx",
+        language: "typescript",
+        resourceUri: "notifly-sdk://react-native/notifly-react-native-sdk/src/index.tsx",
+        startLine: 1,
+        endLine: 2,
+        totalLines: 2,
+      });
+      expect(structuredContent).not.toHaveProperty("nextStartLine");
+    });
+
+    it("should return a line range with a GitHub link to those lines", async () => {
+      const { text: result, structuredContent } = await getSdkFileTool.handler(
+        { platform: "ios", path: "Notifly/Notifly.swift", startLine: 10, endLine: 12 },
+        {}
+      );
+
+      expect(result).toContain(
+        "**GitHub**: https://github.com/team-michael/notifly-ios-sdk/blob/main/Sources/Notifly/Notifly.swift#L10-L12"
+      );
+      expect((structuredContent as any).content).toBe("// line 10\n// line 11\n// line 12");
+    });
+
+    it("should link the lines at the commit the branch points to", async () => {
+      const sha = "0123456789abcdef0123456789abcdef01234567";
+      fetchMock.mockImplementation((url: string) => {
+        const body =
+          url === "https://api.github.com/repos/team-michael/notifly-ios-sdk/commits/main"
+            ? `${sha}\n`
+            : ROUTES[url];
+        return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+      });
+
+      const { text: result } = await getSdkFileTool.handler(
+        { platform: "ios", path: "Notifly/Notifly.swift", startLine: 10, endLine: 12 },
+        {}
+      );
+
+      expect(result).toContain(
+        `**GitHub**: https://github.com/team-michael/notifly-ios-sdk/blob/${sha}/Sources/Notifly/Notifly.swift#L10-L12`
+      );
+    });
+
+    it("should paginate large files", async () => {
+      const first = await getSdkFileTool.handler(
+        { platform: "ios", title: "Notifly Main Entry" },
+        {}
+      );
+      expect(first.structuredContent).toMatchObject({
+        startLine: 1,
+        endLine: SDK_FILE_PAGE_LINES,
+        totalLines: 700,
+        nextStartLine: SDK_FILE_PAGE_LINES + 1,
+      });
+      expect(first.text).toContain(`startLine: ${SDK_FILE_PAGE_LINES + 1}`);
+
+      const last = await getSdkFileTool.handler(
+        { platform: "ios", title: "Notifly Main Entry", startLine: 650, endLine: 900 },
+        {}
+      );
+      expect(last.structuredContent).toMatchObject({ startLine: 650, endLine: 700 });
+      expect(last.structuredContent).not.toHaveProperty("nextStartLine");
+    });
+
+    it("should read files at a pinned ref", async () => {
+      const pinnedFile =
+        "https://raw.githubusercontent.com/team-michael/notifly-react-native-sdk/2.0.0/src/index.tsx";
+      ROUTES[pinnedFile] = "export function legacy() {}";
+      try {
+        const { text: result, structuredContent } = await getSdkFileTool.handler(
+          { platform: "react-native", path: RN_FILE, ref: "2.0.0" },
+          {}
+        );
+
+        expect(result).toContain("**Ref**: 2.0.0");
+        expect(structuredContent).toMatchObject({
+          ref: "2.0.0",
+          url: pinnedFile,
+          content: "export function legacy() {}",
+        });
+        expect(structuredContent).not.toHaveProperty("resourceUri");
+      } finally {
+        delete ROUTES[pinnedFile];
+      }
+    });
+
+    it("should validate arguments", async () => {
+      await expect(getSdkFileTool.handler({ platform: "ios" }, {})).rejects.toThrow(
+        "Either path or title is required."
+      );
+      await expect(
+        getSdkFileTool.handler(
+          { platform: "ios", title: "Notifly Main Entry", startLine: 5, endLine: 4 },
+          {}
+        )
+      ).rejects.toBeInstanceOf(ValidationError);
+      await expect(
+        getSdkFileTool.handler({ platform: "ios", title: "Notifly Main Entry", startLine: 701 }, {})
+      ).rejects.toThrow("past the end of the file (700 lines)");
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * User Lookup Tool Tests
+ *
+ * Tests get_user against a local mock of the Notifly API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { getUserTool } from "../../src/tools/get-user.js";
+import { NotFoundError } from "../../src/errors.js";
+import { startMockApiServer, type MockApiServer } from "../helpers/mock-api-server.js";
+
+describe("get_user Tool", () => {
+  let mock: MockApiServer;
+
+  beforeEach(async () => {
+    mock = await startMockApiServer();
+    mock.routes["GET /projects/p1/users/user-123"] = {
+      body: {
+        success: true,
+        data: {
+          userId: "user-123",
+          userProperties: { plan: "pro", $email: "qa@example.com" },
+          createdAt: "2024-01-01",
+        },
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  it("should return the user's properties", async () => {
+    const { text: result, structuredContent } = await getUserTool.handler(
+      { userId: "user-123", projectId: "p1" },
+      { api: mock.client() }
+    );
+
+    expect(structuredContent).toEqual({
+      projectId: "p1",
+      userId: "user-123",
+      userProperties: { plan: "pro", $email: "qa@example.com" },
+      createdAt: "2024-01-01",
+    });
+    expect(result).toContain("# Notifly User: user-123");
+    expect(result).toContain('- `$email`: "qa@example.com"');
+  });
+
+  it("should throw NotFoundError for unknown users", async () => {
+    await expect(
+      getUserTool.handler({ userId: "ghost", projectId: "p1" }, { api: mock.client() })
+    ).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Campaign Listing Tool Tests
+ *
+ * Tests list_campaigns filtering and limits against a local mock of the
+ * Notifly API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { listCampaignsTool } from "../../src/tools/list-campaigns.js";
+import { ApiError, ConfigurationError } from "../../src/errors.js";
+import { startMockApiServer, type MockApiServer } from "../helpers/mock-api-server.js";
+
+const CAMPAIGNS = [
+  { id: "c1", name: "Welcome Push", projectId: "p1", status: "active", createdAt: "2024-01-01" },
+  { id: "c2", name: "Cart Reminder", projectId: "p1", status: "draft", createdAt: "2024-02-01" },
+  { id: "c3", name: "Welcome Email", projectId: "p1", status: "inactive", createdAt: "2024-03-01" },
+];
+
+describe("list_campaigns Tool", () => {
+  let mock: MockApiServer;
+
+  beforeEach(async () => {
+    mock = await startMockApiServer();
+    mock.routes["GET /projects/p1/campaigns"] = { body: { success: true, data: CAMPAIGNS } };
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  it("should list the campaigns of the default project", async () => {
+    const { text: result, structuredContent } = await listCampaignsTool.handler(
+      {},
+      { api: mock.client({ defaultProjectId: "p1" }) }
+    );
+
+    expect(structuredContent?.projectId).toBe("p1");
+    expect(structuredContent?.total).toBe(3);
+    expect(result).toContain("**Project**: p1");
+    expect(result).toContain("- **Cart Reminder** — `c2` [draft]");
+  });
+
+  it("should filter by status and name and apply the limit", async () => {
+    const api = mock.client();
+
+    const active = await listCampaignsTool.handler({ projectId: "p1", status: "active" }, { api });
+    expect(active.structuredContent?.campaigns).toEqual([CAMPAIGNS[0]]);
+
+    const welcome = await listCampaignsTool.handler(
+      { projectId: "p1", query: "welcome", limit: 1 },
+      { api }
+    );
+    expect(welcome.structuredContent?.total).toBe(2);
+    expect(welcome.structuredContent?.campaigns).toEqual([CAMPAIGNS[0]]);
+    expect(welcome.text).toContain("**Campaigns**: 2 (showing first 1)");
+  });
+
+  it("should require a project and surface API errors", async () => {
+    await expect(listCampaignsTool.handler({}, { api: mock.client() })).rejects.toThrow(
+      ConfigurationError
+    );
+    await expect(
+      listCampaignsTool.handler({ projectId: "unknown" }, { api: mock.client() })
+    ).rejects.toThrow(ApiError);
+  });
+});
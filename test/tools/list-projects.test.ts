@@ -0,0 +1,56 @@
+/**
+ * Project Listing Tool Tests
+ *
+ * Tests list_projects against a local mock of the Notifly API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { listProjectsTool } from "../../src/tools/list-projects.js";
+import { ConfigurationError } from "../../src/errors.js";
+import { startMockApiServer, type MockApiServer } from "../helpers/mock-api-server.js";
+
+describe("list_projects Tool", () => {
+  let mock: MockApiServer;
+
+  beforeEach(async () => {
+    mock = await startMockApiServer();
+    mock.routes["GET /projects"] = {
+      body: {
+        success: true,
+        data: [
+          {
+            id: "p1",
+            name: "Shop",
+            organizationId: "o1",
+            apiKey: "project-secret",
+            createdAt: "2024-01-01T00:00:00Z",
+          },
+        ],
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  it("should list projects without their API keys", async () => {
+    const { text: result, structuredContent } = await listProjectsTool.handler(
+      {},
+      { api: mock.client({ defaultProjectId: "p1" }) }
+    );
+
+    expect(structuredContent).toEqual({
+      projects: [
+        { id: "p1", name: "Shop", organizationId: "o1", createdAt: "2024-01-01T00:00:00Z" },
+      ],
+    });
+    expect(result).toContain("**Default Project**: p1");
+    expect(result).toContain("- **Shop** — `p1`");
+    expect(result).not.toContain("project-secret");
+  });
+
+  it("should throw ConfigurationError without API credentials", async () => {
+    await expect(listProjectsTool.handler({}, {})).rejects.toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Message Template Tool Tests
+ *
+ * Tests validation, fallback warnings, previews and Connected Content
+ * fixtures.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { renderMessageTemplateTool } from "../../src/tools/render-message-template.js";
+import { ValidationError } from "../../src/errors.js";
+
+describe("render_message_template Tool", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "notifly-template-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should flag user properties printed without a fallback", async () => {
+    const { text: result, structuredContent } = await renderMessageTemplateTool.handler(
+      {
+        template:
+          '{{ user.name }}님,\n{{ user.nmae | default: "고객" }}님, {{ event.product }} 주문 완료',
+        userProperties: { name: "김노티" },
+        eventParams: { product: "운동화" },
+      },
+      {}
+    );
+
+    expect(structuredContent?.valid).toBe(true);
+    expect(structuredContent?.rendered).toBe("김노티님,\n고객님, 운동화 주문 완료");
+    expect(structuredContent?.warnings).toEqual([
+      {
+        id: "missing-fallback",
+        message: expect.stringContaining("{{ user.name }} has no fallback"),
+        line: 1,
+      },
+      {
+        id: "missing-sample",
+        message: expect.stringContaining("user.nmae is not in the sample user properties"),
+        line: 2,
+      },
+    ]);
+    expect(result).toContain("line 1 [missing-fallback]");
+    expect(result).toContain("## Preview");
+  });
+
+  it("should pass templates with fallbacks and guards", async () => {
+    const { text: result, structuredContent } = await renderMessageTemplateTool.handler(
+      {
+        template:
+          '{% if user.name %}{{ user.name }}님{% else %}고객님{% endif %}, {{ user.city | default: "서울" }}',
+      },
+      {}
+    );
+
+    expect(structuredContent?.warnings).toEqual([]);
+    expect(structuredContent?.rendered).toBe("고객님, 서울");
+    expect(result).toContain("No problems found.");
+    expect(result).toContain("recipient without any properties");
+  });
+
+  it("should report syntax errors and unknown variables", async () => {
+    const invalid = await renderMessageTemplateTool.handler(
+      { template: "안녕하세요\n{{ user.name | default: '고객' }" },
+      {}
+    );
+    expect(invalid.structuredContent?.valid).toBe(false);
+    expect(invalid.structuredContent?.errors).toEqual([
+      { message: expect.stringContaining("{{ is never closed"), line: 2 },
+    ]);
+    expect(invalid.structuredContent?.rendered).toBeUndefined();
+
+    const unknown = await renderMessageTemplateTool.handler({ template: "{{ first_name }}" }, {});
+    expect(unknown.structuredContent?.warnings).toEqual([
+      { id: "unknown-variable", message: expect.stringContaining('"first_name"'), line: 1 },
+    ]);
+  });
+
+  it("should answer Connected Content from the fixture file", async () => {
+    await writeFile(
+      path.join(dir, "connected.json"),
+      JSON.stringify({ "https://api.example.com/coupons/u1": { code: "WELCOME10" } })
+    );
+    const template =
+      "{% connected_content https://api.example.com/coupons/{{ user.id }} :save coupon %}{{ coupon.code }}";
+    const context = { fixturesDir: dir };
+
+    const { structuredContent } = await renderMessageTemplateTool.handler(
+      { template, userProperties: { id: "u1" }, connectedContentFile: "connected.json" },
+      context
+    );
+    expect(structuredContent?.rendered).toBe("WELCOME10");
+    expect(structuredContent?.warnings).toEqual([]);
+
+    const missing = await renderMessageTemplateTool.handler(
+      { template, userProperties: { id: "u2" }, connectedContentFile: "connected.json" },
+      context
+    );
+    expect(missing.structuredContent?.valid).toBe(false);
+    expect(missing.structuredContent?.errors).toEqual([
+      {
+        message: expect.stringContaining(
+          "no Connected Content response for https://api.example.com/coupons/u2"
+        ),
+        line: 1,
+      },
+    ]);
+
+    await expect(
+      renderMessageTemplateTool.handler({ template, connectedContentFile: "missing.json" }, context)
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it("should only read fixture files inside the fixtures directory", async () => {
+    const fixturesDir = path.join(dir, "fixtures");
+    await mkdir(fixturesDir, { recursive: true });
+    await writeFile(path.join(dir, "secret.txt"), "root:x:0:0");
+    await symlink(path.join(dir, "secret.txt"), path.join(fixturesDir, "link.json"));
+    await writeFile(path.join(fixturesDir, "broken.json"), "root:x:0:0");
+    const template = "Hi";
+
+    for (const connectedContentFile of ["/etc/passwd", "../secret.txt", "link.json"]) {
+      const attempt = renderMessageTemplateTool.handler(
+        { template, connectedContentFile },
+        { fixturesDir }
+      );
+      await expect(attempt).rejects.toThrow(ValidationError);
+      await expect(attempt).rejects.not.toThrow(/root:x/);
+    }
+
+    await expect(
+      renderMessageTemplateTool.handler(
+        { template, connectedContentFile: "broken.json" },
+        { fixturesDir }
+      )
+    ).rejects.toThrow(/^connectedContentFile is not valid JSON: broken\.json$/);
+
+    await expect(
+      renderMessageTemplateTool.handler({ template, connectedContentFile: "broken.json" }, {})
+    ).rejects.toThrow(/NOTIFLY_FIXTURES_DIR/);
+  });
+});
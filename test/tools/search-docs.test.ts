@@ -7,6 +7,10 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { docsSearchTool } from "../../src/tools/search-docs.js";
 import type { ServerContext } from "../../src/types.js";
+import { ResponseCache } from "../../src/utils/cache.js";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
 
 // Mock fetch for testing
 global.fetch = vi.fn();
@@ -59,13 +63,13 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler(
+      const { text: result } = await docsSearchTool.handler(
         { query: "iOS SDK 설치", maxResults: 3 },
         mockContext
       );
 
       expect(result).toContain("iOS SDK Setup");
-      expect(fetch).toHaveBeenCalledWith("https://docs.notifly.tech/llms.txt");
+      expect(fetch).toHaveBeenCalledWith("https://docs.notifly.tech/llms.txt", expect.any(Object));
     });
 
     it("should use KO llms index even for English queries", async () => {
@@ -83,12 +87,12 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler(
+      const { text: result } = await docsSearchTool.handler(
         { query: "getting started", maxResults: 1 },
         mockContext
       );
       expect(result).toContain("Getting Started");
-      expect(fetch).toHaveBeenCalledWith("https://docs.notifly.tech/llms.txt");
+      expect(fetch).toHaveBeenCalledWith("https://docs.notifly.tech/llms.txt", expect.any(Object));
     });
   });
 
@@ -112,7 +116,7 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler(
+      const { text: result } = await docsSearchTool.handler(
         { query: "push notification", maxResults: 3 },
         mockContext
       );
@@ -140,7 +144,10 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler({ query: "iOS SDK", maxResults: 2 }, mockContext);
+      const { text: result } = await docsSearchTool.handler(
+        { query: "iOS SDK", maxResults: 2 },
+        mockContext
+      );
 
       // "iOS SDK Setup" should rank higher (title match)
       const iosIndex = result.indexOf("iOS SDK Setup");
@@ -167,7 +174,7 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler(
+      const { text: result } = await docsSearchTool.handler(
         { query: "iOS push notification", maxResults: 3 },
         mockContext
       );
@@ -209,7 +216,10 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler({ query: "test", maxResults: 1 }, mockContext);
+      const { text: result } = await docsSearchTool.handler(
+        { query: "test", maxResults: 1 },
+        mockContext
+      );
 
       // Should contain cleaned content
       expect(result).toContain("Main Content");
@@ -244,7 +254,10 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler({ query: "test", maxResults: 1 }, mockContext);
+      const { text: result } = await docsSearchTool.handler(
+        { query: "test", maxResults: 1 },
+        mockContext
+      );
 
       // Should decode HTML entities
       expect(result).toContain("Test & Example");
@@ -270,13 +283,191 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler({ query: "long", maxResults: 1 }, mockContext);
+      const { text: result } = await docsSearchTool.handler(
+        { query: "long", maxResults: 1 },
+        mockContext
+      );
 
       // Should be truncated
       expect(result).toContain("truncated for brevity");
     });
   });
 
+  describe("Markdown Pages", () => {
+    const mockLlmsTxt = `
+- [Track Events](https://docs.notifly.tech/ko/events): Event tracking
+`;
+    const routes = (pages: Record<string, string>) => (url: string) => {
+      const body = url === "https://docs.notifly.tech/llms.txt" ? mockLlmsTxt : pages[url];
+      return Promise.resolve(
+        body === undefined
+          ? { ok: false, status: 404, text: () => Promise.resolve("Not Found") }
+          : { ok: true, status: 200, text: () => Promise.resolve(body) }
+      );
+    };
+
+    it("should prefer the Markdown version of a page", async () => {
+      (global.fetch as any).mockImplementation(
+        routes({
+          "https://docs.notifly.tech/ko/events.md":
+            '---\ntitle: Track Events\n---\n\n# Track Events\n\n```kotlin\nNotifly.trackEvent(context, "purchase")\n```',
+        })
+      );
+
+      const { text: result } = await docsSearchTool.handler({ query: "track events" }, mockContext);
+
+      expect(result).toContain('```kotlin\nNotifly.trackEvent(context, "purchase")\n```');
+      expect(result).not.toContain("title: Track Events");
+      expect(fetch).not.toHaveBeenCalledWith(
+        "https://docs.notifly.tech/ko/events",
+        expect.any(Object)
+      );
+    });
+
+    it("should convert the HTML page when there is no Markdown version", async () => {
+      (global.fetch as any).mockImplementation(
+        routes({
+          "https://docs.notifly.tech/ko/events":
+            '<main><h1>Track Events</h1><pre><code class="language-js">notifly.trackEvent("purchase");</code></pre></main>',
+        })
+      );
+
+      const { text: result } = await docsSearchTool.handler({ query: "track events" }, mockContext);
+
+      expect(result).toContain('```js\nnotifly.trackEvent("purchase");\n```');
+    });
+
+    it("should not request a missing Markdown version again while cached", async () => {
+      const dir = await mkdtemp(path.join(os.tmpdir(), "notifly-docs-cache-"));
+      const cachedContext: ServerContext = {
+        cache: new ResponseCache({ dir, ttlMs: 60_000, staleTtlMs: 0 }),
+      };
+      (global.fetch as any).mockImplementation(
+        routes({
+          "https://docs.notifly.tech/ko/events": "<main><h1>Track Events</h1></main>",
+        })
+      );
+
+      try {
+        await docsSearchTool.handler({ query: "track events" }, cachedContext);
+        const { text: result } = await docsSearchTool.handler(
+          { query: "track events" },
+          cachedContext
+        );
+
+        expect(result).toContain("Track Events");
+        const markdownRequests = (global.fetch as any).mock.calls.filter(
+          ([url]: [string]) => url === "https://docs.notifly.tech/ko/events.md"
+        );
+        expect(markdownRequests).toHaveLength(1);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should close code blocks cut off by truncation", async () => {
+      const longCode = Array.from({ length: 400 }, (_, i) => `line${i}();`).join("\n");
+      (global.fetch as any).mockImplementation(
+        routes({
+          "https://docs.notifly.tech/ko/events.md": `# Events\n\n\`\`\`js\n${longCode}\n\`\`\``,
+        })
+      );
+
+      const { text: result } = await docsSearchTool.handler({ query: "events" }, mockContext);
+
+      expect(result).toMatch(/```\n\n\.\.\.\(truncated for brevity\)/);
+    });
+  });
+
+  describe("Section Chunking", () => {
+    const mockLlmsTxt = `
+- [Push Notifications](https://docs.notifly.tech/ko/push): Push notification guide
+`;
+    const mockHtml = `
+<html><body>
+  <nav>Home Guides API Reference</nav>
+  <h1>Push Notifications</h1>
+  <p>Overview of push in Notifly.</p>
+  <h2 id="setup">Setup</h2>
+  <p>Upload your APNs key in project settings.</p>
+  <h3 id="badge-count">Badge count</h3>
+  <p>The badge count resets when the app opens.</p>
+  <h2 id="click-tracking">Click tracking</h2>
+  <p>Clicks are tracked when the SDK handles the notification response.</p>
+</body></html>
+`;
+
+    it("should show the most relevant sections with heading path and anchor URL", async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(mockLlmsTxt) })
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(mockHtml) });
+
+      const { text: result, structuredContent } = await docsSearchTool.handler(
+        { query: "push badge count", maxResults: 1 },
+        mockContext
+      );
+
+      expect(result).toContain("### Push Notifications > Setup > Badge count");
+      expect(result).toContain("**Section URL**: https://docs.notifly.tech/ko/push#badge-count");
+      expect(result).toContain("The badge count resets");
+      expect(result).not.toContain("Home Guides API Reference");
+
+      const [section] = (structuredContent as any).results[0].sections;
+      expect(section.headingPath).toEqual(["Push Notifications", "Setup", "Badge count"]);
+      expect(section.score).toBeGreaterThan(0);
+    });
+
+    it("should rank a later section above the top of the page", async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(mockLlmsTxt) })
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(mockHtml) });
+
+      const { text: result } = await docsSearchTool.handler(
+        { query: "push click tracking", maxResults: 1 },
+        mockContext
+      );
+
+      expect(result.indexOf("Click tracking")).toBeLessThan(result.indexOf("Overview of push"));
+    });
+  });
+
+  describe("Structured Output", () => {
+    it("should return typed results sorted by score", async () => {
+      const mockLlmsTxt = `
+- [iOS SDK Setup](/ko/ios/setup): Get started with iOS SDK
+- [iOS Push](https://docs.notifly.tech/ko/ios/push): iOS push notifications
+`;
+      (global.fetch as any)
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(mockLlmsTxt) })
+        .mockResolvedValue({ ok: true, text: () => Promise.resolve("<p>Page body</p>") });
+
+      const { structuredContent } = await docsSearchTool.handler(
+        { query: "iOS SDK setup", maxResults: 2 },
+        mockContext
+      );
+      const { results } = structuredContent as any;
+
+      expect(results[0]).toEqual({
+        source: "docs",
+        title: "iOS SDK Setup",
+        url: "https://docs.notifly.tech/ko/ios/setup",
+        score: expect.any(Number),
+        excerpt: "Page body",
+        description: "Get started with iOS SDK",
+        resourceUri: "notifly-docs://ko/ios/setup",
+        sections: [
+          {
+            headingPath: [],
+            url: "https://docs.notifly.tech/ko/ios/setup",
+            score: 0,
+            text: "Page body",
+          },
+        ],
+      });
+      expect(results[0].score).toBeGreaterThanOrEqual(results[1].score);
+    });
+  });
+
   describe("Error Handling", () => {
     it("should handle network errors gracefully", async () => {
       (global.fetch as any).mockRejectedValueOnce(new Error("Network error"));
@@ -304,7 +495,10 @@ describe("Documentation Search Tool", () => {
         text: () => Promise.resolve(""),
       });
 
-      const result = await docsSearchTool.handler({ query: "test", maxResults: 3 }, mockContext);
+      const { text: result } = await docsSearchTool.handler(
+        { query: "test", maxResults: 3 },
+        mockContext
+      );
 
       expect(result).toContain("No Documentation Available");
     });
@@ -320,7 +514,7 @@ describe("Documentation Search Tool", () => {
         text: () => Promise.resolve(mockLlmsTxt),
       });
 
-      const result = await docsSearchTool.handler(
+      const { text: result } = await docsSearchTool.handler(
         { query: "nonexistent topic", maxResults: 3 },
         mockContext
       );
@@ -351,7 +545,10 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler({ query: "test", maxResults: 2 }, mockContext);
+      const { text: result } = await docsSearchTool.handler(
+        { query: "test", maxResults: 2 },
+        mockContext
+      );
 
       // Should only return 2 results
       const pageMatches = result.match(/## \d+\./g);
@@ -378,10 +575,39 @@ describe("Documentation Search Tool", () => {
           text: () => Promise.resolve(mockHtml),
         });
 
-      const result = await docsSearchTool.handler({ query: "test" }, mockContext);
+      const { text: result } = await docsSearchTool.handler({ query: "test" }, mockContext);
 
       // Should return results (default is 3)
       expect(result).toContain("Found");
     });
   });
+  describe("Response Cache", () => {
+    it("should serve repeated searches from the cache", async () => {
+      const dir = await mkdtemp(path.join(os.tmpdir(), "notifly-docs-cache-"));
+      const cachedContext: ServerContext = {
+        cache: new ResponseCache({ dir, ttlMs: 60_000, staleTtlMs: 0 }),
+      };
+      const mockLlmsTxt = `
+- [Cached Page](https://docs.notifly.tech/cached): Cached description
+`;
+      (global.fetch as any)
+        .mockResolvedValueOnce({ ok: true, status: 200, text: () => Promise.resolve(mockLlmsTxt) })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: () => Promise.resolve("<html><body>Cached body</body></html>"),
+        });
+
+      try {
+        const { text: first } = await docsSearchTool.handler({ query: "cached" }, cachedContext);
+        const { text: second } = await docsSearchTool.handler({ query: "cached" }, cachedContext);
+
+        expect(first).toContain("Cached body");
+        expect(second).toContain("Cached body");
+        expect(fetch).toHaveBeenCalledTimes(2);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
 });
@@ -5,6 +5,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
 import { sdkSearchTool } from "../../src/tools/search-sdk.js";
 import type { ServerContext } from "../../src/types.js";
 import { readFileSync } from "fs";
@@ -80,7 +81,7 @@ describe("SDK Search Tool", () => {
 
   describe("Platform Filtering", () => {
     it("should filter by iOS platform", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "ios", maxResults: 5 },
         mockContext
       );
@@ -91,7 +92,7 @@ describe("SDK Search Tool", () => {
     });
 
     it("should filter by Android platform", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "android", maxResults: 5 },
         mockContext
       );
@@ -101,7 +102,7 @@ describe("SDK Search Tool", () => {
     });
 
     it('should search all platforms when platform="all"', async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "all", maxResults: 5 },
         mockContext
       );
@@ -138,7 +139,7 @@ describe("SDK Search Tool", () => {
         return Promise.resolve({ ok: true, text: () => Promise.resolve("// code") });
       });
 
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "ios", maxResults: 1 },
         mockContext
       );
@@ -149,7 +150,7 @@ describe("SDK Search Tool", () => {
 
   describe("BM25 Search Quality", () => {
     it("should rank title matches highest", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "all", maxResults: 5 },
         mockContext
       );
@@ -160,7 +161,7 @@ describe("SDK Search Tool", () => {
     });
 
     it("should weight title higher than description", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "initialization", platform: "all", maxResults: 5 },
         mockContext
       );
@@ -181,7 +182,7 @@ describe("SDK Search Tool", () => {
         return Promise.resolve({ ok: true, text: () => Promise.resolve(mockCode) });
       });
 
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "push notification service", platform: "all", maxResults: 5 },
         mockContext
       );
@@ -209,7 +210,7 @@ describe("SDK Search Tool", () => {
         return Promise.resolve({ ok: true, text: () => Promise.resolve(mockCode) });
       });
 
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly sdk", platform: "ios", maxResults: 1 },
         mockContext
       );
@@ -219,7 +220,7 @@ describe("SDK Search Tool", () => {
     });
 
     it("should detect and apply correct syntax highlighting", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "ios", maxResults: 1 },
         mockContext
       );
@@ -241,7 +242,7 @@ describe("SDK Search Tool", () => {
         return Promise.resolve({ ok: true, text: () => Promise.resolve(longCode) });
       });
 
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "ios", maxResults: 1 },
         mockContext
       );
@@ -261,7 +262,7 @@ describe("SDK Search Tool", () => {
         return Promise.resolve({ ok: false, status: 404 });
       });
 
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "ios", maxResults: 1 },
         mockContext
       );
@@ -273,7 +274,7 @@ describe("SDK Search Tool", () => {
 
   describe("Result Formatting", () => {
     it("should include summary section", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "all", maxResults: 3 },
         mockContext
       );
@@ -283,7 +284,7 @@ describe("SDK Search Tool", () => {
     });
 
     it("should include platform information", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "ios", maxResults: 2 },
         mockContext
       );
@@ -292,7 +293,7 @@ describe("SDK Search Tool", () => {
     });
 
     it("should include GitHub source links", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "ios", maxResults: 1 },
         mockContext
       );
@@ -302,7 +303,7 @@ describe("SDK Search Tool", () => {
     });
 
     it("should include helpful footer", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "ios", maxResults: 1 },
         mockContext
       );
@@ -312,9 +313,186 @@ describe("SDK Search Tool", () => {
     });
   });
 
+  describe("Structured Output", () => {
+    it("should declare an output schema", () => {
+      expect(sdkSearchTool.outputSchema).toHaveProperty("results");
+    });
+
+    it("should return typed results alongside the Markdown", async () => {
+      const { structuredContent } = await sdkSearchTool.handler(
+        { query: "notifly", platform: "ios", maxResults: 1 },
+        mockContext
+      );
+
+      expect(structuredContent).toMatchObject({ query: "notifly", platform: "ios" });
+      const [first] = (structuredContent as any).results;
+      expect(first).toMatchObject({
+        source: "sdk",
+        platform: "ios",
+        language: "swift",
+        excerpt: "class Notifly { }",
+        resourceUri: expect.stringMatching(/^notifly-sdk:\/\/ios\//),
+      });
+      expect(first.url).toMatch(/^https:\/\/raw\.githubusercontent\.com\//);
+      expect(first.score).toBeGreaterThan(0);
+    });
+
+    it("should return empty results when nothing matches", async () => {
+      const { structuredContent } = await sdkSearchTool.handler(
+        { query: "nonexistent_feature_xyz", platform: "all", maxResults: 3 },
+        mockContext
+      );
+
+      expect((structuredContent as any).results).toEqual([]);
+    });
+  });
+
+  describe("Symbol Chunking", () => {
+    const methods = Array.from({ length: 150 }, (_, i) =>
+      [
+        `    public func method${i}(value: Int) {`,
+        `        print("method ${i}", value)`,
+        `    }`,
+      ].join("\n")
+    );
+    const largeSource = [
+      "public final class Notifly {",
+      ...methods,
+      "    /// Identify the user",
+      "    public func setUserId(_ userId: String?) {",
+      "        UserManager.shared.setUserId(userId)",
+      "    }",
+      "}",
+    ].join("\n");
+
+    beforeEach(() => {
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (typeof url === "string" && url === MAPPING_LLMS_URL) {
+          return Promise.resolve({ ok: true, text: () => Promise.resolve(MAPPING_LLMS_TEXT) });
+        }
+        if (typeof url === "string" && PER_SDK_LLMS_URLS.some((u) => url.includes(u))) {
+          return Promise.resolve({ ok: true, text: () => Promise.resolve(LLMS_TEXT) });
+        }
+        return Promise.resolve({ ok: true, text: () => Promise.resolve(largeSource) });
+      });
+    });
+
+    it("should show the symbols of a large file most relevant to the query", async () => {
+      const { text: result } = await sdkSearchTool.handler(
+        { query: "notifly main entry set user id", platform: "ios", maxResults: 1 },
+        mockContext
+      );
+
+      expect(result).toContain("#### `Notifly.setUserId` (method, lines 452-455)");
+      expect(result).toContain(
+        "**GitHub**: https://github.com/team-michael/notifly-ios-sdk/blob/main/Sources/Notifly/notifly-ios-sdk/notifly-ios-sdk/SourceCodes/Notifly/Notifly.swift#L452-L455"
+      );
+      expect(result).toContain("UserManager.shared.setUserId(userId)");
+      expect(result).not.toContain("truncated for brevity");
+    });
+
+    it("should return chunks in structured output", async () => {
+      const { structuredContent } = await sdkSearchTool.handler(
+        { query: "notifly main entry set user id", platform: "ios", maxResults: 1 },
+        mockContext
+      );
+
+      const [first] = (structuredContent as any).results;
+      expect(first.chunks[0]).toMatchObject({
+        symbol: "Notifly.setUserId",
+        kind: "method",
+        startLine: 452,
+        endLine: 455,
+        url: expect.stringMatching(/Notifly\.swift#L452-L455$/),
+      });
+      expect(first.chunks.length).toBeLessThanOrEqual(2);
+      expect(first.excerpt).toContain("public func setUserId");
+    });
+  });
+
+  describe("Version Pinning", () => {
+    const IOS_LLMS =
+      "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/llms.txt";
+    const RN_LLMS =
+      "https://raw.githubusercontent.com/team-michael/notifly-react-native-sdk/refs/heads/main/llms.txt";
+    const PINNED_IOS_LLMS =
+      "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/1.4.0/llms.txt";
+    const IOS_MAIN_ENTRY =
+      "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/Sources/Notifly.swift";
+    const IOS_OLD_ENTRY =
+      "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/Sources/Legacy/Notifly.swift";
+    const RN_ENTRY =
+      "https://raw.githubusercontent.com/team-michael/notifly-react-native-sdk/refs/heads/main/src/index.tsx";
+    let routes: Record<string, string>;
+
+    beforeEach(() => {
+      routes = {
+        [MAPPING_LLMS_URL]: `- [iOS](${IOS_LLMS})\n- [RN](${RN_LLMS})`,
+        [IOS_LLMS]: `# Platform: iOS\n- [Notifly Main Entry](${IOS_MAIN_ENTRY}): Entry point`,
+        [RN_LLMS]: `# Platform: React Native\n- [Notifly JS API](${RN_ENTRY}): Entry point`,
+        [PINNED_IOS_LLMS]: `# Platform: iOS\n- [Notifly Main Entry](${IOS_OLD_ENTRY}): Entry point`,
+      };
+      (global.fetch as any).mockImplementation((url: string) => {
+        const body = routes[url] ?? (url.endsWith(".swift") ? `// ${url}` : undefined);
+        return Promise.resolve(
+          body === undefined
+            ? { ok: false, status: 404 }
+            : { ok: true, text: () => Promise.resolve(body) }
+        );
+      });
+    });
+
+    it("should load the SDK index and sources at the requested ref", async () => {
+      const { text: result, structuredContent } = await sdkSearchTool.handler(
+        { query: "notifly entry", platform: "ios", maxResults: 1, ref: "1.4.0" },
+        mockContext
+      );
+
+      const pinnedFile =
+        "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/1.4.0/Sources/Legacy/Notifly.swift";
+      expect(result).toContain("**Ref**: 1.4.0");
+      expect(result).toContain(`// ${pinnedFile}`);
+      expect(result).not.toContain("**Resource**");
+      expect(structuredContent).toMatchObject({
+        ref: "1.4.0",
+        results: [expect.objectContaining({ url: pinnedFile })],
+      });
+      expect(global.fetch).not.toHaveBeenCalledWith(
+        "https://raw.githubusercontent.com/team-michael/notifly-react-native-sdk/1.4.0/llms.txt",
+        expect.anything()
+      );
+    });
+
+    it("should rewrite the current index when the ref has no llms.txt", async () => {
+      delete routes[PINNED_IOS_LLMS];
+
+      const { structuredContent } = await sdkSearchTool.handler(
+        { query: "notifly entry", platform: "ios", maxResults: 1, ref: "abc1234" },
+        mockContext
+      );
+
+      expect((structuredContent as any).results[0].url).toBe(
+        "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/abc1234/Sources/Notifly.swift"
+      );
+    });
+
+    it("should require a platform for a ref", async () => {
+      await expect(
+        sdkSearchTool.handler({ query: "notifly", platform: "all", ref: "1.4.0" }, mockContext)
+      ).rejects.toThrow("ref requires a platform");
+    });
+
+    it("should reject refs that are not plain git ref names", () => {
+      const schema = z.object(sdkSearchTool.inputSchema);
+      expect(schema.safeParse({ query: "notifly", ref: "1.4.0" }).success).toBe(true);
+      expect(schema.safeParse({ query: "notifly", ref: "../../etc" }).success).toBe(false);
+      expect(schema.safeParse({ query: "notifly", ref: "v1.0?x=1" }).success).toBe(false);
+    });
+  });
+
   describe("Error Handling", () => {
     it("should handle no search results", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "nonexistent_feature_xyz", platform: "all", maxResults: 3 },
         mockContext
       );
@@ -323,7 +501,7 @@ describe("SDK Search Tool", () => {
     });
 
     it("should handle platform with no matches", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "nonexistent_feature_xyz", platform: "flutter", maxResults: 3 },
         mockContext
       );
@@ -334,7 +512,7 @@ describe("SDK Search Tool", () => {
 
   describe("maxResults Parameter", () => {
     it("should respect maxResults parameter", async () => {
-      const result = await sdkSearchTool.handler(
+      const { text: result } = await sdkSearchTool.handler(
         { query: "notifly", platform: "all", maxResults: 2 },
         mockContext
       );
@@ -371,7 +549,7 @@ describe("SDK Search Tool", () => {
         return ORIGINAL_FETCH ? ORIGINAL_FETCH(url as any) : Promise.reject(new Error("no fetch"));
       });
       try {
-        const result = await sdkSearchTool.handler(
+        const { text: result } = await sdkSearchTool.handler(
           { query: "notifly-js-sdk", platform: "gtm", maxResults: 3 },
           mockContext
         );
@@ -0,0 +1,136 @@
+/**
+ * Test Send Tool Tests
+ *
+ * Tests dry runs, the send opt-in and recipient allowlist, and real sends
+ * against a local mock of the Notifly API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { sendTestMessageTool } from "../../src/tools/send-test-message.js";
+import { ConfigurationError, ValidationError } from "../../src/errors.js";
+import type { ServerContext } from "../../src/types.js";
+import { startMockApiServer, type MockApiServer } from "../helpers/mock-api-server.js";
+
+describe("send_test_message Tool", () => {
+  let mock: MockApiServer;
+
+  beforeEach(async () => {
+    mock = await startMockApiServer();
+    mock.routes["POST /projects/p1/messages/test"] = {
+      body: { success: true, data: { messageId: "m-1", status: "queued" } },
+    };
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  function allowed(allowlist: string[]): ServerContext {
+    return { api: mock.client(), sendPolicy: { enabled: true, allowlist } };
+  }
+
+  it("should return the exact request in a dry run without sending", async () => {
+    const { text: result, structuredContent } = await sendTestMessageTool.handler(
+      {
+        channel: "email",
+        to: "QA@Example.com",
+        subject: "Welcome",
+        body: "Hello",
+        projectId: "p1",
+        dryRun: true,
+      },
+      {}
+    );
+
+    expect(structuredContent).toEqual({
+      dryRun: true,
+      sent: false,
+      blockedReason: expect.stringContaining("NOTIFLY_ALLOW_SEND=true"),
+      request: {
+        method: "POST",
+        url: "https://api.notifly.tech/projects/p1/messages/test",
+        headers: { Authorization: "<access token>", "Content-Type": "application/json" },
+        body: {
+          channel: "email",
+          projectId: "p1",
+          to: "qa@example.com",
+          subject: "Welcome",
+          body: "Hello",
+        },
+      },
+    });
+    expect(result).toContain("POST https://api.notifly.tech/projects/p1/messages/test");
+    expect(result).toContain("**Real send**: blocked.");
+    expect(mock.requests).toEqual([]);
+  });
+
+  it("should send the dry-run request to allowlisted recipients", async () => {
+    const params = {
+      channel: "sms" as const,
+      to: "+82 10-1234-5678",
+      body: "Your code is 1234",
+      projectId: "p1",
+    };
+    const context = allowed(["+821012345678"]);
+
+    const preview = await sendTestMessageTool.handler({ ...params, dryRun: true }, context);
+    expect(preview.structuredContent?.blockedReason).toBeUndefined();
+    expect(preview.text).toContain("**Real send**: allowed");
+
+    const { text: result, structuredContent } = await sendTestMessageTool.handler(params, context);
+
+    expect(structuredContent?.sent).toBe(true);
+    expect(structuredContent?.result).toEqual({ messageId: "m-1", status: "queued" });
+    expect(result).toContain("**Message ID**: m-1");
+    const sent = mock.requests.find((r) => r.path === "/projects/p1/messages/test");
+    expect(sent?.body).toEqual((preview.structuredContent?.request as { body: unknown }).body);
+    expect(sent?.authorization).toBe("token-1");
+  });
+
+  it("should allow whole email domains", async () => {
+    const { structuredContent } = await sendTestMessageTool.handler(
+      { channel: "email", to: "qa@example.com", subject: "Hi", body: "Hello", projectId: "p1" },
+      allowed(["@example.com"])
+    );
+
+    expect(structuredContent?.sent).toBe(true);
+  });
+
+  it("should refuse real sends without the opt-in or outside the allowlist", async () => {
+    const params = { channel: "push" as const, to: "user-1", body: "Hi", projectId: "p1" };
+
+    await expect(sendTestMessageTool.handler(params, { api: mock.client() })).rejects.toThrow(
+      ConfigurationError
+    );
+    await expect(sendTestMessageTool.handler(params, allowed([]))).rejects.toThrow(
+      "NOTIFLY_SEND_ALLOWLIST"
+    );
+    await expect(sendTestMessageTool.handler(params, allowed(["user-2"]))).rejects.toThrow(
+      "user-1 is not on NOTIFLY_SEND_ALLOWLIST"
+    );
+    expect(mock.requests).toEqual([]);
+  });
+
+  it("should validate recipients and channel requirements", async () => {
+    const context = allowed(["qa@example.com"]);
+
+    await expect(
+      sendTestMessageTool.handler(
+        { channel: "email", to: "qa@example.com", body: "Hi", projectId: "p1" },
+        context
+      )
+    ).rejects.toThrow("subject is required");
+    await expect(
+      sendTestMessageTool.handler(
+        { channel: "kakao", to: "010-1234-5678", body: "Hi", projectId: "p1" },
+        context
+      )
+    ).rejects.toThrow("templateId is required");
+    await expect(
+      sendTestMessageTool.handler(
+        { channel: "sms", to: "not a phone", body: "Hi", projectId: "p1" },
+        context
+      )
+    ).rejects.toThrow(ValidationError);
+  });
+});
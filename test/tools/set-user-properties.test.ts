@@ -0,0 +1,108 @@
+/**
+ * User Properties Tool Tests
+ *
+ * Tests input constraints and set_user_properties requests against a local
+ * mock of the Notifly API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import { setUserPropertiesTool } from "../../src/tools/set-user-properties.js";
+import { ApiError, ConfigurationError, ValidationError } from "../../src/errors.js";
+import { startMockApiServer, type MockApiServer } from "../helpers/mock-api-server.js";
+
+describe("set_user_properties Tool", () => {
+  let mock: MockApiServer;
+  const schema = z.object(setUserPropertiesTool.inputSchema);
+  const writePolicy = { enabled: true, allowlist: ["user-123", "u"] };
+
+  beforeEach(async () => {
+    mock = await startMockApiServer();
+    mock.routes["POST /set-user-properties"] = { body: { success: true, data: null } };
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  it("should send the properties for the default project", async () => {
+    const { text: result, structuredContent } = await setUserPropertiesTool.handler(
+      { userId: "user-123", properties: { plan: "pro", age: 30, $email: "qa@example.com" } },
+      { api: mock.client({ defaultProjectId: "p1" }), writePolicy }
+    );
+
+    expect(mock.requests.find((r) => r.path === "/set-user-properties")?.body).toEqual({
+      projectId: "p1",
+      userId: "user-123",
+      userProperties: { plan: "pro", age: 30, $email: "qa@example.com" },
+    });
+    expect(structuredContent?.projectId).toBe("p1");
+    expect(result).toContain('- `plan`: "pro"');
+  });
+
+  it("should enforce key, value and size constraints in the input schema", () => {
+    const valid = { userId: "u", properties: { tags: ["a", "b"], score: 1.5, flag: null } };
+    expect(schema.safeParse(valid).success).toBe(true);
+
+    for (const properties of [
+      { "bad key": 1 },
+      { nested: { a: 1 } },
+      { long: "x".repeat(1001) },
+      Object.fromEntries(Array.from({ length: 101 }, (_, i) => [`k${i}`, i])),
+    ]) {
+      expect(schema.safeParse({ userId: "u", properties }).success).toBe(false);
+    }
+    expect(schema.safeParse({ userId: "", properties: { a: 1 } }).success).toBe(false);
+  });
+
+  it("should validate reserved properties before sending", async () => {
+    const context = { api: mock.client({ defaultProjectId: "p1" }), writePolicy };
+
+    await expect(
+      setUserPropertiesTool.handler({ userId: "u", properties: { $email: "nope" } }, context)
+    ).rejects.toThrow("$email must be an email address");
+    await expect(
+      setUserPropertiesTool.handler({ userId: "u", properties: {} }, context)
+    ).rejects.toThrow(ValidationError);
+    expect(mock.requests).toEqual([]);
+  });
+
+  it("should refuse writes unless enabled and the user is allowlisted", async () => {
+    const api = mock.client({ defaultProjectId: "p1" });
+    const params = { userId: "user-123", properties: { plan: "pro" } };
+
+    await expect(setUserPropertiesTool.handler(params, { api })).rejects.toThrow(
+      "Set NOTIFLY_ALLOW_WRITE=true"
+    );
+    await expect(
+      setUserPropertiesTool.handler(params, {
+        api,
+        writePolicy: { enabled: true, allowlist: [] },
+      })
+    ).rejects.toThrow("List test user IDs in NOTIFLY_WRITE_ALLOWLIST");
+    await expect(
+      setUserPropertiesTool.handler(
+        { ...params, userId: "user-456" },
+        { api, writePolicy: { enabled: true, allowlist: ["user-123"] } }
+      )
+    ).rejects.toThrow(ConfigurationError);
+    expect(mock.requests).toEqual([]);
+  });
+
+  it("should report the API's error message", async () => {
+    mock.routes["POST /set-user-properties"] = {
+      status: 400,
+      body: { success: false, error: "userProperties.plan exceeds the allowed length" },
+    };
+
+    const promise = setUserPropertiesTool.handler(
+      { userId: "u", properties: { plan: "pro" } },
+      { api: mock.client({ defaultProjectId: "p1" }), writePolicy }
+    );
+
+    await expect(promise).rejects.toThrow(ApiError);
+    await expect(promise).rejects.toThrow(
+      "Notifly API rejected POST /set-user-properties (HTTP 400): userProperties.plan exceeds the allowed length"
+    );
+  });
+});
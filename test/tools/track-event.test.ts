@@ -0,0 +1,99 @@
+/**
+ * Event Tracking Tool Tests
+ *
+ * Tests input constraints and track_event requests against a local mock of
+ * the Notifly API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import { trackEventTool } from "../../src/tools/track-event.js";
+import { ApiError, ConfigurationError, ValidationError } from "../../src/errors.js";
+import { startMockApiServer, type MockApiServer } from "../helpers/mock-api-server.js";
+
+describe("track_event Tool", () => {
+  let mock: MockApiServer;
+  const schema = z.object(trackEventTool.inputSchema);
+  const writePolicy = { enabled: true, allowlist: ["user-123", "u"] };
+
+  beforeEach(async () => {
+    mock = await startMockApiServer();
+    mock.routes["POST /track-event"] = { body: { success: true, data: null } };
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  it("should send the event with its parameters", async () => {
+    const { text: result, structuredContent } = await trackEventTool.handler(
+      {
+        eventName: "purchase_completed",
+        userId: "user-123",
+        eventParams: { product_id: "sku-1", price: 9900 },
+        segmentationEventParamKeys: ["product_id"],
+        projectId: "p1",
+      },
+      { api: mock.client(), writePolicy }
+    );
+
+    const expected = {
+      projectId: "p1",
+      userId: "user-123",
+      eventName: "purchase_completed",
+      eventParams: { product_id: "sku-1", price: 9900 },
+      segmentationEventParamKeys: ["product_id"],
+    };
+    expect(mock.requests.find((r) => r.path === "/track-event")?.body).toEqual(expected);
+    expect(structuredContent).toEqual(expected);
+    expect(result).toContain('- `product_id`: "sku-1" (segmentation key)');
+  });
+
+  it("should enforce event name and segmentation key constraints", async () => {
+    expect(schema.safeParse({ eventName: "sign up", userId: "u" }).success).toBe(false);
+    expect(
+      schema.safeParse({
+        eventName: "view",
+        userId: "u",
+        eventParams: { a: 1, b: 2 },
+        segmentationEventParamKeys: ["a", "b"],
+      }).success
+    ).toBe(false);
+
+    await expect(
+      trackEventTool.handler(
+        { eventName: "view", userId: "u", segmentationEventParamKeys: ["a"], projectId: "p1" },
+        { api: mock.client(), writePolicy }
+      )
+    ).rejects.toThrow(ValidationError);
+    expect(mock.requests).toEqual([]);
+  });
+
+  it("should refuse events unless writes are enabled for the user", async () => {
+    const params = { eventName: "purchase_completed", userId: "user-123", projectId: "p1" };
+
+    await expect(trackEventTool.handler(params, { api: mock.client() })).rejects.toThrow(
+      "Writing users and events is disabled"
+    );
+    await expect(
+      trackEventTool.handler(params, {
+        api: mock.client(),
+        writePolicy: { enabled: true, allowlist: ["someone-else"] },
+      })
+    ).rejects.toThrow(ConfigurationError);
+    expect(mock.requests).toEqual([]);
+  });
+
+  it("should not retry failed events", async () => {
+    mock.routes["POST /track-event"] = { status: 503, body: { success: false, error: "busy" } };
+    const api = mock.client({ retries: 3 });
+
+    await expect(
+      trackEventTool.handler(
+        { eventName: "view", userId: "u", projectId: "p1" },
+        { api, writePolicy }
+      )
+    ).rejects.toThrow(ApiError);
+    expect(mock.requests.filter((r) => r.path === "/track-event")).toHaveLength(1);
+  });
+});
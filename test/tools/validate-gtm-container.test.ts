@@ -0,0 +1,113 @@
+/**
+ * GTM Container Validation Tool Tests
+ *
+ * Tests loading containers and the template definitions from the SDK index.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { validateGtmContainerTool } from "../../src/tools/validate-gtm-container.js";
+import { MAPPING_LLMS_URL } from "../../src/tools/search-sdk.js";
+import { ValidationError } from "../../src/errors.js";
+import { CAFE24_TEMPLATE, CONTAINER, MAIN_TEMPLATE } from "../helpers/gtm-fixtures.js";
+
+const RAW = "https://raw.githubusercontent.com/notifly-tech/notifly-gtm-template/refs/heads/main";
+const ROUTES: Record<string, string> = {
+  [MAPPING_LLMS_URL]: `- [GTM](${RAW}/llms.txt)`,
+  [`${RAW}/llms.txt`]: [
+    "# Platform: Google Tag Manager (GTM) Template",
+    `- [Notifly GTM Template (EN)](${RAW}/template.tpl): Notifly tag template`,
+    `- [Cafe24 Custom Event Template](${RAW}/cafe24/template.tpl): Cafe24 event mapping`,
+    `- [README](${RAW}/README.md): Setup guide`,
+  ].join("\n"),
+  [`${RAW}/template.tpl`]: MAIN_TEMPLATE,
+  [`${RAW}/cafe24/template.tpl`]: CAFE24_TEMPLATE,
+};
+
+describe("validate_gtm_container Tool", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "notifly-gtm-"));
+    vi.stubGlobal(
+      "fetch",
+      vi.fn((url: string) => {
+        const body = ROUTES[url];
+        return Promise.resolve(new Response(body ?? "missing", { status: body ? 200 : 404 }));
+      })
+    );
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should check a container file against the indexed templates", async () => {
+    await writeFile(path.join(dir, "GTM-ABC123.json"), JSON.stringify(CONTAINER));
+
+    const { text: result, structuredContent } = await validateGtmContainerTool.handler(
+      { containerPath: "GTM-ABC123.json" },
+      { fixturesDir: dir }
+    );
+
+    expect(structuredContent?.valid).toBe(false);
+    expect(structuredContent?.templates).toEqual([
+      { title: "Notifly GTM Template (EN)", url: `${RAW}/template.tpl` },
+      { title: "Cafe24 Custom Event Template", url: `${RAW}/cafe24/template.tpl` },
+    ]);
+    expect(structuredContent?.tags).toHaveLength(3);
+    expect(result).toContain("**Notifly tags**: 3");
+    expect(result).toContain("**Errors**: 6 · **Warnings**: 2");
+    expect(result).toContain(
+      "- **Notifly - Cafe24 › eventMappings[1].cafe24Event**: Cafe24 event (cafe24Event)"
+    );
+  });
+
+  it("should accept a clean container inline", async () => {
+    const container = structuredClone(CONTAINER);
+    const version = container.containerVersion;
+    version.tag = version.tag.filter((t) => t.name === "Notifly - Init");
+    version.tag[0]!.parameter = [
+      { type: "TEMPLATE", key: "action", value: "initialize" },
+      { type: "TEMPLATE", key: "projectId", value: "p1" },
+      { type: "TEMPLATE", key: "username", value: "user" },
+      { type: "TEMPLATE", key: "password", value: "{{Page Path Variable}}" },
+    ];
+    version.customTemplate = [{ ...version.customTemplate[0]!, templateData: MAIN_TEMPLATE }];
+
+    const { text: result, structuredContent } = await validateGtmContainerTool.handler(
+      { container: JSON.stringify(container) },
+      {}
+    );
+
+    expect(structuredContent).toMatchObject({ valid: true, issues: [] });
+    expect(result).toContain("No problems found.");
+  });
+
+  it("should reject input that is not a container export", async () => {
+    await expect(validateGtmContainerTool.handler({}, {})).rejects.toThrow(ValidationError);
+    await expect(validateGtmContainerTool.handler({ container: "{" }, {})).rejects.toThrow(
+      "not valid JSON"
+    );
+    await expect(
+      validateGtmContainerTool.handler({ container: '{"exportFormatVersion":2}' }, {})
+    ).rejects.toThrow("Not a GTM container export");
+  });
+
+  it("should only read container files inside the fixtures directory", async () => {
+    await writeFile(path.join(dir, "notes.txt"), "root:x:0:0");
+
+    await expect(
+      validateGtmContainerTool.handler({ containerPath: "/etc/passwd" }, { fixturesDir: dir })
+    ).rejects.toThrow("must be a file inside the fixtures directory");
+    await expect(
+      validateGtmContainerTool.handler({ containerPath: "notes.txt" }, { fixturesDir: dir })
+    ).rejects.toThrow(/^containerPath is not valid JSON: notes\.txt$/);
+    await expect(
+      validateGtmContainerTool.handler({ containerPath: "notes.txt" }, {})
+    ).rejects.toThrow("NOTIFLY_FIXTURES_DIR");
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Webhook Verification Tool Tests
+ *
+ * Tests the verification report for signed, tampered and malformed
+ * deliveries.
+ */
+
+import { describe, it, expect } from "vitest";
+import { verifyWebhookTool } from "../../src/tools/verify-webhook.js";
+import { signWebhook } from "../../src/utils/webhook.js";
+
+const SECRET = "whsec_test";
+
+function delivery(payload: unknown) {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  return {
+    body,
+    headers: {
+      "x-notifly-signature": `sha256=${signWebhook(SECRET, timestamp, body)}`,
+      "x-notifly-timestamp": String(timestamp),
+    },
+    secret: SECRET,
+  };
+}
+
+const EVENT = {
+  id: "evt_1",
+  type: "user.unsubscribed",
+  projectId: "p1",
+  createdAt: "2024-05-01T09:00:00+09:00",
+  data: { userId: "user-1", channel: "email" },
+};
+
+describe("verify_webhook Tool", () => {
+  it("should report a valid delivery", async () => {
+    const { text: result, structuredContent } = await verifyWebhookTool.handler(
+      delivery(EVENT),
+      {}
+    );
+
+    expect(structuredContent).toMatchObject({
+      valid: true,
+      signature: { valid: true },
+      eventType: "user.unsubscribed",
+      eventId: "evt_1",
+      errors: [],
+    });
+    expect(result).toContain("**Result**: valid");
+    expect(result).toContain("matches the `user.unsubscribed` event schema");
+    expect(result).toContain("are assumed by this server");
+  });
+
+  it("should report tampered bodies with the expected signature", async () => {
+    const params = delivery(EVENT);
+    const { text: result, structuredContent } = await verifyWebhookTool.handler(
+      { ...params, body: params.body.replace("user-1", "user-2") },
+      {}
+    );
+
+    expect(structuredContent?.valid).toBe(false);
+    expect(structuredContent?.signature).toMatchObject({
+      valid: false,
+      reason: expect.stringContaining("Signature does not match"),
+    });
+    expect(result).toContain("**Expected signature**: `sha256=");
+  });
+
+  it("should list payload errors by field", async () => {
+    const { text: result, structuredContent } = await verifyWebhookTool.handler(
+      delivery({ ...EVENT, id: "", data: { channel: "email" } }),
+      {}
+    );
+
+    expect(structuredContent?.valid).toBe(false);
+    expect(structuredContent?.signature).toMatchObject({ valid: true });
+    expect(structuredContent?.errors).toEqual([
+      { path: "id", message: expect.any(String) },
+      { path: "data.userId", message: "Required" },
+    ]);
+    expect(result).toContain("- `data.userId`: Required");
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Streamable HTTP Transport Tests
+ *
+ * Runs the HTTP transport on a random local port and talks to it with the
+ * MCP SDK client, exactly as a remote MCP client would.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { request } from "http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { startHttpServer, type HttpServerHandle } from "../../src/transports/http.js";
+import { MCP_TOOLS } from "../../src/tools/index.js";
+
+async function connectClient(url: string) {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(new URL(url));
+  await client.connect(transport);
+  return { client, transport };
+}
+
+const INITIALIZE = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+});
+
+/**
+ * POST an initialize request with the given headers; fetch cannot override Host
+ */
+function postInitialize(url: string, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers,
+        },
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(INITIALIZE);
+  });
+}
+
+describe("Streamable HTTP Transport", () => {
+  let handle: HttpServerHandle;
+
+  beforeEach(async () => {
+    handle = await startHttpServer({ host: "127.0.0.1", port: 0, context: {} });
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it("should expose the MCP endpoint on /mcp", () => {
+    expect(handle.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+  });
+
+  it("should list the same tools as the stdio server", async () => {
+    const { client } = await connectClient(handle.url);
+    try {
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name).sort()).toEqual(Object.keys(MCP_TOOLS).sort());
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("should assign a session ID and track open sessions", async () => {
+    const first = await connectClient(handle.url);
+    const second = await connectClient(handle.url);
+    try {
+      expect(first.transport.sessionId).toBeTruthy();
+      expect(second.transport.sessionId).toBeTruthy();
+      expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+      expect(handle.sessionCount()).toBe(2);
+    } finally {
+      await first.client.close();
+      await second.client.close();
+    }
+  });
+
+  it("should remove sessions terminated by the client", async () => {
+    const { client, transport } = await connectClient(handle.url);
+    expect(handle.sessionCount()).toBe(1);
+    await transport.terminateSession();
+    await client.close();
+    expect(handle.sessionCount()).toBe(0);
+  });
+
+  it("should return tool validation errors over HTTP", async () => {
+    const { client } = await connectClient(handle.url);
+    try {
+      const result = await client.callTool({ name: "search_docs", arguments: { query: "" } });
+      expect(result.isError).toBe(true);
+      expect(JSON.stringify(result.content)).toContain("Validation Error");
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("should reject non-initialize requests without a session", async () => {
+    const response = await fetch(handle.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("should return 404 for unknown session IDs", async () => {
+    const response = await fetch(handle.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": "does-not-exist",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it("should reject malformed JSON bodies", async () => {
+    const response = await fetch(handle.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{not json",
+    });
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.code).toBe(-32700);
+  });
+
+  it("should serve a health check", async () => {
+    const url = handle.url.replace(/\/mcp$/, "/health");
+    const response = await fetch(url);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: "ok" });
+  });
+
+  it("should close sessions once they have been idle for the timeout", async () => {
+    await handle.close();
+    handle = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      context: {},
+      sessionIdleTimeout: 500,
+    });
+    const { client } = await connectClient(handle.url);
+    try {
+      await client.listTools();
+      expect(handle.sessionCount()).toBe(1);
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      // Each request restarts the idle timer
+      await client.listTools();
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(handle.sessionCount()).toBe(1);
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      expect(handle.sessionCount()).toBe(0);
+      await expect(client.listTools()).rejects.toThrow();
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("should not keep sessions whose initialize request is rejected", async () => {
+    const response = await fetch(handle.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: INITIALIZE,
+    });
+    expect(response.status).toBe(406);
+    expect(handle.sessionCount()).toBe(0);
+  });
+
+  it("should reject requests from other origins and hosts (DNS rebinding)", async () => {
+    const port = new URL(handle.url).port;
+
+    expect(await postInitialize(handle.url, { Origin: "http://evil.example" })).toBe(403);
+    expect(await postInitialize(handle.url, { Host: `evil.example:${port}` })).toBe(403);
+    expect(await postInitialize(handle.url, { Host: `localhost:${port}` })).toBe(200);
+    expect(await postInitialize(handle.url, { Origin: `http://127.0.0.1:${port}` })).toBe(200);
+    expect(handle.sessionCount()).toBe(2);
+  });
+
+  it("should accept configured hosts and origins", async () => {
+    await handle.close();
+    handle = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      context: {},
+      allowedHosts: ["mcp.internal.example.com"],
+      allowedOrigins: ["https://inspector.example.com"],
+    });
+
+    expect(
+      await postInitialize(handle.url, {
+        Host: "mcp.internal.example.com",
+        Origin: "https://inspector.example.com",
+      })
+    ).toBe(200);
+  });
+
+  it("should close open sessions on shutdown", async () => {
+    const { client } = await connectClient(handle.url);
+    expect(handle.sessionCount()).toBe(1);
+    await handle.close();
+    expect(handle.sessionCount()).toBe(0);
+    await client.close();
+    // Restart so afterEach has a live server to close
+    handle = await startHttpServer({ host: "127.0.0.1", port: 0, context: {} });
+  });
+});
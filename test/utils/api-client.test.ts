@@ -0,0 +1,93 @@
+/**
+ * Notifly API Client Tests
+ *
+ * Tests authentication, token refresh, envelope unwrapping and error mapping
+ * against a local mock of the Notifly API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { NotiflyApiClient, requireApiClient } from "../../src/utils/api-client.js";
+import {
+  ApiError,
+  AuthenticationError,
+  ConfigurationError,
+  NotFoundError,
+} from "../../src/errors.js";
+import { startMockApiServer, type MockApiServer } from "../helpers/mock-api-server.js";
+
+const PROJECTS = [
+  { id: "p1", name: "Shop", organizationId: "o1", apiKey: "secret", createdAt: "2024-01-01" },
+];
+
+describe("Notifly API Client", () => {
+  let mock: MockApiServer;
+
+  beforeEach(async () => {
+    mock = await startMockApiServer();
+    mock.routes["GET /projects"] = { body: { success: true, data: PROJECTS } };
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  it("should authenticate once and send the token on each request", async () => {
+    const client = mock.client();
+
+    expect(await client.listProjects()).toEqual(PROJECTS);
+    await client.listProjects();
+
+    expect(mock.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "POST /authenticate",
+      "GET /projects",
+      "GET /projects",
+    ]);
+    expect(mock.requests[0]!.body).toEqual({ accessKey: "test-key", secretKey: "test-secret" });
+    expect(mock.requests[1]!.authorization).toBe("token-1");
+  });
+
+  it("should log in again when the token is rejected", async () => {
+    const client = mock.client();
+    await client.listProjects();
+    mock.expireToken();
+    mock.requests.length = 0;
+
+    expect(await client.listProjects()).toEqual(PROJECTS);
+    expect(mock.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "GET /projects",
+      "POST /authenticate",
+      "GET /projects",
+    ]);
+    expect(mock.requests[2]!.authorization).toBe("token-2");
+  });
+
+  it("should throw AuthenticationError for wrong credentials", async () => {
+    const client = new NotiflyApiClient({
+      apiKey: "test-key",
+      apiSecret: "wrong",
+      baseUrl: mock.url,
+      retries: 0,
+    });
+
+    await expect(client.listProjects()).rejects.toThrow(AuthenticationError);
+  });
+
+  it("should map 404 to NotFoundError and envelope errors to ApiError", async () => {
+    const client = mock.client();
+    mock.routes["GET /projects/p1/campaigns"] = {
+      body: { success: false, error: "project is archived" },
+    };
+
+    await expect(client.getCampaign("p1", "missing")).rejects.toThrow(NotFoundError);
+    await expect(client.listCampaigns("p1")).rejects.toThrow(ApiError);
+    await expect(client.listCampaigns("p1")).rejects.toThrow("project is archived");
+  });
+
+  it("should resolve the default project and require credentials", () => {
+    expect(mock.client({ defaultProjectId: "p1" }).resolveProjectId(undefined)).toBe("p1");
+    expect(mock.client().resolveProjectId("p2")).toBe("p2");
+    expect(() => mock.client().resolveProjectId(undefined)).toThrow(ConfigurationError);
+    expect(() => requireApiClient({})).toThrow(ConfigurationError);
+    expect(() => new NotiflyApiClient({ apiKey: "k", apiSecret: "" })).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Response Cache Tests
+ *
+ * Tests TTL, conditional revalidation, stale-while-revalidate and
+ * stale-if-error behaviour of the persistent response cache.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { ResponseCache, fetchWithCache } from "../../src/utils/cache.js";
+
+const URL_A = "https://docs.notifly.tech/llms.txt";
+const TTL = 1000;
+const STALE_TTL = 5000;
+
+function okResponse(body: string, headers: Record<string, string> = {}) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(headers),
+    text: () => Promise.resolve(body),
+  };
+}
+
+function statusResponse(status: number) {
+  return {
+    ok: false,
+    status,
+    headers: new Headers(),
+    text: () => Promise.resolve(""),
+  };
+}
+
+describe("ResponseCache", () => {
+  let dir: string;
+  let now: number;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "notifly-cache-"));
+    now = 1_000_000;
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function createCache() {
+    return new ResponseCache({ dir, ttlMs: TTL, staleTtlMs: STALE_TTL });
+  }
+
+  it("should serve fresh entries without calling the loader", async () => {
+    const cache = createCache();
+    const loader = vi.fn().mockResolvedValue(okResponse("v1"));
+
+    const first = await cache.fetchText(URL_A, loader);
+    now += TTL - 1;
+    const second = await cache.fetchText(URL_A, loader);
+
+    expect(first).toMatchObject({ ok: true, text: "v1", fromCache: false });
+    expect(second).toMatchObject({ ok: true, text: "v1", fromCache: true });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("should persist entries to disk across cache instances", async () => {
+    await createCache().fetchText(URL_A, async () => okResponse("persisted") as any);
+
+    const files = await readdir(dir);
+    expect(files.some((f) => f.endsWith(".json"))).toBe(true);
+
+    const loader = vi.fn();
+    const result = await createCache().fetchText(URL_A, loader);
+    expect(result.text).toBe("persisted");
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it("should serve stale entries and revalidate in the background", async () => {
+    const cache = createCache();
+    await cache.fetchText(URL_A, async () => okResponse("v1") as any);
+
+    now += TTL + 1;
+    const loader = vi.fn().mockResolvedValue(okResponse("v2"));
+    const stale = await cache.fetchText(URL_A, loader);
+    expect(stale.text).toBe("v1");
+
+    await cache.settle();
+    expect(loader).toHaveBeenCalledTimes(1);
+    const refreshed = await cache.fetchText(URL_A, loader);
+    expect(refreshed.text).toBe("v2");
+  });
+
+  it("should send conditional headers and reuse the body on 304", async () => {
+    const cache = createCache();
+    await cache.fetchText(
+      URL_A,
+      async () =>
+        okResponse("v1", {
+          ETag: '"abc"',
+          "Last-Modified": "Wed, 01 Oct 2025 00:00:00 GMT",
+        }) as any
+    );
+
+    now += TTL + STALE_TTL + 1;
+    const loader = vi.fn().mockResolvedValue(statusResponse(304));
+    const result = await cache.fetchText(URL_A, loader);
+
+    expect(loader).toHaveBeenCalledWith({
+      "If-None-Match": '"abc"',
+      "If-Modified-Since": "Wed, 01 Oct 2025 00:00:00 GMT",
+    });
+    expect(result).toMatchObject({ ok: true, text: "v1" });
+
+    // 304 refreshes the entry, so it is fresh again
+    const again = vi.fn();
+    await cache.fetchText(URL_A, again);
+    expect(again).not.toHaveBeenCalled();
+  });
+
+  it("should fall back to the cached copy on network errors", async () => {
+    const cache = createCache();
+    await cache.fetchText(URL_A, async () => okResponse("v1") as any);
+
+    now += TTL + STALE_TTL + 1;
+    const result = await cache.fetchText(URL_A, () => Promise.reject(new Error("offline")));
+    expect(result).toMatchObject({ ok: true, text: "v1", fromCache: true });
+  });
+
+  it("should fall back to the cached copy on server errors", async () => {
+    const cache = createCache();
+    await cache.fetchText(URL_A, async () => okResponse("v1") as any);
+
+    now += TTL + STALE_TTL + 1;
+    const result = await cache.fetchText(URL_A, async () => statusResponse(503) as any);
+    expect(result).toMatchObject({ ok: true, text: "v1" });
+  });
+
+  it("should not cache error responses", async () => {
+    const cache = createCache();
+    const first = await cache.fetchText(URL_A, async () => statusResponse(404) as any);
+    expect(first).toMatchObject({ ok: false, status: 404 });
+
+    const loader = vi.fn().mockResolvedValue(okResponse("found"));
+    const second = await cache.fetchText(URL_A, loader);
+    expect(second.text).toBe("found");
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report URLs marked missing until the ttl expires", async () => {
+    const cache = createCache();
+    await cache.markMissing(URL_A);
+    expect(await cache.isMissing(URL_A)).toBe(true);
+
+    now += TTL;
+    expect(await cache.isMissing(URL_A)).toBe(false);
+  });
+
+  it("should fetch URLs marked missing instead of serving the marker", async () => {
+    const cache = createCache();
+    await cache.markMissing(URL_A);
+
+    const loader = vi.fn().mockResolvedValue(okResponse("found"));
+    const result = await cache.fetchText(URL_A, loader);
+    expect(result).toMatchObject({ ok: true, text: "found", fromCache: false });
+    expect(await cache.isMissing(URL_A)).toBe(false);
+  });
+
+  it("should keep only recently used entries in memory", async () => {
+    const cache = new ResponseCache({
+      dir,
+      ttlMs: TTL,
+      staleTtlMs: STALE_TTL,
+      memoryMaxBytes: 10,
+    });
+    const urlB = "https://docs.notifly.tech/b.md";
+    const urlC = "https://docs.notifly.tech/c.md";
+    await cache.set({ url: URL_A, body: "aaaa", storedAt: now });
+    await cache.set({ url: urlB, body: "bbbb", storedAt: now });
+    await cache.get(URL_A);
+    await cache.set({ url: urlC, body: "cccc", storedAt: now });
+    await cache.set({
+      url: "https://docs.notifly.tech/big.md",
+      body: "x".repeat(11),
+      storedAt: now,
+    });
+
+    const memory = (cache as unknown as { memory: Map<string, unknown> }).memory;
+    expect([...memory.keys()]).toEqual([URL_A, urlC]);
+    // Evicted entries are read back from disk
+    expect((await cache.get(urlB))?.body).toBe("bbbb");
+    expect([...memory.keys()]).toEqual([urlC, urlB]);
+  });
+
+  it("should propagate network errors when nothing is cached", async () => {
+    const cache = createCache();
+    await expect(
+      cache.fetchText(URL_A, () => Promise.reject(new Error("offline")))
+    ).rejects.toThrow("offline");
+  });
+});
+
+describe("fetchWithCache", () => {
+  it("should call the loader directly when no cache is configured", async () => {
+    const loader = vi.fn().mockResolvedValue(okResponse("direct"));
+    const result = await fetchWithCache({}, URL_A, loader);
+    expect(result).toMatchObject({ ok: true, text: "direct", fromCache: false });
+    expect(loader).toHaveBeenCalledWith({});
+  });
+});
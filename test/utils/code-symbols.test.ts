@@ -0,0 +1,378 @@
+/**
+ * SDK Source Symbol Chunking Tests
+ *
+ * Tests per-language declaration detection, chunk line ranges, ranking and
+ * declaration signatures and visibility.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  splitSymbols,
+  rankSymbols,
+  listDeclarations,
+  signatureParameters,
+} from "../../src/utils/code-symbols.js";
+
+function outline(source: string, language: string) {
+  return splitSymbols(source, language).map(({ name, kind, startLine, endLine }) => ({
+    name,
+    kind,
+    startLine,
+    endLine,
+  }));
+}
+
+function swiftMethods(count: number): string {
+  return Array.from({ length: count }, (_, i) =>
+    [
+      `    /// Method ${i}`,
+      `    public func method${i}(value: Int) {`,
+      `        let doubled = value * 2`,
+      `        print(doubled)`,
+      `        print(value)`,
+      `    }`,
+      ``,
+    ].join("\n")
+  ).join("\n");
+}
+
+describe("Code Symbols", () => {
+  describe("splitSymbols", () => {
+    it("should keep small Swift types whole, with doc comments and attributes", () => {
+      const source = [
+        "import Foundation",
+        "",
+        "/// Entry point",
+        "@objc(Notifly)",
+        "public class Notifly: NSObject {",
+        '    let braces = "}"',
+        "    public static func initialize(projectId: String,",
+        "                                  username: String) {",
+        "        // }",
+        "    }",
+        '    class var version: String { "1" }',
+        "}",
+        "",
+        "extension Notifly: UNUserNotificationCenterDelegate {",
+        "    public func setUserId(_ userId: String?) {}",
+        "}",
+        "",
+        "protocol Tracker {",
+        "    func track(_ name: String)",
+        "}",
+      ].join("\n");
+
+      expect(outline(source, "swift")).toEqual([
+        { name: "Notifly", kind: "class", startLine: 3, endLine: 12 },
+        { name: "Notifly", kind: "extension", startLine: 14, endLine: 16 },
+        { name: "Tracker", kind: "protocol", startLine: 18, endLine: 20 },
+      ]);
+    });
+
+    it("should split large types into a header chunk and their members", () => {
+      const source = [
+        "public final class Notifly {",
+        "    static var shared: Notifly?",
+        "",
+        swiftMethods(12),
+        "    public func setUserId(_ userId: String?) {",
+        "        track()",
+        "    }",
+        "}",
+      ].join("\n");
+
+      const symbols = splitSymbols(source, "swift");
+
+      expect(symbols[0]).toMatchObject({ name: "Notifly", startLine: 1, endLine: 2 });
+      expect(symbols[1]).toMatchObject({
+        name: "Notifly.method0",
+        kind: "method",
+        startLine: 4,
+        endLine: 9,
+      });
+      expect(symbols[1]?.text.split("\n")[0]).toBe("    /// Method 0");
+      const last = symbols[symbols.length - 1]!;
+      expect(last).toMatchObject({ name: "Notifly.setUserId", startLine: 88, endLine: 90 });
+      expect(last.text).toBe(source.split("\n").slice(87, 90).join("\n"));
+    });
+
+    it("should detect Kotlin classes, objects and functions", () => {
+      const source = [
+        "package tech.notifly",
+        "",
+        "object Notifly {",
+        "    @JvmStatic",
+        "    fun setUserId(context: Context, userId: String?) {",
+        "        val callback = object : Callback {",
+        "            override fun done() {}",
+        "        }",
+        "    }",
+        "}",
+        "data class User(val id: String)",
+        "enum class Kind { A, B }",
+        "fun <T> List<T>.second(): T = this[1]",
+      ].join("\n");
+
+      expect(outline(source, "kotlin")).toEqual([
+        { name: "Notifly", kind: "object", startLine: 3, endLine: 10 },
+        { name: "User", kind: "class", startLine: 11, endLine: 11 },
+        { name: "Kind", kind: "enum", startLine: 12, endLine: 12 },
+        { name: "second", kind: "function", startLine: 13, endLine: 13 },
+      ]);
+    });
+
+    it("should tell Dart declarations from calls", () => {
+      const source = [
+        "class Notifly {",
+        "  static Future<void> setUserId(String? userId) async {",
+        "    items.forEach((item) {",
+        "      print(item);",
+        "    });",
+        "  }",
+        "  static int add(int a, int b) => a + b;",
+        "}",
+        "void main() {",
+        "  runApp(App());",
+        "}",
+      ].join("\n");
+
+      const symbols = splitSymbols(source, "dart");
+
+      expect(outline(source, "dart")).toEqual([
+        { name: "Notifly", kind: "class", startLine: 1, endLine: 8 },
+        { name: "main", kind: "function", startLine: 9, endLine: 11 },
+      ]);
+      expect(symbols[0]?.text).toContain("static int add");
+    });
+
+    it("should detect TypeScript classes, functions and arrow functions", () => {
+      const source = [
+        'import { NativeModules } from "react-native";',
+        "export default class Notifly {",
+        "  async setUserId(userId: string): Promise<void> {",
+        "    await fetch(`${url}/{`);",
+        "  }",
+        "}",
+        "export function initialize(options: Options) {",
+        "  return new Notifly(options.id);",
+        "}",
+        "export const track = async (name: string) => {",
+        "  console.log(name);",
+        "};",
+        "const total = (a + b) * 2;",
+      ].join("\n");
+
+      expect(outline(source, "typescript")).toEqual([
+        { name: "Notifly", kind: "class", startLine: 2, endLine: 6 },
+        { name: "initialize", kind: "function", startLine: 7, endLine: 9 },
+        { name: "track", kind: "function", startLine: 10, endLine: 12 },
+      ]);
+    });
+
+    it("should detect Objective-C containers and selectors", () => {
+      const source = [
+        '#import "Notifly.h"',
+        "@protocol NotiflyDelegate;",
+        "@implementation Notifly",
+        "- (void)setUserId:(NSString *)userId withOptions:(NSDictionary *)options",
+        "{",
+        '    [self track:@"}"];',
+        "}",
+        "@end",
+      ].join("\n");
+
+      expect(outline(source, "objectivec")).toEqual([
+        { name: "Notifly", kind: "implementation", startLine: 3, endLine: 8 },
+      ]);
+
+      const padding = Array.from({ length: 80 }, (_, i) => `- (void)method${i};`);
+      const header = ["@interface Notifly : NSObject", ...padding, source.split("\n")[3], "@end"];
+      const symbols = splitSymbols(header.join("\n"), "objectivec");
+      expect(symbols[symbols.length - 1]).toMatchObject({
+        name: "Notifly.setUserId:withOptions:",
+        kind: "method",
+        startLine: 82,
+        endLine: 82,
+      });
+    });
+
+    it("should return no symbols for unsupported languages", () => {
+      expect(splitSymbols("def foo():\n    pass", "python")).toEqual([]);
+    });
+  });
+
+  describe("rankSymbols", () => {
+    const source = [
+      "public final class Notifly {",
+      swiftMethods(12),
+      "    public func setUserId(_ userId: String?) {",
+      "        track()",
+      "    }",
+      "}",
+    ].join("\n");
+
+    it("should match camelCase names against separate query words", () => {
+      const [top] = rankSymbols(splitSymbols(source, "swift"), "set user id", 2);
+
+      expect(top?.symbol.name).toBe("Notifly.setUserId");
+      expect(top?.score).toBeGreaterThan(0);
+    });
+
+    it("should fall back to the first symbols when nothing matches", () => {
+      const ranked = rankSymbols(splitSymbols(source, "swift"), "zzzz", 2);
+
+      expect(ranked.map((r) => r.symbol.name)).toEqual(["Notifly.method0", "Notifly.method1"]);
+      expect(ranked.every((r) => r.score === 0)).toBe(true);
+    });
+  });
+
+  describe("listDeclarations", () => {
+    const summary = (source: string, language: string) =>
+      listDeclarations(source, language).map(({ name, signature, isPublic }) => [
+        name,
+        signature,
+        isPublic,
+      ]);
+
+    it("should give one-line Swift signatures without comments or defaults' bodies", () => {
+      const source = [
+        "public class Notifly {",
+        "    /// Sets the user",
+        "    public static func setUserId(_ userId: String?, // optional",
+        "                                 force: Bool = false) {",
+        '        print("{")',
+        "    }",
+        "    func internalHelper() {}",
+        "}",
+        "class Internal {",
+        "    public func exposed() {}",
+        "}",
+      ].join("\n");
+
+      expect(summary(source, "swift")).toEqual([
+        ["Notifly", "public class Notifly", true],
+        [
+          "Notifly.setUserId",
+          "public static func setUserId(_ userId: String?, force: Bool = false)",
+          true,
+        ],
+        ["Notifly.internalHelper", "func internalHelper()", false],
+        ["Internal", "class Internal", false],
+        ["Internal.exposed", "public func exposed()", false],
+      ]);
+      expect(listDeclarations(source, "swift")[1]).toMatchObject({
+        line: 3,
+        startLine: 2,
+        endLine: 6,
+      });
+    });
+
+    it("should drop expression bodies and apply each language's visibility", () => {
+      expect(
+        summary(
+          "object Notifly {\n  fun add(a: Int = 1): Int = a + 1\n  private fun hidden() {}\n}",
+          "kotlin"
+        )
+      ).toEqual([
+        ["Notifly", "object Notifly", true],
+        ["Notifly.add", "fun add(a: Int = 1): Int", true],
+        ["Notifly.hidden", "private fun hidden()", false],
+      ]);
+      expect(
+        summary(
+          [
+            "export class Notifly {",
+            "  private reset() {}",
+            "  async track(name: string): Promise<void> {}",
+            "}",
+            "export const setUserId = async (id: string) => {",
+            "};",
+            "function helper() {}",
+          ].join("\n"),
+          "typescript"
+        )
+      ).toEqual([
+        ["Notifly", "export class Notifly", true],
+        ["Notifly.reset", "private reset()", false],
+        ["Notifly.track", "async track(name: string): Promise<void>", true],
+        ["setUserId", "export const setUserId = async (id: string)", true],
+        ["helper", "function helper()", false],
+      ]);
+      expect(
+        summary(
+          "class Notifly {\n  static int add(int a, int b) => a + b;\n  void _reset() {}\n}",
+          "dart"
+        )
+      ).toEqual([
+        ["Notifly", "class Notifly", true],
+        ["Notifly.add", "static int add(int a, int b)", true],
+        ["Notifly._reset", "void _reset()", false],
+      ]);
+    });
+  });
+
+  describe("signatureParameters", () => {
+    const params = (signature: string, name: string, language: string) =>
+      signatureParameters(signature, name, language).map((p) => [
+        p.label,
+        p.name,
+        p.type,
+        p.optional,
+      ]);
+
+    it("should read Swift labels, Kotlin and Dart defaults and Dart named groups", () => {
+      expect(
+        params(
+          "public static func track(_ name: String, params: [String: Any] = [:], done: @escaping () -> Void)",
+          "Notifly.track",
+          "swift"
+        )
+      ).toEqual([
+        ["_", "name", "String", false],
+        ["params", "params", "[String: Any]", true],
+        ["done", "done", "() -> Void", false],
+      ]);
+      expect(
+        params("fun setUserId(context: Context, userId: String? = null)", "setUserId", "kotlin")
+      ).toEqual([
+        ["context", "context", "Context", false],
+        ["userId", "userId", "String?", true],
+      ]);
+      expect(
+        params(
+          "static Future<void> initialize(String projectId, {required String username, bool debug = false})",
+          "initialize",
+          "dart"
+        )
+      ).toEqual([
+        ["projectId", "projectId", "String", false],
+        ["username", "username", "String", false],
+        ["debug", "debug", "bool", true],
+      ]);
+    });
+
+    it("should read TypeScript optional and destructured parameters", () => {
+      const [options, callback] = signatureParameters(
+        "async function initialize({ projectId, username = '' }: Options, onReady?: () => void)",
+        "initialize",
+        "typescript"
+      );
+
+      expect(options).toMatchObject({ name: "options", fields: ["projectId", "username"] });
+      expect(callback).toMatchObject({ name: "onReady", type: "() => void", optional: true });
+    });
+  });
+
+  it("should treat TypeScript classes exported by default as public", () => {
+    const declarations = listDeclarations(
+      "class Notifly {\n  track() {}\n  private reset() {}\n}\nexport default new Notifly();",
+      "typescript"
+    );
+
+    expect(declarations.map((d) => [d.name, d.isPublic])).toEqual([
+      ["Notifly", true],
+      ["Notifly.track", true],
+      ["Notifly.reset", false],
+    ]);
+  });
+});
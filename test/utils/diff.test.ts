@@ -0,0 +1,72 @@
+/**
+ * Line Diff Tests
+ *
+ * Tests edit scripts and unified diff hunks.
+ */
+
+import { describe, it, expect } from "vitest";
+import { diffLines, unifiedDiff } from "../../src/utils/diff.js";
+
+describe("Line Diff", () => {
+  describe("diffLines", () => {
+    it("should find a shortest edit script with 1-based line numbers", () => {
+      const edits = diffLines(["a", "b", "c", "d"], ["a", "c", "x", "d"]);
+
+      expect(edits).toEqual([
+        { type: "equal", oldLine: 1, newLine: 1, text: "a" },
+        { type: "delete", oldLine: 2, text: "b" },
+        { type: "equal", oldLine: 3, newLine: 2, text: "c" },
+        { type: "insert", newLine: 3, text: "x" },
+        { type: "equal", oldLine: 4, newLine: 4, text: "d" },
+      ]);
+    });
+
+    it("should rebuild both sides from the edits", () => {
+      const oldLines = Array.from({ length: 200 }, (_, i) => `line ${i % 17}`);
+      const newLines = oldLines.filter((_, i) => i % 7 !== 0).map((l, i) => (i % 11 ? l : "new"));
+      const edits = diffLines(oldLines, newLines);
+
+      expect(edits.filter((e) => e.type !== "insert").map((e) => e.text)).toEqual(oldLines);
+      expect(edits.filter((e) => e.type !== "delete").map((e) => e.text)).toEqual(newLines);
+    });
+  });
+
+  describe("unifiedDiff", () => {
+    it("should return an empty string for equal texts", () => {
+      expect(unifiedDiff("a\nb\n", "a\nb", "old", "new")).toBe("");
+    });
+
+    it("should group nearby changes into hunks with context", () => {
+      const oldText = Array.from({ length: 20 }, (_, i) => `${i + 1}`).join("\n");
+      const newText = oldText.replace("\n2\n", "\ntwo\n").replace("\n18\n", "\n18\neighteen\n");
+
+      expect(unifiedDiff(oldText, newText, "a/file", "b/file")).toBe(
+        [
+          "--- a/file",
+          "+++ b/file",
+          "@@ -1,5 +1,5 @@",
+          " 1",
+          "-2",
+          "+two",
+          " 3",
+          " 4",
+          " 5",
+          "@@ -16,5 +16,6 @@",
+          " 16",
+          " 17",
+          " 18",
+          "+eighteen",
+          " 19",
+          " 20",
+        ].join("\n")
+      );
+    });
+
+    it("should describe added and removed files", () => {
+      expect(unifiedDiff("", "a\nb\n", "old", "new")).toBe(
+        "--- old\n+++ new\n@@ -0,0 +1,2 @@\n+a\n+b"
+      );
+      expect(unifiedDiff("a\n", "", "old", "new")).toBe("--- old\n+++ new\n@@ -1 +0,0 @@\n-a");
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Documentation Section Chunking Tests
+ *
+ * Tests heading-based splitting and section ranking.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  splitSections,
+  rankSections,
+  slugifyHeading,
+  stripHeadingAnchors,
+} from "../../src/utils/doc-sections.js";
+
+describe("Doc Sections", () => {
+  describe("splitSections", () => {
+    it("should build heading paths from nested headings", () => {
+      const sections = splitSections(
+        [
+          "Lead",
+          "# Guide",
+          "Intro",
+          "## Setup {#setup}",
+          "Steps",
+          "### iOS",
+          "Pods",
+          "## Usage",
+          "Call it",
+        ].join("\n")
+      );
+
+      expect(sections).toEqual([
+        { headingPath: [], text: "Lead" },
+        { headingPath: ["Guide"], anchor: "guide", text: "Intro" },
+        { headingPath: ["Guide", "Setup"], anchor: "setup", text: "Steps" },
+        { headingPath: ["Guide", "Setup", "iOS"], anchor: "ios", text: "Pods" },
+        { headingPath: ["Guide", "Usage"], anchor: "usage", text: "Call it" },
+      ]);
+    });
+
+    it("should ignore headings inside code fences and drop empty sections", () => {
+      const sections = splitSections(
+        ["# Empty", "## Code", "```", "# not a heading", "```"].join("\n")
+      );
+
+      expect(sections).toHaveLength(1);
+      expect(sections[0]?.headingPath).toEqual(["Empty", "Code"]);
+      expect(sections[0]?.text).toContain("# not a heading");
+    });
+
+    it("should strip anchor markers for display", () => {
+      expect(stripHeadingAnchors("## Install {#install}\nRun it")).toBe("## Install\nRun it");
+    });
+
+    it("should slugify headings in any script", () => {
+      expect(slugifyHeading("Push 알림 설정!")).toBe("push-알림-설정");
+    });
+  });
+
+  describe("rankSections", () => {
+    const sections = splitSections(
+      ["# Setup", "Install the SDK", "# Events", "Track custom events with trackEvent"].join("\n")
+    );
+
+    it("should rank matching sections first", () => {
+      const ranked = rankSections(sections, "track events", 2);
+
+      expect(ranked[0]?.section.headingPath).toEqual(["Events"]);
+      expect(ranked[0]?.score).toBeGreaterThan(0);
+    });
+
+    it("should fall back to the first sections when nothing matches", () => {
+      const ranked = rankSections(sections, "zzz", 1);
+
+      expect(ranked).toEqual([{ section: sections[0], score: 0 }]);
+    });
+  });
+});
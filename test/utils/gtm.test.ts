@@ -0,0 +1,81 @@
+/**
+ * GTM Container Check Tests
+ *
+ * Tests template parsing, field and Cafe24 mapping checks, and trigger
+ * checks against fixture templates.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  auditGtmContainer,
+  parameterValue,
+  parseGtmTemplate,
+  type GtmContainerVersion,
+  type GtmReferenceTemplate,
+} from "../../src/utils/gtm.js";
+import { CAFE24_TEMPLATE, CONTAINER, MAIN_TEMPLATE } from "../helpers/gtm-fixtures.js";
+
+const REFERENCES: GtmReferenceTemplate[] = [
+  { ...parseGtmTemplate(MAIN_TEMPLATE)!, title: "Notifly (EN)", url: "main.tpl", cafe24: false },
+  { ...parseGtmTemplate(CAFE24_TEMPLATE)!, title: "Cafe24", url: "cafe24.tpl", cafe24: true },
+];
+
+function version(): GtmContainerVersion {
+  return structuredClone(CONTAINER.containerVersion) as GtmContainerVersion;
+}
+
+describe("GTM Container Checks", () => {
+  it("should parse template sections and exported parameters", () => {
+    const template = parseGtmTemplate(MAIN_TEMPLATE);
+    expect(template?.displayName).toBe("Notifly");
+    expect(template?.parameters.map((p) => p.name)).toEqual(["action", "credentials", "eventName"]);
+    expect(parseGtmTemplate("const x = 1;")).toBeUndefined();
+
+    expect(
+      parameterValue({
+        type: "LIST",
+        key: "rows",
+        list: [{ type: "MAP", map: [{ type: "TEMPLATE", key: "a", value: "1" }] }],
+      })
+    ).toEqual([{ a: "1" }]);
+  });
+
+  it("should report field, mapping and trigger problems", () => {
+    const { tags, issues } = auditGtmContainer(version(), REFERENCES);
+
+    expect(tags.map((t) => [t.name, t.reference, t.init, t.triggers])).toEqual([
+      ["Notifly - Init", "Notifly (EN)", true, ["Initialization - All Pages"]],
+      ["Notifly - Purchase", "Notifly (EN)", false, ["Consent Initialization - All Pages"]],
+      ["Notifly - Cafe24", "Cafe24", false, ["55"]],
+    ]);
+    expect(issues.map((i) => [i.severity, i.tag, i.field])).toEqual([
+      ["warning", "Notifly", undefined],
+      ["error", "Notifly - Init", "username"],
+      ["error", "Notifly - Init", undefined],
+      ["error", "Notifly - Purchase", "eventName"],
+      ["error", "Notifly - Cafe24", "eventMappings[1].cafe24Event"],
+      ["error", "Notifly - Cafe24", "eventMappings[2].cafe24Event"],
+      ["warning", "Notifly - Purchase", undefined],
+      ["error", "Notifly - Cafe24", undefined],
+    ]);
+    const messages = issues.map((i) => i.message);
+    expect(messages[0]).toContain("lacks fields of the current template (eventName)");
+    expect(messages[2]).toContain("{{Notifly Project ID}}");
+    expect(messages[4]).toContain('"refund", which the template does not offer');
+    expect(messages[5]).toContain('"add_to_cart" is mapped more than once (rows 0 and 2)');
+    expect(messages[6]).toContain("before the Notifly initialization tag");
+    expect(messages[7]).toContain("trigger 55, which is not in the container");
+  });
+
+  it("should require an active initialization tag", () => {
+    const container = version();
+    container.tag = container.tag!.filter((t) => t.name !== "Notifly - Init");
+
+    expect(auditGtmContainer(container, REFERENCES).issues.at(-1)?.message).toContain(
+      "No active Notifly initialization tag"
+    );
+    expect(auditGtmContainer({ tag: [] }, REFERENCES).issues).toEqual([
+      { severity: "error", message: expect.stringContaining("No Notifly tag template found") },
+    ]);
+  });
+});
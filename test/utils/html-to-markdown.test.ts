@@ -0,0 +1,86 @@
+/**
+ * HTML to Markdown Conversion Tests
+ *
+ * Tests main-content extraction and conversion of code blocks, tables,
+ * lists, headings and links.
+ */
+
+import { describe, it, expect } from "vitest";
+import { htmlToMarkdown, decodeHtmlEntities } from "../../src/utils/html-to-markdown.js";
+
+describe("HTML to Markdown", () => {
+  it("should extract the main content and drop page chrome", () => {
+    const html = `
+<html><head><title>Page</title><script>track()</script></head>
+<body>
+  <nav>Guides API</nav>
+  <div id="sidebar">Sidebar links</div>
+  <div id="content-area">
+    <header><h1 id="page-title">Push Setup</h1></header>
+    <p>Configure push.</p>
+    <footer>Was this page helpful?</footer>
+  </div>
+  <footer>Copyright</footer>
+</body></html>`;
+
+    expect(htmlToMarkdown(html)).toBe("# Push Setup {#page-title}\n\nConfigure push.");
+  });
+
+  it("should fall back to the body when no main content is marked", () => {
+    expect(htmlToMarkdown("<html><header>Logo</header><body><p>Body</p></body></html>")).toBe(
+      "Body"
+    );
+  });
+
+  it("should keep code blocks fenced with their language", () => {
+    const html = `<pre class="shiki"><code class="language-swift"><span>Notifly.initialize(</span>
+<span>  projectId: &quot;id&quot;</span>
+<span>)</span></code></pre>`;
+
+    expect(htmlToMarkdown(html)).toBe('```swift\nNotifly.initialize(\n  projectId: "id"\n)\n```');
+  });
+
+  it("should render inline code, emphasis and links", () => {
+    const html = `<p>Call <code>setUserId</code> <strong>after</strong> login, see <a href="/ko/users">users</a>.</p>`;
+
+    expect(htmlToMarkdown(html, "https://docs.notifly.tech/ko/push")).toBe(
+      "Call `setUserId` **after** login, see [users](https://docs.notifly.tech/ko/users)."
+    );
+  });
+
+  it("should convert tables to GFM", () => {
+    const html = `<table>
+  <thead><tr><th>Parameter</th><th>Type</th></tr></thead>
+  <tbody>
+    <tr><td><code>userId</code></td><td>string | null</td></tr>
+    <tr><td>eventName</td><td>string</td></tr>
+  </tbody>
+</table>`;
+
+    expect(htmlToMarkdown(html)).toBe(
+      [
+        "| Parameter | Type |",
+        "| --- | --- |",
+        "| `userId` | string \\| null |",
+        "| eventName | string |",
+      ].join("\n")
+    );
+  });
+
+  it("should convert nested ordered and unordered lists", () => {
+    const html = `<ol>
+  <li>Install the SDK</li>
+  <li>Configure push
+    <ul><li>APNs key</li><li>FCM key</li></ul>
+  </li>
+</ol>`;
+
+    expect(htmlToMarkdown(html)).toBe(
+      "1. Install the SDK\n2. Configure push\n\n   - APNs key\n   - FCM key"
+    );
+  });
+
+  it("should decode numeric and named entities", () => {
+    expect(decodeHtmlEntities("&lt;a&gt; &amp; &#54620;&#xAE00; &hellip;")).toBe("<a> & 한글 …");
+  });
+});
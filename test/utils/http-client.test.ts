@@ -0,0 +1,195 @@
+/**
+ * Shared HTTP Client Tests
+ *
+ * Tests timeouts, retry/backoff policy and ApiError mapping.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  httpFetch,
+  fetchText,
+  computeRetryDelay,
+  parseRetryAfter,
+  describeFetchError,
+} from "../../src/utils/http-client.js";
+import { ApiError } from "../../src/errors.js";
+import { API_RETRY_MAX_DELAY_MS, MCP_USER_AGENT } from "../../src/constants.js";
+
+function response(status: number, body = "", headers: Record<string, string> = {}) {
+  return new Response(status === 304 ? null : body, { status, headers });
+}
+
+describe("HTTP Client", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("httpFetch", () => {
+    it("should send the User-Agent and Accept headers", async () => {
+      fetchMock.mockResolvedValueOnce(response(200, "ok"));
+
+      await httpFetch("https://docs.notifly.tech/llms.txt", { accept: "text/plain" });
+
+      const [, init] = fetchMock.mock.calls[0]!;
+      expect(init.headers["User-Agent"]).toBe(MCP_USER_AGENT);
+      expect(init.headers.Accept).toBe("text/plain");
+    });
+
+    it("should resolve relative paths against the Notifly API", async () => {
+      fetchMock.mockResolvedValueOnce(response(200, "{}"));
+
+      await httpFetch("/projects");
+
+      expect(fetchMock.mock.calls[0]![0]).toBe("https://api.notifly.tech/projects");
+    });
+
+    it("should serialize JSON bodies", async () => {
+      fetchMock.mockResolvedValueOnce(response(200, "{}"));
+
+      await httpFetch("/track-event", { method: "POST", json: { eventName: "purchase" } });
+
+      const [, init] = fetchMock.mock.calls[0]!;
+      expect(init.method).toBe("POST");
+      expect(init.headers["Content-Type"]).toBe("application/json");
+      expect(init.body).toBe('{"eventName":"purchase"}');
+    });
+
+    it("should retry 429 and 5xx responses until success", async () => {
+      fetchMock
+        .mockResolvedValueOnce(response(429, "slow down"))
+        .mockResolvedValueOnce(response(503))
+        .mockResolvedValueOnce(response(200, "finally"));
+
+      const res = await httpFetch("https://a.test/x", { retries: 3, retryBaseDelayMs: 1 });
+
+      expect(await res.text()).toBe("finally");
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should retry network errors", async () => {
+      fetchMock
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(response(200, "recovered"));
+
+      const res = await httpFetch("https://a.test/x", { retries: 1, retryBaseDelayMs: 1 });
+
+      expect(await res.text()).toBe("recovered");
+    });
+
+    it("should honor Retry-After before retrying", async () => {
+      fetchMock
+        .mockResolvedValueOnce(response(429, "", { "Retry-After": "0" }))
+        .mockResolvedValueOnce(response(200, "ok"));
+
+      const res = await httpFetch("https://a.test/x", { retries: 1, retryBaseDelayMs: 60_000 });
+
+      // A 60s backoff would time the test out; Retry-After: 0 wins
+      expect(res.status).toBe(200);
+    });
+
+    it("should throw ApiError with the status once retries are exhausted", async () => {
+      fetchMock.mockImplementation(() => Promise.resolve(response(502, "bad gateway")));
+
+      const error = await httpFetch("https://a.test/x", { retries: 2, retryBaseDelayMs: 1 }).catch(
+        (e) => e
+      );
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.statusCode).toBe(502);
+      expect(error.response).toBe("bad gateway");
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry client errors", async () => {
+      fetchMock.mockImplementation(() => Promise.resolve(response(404, "missing")));
+
+      await expect(
+        httpFetch("https://a.test/x", { retries: 3, retryBaseDelayMs: 1 })
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should pass 304 responses through for revalidation", async () => {
+      fetchMock.mockResolvedValueOnce(response(304));
+
+      const res = await httpFetch("https://a.test/x");
+
+      expect(res.status).toBe(304);
+    });
+
+    it("should time out slow requests", async () => {
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () => {
+              reject(Object.assign(new Error("aborted"), { name: "AbortError" }));
+            });
+          })
+      );
+
+      await expect(httpFetch("https://a.test/x", { timeoutMs: 10, retries: 0 })).rejects.toThrow(
+        /timed out after 10ms/
+      );
+    });
+  });
+
+  describe("fetchText", () => {
+    it("should return the response body", async () => {
+      fetchMock.mockResolvedValueOnce(response(200, "body"));
+
+      expect(await fetchText({}, "https://a.test/x")).toBe("body");
+    });
+
+    it("should propagate ApiError for HTTP failures", async () => {
+      fetchMock.mockResolvedValueOnce(response(403));
+
+      await expect(fetchText({}, "https://a.test/x", { retries: 0 })).rejects.toBeInstanceOf(
+        ApiError
+      );
+    });
+  });
+
+  describe("Retry delay", () => {
+    it("should parse Retry-After seconds and HTTP dates", () => {
+      expect(parseRetryAfter("2")).toBe(2000);
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("not a date")).toBeUndefined();
+      const future = new Date(Date.now() + 5000).toUTCString();
+      expect(parseRetryAfter(future)).toBeGreaterThan(3000);
+    });
+
+    it("should use jittered exponential backoff", () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const delay = computeRetryDelay(attempt, undefined, 100);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(100 * 2 ** attempt);
+      }
+    });
+
+    it("should cap delays, including Retry-After", () => {
+      expect(computeRetryDelay(30, undefined, 1000)).toBeLessThanOrEqual(API_RETRY_MAX_DELAY_MS);
+      expect(computeRetryDelay(0, 10 * API_RETRY_MAX_DELAY_MS)).toBe(API_RETRY_MAX_DELAY_MS);
+    });
+  });
+
+  describe("describeFetchError", () => {
+    it("should describe rate limits, server errors and other failures", () => {
+      // The error may come from the cache or a client with other retry settings
+      expect(describeFetchError(new ApiError("x", 429), "GitHub")).toBe(
+        "Rate limited by GitHub (HTTP 429). Please try again later."
+      );
+      expect(describeFetchError(new ApiError("x", 500), "GitHub")).toContain("server error");
+      expect(describeFetchError(new ApiError("x", 404), "GitHub")).toContain(
+        "Unable to fetch content (HTTP 404)"
+      );
+      expect(describeFetchError(new Error("boom"), "GitHub")).toContain("boom");
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Liquid Template Engine Tests
+ *
+ * Tests parsing errors, rendering of tags and filters, and the static
+ * analysis of referenced variables.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  analyzeTemplate,
+  LIQUID_LIMITS,
+  parseTemplate,
+  renderTemplate,
+} from "../../src/utils/liquid.js";
+import { TemplateError } from "../../src/errors.js";
+
+function render(source: string, variables: Record<string, unknown> = {}): string {
+  return renderTemplate(parseTemplate(source), {
+    variables,
+    now: new Date("2024-03-05T09:07:00Z"),
+  });
+}
+
+describe("Liquid Template Engine", () => {
+  it("should render outputs with filters and fallbacks", () => {
+    const user = { name: "kim", tags: ["a", "b", "a"], points: 1234.5 };
+
+    expect(
+      render('{{ user.name | capitalize }}님 {{ user.city | default: "서울" }}', { user })
+    ).toBe("Kim님 서울");
+    expect(render("{{ user.tags | uniq | join: ', ' }} / {{ user.tags.size }}", { user })).toBe(
+      "a, b / 3"
+    );
+    expect(render("{{ user.points | plus: 0.5 | divided_by: 5 | round }}", { user })).toBe("247");
+    expect(render("{{ 'now' | date: '%Y-%m-%d %H:%M' }}")).toBe("2024-03-05 09:07");
+    expect(render("{{ user.missing }}|{{ user.name | upcase | truncate: 2, '' }}", { user })).toBe(
+      "|KI"
+    );
+  });
+
+  it("should render control flow, loops and variables", () => {
+    const template = [
+      "{%- assign total = 0 -%}",
+      "{% for item in event.items limit: 3 %}{% if item.price > 100 %}{{ forloop.index }}:{{ item.name }} {% endif %}{% endfor %}",
+      "{% case user.tier %}{% when 'gold', 'vip' %}VIP{% else %}member{% endcase %}",
+      "{% unless user.name %} 고객{% endunless %}",
+      "{% capture greeting %}hi {{ user.name | default: 'there' }}{% endcapture %} {{ greeting }}",
+      "{% comment %}{{ ignored {% endcomment %}{% raw %}{{ kept }}{% endraw %}",
+    ].join("");
+    const variables = {
+      user: { tier: "vip" },
+      event: {
+        items: [
+          { name: "a", price: 50 },
+          { name: "b", price: 150 },
+          { name: "c", price: 200 },
+          { name: "d", price: 300 },
+        ],
+      },
+    };
+
+    expect(render(template, variables)).toBe("2:b 3:c VIP 고객 hi there{{ kept }}");
+    expect(
+      render("{% for i in (1..5) %}{% if i == 4 %}{% break %}{% endif %}{{ i }}{% endfor %}")
+    ).toBe("123");
+    expect(render("{% if user.tags == empty %}none{% endif %}", { user: { tags: [] } })).toBe(
+      "none"
+    );
+  });
+
+  it("should report syntax errors with their line", () => {
+    const cases: Array<[string, string, number]> = [
+      ["Hi\n{{ user.name", "{{ is never closed", 2],
+      ["{% if user.vip %}\nVIP", "{% if %} is never closed with {% endif %}", 1],
+      ["\n\n{{ user.name | defualt: 'x' }}", 'did you mean "default"?', 3],
+      ["{{ user.name | default }}", "the default filter needs a fallback value", 1],
+      ["{% endfor %}", "unexpected {% endfor %}", 1],
+      ["{% include 'header' %}", "unknown tag {% include %}", 1],
+      ["{{ user.name | append }}", 'filter "append" takes 1 argument(s), got 0', 1],
+    ];
+
+    for (const [source, message, line] of cases) {
+      const error = (() => {
+        try {
+          parseTemplate(source);
+        } catch (e) {
+          return e;
+        }
+      })();
+      expect(error, source).toBeInstanceOf(TemplateError);
+      expect((error as TemplateError).message).toContain(message);
+      expect((error as TemplateError).line).toBe(line);
+    }
+  });
+
+  it("should stub Connected Content and fail on render errors", () => {
+    const nodes = parseTemplate(
+      "{% connected_content https://api.example.com/users/{{ user.id }} :save profile %}{{ profile.grade }}"
+    );
+    const responses: Record<string, unknown> = {
+      "https://api.example.com/users/u1": { grade: "A" },
+    };
+
+    expect(
+      renderTemplate(nodes, {
+        variables: { user: { id: "u1" } },
+        connectedContent: (url) => responses[url],
+      })
+    ).toBe("A");
+    expect(() =>
+      renderTemplate(nodes, {
+        variables: { user: { id: "u2" } },
+        connectedContent: (url) => responses[url],
+      })
+    ).toThrow("no Connected Content response for https://api.example.com/users/u2");
+    expect(() => render("{{ 10 | divided_by: user.count }}", { user: { count: 0 } })).toThrow(
+      "divided by 0"
+    );
+  });
+
+  it("should stop renders that exceed the limits", () => {
+    expect(() => render("Hi\n{% for i in (1..200000000) %}x{% endfor %}")).toThrow(
+      expect.objectContaining({
+        message:
+          "Liquid render error: range (1..200000000) has 200000000 items; the limit is 10000 (line 2)",
+        line: 2,
+      })
+    );
+    expect(() =>
+      render("{% for i in (1..10000) %}{% for j in (1..10000) %}{% endfor %}{% endfor %}")
+    ).toThrow("loops run more than 100000 iterations in total");
+    expect(() =>
+      render("{% for i in (1..10000) %}{{ user.bio }}{% endfor %}", {
+        user: { bio: "x".repeat(200) },
+      })
+    ).toThrow(`output exceeds ${LIQUID_LIMITS.outputLength} characters`);
+    expect(() =>
+      render(
+        '{% assign s = "xxxxxxxxxx" %}{% for i in (1..20) %}{% assign s = s | append: s %}{% endfor %}'
+      )
+    ).toThrow(TemplateError);
+    expect(() =>
+      render('{{ user.bio | replace: "", user.bio }}', { user: { bio: "x".repeat(2000) } })
+    ).toThrow("replace: result would be");
+    expect(render("{% for i in (1..3) %}{{ i }}{% endfor %}")).toBe("123");
+  });
+
+  it("should collect references with their fallbacks", () => {
+    const { references, locals } = analyzeTemplate(
+      parseTemplate(
+        [
+          "{{ user.name }}",
+          "{{ user.city | default: '' }}",
+          "{% if user.nickname %}{{ user.nickname }}{% endif %}",
+          "{% assign n = event.count | plus: 1 %}{{ n }}",
+        ].join("\n")
+      )
+    );
+
+    expect(
+      references.map((r) => [
+        [r.root, ...r.path].join("."),
+        r.line,
+        r.usage,
+        r.fallback,
+        r.emptyFallback,
+      ])
+    ).toEqual([
+      ["user.name", 1, "output", false, false],
+      ["user.city", 2, "output", true, true],
+      ["user.nickname", 3, "condition", false, false],
+      ["user.nickname", 3, "output", true, false],
+      ["event.count", 4, "argument", false, false],
+      ["n", 4, "output", false, false],
+    ]);
+    expect([...locals]).toEqual(["n"]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Push Payload Tests
+ *
+ * Tests building the APNs and FCM payloads and the checks on hand-written ones.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildPushPayloads,
+  payloadSize,
+  resolveNotiflyPushKeys,
+  suggestNotiflyKey,
+  validateApnsPayload,
+  validateFcmMessage,
+} from "../../src/utils/push-payload.js";
+
+const CONTENT = {
+  title: "주문이 발송되었어요",
+  body: "배송 현황을 확인해 보세요",
+  imageUrl: "https://cdn.example.com/push.png",
+  link: "myapp://orders/1234",
+  campaignId: "campaign_123",
+  messageId: "message_456",
+};
+
+describe("buildPushPayloads", () => {
+  it("should build an APNs payload with mutable-content and top-level Notifly keys", () => {
+    const { apns, issues } = buildPushPayloads({ ...CONTENT, badge: 1, data: { orderId: 1234 } });
+
+    expect(apns).toEqual({
+      aps: {
+        alert: { title: CONTENT.title, body: CONTENT.body },
+        sound: "default",
+        badge: 1,
+        "mutable-content": 1,
+      },
+      orderId: 1234,
+      notifly_campaign_id: "campaign_123",
+      notifly_message_id: "message_456",
+      notifly_link: "myapp://orders/1234",
+      notifly_image_url: "https://cdn.example.com/push.png",
+    });
+    expect(issues).toEqual([]);
+    expect(validateApnsPayload(apns)).toEqual([]);
+  });
+
+  it("should build a data-only FCM message with string values", () => {
+    const { fcm } = buildPushPayloads({ ...CONTENT, data: { orderId: 1234, tags: ["a"] } });
+
+    expect(fcm).toEqual({
+      message: {
+        data: {
+          orderId: "1234",
+          tags: '["a"]',
+          title: CONTENT.title,
+          body: CONTENT.body,
+          notifly_campaign_id: "campaign_123",
+          notifly_message_id: "message_456",
+          notifly_link: "myapp://orders/1234",
+          notifly_image_url: "https://cdn.example.com/push.png",
+        },
+        android: { priority: "high" },
+      },
+    });
+    expect(validateFcmMessage(fcm)).toEqual([]);
+  });
+
+  it("should report custom data keys the payload sets itself", () => {
+    const { issues } = buildPushPayloads({ ...CONTENT, data: { notifly_link: "x", title: "y" } });
+
+    expect(issues.map((i) => [i.platform, i.path])).toEqual([
+      ["ios", "data.notifly_link"],
+      ["android", "data.notifly_link"],
+      ["ios", "data.title"],
+      ["android", "data.title"],
+    ]);
+  });
+});
+
+describe("resolveNotiflyPushKeys", () => {
+  it("should take the key names from the SDK sources and list the ones they lack", () => {
+    expect(
+      resolveNotiflyPushKeys(["notifly_campaign_id", "notiflyMessageId", "notifly_channel_id"])
+    ).toEqual({
+      keys: {
+        campaignId: "notifly_campaign_id",
+        messageId: "notiflyMessageId",
+        link: "notifly_link",
+        imageUrl: "notifly_image_url",
+      },
+      missing: ["link", "imageUrl"],
+    });
+  });
+});
+
+describe("suggestNotiflyKey", () => {
+  it("should map misspelled keys to the Notifly key", () => {
+    expect(suggestNotiflyKey("notiflyCampaignId")).toBe("notifly_campaign_id");
+    expect(suggestNotiflyKey("messageId")).toBe("notifly_message_id");
+    expect(suggestNotiflyKey("image-url")).toBe("notifly_image_url");
+    expect(suggestNotiflyKey("notifly_link")).toBeUndefined();
+    expect(suggestNotiflyKey("orderId")).toBeUndefined();
+  });
+});
+
+describe("validateApnsPayload", () => {
+  it("should require mutable-content as the number 1 when an image is attached", () => {
+    const missing = validateApnsPayload({
+      aps: { alert: "hi" },
+      notifly_image_url: "https://cdn.example.com/push.png",
+      notifly_campaign_id: "c",
+      notifly_message_id: "m",
+    });
+    expect(missing).toMatchObject([{ severity: "error", path: "aps.mutable-content" }]);
+
+    const wrongType = validateApnsPayload({
+      aps: { alert: "hi", "mutable-content": "1" },
+      notifly_campaign_id: "c",
+      notifly_message_id: "m",
+    });
+    expect(wrongType).toMatchObject([
+      { severity: "error", message: 'mutable-content must be the number 1, got "1".' },
+    ]);
+  });
+
+  it("should report misplaced, misspelled and missing Notifly keys", () => {
+    const issues = validateApnsPayload({
+      aps: { alert: { title: "hi" }, "mutable-content": 1, notifly_link: "myapp://home" },
+      notiflyCampaignId: "c",
+      notifly_image_url: "http://cdn.example.com/push.png",
+    });
+
+    expect(issues.map((i) => [i.severity, i.path])).toEqual([
+      ["error", "aps.notifly_link"],
+      ["error", "notiflyCampaignId"],
+      ["warning", "notifly_campaign_id"],
+      ["warning", "notifly_message_id"],
+      ["error", "notifly_image_url"],
+    ]);
+  });
+
+  it("should accept a silent push and reject oversized payloads", () => {
+    expect(
+      validateApnsPayload({
+        aps: { "content-available": 1 },
+        notifly_campaign_id: "c",
+        notifly_message_id: "m",
+      })
+    ).toEqual([]);
+
+    const large = { aps: { alert: "x".repeat(4100), "mutable-content": 1 } };
+    expect(payloadSize(large)).toBeGreaterThan(4096);
+    expect(validateApnsPayload(large).map((i) => i.message)).toContain(
+      `Payload is ${payloadSize(large)} bytes; APNs rejects payloads over 4096 bytes.`
+    );
+  });
+});
+
+describe("validateFcmMessage", () => {
+  it("should flag notification blocks, non-string data and reserved keys", () => {
+    const issues = validateFcmMessage({
+      message: {
+        notification: { title: "hi", body: "there" },
+        data: { orderId: 1234, from: "app", notifly_campaign_id: "c", notifly_message_id: "m" },
+      },
+    });
+
+    expect(issues.map((i) => [i.severity, i.path])).toEqual([
+      ["warning", "message.notification"],
+      ["error", "message.data.orderId"],
+      ["error", "message.data.from"],
+      ["warning", "message.data"],
+      ["warning", "message.android.priority"],
+    ]);
+  });
+
+  it("should accept the message without the HTTP v1 wrapper", () => {
+    expect(
+      validateFcmMessage({
+        data: { title: "hi", notifly_campaign_id: "c", notifly_message_id: "m" },
+        android: { priority: "HIGH" },
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Rate Limiter Tests
+ *
+ * Tests request pacing with fake timers.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RateLimiter } from "../../src/utils/rate-limit.js";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should let `limit` requests start per window and delay the rest", async () => {
+    const limiter = new RateLimiter(2, 1000);
+    const started: number[] = [];
+    const start = Date.now();
+
+    const requests = [1, 2, 3].map((n) =>
+      limiter.acquire().then(() => started.push(n) && undefined)
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(started).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await Promise.all(requests);
+    expect(started).toEqual([1, 2, 3]);
+    expect(Date.now() - start).toBe(1000);
+  });
+
+  it("should not limit when the limit is 0", async () => {
+    const limiter = new RateLimiter(0, 1000);
+
+    await Promise.all(Array.from({ length: 50 }, () => limiter.acquire()));
+  });
+});
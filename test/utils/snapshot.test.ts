@@ -0,0 +1,147 @@
+/**
+ * Offline Snapshot Tests
+ *
+ * Tests the snapshot archive format and serving tool fetches from it.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { gzipSync } from "zlib";
+import os from "os";
+import path from "path";
+import {
+  loadSnapshot,
+  writeSnapshot,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_FORMAT_VERSION,
+  type SnapshotArchive,
+} from "../../src/utils/snapshot.js";
+import { docsSearchTool } from "../../src/tools/search-docs.js";
+import { sdkSearchTool, MAPPING_LLMS_URL } from "../../src/tools/search-sdk.js";
+import { ConfigurationError } from "../../src/errors.js";
+
+const IOS_LLMS =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/llms.txt";
+const IOS_FILE =
+  "https://raw.githubusercontent.com/team-michael/notifly-ios-sdk/refs/heads/main/Sources/Notifly.swift";
+
+function archive(entries: Record<string, string>): SnapshotArchive {
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_FORMAT_VERSION,
+    createdAt: "2025-10-01T00:00:00.000Z",
+    serverVersion: "0.0.0-test",
+    entries,
+  };
+}
+
+describe("Offline Snapshot", () => {
+  let dir: string;
+  const fetchMock = vi.fn();
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "notifly-snapshot-"));
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("Archive format", () => {
+    it("should round-trip entries through a gzipped archive", async () => {
+      const file = path.join(dir, "nested", "snapshot.json.gz");
+      await writeSnapshot(file, archive({ "https://a.test/x": "body" }));
+
+      const snapshot = await loadSnapshot(file);
+      expect(snapshot.size).toBe(1);
+      expect(snapshot.get("https://a.test/x")).toBe("body");
+      expect(snapshot.has("https://a.test/missing")).toBe(false);
+      expect(snapshot.createdAt).toBe("2025-10-01T00:00:00.000Z");
+    });
+
+    it("should reject a missing archive with a helpful message", async () => {
+      await expect(loadSnapshot(path.join(dir, "missing.json.gz"))).rejects.toThrow(
+        /notifly-mcp-server snapshot/
+      );
+    });
+
+    it("should reject archives from another format version", async () => {
+      const file = path.join(dir, "future.json.gz");
+      await writeFile(
+        file,
+        gzipSync(JSON.stringify({ ...archive({}), version: SNAPSHOT_FORMAT_VERSION + 1 }))
+      );
+      await expect(loadSnapshot(file)).rejects.toBeInstanceOf(ConfigurationError);
+    });
+
+    it("should reject files that are not snapshot archives", async () => {
+      const file = path.join(dir, "garbage.json.gz");
+      await writeFile(file, "not gzip");
+      await expect(loadSnapshot(file)).rejects.toThrow(/not a valid archive/);
+    });
+  });
+
+  describe("Serving tools offline", () => {
+    it("should answer search_docs without touching the network", async () => {
+      const file = path.join(dir, "snapshot.json.gz");
+      await writeSnapshot(
+        file,
+        archive({
+          "https://docs.notifly.tech/llms.txt":
+            "- [Offline Guide](https://docs.notifly.tech/ko/offline): Offline setup",
+          "https://docs.notifly.tech/ko/offline": "<html><body>Offline body</body></html>",
+        })
+      );
+      const snapshot = await loadSnapshot(file);
+
+      const { text: result } = await docsSearchTool.handler({ query: "offline" }, { snapshot });
+
+      expect(result).toContain("Offline Guide");
+      expect(result).toContain("Offline body");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should answer search_sdk without touching the network", async () => {
+      const file = path.join(dir, "snapshot.json.gz");
+      await writeSnapshot(
+        file,
+        archive({
+          [MAPPING_LLMS_URL]: `- [iOS](${IOS_LLMS})`,
+          [IOS_LLMS]: `# Platform: iOS\n- [Notifly Main Entry](${IOS_FILE}): Entry point`,
+          [IOS_FILE]: "public class Notifly {}",
+        })
+      );
+      const snapshot = await loadSnapshot(file);
+
+      const { text: result } = await sdkSearchTool.handler(
+        { query: "notifly", platform: "ios", maxResults: 1 },
+        { snapshot }
+      );
+
+      expect(result).toContain("Notifly Main Entry");
+      expect(result).toContain("public class Notifly {}");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should report pages missing from the snapshot", async () => {
+      const file = path.join(dir, "snapshot.json.gz");
+      await writeSnapshot(
+        file,
+        archive({
+          "https://docs.notifly.tech/llms.txt":
+            "- [Missing Page](https://docs.notifly.tech/ko/missing): Not captured",
+        })
+      );
+      const snapshot = await loadSnapshot(file);
+
+      const { text: result } = await docsSearchTool.handler({ query: "missing" }, { snapshot });
+
+      expect(result).toContain("Missing Page");
+      expect(result).toContain("not found");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
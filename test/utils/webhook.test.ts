@@ -0,0 +1,110 @@
+/**
+ * Webhook Verification Tests
+ *
+ * Tests signature verification, the replay window and payload schemas.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  signWebhook,
+  validateWebhookPayload,
+  verifyWebhookSignature,
+} from "../../src/utils/webhook.js";
+
+const SECRET = "whsec_test";
+const NOW = new Date("2024-05-01T00:00:00Z");
+const TIMESTAMP = NOW.getTime() / 1000;
+
+const EVENT = {
+  id: "evt_1",
+  type: "message.clicked",
+  projectId: "p1",
+  createdAt: "2024-05-01T00:00:00Z",
+  data: {
+    campaignId: "c1",
+    messageId: "m1",
+    channel: "push",
+    userId: "user-1",
+    url: "https://example.com/sale",
+  },
+};
+
+describe("Webhook Verification", () => {
+  it("should accept a correctly signed delivery", () => {
+    const body = JSON.stringify(EVENT);
+    const headers = {
+      "X-Notifly-Signature": `sha256=${signWebhook(SECRET, TIMESTAMP, body)}`,
+      "X-Notifly-Timestamp": String(TIMESTAMP),
+    };
+
+    expect(verifyWebhookSignature(body, headers, SECRET, { now: NOW })).toEqual({
+      valid: true,
+      timestamp: TIMESTAMP,
+      ageSeconds: 0,
+    });
+  });
+
+  it("should reject wrong signatures, missing headers and old deliveries", () => {
+    const body = JSON.stringify(EVENT);
+    const signature = signWebhook(SECRET, TIMESTAMP, body);
+    const headers = { "x-notifly-signature": signature, "x-notifly-timestamp": String(TIMESTAMP) };
+
+    const reserialized = verifyWebhookSignature(JSON.stringify(EVENT, null, 2), headers, SECRET, {
+      now: NOW,
+    });
+    expect(reserialized.valid).toBe(false);
+    expect(reserialized.reason).toContain("raw request body");
+    expect(reserialized.expected).toMatch(/^sha256=[0-9a-f]{64}$/);
+
+    expect(verifyWebhookSignature(body, headers, "other", { now: NOW }).valid).toBe(false);
+    expect(
+      verifyWebhookSignature(body, { "x-notifly-signature": signature }, SECRET).reason
+    ).toContain("Missing x-notifly-timestamp");
+
+    // Same length as a hex signature but not hex; must not reach timingSafeEqual
+    for (const bad of ["é".repeat(64), `${signature.slice(0, 63)}é`, "z".repeat(64)]) {
+      const check = verifyWebhookSignature(
+        body,
+        { ...headers, "x-notifly-signature": bad },
+        SECRET,
+        { now: NOW }
+      );
+      expect(check.valid).toBe(false);
+      expect(check.reason).toContain("Signature does not match");
+    }
+
+    const later = new Date(NOW.getTime() + 600_000);
+    expect(verifyWebhookSignature(body, headers, SECRET, { now: later }).reason).toContain(
+      "600 seconds old"
+    );
+    expect(
+      verifyWebhookSignature(body, headers, SECRET, { now: later, toleranceSeconds: 0 }).valid
+    ).toBe(true);
+  });
+
+  it("should validate payloads against their event type", () => {
+    expect(validateWebhookPayload(JSON.stringify(EVENT))).toEqual({
+      event: EVENT,
+      type: "message.clicked",
+      issues: [],
+    });
+
+    const broken = {
+      ...EVENT,
+      type: "message.failed",
+      createdAt: "yesterday",
+      data: { ...EVENT.data, channel: "fax" },
+    };
+    const { issues } = validateWebhookPayload(JSON.stringify(broken));
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "createdAt",
+      "data.channel",
+      "data.errorCode",
+    ]);
+
+    expect(validateWebhookPayload("{").issues[0]!.message).toContain("not valid JSON");
+    expect(validateWebhookPayload('{"type":"message.bounced"}').issues[0]!.message).toContain(
+      'Unknown event type "message.bounced"'
+    );
+  });
+});
@@ -4,11 +4,16 @@ export default defineConfig({
   test: {
     globals: true,
     environment: "node",
+    env: {
+      // Tool tests script fetch responses call-by-call; retry behaviour is
+      // covered explicitly in test/utils/http-client.test.ts
+      MAX_API_RETRIES: "0",
+    },
     include: ["test/**/*.test.ts"], // Test files in test/ directory
     exclude: [
       "**/node_modules/**",
       "**/dist/**",
-      "**/resources/**", // Exclude reference materials
+      "resources/**", // Exclude top-level reference materials, not test/resources
       "**/.{idea,git,cache,output,temp}/**",
       "**/{karma,rollup,webpack,vite,vitest,jest,ava,babel,nyc,cypress,tsup,build}.config.*",
     ],